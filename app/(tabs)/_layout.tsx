@@ -1,7 +1,7 @@
 import { HapticTab } from '@/components/HapticTab';
 import TabBarBackground from '@/components/ui/TabBarBackground';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { CREATE_EVENT_DRAFT_KEY } from '@/app/(tabs)/create/create-event';
+import { CREATE_EVENT_DRAFT_KEY } from '@/lib/utils/eventDraftUtils';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Tabs, useRouter } from 'expo-router';
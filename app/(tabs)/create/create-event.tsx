@@ -1,17 +1,69 @@
+import { AgendaEditor } from '@/components/AgendaEditor';
 import { BackButton } from '@/components/BackButton';
+import { DescriptionEditor } from '@/components/DescriptionEditor';
 import { Modal } from '@/components/Modal';
+import { TicketTiersEditor } from '@/components/TicketTiersEditor';
+import { RefundPolicyEditor } from '@/components/RefundPolicyEditor';
+import { RecurrenceEditor } from '@/components/RecurrenceEditor';
+import { SalesWindowEditor } from '@/components/SalesWindowEditor';
+import { SpeakersEditor } from '@/components/SpeakersEditor';
 import { ButtonPrimary, ButtonSecondary } from '@/components/ui';
 import { DataInput } from '@/components/ui/DataInput';
+import {
+  refundPolicyToApi,
+  validateRefundPolicy,
+  type RefundPolicyFormData,
+} from '@/lib/utils/refundUtils';
+import {
+  recurrenceToApi,
+  toDateKey,
+  validateRecurrence,
+  type RecurrenceFormData,
+} from '@/lib/utils/recurrenceUtils';
+import {
+  agendaToApi,
+  speakersToApi,
+  validateAgenda,
+  validateSpeakers,
+  type AgendaItemFormData,
+  type SpeakerFormData,
+} from '@/lib/utils/eventProgramUtils';
+import {
+  validateSalesWindow,
+  type SalesWindowFormData,
+} from '@/lib/utils/salesWindowUtils';
 import { DataSelection } from '@/components/ui/DataSelection';
 import { authAPI } from '@/lib/api/auth';
 import { eventsAPI } from '@/lib/api/events';
+import { eventDraftsAPI } from '@/lib/api/eventDrafts';
 import { useAppStore } from '@/store/useAppStore';
 import { formatApiError } from '@/lib/utils/errorUtils';
+import {
+  CREATE_EVENT_DRAFT_KEY,
+  createEventFormData,
+  deleteEventTemplate,
+  deserializeDraft,
+  getEventTemplates,
+  isDraftEmpty,
+  migrateLocalDraft,
+  serializeDraft,
+  syncDraftToServer,
+  toImagePath,
+  type DraftData,
+  type EventFormData,
+  type EventTemplate,
+} from '@/lib/utils/eventDraftUtils';
+import {
+  summarizeTiers,
+  tiersToApi,
+  validateTiers,
+  type TierFormData,
+} from '@/lib/utils/ticketTierUtils';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import * as ImagePicker from 'expo-image-picker';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import {
@@ -29,25 +81,6 @@ import {
   View,
 } from 'react-native';
 
-interface EventFormData {
-  // Step 1 - Event Details
-  eventName: string;
-  eventDate: Date | null;
-  eventTime: string; // "HH:mm"
-  address: string;
-  category: string;
-  genderSelection: string;
-  description: string;
-  imageUri: string | null;
-  imageUrl: string | null; // for preview display
-  imagePath: string | null; // relative path for API (e.g. /uploads/events/xxx.jpg)
-  // Step 2 - Payment and Ticket
-  eventType: 'paid' | 'free';
-  ticketPrice: string;
-  totalTickets: string;
-  currency: string;
-}
-
 const GENDER_OPTIONS = ['All', 'Male', 'Female'] as const;
 
 /** Category options; optional, default "Other" */
@@ -86,65 +119,21 @@ function formatDateForDisplay(date: Date): string {
   return date.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' });
 }
 
-function toImagePath(urlOrPath: string): string | null {
-  if (!urlOrPath) return null;
-  if (urlOrPath.startsWith('/')) return urlOrPath; // Already a path
-  try {
-    return new URL(urlOrPath).pathname || null;
-  } catch {
-    const i = urlOrPath.indexOf('/uploads');
-    return i !== -1 ? urlOrPath.substring(i) : urlOrPath;
-  }
-}
-
-export const CREATE_EVENT_DRAFT_KEY = 'ticketly_create_event_draft';
-
-type DraftData = Omit<EventFormData, 'eventDate'> & { eventDate: string | null; step: 1 | 2 };
-
-function serializeDraft(formData: EventFormData, step: 1 | 2): DraftData {
-  return {
-    ...formData,
-    eventDate: formData.eventDate ? formData.eventDate.toISOString() : null,
-    step,
-  };
-}
-
-function deserializeDraft(raw: DraftData): { formData: EventFormData; step: 1 | 2 } | null {
-  if (!raw || typeof raw !== 'object') return null;
-  const eventDate = raw.eventDate ? (() => {
-    const d = new Date(raw.eventDate);
-    return isNaN(d.getTime()) ? null : d;
-  })() : null;
-  const step = raw.step === 1 || raw.step === 2 ? raw.step : 1;
-  return {
-    formData: {
-      eventName: String(raw.eventName ?? ''),
-      eventDate,
-      eventTime: String(raw.eventTime ?? '18:00'),
-      address: String(raw.address ?? ''),
-      category: String(raw.category ?? 'Other'),
-      genderSelection: String(raw.genderSelection ?? 'All'),
-      description: String(raw.description ?? ''),
-      imageUri: raw.imageUri ?? null,
-      imageUrl: raw.imageUrl ?? null,
-      imagePath: raw.imagePath ?? null,
-      eventType: raw.eventType === 'paid' ? 'paid' : 'free',
-      ticketPrice: String(raw.ticketPrice ?? ''),
-      totalTickets: String(raw.totalTickets ?? '100'),
-      currency: String(raw.currency ?? 'PKR'),
-    },
-    step,
-  };
-}
-
 export default function CreateEventScreen() {
   const router = useRouter();
+  /**
+   * draft: set by "Duplicate event" / Drafts so an already mounted screen reloads the working draft.
+   * draftId: server draft to resume (profile Drafts list).
+   */
+  const { draft: draftStamp, draftId: resumeDraftId } = useLocalSearchParams<{ draft?: string; draftId?: string }>();
   const insets = useSafeAreaInsets();
   const user = useAppStore((state) => state.user);
   const setUser = useAppStore((state) => state.setUser);
   const [step, setStep] = useState<1 | 2>(1);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+  const [showEndTimePicker, setShowEndTimePicker] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showPermissionModal, setShowPermissionModal] = useState(false);
@@ -155,7 +144,19 @@ export default function CreateEventScreen() {
   const [createdEventId, setCreatedEventId] = useState<string | null>(null);
   /** Per-field validation errors (shown when user taps Next or Submit with invalid data) */
   const [errors, setErrors] = useState<Partial<Record<keyof EventFormData, string>>>({});
+  /** Tier validation errors keyed by tier key */
+  const [tierErrors, setTierErrors] = useState<Record<string, string>>({});
+  /** Agenda / speaker validation errors keyed by item key */
+  const [agendaErrors, setAgendaErrors] = useState<Record<string, string>>({});
+  const [speakerErrors, setSpeakerErrors] = useState<Record<string, string>>({});
+  const [refundPolicyError, setRefundPolicyError] = useState<string | null>(null);
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
+  const [salesWindowError, setSalesWindowError] = useState<string | null>(null);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  /** Server draft the form syncs to; null until the first upload */
+  const [draftId, setDraftId] = useState<string | null>(null);
 
   useEffect(() => {
     const showSub = Keyboard.addListener(
@@ -172,76 +173,187 @@ export default function CreateEventScreen() {
     };
   }, []);
 
-  const initialFormData: EventFormData = {
-    eventName: '',
-    eventDate: null,
-    eventTime: '18:00',
-    address: '',
-    category: 'Other',
-    genderSelection: 'All',
-    description: '',
-    imageUri: null,
-    imageUrl: null,
-    imagePath: null,
-    eventType: 'free',
-    ticketPrice: '',
-    totalTickets: '100',
-    currency: 'PKR',
-  };
+  const initialFormData = createEventFormData();
   const [formData, setFormData] = useState<EventFormData>(initialFormData);
 
   const stepRef = useRef(step);
   stepRef.current = step;
 
+  const draftIdRef = useRef(draftId);
+  draftIdRef.current = draftId;
+
   const draftLoadedRef = useRef(false);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const serverSyncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Server syncs run one at a time so a new draft is only created once */
+  const serverSyncRef = useRef<Promise<void>>(Promise.resolve());
+  /** Bumped when the event is created; syncs queued for the old form are dropped */
+  const syncGenerationRef = useRef(0);
+
+  // Upload the form to the server draft (logged-in users only; empty forms are skipped)
+  const syncDraft = useCallback((data: EventFormData, s: 1 | 2) => {
+    const generation = syncGenerationRef.current;
+    serverSyncRef.current = serverSyncRef.current.then(async () => {
+      if (generation !== syncGenerationRef.current) return;
+      if (!useAppStore.getState().isAuthenticated || isDraftEmpty(data)) return;
+      try {
+        const id = await syncDraftToServer(data, s, draftIdRef.current);
+        if (generation !== syncGenerationRef.current) return;
+        if (id !== draftIdRef.current) {
+          draftIdRef.current = id;
+          setDraftId(id);
+          AsyncStorage.setItem(CREATE_EVENT_DRAFT_KEY, JSON.stringify(serializeDraft(data, s, id))).catch(() => {});
+        }
+      } catch (err) {
+        console.warn('Failed to sync event draft:', err);
+      }
+    });
+    return serverSyncRef.current;
+  }, []);
+
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+
+  /** Sends a pending server sync right away (before switching drafts) */
+  const flushDraftSync = useCallback(() => {
+    if (!serverSyncTimeoutRef.current) return serverSyncRef.current;
+    clearTimeout(serverSyncTimeoutRef.current);
+    serverSyncTimeoutRef.current = null;
+    return syncDraft(formDataRef.current, stepRef.current);
+  }, [syncDraft]);
 
-  // Load draft from AsyncStorage on mount
+  // Load the working draft on mount, when a duplicated event replaces it, or when a server draft is resumed
   useEffect(() => {
     let cancelled = false;
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    draftLoadedRef.current = false;
+    const applyDraft = (restored: NonNullable<ReturnType<typeof deserializeDraft>>, id: string | null) => {
+      setFormData(restored.formData);
+      setStep(restored.step);
+      setDraftId(id);
+      setErrors({});
+    };
     (async () => {
       try {
-        const raw = await AsyncStorage.getItem(CREATE_EVENT_DRAFT_KEY);
-        if (cancelled || !raw) {
-          draftLoadedRef.current = true;
+        if (resumeDraftId) {
+          // Keep the current working copy in Drafts before replacing it
+          await migrateLocalDraft().catch(() => null);
+          const response = await eventDraftsAPI.getDraftById(resumeDraftId);
+          const restored = response.success ? deserializeDraft(response.draft.data) : null;
+          if (!cancelled && restored) {
+            applyDraft(restored, response.draft._id);
+            await AsyncStorage.setItem(
+              CREATE_EVENT_DRAFT_KEY,
+              JSON.stringify(serializeDraft(restored.formData, restored.step, response.draft._id))
+            );
+          }
           return;
         }
+        const raw = await AsyncStorage.getItem(CREATE_EVENT_DRAFT_KEY);
+        if (cancelled || !raw) return;
         const parsed = JSON.parse(raw) as DraftData;
         const restored = deserializeDraft(parsed);
-        if (!cancelled && restored) {
-          setFormData(restored.formData);
-          setStep(restored.step);
-        }
+        if (!cancelled && restored) applyDraft(restored, restored.draftId);
       } catch (_) {}
       finally {
         if (!cancelled) draftLoadedRef.current = true;
       }
     })();
     return () => { cancelled = true; };
-  }, []);
+  }, [draftStamp, resumeDraftId]);
+
+  // The tab stays mounted; templates saved from an event's page show up when it is focused again
+  useFocusEffect(
+    useCallback(() => {
+      getEventTemplates().then(setTemplates);
+    }, [])
+  );
 
-  // Debounced save draft when formData or step changes (only after initial load)
+  // Debounced save draft when formData or step changes (only after initial load): locally right away, server less often
   const saveDraft = useCallback((data: EventFormData, s: 1 | 2) => {
-    const payload = serializeDraft(data, s);
+    const payload = serializeDraft(data, s, draftIdRef.current);
     AsyncStorage.setItem(CREATE_EVENT_DRAFT_KEY, JSON.stringify(payload)).catch(() => {});
   }, []);
-  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   useEffect(() => {
     if (!draftLoadedRef.current) return;
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    if (serverSyncTimeoutRef.current) clearTimeout(serverSyncTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => {
       saveTimeoutRef.current = null;
       saveDraft(formData, stepRef.current);
     }, 400);
+    serverSyncTimeoutRef.current = setTimeout(() => {
+      serverSyncTimeoutRef.current = null;
+      syncDraft(formData, stepRef.current);
+    }, 2000);
     return () => {
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     };
-  }, [formData, step, saveDraft]);
+  }, [formData, step, saveDraft, syncDraft]);
+
+  // Leaving the screen: send the last edits instead of dropping the pending sync
+  useEffect(() => () => { flushDraftSync(); }, [flushDraftSync]);
 
   const handleInputChange = (field: keyof EventFormData, value: string | Date | null) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     if (errors[field]) setErrors((prev) => ({ ...prev, [field]: undefined }));
   };
 
+  /** Templates carry no dates; the organizer picks new ones on step 1. Starts a new draft; the current one stays in Drafts. */
+  const applyTemplate = async (template: EventTemplate) => {
+    const restored = deserializeDraft(template.draft);
+    setShowTemplates(false);
+    if (!restored) return;
+    await flushDraftSync();
+    setDraftId(null);
+    setFormData({ ...restored.formData, eventDate: null, endDate: null });
+    setStep(1);
+    setErrors({});
+  };
+
+  /** Blank form as a new draft; the current one stays in Drafts (profile, Created Events) */
+  const handleNewDraft = async () => {
+    await flushDraftSync();
+    setDraftId(null);
+    setFormData(createEventFormData());
+    setStep(1);
+    setErrors({});
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    setTemplates(await deleteEventTemplate(id));
+  };
+
+  const handleRecurrenceChange = (recurrence: RecurrenceFormData) => {
+    setFormData((prev) => ({ ...prev, recurrence }));
+    if (recurrenceError) setRecurrenceError(null);
+  };
+
+  const handleSalesWindowChange = (salesWindow: SalesWindowFormData) => {
+    setFormData((prev) => ({ ...prev, salesWindow }));
+    if (salesWindowError) setSalesWindowError(null);
+  };
+
+  const handleRefundPolicyChange = (refundPolicy: RefundPolicyFormData) => {
+    setFormData((prev) => ({ ...prev, refundPolicy }));
+    if (refundPolicyError) setRefundPolicyError(null);
+  };
+
+  const handleAgendaChange = (agenda: AgendaItemFormData[]) => {
+    setFormData((prev) => ({ ...prev, agenda }));
+    if (Object.keys(agendaErrors).length > 0) setAgendaErrors({});
+  };
+
+  const handleSpeakersChange = (update: (speakers: SpeakerFormData[]) => SpeakerFormData[]) => {
+    setFormData((prev) => ({ ...prev, speakers: update(prev.speakers) }));
+    if (Object.keys(speakerErrors).length > 0) setSpeakerErrors({});
+  };
+
+  const handleTiersChange = (tiers: TierFormData[]) => {
+    setFormData((prev) => ({ ...prev, tiers }));
+    if (Object.keys(tierErrors).length > 0) setTierErrors({});
+  };
+
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -298,8 +410,24 @@ export default function CreateEventScreen() {
     if (!formData.eventTime?.trim()) nextErrors.eventTime = 'Start time is required';
     if (!formData.genderSelection?.trim()) nextErrors.genderSelection = 'Gender is required';
     if (formData.description.trim().length < 10) nextErrors.description = 'Description must be at least 10 characters';
+    if (formData.eventDate && (formData.endDate || formData.endTime)) {
+      const startKey = `${toDateKey(formData.eventDate)} ${formData.eventTime}`;
+      const endKey = `${toDateKey(formData.endDate ?? formData.eventDate)} ${formData.endTime || '23:59'}`;
+      if (endKey <= startKey) nextErrors.endDate = 'The event must end after it starts';
+    }
+    const nextRecurrenceError = validateRecurrence(formData.recurrence, formData.eventDate);
+    const nextAgendaErrors = validateAgenda(formData.agenda);
+    const nextSpeakerErrors = validateSpeakers(formData.speakers);
+    setRecurrenceError(nextRecurrenceError);
+    setAgendaErrors(nextAgendaErrors);
+    setSpeakerErrors(nextSpeakerErrors);
     setErrors((prev) => ({ ...prev, ...nextErrors }));
-    return Object.keys(nextErrors).length === 0;
+    return (
+      Object.keys(nextErrors).length === 0 &&
+      !nextRecurrenceError &&
+      Object.keys(nextAgendaErrors).length === 0 &&
+      Object.keys(nextSpeakerErrors).length === 0
+    );
   };
 
   const handleNext = () => {
@@ -307,28 +435,33 @@ export default function CreateEventScreen() {
     setStep(2);
   };
 
-  /** Step 2: when paid, price and currency (PKR) required. */
+  /** Step 2: when paid, at least one tier with a price; full validation on submit. */
   const step2Valid =
     formData.eventType === 'free' ||
     (formData.eventType === 'paid' &&
-      formData.ticketPrice.trim() !== '' &&
-      !Number.isNaN(Number(formData.ticketPrice)) &&
-      Number(formData.ticketPrice) >= 0);
+      formData.tiers.length > 0 &&
+      formData.tiers.every((t) => t.price.trim() !== ''));
 
   const handleSubmit = async () => {
     if (formData.eventType === 'paid') {
-      const parsed = Number(formData.ticketPrice);
-      if (formData.ticketPrice.trim() === '' || Number.isNaN(parsed) || parsed < 0) {
-        setErrors((prev) => ({ ...prev, ticketPrice: 'Cost per ticket is required' }));
+      const nextTierErrors = validateTiers(formData.tiers);
+      if (Object.keys(nextTierErrors).length > 0) {
+        setTierErrors(nextTierErrors);
         return;
       }
-      const tickets = parseInt(formData.totalTickets, 10);
-      if (Number.isNaN(tickets) || tickets < 1) {
-        setErrors((prev) => ({ ...prev, totalTickets: 'Enter a valid number of tickets' }));
+      const nextRefundPolicyError = validateRefundPolicy(formData.refundPolicy, formData.eventDate);
+      if (nextRefundPolicyError) {
+        setRefundPolicyError(nextRefundPolicyError);
         return;
       }
     }
+    const nextSalesWindowError = validateSalesWindow(formData.salesWindow);
+    if (nextSalesWindowError) {
+      setSalesWindowError(nextSalesWindowError);
+      return;
+    }
     setErrors({});
+    setTierErrors({});
 
     setLoading(true);
     try {
@@ -358,19 +491,27 @@ export default function CreateEventScreen() {
       }
 
       const eventDate = formData.eventDate!;
-      const dateStr = eventDate.toISOString().split('T')[0];
+      // Local calendar day; recurrence dates are generated from it
+      const dateStr = toDateKey(eventDate);
       const [hours, minutes] = formData.eventTime.split(':');
       const timeStr = `${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}`;
 
-      const totalTickets = formData.eventType === 'free' ? undefined : parseInt(formData.totalTickets, 10) || 100;
-      const ticketPrice = formData.eventType === 'free' ? 0 : Number(formData.ticketPrice);
+      const ticketTiers = formData.eventType === 'free' ? undefined : tiersToApi(formData.tiers, formData.currency);
+      const { ticketPrice, totalTickets } = ticketTiers
+        ? summarizeTiers(ticketTiers)
+        : { ticketPrice: 0, totalTickets: undefined };
 
       const response = await eventsAPI.createEvent({
         title: formData.eventName.trim(),
         date: dateStr,
         time: timeStr,
+        endDate: formData.endDate ? toDateKey(formData.endDate) : undefined,
+        endTime: formData.endTime || undefined,
+        recurrence: recurrenceToApi(formData.recurrence, eventDate),
         location: formData.address.trim() || undefined,
         description: formData.description.trim() || undefined,
+        agenda: agendaToApi(formData.agenda),
+        speakers: speakersToApi(formData.speakers),
         image: imageToSend,
         email: user?.email || '',
         phone: user?.phone || undefined,
@@ -378,10 +519,25 @@ export default function CreateEventScreen() {
         category: (formData.category?.trim() || 'Other').toLowerCase() || 'other',
         ticketPrice,
         totalTickets,
+        ticketTiers,
+        refundPolicy: ticketTiers ? refundPolicyToApi(formData.refundPolicy) : undefined,
+        ticketTheme: formData.ticketTheme ?? undefined,
+        ...formData.salesWindow,
       });
 
       if (response.success) {
+        // The event replaces its draft: let a sync in flight finish (it may be creating the draft), then drop later ones
+        if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+        if (serverSyncTimeoutRef.current) clearTimeout(serverSyncTimeoutRef.current);
+        saveTimeoutRef.current = null;
+        serverSyncTimeoutRef.current = null;
+        await serverSyncRef.current;
+        syncGenerationRef.current += 1;
         await AsyncStorage.removeItem(CREATE_EVENT_DRAFT_KEY);
+        const usedDraftId = draftIdRef.current;
+        draftIdRef.current = null;
+        setDraftId(null);
+        if (usedDraftId) eventDraftsAPI.deleteDraft(usedDraftId).catch(() => {});
         setFormData(initialFormData);
         setStep(1);
         setErrors({});
@@ -420,6 +576,13 @@ export default function CreateEventScreen() {
     return x;
   })();
 
+  const endTimePickerValue = (() => {
+    const [h, m] = (formData.endTime || formData.eventTime).split(':').map(Number);
+    const x = new Date(formData.endDate || formData.eventDate || new Date());
+    x.setHours(isNaN(h) ? 22 : h, isNaN(m) ? 0 : m, 0, 0);
+    return x;
+  })();
+
   const inputRow = 'bg-gray-50 rounded-xl py-2 px-3 flex-row items-center gap-2 border border-gray-200';
   const iconWrap = 'w-8 h-8 rounded-full bg-gray-200 items-center justify-center';
   const labelClass = 'text-gray-900 text-sm font-medium mb-1.5';
@@ -461,6 +624,32 @@ export default function CreateEventScreen() {
       >
         {step === 1 && (
           <>
+            {!isDraftEmpty(formData) && (
+              <View className="flex-row items-center justify-between mb-3">
+                <View className="flex-row items-center">
+                  <MaterialIcons name={draftId ? 'cloud-done' : 'cloud-queue'} size={14} color="#6B7280" />
+                  <Text className="text-gray-500 text-xs ml-1">
+                    {draftId ? 'Saved to your drafts' : 'Saved on this device'}
+                  </Text>
+                </View>
+                <TouchableOpacity className="flex-row items-center" onPress={handleNewDraft}>
+                  <MaterialIcons name="note-add" size={14} color="#DC2626" />
+                  <Text className="text-primary text-xs font-semibold ml-1">New draft</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {templates.length > 0 && (
+              <TouchableOpacity
+                className="flex-row items-center bg-gray-50 border border-gray-200 rounded-xl px-3 py-2.5 mb-4"
+                onPress={() => setShowTemplates(true)}
+              >
+                <MaterialIcons name="content-copy" size={16} color="#DC2626" />
+                <Text className="text-gray-900 text-sm font-medium flex-1 ml-2">Start from a template</Text>
+                <Text className="text-gray-500 text-xs mr-1">{templates.length}</Text>
+                <MaterialIcons name="chevron-right" size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            )}
+
             {/* Image / Video upload */}
             <TouchableOpacity
               onPress={pickImage}
@@ -596,6 +785,100 @@ export default function CreateEventScreen() {
               </View>
             )}
 
+            <View className="flex-row gap-2 mb-3">
+              <View className="flex-1">
+                <Text className={labelClass}>End Date <Text className="text-[#6B7280]">(optional)</Text></Text>
+                <TouchableOpacity
+                  className={`${inputRow} ${errors.endDate ? 'border-[#EF4444]' : ''}`}
+                  onPress={() => setShowEndDatePicker(true)}
+                >
+                  <View className={iconWrap}>
+                    <MaterialIcons name="event" size={18} color="#9CA3AF" />
+                  </View>
+                  <Text className={`text-sm flex-1 ${formData.endDate ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+                    {formData.endDate ? formatDateForDisplay(formData.endDate) : 'Same day'}
+                  </Text>
+                  {formData.endDate ? (
+                    <TouchableOpacity onPress={() => handleInputChange('endDate', null)}>
+                      <MaterialIcons name="close" size={16} color="#9CA3AF" />
+                    </TouchableOpacity>
+                  ) : null}
+                </TouchableOpacity>
+              </View>
+              <View className="flex-1">
+                <Text className={labelClass}>End Time <Text className="text-[#6B7280]">(optional)</Text></Text>
+                <TouchableOpacity
+                  className={`${inputRow} ${errors.endDate ? 'border-[#EF4444]' : ''}`}
+                  onPress={() => setShowEndTimePicker(true)}
+                >
+                  <View className={iconWrap}>
+                    <MaterialIcons name="schedule" size={18} color="#9CA3AF" />
+                  </View>
+                  <Text className={`text-sm flex-1 ${formData.endTime ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+                    {formData.endTime || '--:--'}
+                  </Text>
+                  {formData.endTime ? (
+                    <TouchableOpacity onPress={() => handleInputChange('endTime', '')}>
+                      <MaterialIcons name="close" size={16} color="#9CA3AF" />
+                    </TouchableOpacity>
+                  ) : null}
+                </TouchableOpacity>
+              </View>
+            </View>
+            {errors.endDate ? <Text className="text-[#EF4444] text-xs -mt-2 mb-3">{errors.endDate}</Text> : null}
+
+            {showEndDatePicker && (
+              <View className="mb-4">
+                {Platform.OS === 'ios' && (
+                  <View className="flex-row justify-end gap-2 mb-2">
+                    <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setShowEndDatePicker(false)}>
+                      <Text className="text-white text-sm font-semibold">Done</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                <DateTimePicker
+                  value={formData.endDate || formData.eventDate || new Date()}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  minimumDate={formData.eventDate || new Date()}
+                  onChange={(event, selectedDate) => {
+                    if (Platform.OS === 'android') {
+                      setShowEndDatePicker(false);
+                      if (event.type === 'set' && selectedDate) handleInputChange('endDate', selectedDate);
+                    } else if (selectedDate) handleInputChange('endDate', selectedDate);
+                  }}
+                />
+              </View>
+            )}
+
+            {showEndTimePicker && (
+              <View className="mb-4">
+                {Platform.OS === 'ios' && (
+                  <View className="flex-row justify-end gap-2 mb-2">
+                    <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setShowEndTimePicker(false)}>
+                      <Text className="text-white text-sm font-semibold">Done</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                <DateTimePicker
+                  value={endTimePickerValue}
+                  mode="time"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={(event, selectedDate) => {
+                    if (Platform.OS === 'android') setShowEndTimePicker(false);
+                    if (selectedDate) handleInputChange('endTime', formatTime(selectedDate));
+                  }}
+                />
+              </View>
+            )}
+
+            <RecurrenceEditor
+              value={formData.recurrence}
+              onChange={handleRecurrenceChange}
+              error={recurrenceError ?? undefined}
+              startDate={formData.eventDate}
+            />
+
             <Text className={labelClass}>Address <Text className="text-[#6B7280]">(optional)</Text></Text>
             <View className={`${inputRow} mb-3`}>
               <View className={iconWrap}>
@@ -627,17 +910,18 @@ export default function CreateEventScreen() {
               className="mb-3"
             />
 
-            <DataInput
+            <DescriptionEditor
               label="Description (min 10 characters)"
-              placeholder="description"
               value={formData.description}
-              onChangeText={(v) => handleInputChange('description', v)}
-              multiline
-              textAlignVertical="top"
+              onChange={(v) => handleInputChange('description', v)}
               error={errors.description}
               className="mb-6"
             />
 
+            <AgendaEditor items={formData.agenda} onChange={handleAgendaChange} errors={agendaErrors} />
+
+            <SpeakersEditor speakers={formData.speakers} onChange={handleSpeakersChange} errors={speakerErrors} />
+
             <ButtonPrimary
              size="lg"     
               onPress={handleNext}
@@ -663,15 +947,6 @@ export default function CreateEventScreen() {
 
             {formData.eventType === 'paid' && (
               <>
-                <DataInput
-                  label="Cost Per Ticket"
-                  placeholder="e.g. 600"
-                  value={formData.ticketPrice}
-                  onChangeText={(v) => handleInputChange('ticketPrice', v)}
-                  error={errors.ticketPrice}
-                  keyboardType="numeric"
-                  className="mb-3"
-                />
                 <DataSelection
                   label="Select Currency"
                   value={formData.currency}
@@ -684,18 +959,39 @@ export default function CreateEventScreen() {
                   getLabel={(v) => CURRENCY_OPTIONS.find((c) => c.code === v)?.label ?? v}
                   className="mb-4"
                 />
-                <DataInput
-                  label="Total Tickets"
-                  placeholder="e.g. 100"
-                  value={formData.totalTickets}
-                  onChangeText={(v) => handleInputChange('totalTickets', v)}
-                  error={errors.totalTickets}
-                  keyboardType="numeric"
-                  className="mb-4"
+                <TicketTiersEditor
+                  tiers={formData.tiers}
+                  onChange={handleTiersChange}
+                  errors={tierErrors}
+                  currency={formData.currency}
+                />
+                <RefundPolicyEditor
+                  value={formData.refundPolicy}
+                  onChange={handleRefundPolicyChange}
+                  error={refundPolicyError ?? undefined}
+                  eventDate={formData.eventDate}
                 />
               </>
             )}
 
+            <SalesWindowEditor
+              value={formData.salesWindow}
+              onChange={handleSalesWindowChange}
+              error={salesWindowError ?? undefined}
+            />
+
+            {formData.ticketTheme && (
+              <View className="flex-row items-center bg-gray-50 border border-gray-200 rounded-xl px-3 py-2.5 mb-4">
+                <MaterialIcons name="style" size={16} color="#6B7280" />
+                <Text className="text-gray-700 text-xs flex-1 ml-2">
+                  Ticket design copied from the original event. You can change it after posting.
+                </Text>
+                <TouchableOpacity onPress={() => setFormData((prev) => ({ ...prev, ticketTheme: null }))} hitSlop={8}>
+                  <MaterialIcons name="close" size={16} color="#6B7280" />
+                </TouchableOpacity>
+              </View>
+            )}
+
             <ButtonPrimary
               size="lg"
               onPress={handleSubmit}
@@ -709,6 +1005,47 @@ export default function CreateEventScreen() {
         )}
       </ScrollView>
 
+      {/* Saved templates */}
+      <RNModal
+        visible={showTemplates}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowTemplates(false)}
+      >
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={() => setShowTemplates(false)}>
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">Start from a template</Text>
+            <Text className="text-gray-600 text-xs text-center mb-3">
+              Replaces what you have entered so far. Pick a new date afterwards.
+            </Text>
+            <ScrollView style={{ maxHeight: 320 }}>
+              {templates.map((template) => (
+                <View key={template.id} className="flex-row items-center border-b border-gray-100 py-2.5">
+                  <TouchableOpacity className="flex-1 min-w-0" onPress={() => applyTemplate(template)}>
+                    <Text className="text-gray-900 text-sm font-semibold" numberOfLines={1}>{template.name}</Text>
+                    <Text className="text-gray-500 text-xs" numberOfLines={1}>
+                      {template.draft.eventName || 'Untitled'} · saved {new Date(template.createdAt).toLocaleDateString()}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteTemplate(template.id)} hitSlop={8} className="ml-2">
+                    <MaterialIcons name="delete-outline" size={18} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              className="mt-3 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+              onPress={() => setShowTemplates(false)}
+            >
+              <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
       <Modal
         visible={showSuccessModal}
         onClose={handleSuccessClose}
@@ -12,6 +12,8 @@ import AnimatedReanimated, {
   cancelAnimation,
 } from 'react-native-reanimated';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import { getEventDateKeys, getNextEventDate } from '@/lib/utils/recurrenceUtils';
+import { getSalesStatus, isEventPublished } from '@/lib/utils/salesWindowUtils';
 import {
   Animated,
   Easing,
@@ -70,7 +72,8 @@ const convertEvent = (apiEvent: Event): AppEvent => {
     id: apiEvent._id,
     title: apiEvent.title,
     description: apiEvent.description ?? '',
-    date: apiEvent.date,
+    date: getNextEventDate(apiEvent),
+    dateKeys: getEventDateKeys(apiEvent),
     time: apiEvent.time,
     venue: location,
     city: location.split(',')[0] || location,
@@ -89,6 +92,9 @@ const convertEvent = (apiEvent: Event): AppEvent => {
       avatarUrl: getProfileImageUrl({ profileImageUrl: user.profileImageUrl }) || undefined,
     })),
     joinedCount: apiEvent.joinedCount ?? (apiEvent.joinedUsers?.length ?? 0),
+    salesStatus: getSalesStatus(apiEvent),
+    salesOpenAt: apiEvent.salesOpenAt ?? null,
+    salesCloseAt: apiEvent.salesCloseAt ?? null,
   };
 };
 
@@ -172,7 +178,7 @@ export default function ExploreScreen() {
       if (hadCache || showRefreshing) setIsBackgroundFetching(true);
       const response = await eventsAPI.getApprovedEvents();
       if (response.success && response.events) {
-        const convertedEvents = response.events.map(convertEvent);
+        const convertedEvents = response.events.filter((e) => isEventPublished(e)).map(convertEvent);
         await setCached(CACHE_KEYS.EVENTS_APPROVED, convertedEvents);
         setEvents(convertedEvents);
       }
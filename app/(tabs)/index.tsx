@@ -9,6 +9,8 @@ import type { Event, SuggestedAccount } from '@/lib/api/events';
 import { eventsAPI } from '@/lib/api/events';
 import { CACHE_KEYS, getCached, setCached } from '@/lib/cache';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import { getEventDateKeys, getNextEventDate } from '@/lib/utils/recurrenceUtils';
+import { getSalesStatus, isEventPublished } from '@/lib/utils/salesWindowUtils';
 import { useAppStore } from '@/store/useAppStore';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -55,7 +57,7 @@ function isSameDay(a: Date, b: Date): boolean {
 }
 
 function eventMatchesFilter(
-  event: { id: string; date: string },
+  event: { id: string; date: string; dateKeys?: string[] },
   filter: HomeFilter,
   userId?: string,
   joinedEventIds?: string[]
@@ -66,12 +68,13 @@ function eventMatchesFilter(
     return joinedEventIds.includes(event.id);
   }
   if (filter === 'today') {
-    const parts = event.date.split('-').map(Number);
-    const eventDate = new Date(parts[0], (parts[1] || 1) - 1, parts[2] || 1);
-    eventDate.setHours(0, 0, 0, 0);
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    return isSameDay(eventDate, today);
+    return (event.dateKeys ?? [event.date]).some((date) => {
+      const parts = date.split('-').map(Number);
+      const eventDate = new Date(parts[0], (parts[1] || 1) - 1, parts[2] || 1);
+      return isSameDay(eventDate, today);
+    });
   }
   return true;
 }
@@ -110,7 +113,8 @@ const convertEvent = (apiEvent: Event) => {
     id: apiEvent._id,
     title: apiEvent.title,
     description: apiEvent.description ?? '',
-    date: apiEvent.date,
+    date: getNextEventDate(apiEvent),
+    dateKeys: getEventDateKeys(apiEvent),
     time: apiEvent.time,
     venue: location,
     city: location.split(',')[0] || location,
@@ -129,6 +133,9 @@ const convertEvent = (apiEvent: Event) => {
       avatarUrl: getProfileImageUrl({ profileImageUrl: user.profileImageUrl }) || undefined,
     })),
     joinedCount: apiEvent.joinedCount ?? (apiEvent.joinedUsers?.length ?? 0),
+    salesStatus: getSalesStatus(apiEvent),
+    salesOpenAt: apiEvent.salesOpenAt ?? null,
+    salesCloseAt: apiEvent.salesCloseAt ?? null,
   };
 };
 
@@ -238,14 +245,14 @@ export default function HomeScreen() {
       if (hadCache || showRefreshing) setIsBackgroundFetching(true);
       const response = await eventsAPI.getApprovedEvents();
       if (response.success && response.events) {
-        const convertedEvents = response.events.map(convertEvent);
+        const convertedEvents = response.events.filter((e) => isEventPublished(e)).map(convertEvent);
         await setCached(CACHE_KEYS.EVENTS_APPROVED, convertedEvents);
         setEvents(convertedEvents);
         setUpcomingEvents(convertedEvents);
 
         // Personalized following feed + suggested accounts (only when logged-in backend includes them)
         if (response.suggestedData) {
-          const followingConverted = (response.suggestedData.events || []).map(convertEvent);
+          const followingConverted = (response.suggestedData.events || []).filter((e) => isEventPublished(e)).map(convertEvent);
           setFollowingEvents(followingConverted);
           setSuggestedAccounts(response.suggestedData.suggestedAccounts || []);
         } else {
@@ -1,5 +1,5 @@
 import { useBottomPadding } from '@/hooks/useBottomPadding';
-import { notificationsAPI, type NotificationItem } from '@/lib/api/notifications';
+import { NOTIFICATION_TYPES, notificationsAPI, type NotificationItem } from '@/lib/api/notifications';
 import { getEventImageUrl, getProfileImageUrl } from '@/lib/utils/imageUtils';
 import { useAppStore } from '@/store/useAppStore';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
@@ -47,6 +47,9 @@ function NotificationRow({
   const eventImageUrl = item.eventId
     ? getEventImageUrl({ image: item.eventId.image })
     : null;
+  const isAnnouncement = item.type === NOTIFICATION_TYPES.EVENT_ANNOUNCEMENT;
+  const isEventStatusChange =
+    item.type === NOTIFICATION_TYPES.EVENT_CANCELLED || item.type === NOTIFICATION_TYPES.EVENT_POSTPONED;
 
   return (
     <Pressable
@@ -57,7 +60,15 @@ function NotificationRow({
       android_ripple={{ color: 'rgba(0,0,0,0.05)' }}
     >
       <View className="w-10 h-10 rounded-full overflow-hidden bg-gray-200 items-center justify-center">
-        {avatarUrl ? (
+        {isAnnouncement ? (
+          <MaterialIcons name="campaign" size={22} color="#DC2626" />
+        ) : isEventStatusChange ? (
+          <MaterialIcons
+            name={item.type === NOTIFICATION_TYPES.EVENT_CANCELLED ? 'event-busy' : 'update'}
+            size={22}
+            color={item.type === NOTIFICATION_TYPES.EVENT_CANCELLED ? '#EF4444' : '#F59E0B'}
+          />
+        ) : avatarUrl ? (
           <Image source={{ uri: avatarUrl }} className="w-full h-full" resizeMode="cover" />
         ) : (
           <MaterialIcons name="person" size={22} color="#9CA3AF" />
@@ -70,6 +81,11 @@ function NotificationRow({
         >
           {item.title || item.body || `${actorName} — ${item.type}`}
         </Text>
+        {(isAnnouncement || isEventStatusChange) && item.title && item.body ? (
+          <Text className="text-gray-600 text-xs mt-0.5" numberOfLines={2}>
+            {item.body}
+          </Text>
+        ) : null}
         <Text className="text-gray-500 text-xs mt-0.5" numberOfLines={1}>
           {formatTimeAgo(item.createdAt)}
         </Text>
@@ -155,7 +171,32 @@ export default function NotificationsScreen() {
         });
       } catch (_) {}
     }
-    if (item.eventId?._id) {
+    const ticketId = typeof item.extra?.ticketId === 'string' ? item.extra.ticketId : null;
+    if (item.type === NOTIFICATION_TYPES.TICKET_TRANSFERRED_IN && ticketId) {
+      // Received ticket: open it directly so the new QR is one tap away
+      router.push(`/ticket/${ticketId}`);
+    } else if (
+      (item.type === NOTIFICATION_TYPES.PAYMENT_APPROVED || item.type === NOTIFICATION_TYPES.PAYMENT_REJECTED) &&
+      ticketId
+    ) {
+      // Payment reviewed: approved shows the QR, rejected shows the reason and the resubmit form
+      router.push(`/ticket/${ticketId}`);
+    } else if (
+      (item.type === NOTIFICATION_TYPES.REFUND_APPROVED || item.type === NOTIFICATION_TYPES.REFUND_REJECTED) &&
+      ticketId
+    ) {
+      // Refund reviewed: the ticket shows the outcome and organizer note
+      router.push(`/ticket/${ticketId}`);
+    } else if (
+      (item.type === NOTIFICATION_TYPES.EVENT_CANCELLED || item.type === NOTIFICATION_TYPES.EVENT_POSTPONED) &&
+      ticketId
+    ) {
+      // Cancelled / postponed: the ticket shows the banner, new date and refund status
+      router.push(`/ticket/${ticketId}`);
+    } else if (item.type === NOTIFICATION_TYPES.EVENT_ANNOUNCEMENT && item.eventId?._id) {
+      // Announcement: the event page lists every update in its announcements feed
+      router.push(`/event-details/${item.eventId._id}?returnTo=notifications&section=announcements`);
+    } else if (item.eventId?._id) {
       // Open event detail with explicit returnTo so back goes to Notifications
       router.push(`/event-details/${item.eventId._id}?returnTo=notifications`);
     } else if (item.actorUserId?._id) {
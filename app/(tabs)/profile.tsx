@@ -7,6 +7,10 @@ import { TabsRow } from '@/components/ui/Tabs';
 import { useBottomPadding } from '@/hooks/useBottomPadding';
 import { authAPI, PROFILE_CACHE_KEY, type PublicUserSummary } from '@/lib/api/auth';
 import { eventsAPI } from '@/lib/api/events';
+import { eventDraftsAPI, type EventDraft } from '@/lib/api/eventDrafts';
+import { eventTeamAPI } from '@/lib/api/eventTeam';
+import { EVENT_ROLE_LABELS } from '@/lib/utils/eventRoles';
+import { forgetLocalDraft, migrateLocalDraft } from '@/lib/utils/eventDraftUtils';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
 import { useAppStore } from '@/store/useAppStore';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
@@ -72,6 +76,7 @@ const convertEvent = (apiEvent: any, currentUserProfileImageUrl?: string | null)
       avatarUrl: getProfileImageUrl({ profileImageUrl: u.profileImageUrl }) || undefined,
     })),
     joinedCount: apiEvent.joinedCount ?? (apiEvent.joinedUsers?.length ?? 0),
+    myRole: apiEvent.myRole ?? null,
   };
 };
 
@@ -88,6 +93,9 @@ export default function ProfileScreen() {
   const [joinedEvents, setJoinedEvents] = useState<any[]>([]);
   const [joinedEventsData, setJoinedEventsData] = useState<any[]>([]); // Store full data with tickets
   const [likedEvents, setLikedEvents] = useState<any[]>([]);
+  /** Unfinished events, shown above Created Events */
+  const [drafts, setDrafts] = useState<EventDraft[]>([]);
+  const [draftToDelete, setDraftToDelete] = useState<EventDraft | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [uploadingCover, setUploadingCover] = useState(false);
   const [hasCheckedCache, setHasCheckedCache] = useState(false);
@@ -281,6 +289,7 @@ export default function ProfileScreen() {
         const currentUser = useAppStore.getState().user;
         if (currentUser?._id) {
           loadProfile(true, true);
+          loadDrafts();
         }
       })();
     }, [])
@@ -366,6 +375,36 @@ export default function ProfileScreen() {
   const onRefresh = () => {
     hasLoadedRef.current = false;
     loadProfile(true);
+    loadDrafts();
+  };
+
+  // Server drafts; a draft left on this device from before sync is uploaded first
+  const loadDrafts = async () => {
+    try {
+      await migrateLocalDraft().catch((err) => console.error('Failed to upload local draft:', err));
+      const response = await eventDraftsAPI.getMyDrafts();
+      if (response.success && response.drafts) setDrafts(response.drafts);
+    } catch (error: any) {
+      console.error('Failed to load drafts:', error);
+    }
+  };
+
+  const handleResumeDraft = (draft: EventDraft) => {
+    router.push({ pathname: '/create/create-event', params: { draftId: draft._id, draft: String(Date.now()) } });
+  };
+
+  const confirmDeleteDraft = async () => {
+    const draft = draftToDelete;
+    setDraftToDelete(null);
+    if (!draft) return;
+    try {
+      await eventDraftsAPI.deleteDraft(draft._id);
+      await forgetLocalDraft(draft._id);
+      setDrafts((prev) => prev.filter((d) => d._id !== draft._id));
+    } catch (error: any) {
+      setErrorModalMessage(error.response?.data?.message || 'Failed to delete draft');
+      setShowErrorModal(true);
+    }
   };
 
   // Load cached profile from local storage and apply to state (show immediately, no wait for API)
@@ -412,11 +451,22 @@ export default function ProfileScreen() {
       if (showLoading) {
         setLoading(true);
       }
-      const response = await eventsAPI.getMyEvents();
+      const [response, teamResponse] = await Promise.all([
+        eventsAPI.getMyEvents(),
+        // Events the user helps run (co-organizer, door staff, finance); optional
+        eventTeamAPI.getMyTeamEvents().catch((err) => {
+          console.error('Failed to load team events:', err);
+          return null;
+        }),
+      ]);
       if (response.success && response.events) {
         const profileImg = user ? getProfileImageUrl(user as any) : null;
         const converted = response.events.map((apiEvent: any) => convertEvent(apiEvent, profileImg));
-        setMyEvents(converted);
+        const ownedIds = new Set(converted.map((e) => e.id));
+        const teamEvents = (teamResponse?.events || [])
+          .map((apiEvent: any) => convertEvent(apiEvent))
+          .filter((e) => !ownedIds.has(e.id));
+        setMyEvents([...converted, ...teamEvents]);
       }
     } catch (error: any) {
       console.error('Failed to load events:', error);
@@ -439,7 +489,7 @@ export default function ProfileScreen() {
     }
   };
 
-  // Use myEvents directly as created events (they're already filtered by the API)
+  // Created events plus events the user has a team role on (already filtered by the API)
   const createdEvents = myEvents;
 
   // Separate data for each tab (for horizontal pager – each page has its own list)
@@ -650,7 +700,15 @@ export default function ProfileScreen() {
     };
     return (
       <View className="flex-1">
-        <EventCard event={item} onPress={onPress} />
+        <EventCard
+          event={item}
+          onPress={onPress}
+          badge={
+            item._tab === 'created' && item.myRole && item.myRole !== 'owner'
+              ? { label: EVENT_ROLE_LABELS[item.myRole as keyof typeof EVENT_ROLE_LABELS], variant: 'info' }
+              : null
+          }
+        />
       </View>
     );
   };
@@ -818,6 +876,14 @@ export default function ProfileScreen() {
                     <MaterialIcons name="edit" size={20} color="#374151" />
                     <Text className="font-semibold text-sm text-gray-700">Edit profile</Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    className="flex-row items-center justify-center gap-2 py-2.5 px-4 rounded-full bg-gray-200"
+                    activeOpacity={0.8}
+                    onPress={() => router.push('/payments')}
+                  >
+                    <MaterialIcons name="receipt-long" size={20} color="#374151" />
+                    <Text className="font-semibold text-sm text-gray-700">Payments</Text>
+                  </TouchableOpacity>
                 </View>
               </View>
 
@@ -837,6 +903,32 @@ export default function ProfileScreen() {
     </>
   );
 
+  const draftsHeader = !loading && drafts.length > 0 ? (
+    <View className="px-2 pt-2 pb-1">
+      <Text className="text-gray-900 text-sm font-semibold mb-2">Drafts ({drafts.length})</Text>
+      {drafts.map((draft) => (
+        <TouchableOpacity
+          key={draft._id}
+          className="flex-row items-center bg-gray-50 border border-gray-200 rounded-xl px-3 py-2.5 mb-1.5"
+          onPress={() => handleResumeDraft(draft)}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="edit-note" size={20} color="#DC2626" />
+          <View className="flex-1 ml-2 min-w-0">
+            <Text className="text-gray-900 text-sm font-medium" numberOfLines={1}>{draft.name}</Text>
+            <Text className="text-gray-500 text-xs">
+              Edited {new Date(draft.updatedAt).toLocaleDateString()} · Step {draft.data?.step === 2 ? 2 : 1} of 2
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => setDraftToDelete(draft)} hitSlop={8} className="ml-2">
+            <MaterialIcons name="delete-outline" size={18} color="#EF4444" />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ))}
+      {createdEvents.length > 0 && <Text className="text-gray-900 text-sm font-semibold mt-2 mb-1">Events</Text>}
+    </View>
+  ) : null;
+
   const emptyCreated = !loading ? (
     <TouchableOpacity className="px-3 py-10 items-center" onPress={onRefresh} activeOpacity={0.7}>
       <Text className="text-[#6B7280] text-sm">No events created yet</Text>
@@ -908,6 +1000,7 @@ export default function ProfileScreen() {
             <FlatList
               key="created"
               data={createdListData}
+              ListHeaderComponent={draftsHeader}
               ListEmptyComponent={emptyCreated}
               {...listProps}
             />
@@ -959,6 +1052,16 @@ export default function ProfileScreen() {
         onPrimaryPress={() => setShowSuccessModal(false)}
         variant="success"
       />
+      <Modal
+        visible={draftToDelete !== null}
+        onClose={() => setDraftToDelete(null)}
+        title="Delete draft?"
+        message={`"${draftToDelete?.name ?? ''}" will be removed from all your devices.`}
+        primaryButtonText="Delete"
+        secondaryButtonText="Cancel"
+        onPrimaryPress={confirmDeleteDraft}
+        variant="info"
+      />
       <Modal
         visible={showLogoutModal}
         onClose={() => setShowLogoutModal(false)}
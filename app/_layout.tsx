@@ -88,6 +88,16 @@ export default function RootLayout() {
           <Stack.Screen name="event-details/[id]" />
           <Stack.Screen name="event-ticket-theme/[eventId]" />
           <Stack.Screen name="created-event-details/[id]" />
+          <Stack.Screen name="door-scan/[eventId]" />
+          <Stack.Screen name="payment-review/[eventId]" />
+          <Stack.Screen name="refund-requests/[eventId]" />
+          <Stack.Screen name="event-analytics/[eventId]" />
+          <Stack.Screen name="announcements/[eventId]" />
+          <Stack.Screen name="event-team/[eventId]" />
+          <Stack.Screen name="event-sessions/[eventId]" />
+          <Stack.Screen name="payments/index" />
+          <Stack.Screen name="payments/[id]" />
+          <Stack.Screen name="payments/callback" />
           <Stack.Screen name="edit-event/[id]" />
           <Stack.Screen name="user/[id]" />
           <Stack.Screen name="ticket/[id]" />
@@ -0,0 +1,342 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { eventsAPI, type TicketTier } from '@/lib/api/events';
+import {
+  announcementsAPI,
+  type Announcement,
+  type AnnouncementAudience,
+  type AnnouncementTicketStatus,
+} from '@/lib/api/announcements';
+import { getTierId } from '@/lib/utils/ticketTierUtils';
+
+type CheckInFilter = 'any' | 'yes' | 'no';
+
+interface AudienceTicket {
+  status: string;
+  email?: string;
+  user?: { _id: string } | null;
+  tier?: { _id: string } | null;
+}
+
+const STATUS_OPTIONS: { key: AnnouncementTicketStatus; label: string }[] = [
+  { key: 'confirmed', label: 'Confirmed' },
+  { key: 'used', label: 'Checked in' },
+  { key: 'payment_in_review', label: 'In review' },
+  { key: 'pending_payment', label: 'Pending payment' },
+];
+
+const CHECK_IN_OPTIONS: { key: CheckInFilter; label: string }[] = [
+  { key: 'any', label: 'Anyone' },
+  { key: 'yes', label: 'Checked in' },
+  { key: 'no', label: 'Not checked in' },
+];
+
+const TITLE_MAX = 80;
+const MESSAGE_MAX = 1000;
+
+// Mirrors the backend filter so the organizer sees the recipient count before sending
+function matchesAudience(ticket: AudienceTicket, audience: AnnouncementAudience): boolean {
+  if (ticket.status === 'cancelled') return false;
+  if (audience.statuses?.length && !audience.statuses.includes(ticket.status as AnnouncementTicketStatus)) return false;
+  if (audience.tierIds?.length && !(ticket.tier && audience.tierIds.includes(ticket.tier._id))) return false;
+  if (audience.checkedIn === true && ticket.status !== 'used') return false;
+  if (audience.checkedIn === false && ticket.status === 'used') return false;
+  return true;
+}
+
+function describeAudience(audience: AnnouncementAudience, tiers: TicketTier[]): string {
+  const parts: string[] = [];
+  if (audience.statuses?.length) {
+    parts.push(audience.statuses.map((s) => STATUS_OPTIONS.find((o) => o.key === s)?.label ?? s).join(', '));
+  }
+  if (audience.tierIds?.length) {
+    parts.push(audience.tierIds.map((id) => tiers.find((t) => getTierId(t) === id)?.name ?? 'Tier').join(', '));
+  }
+  if (audience.checkedIn === true) parts.push('checked in');
+  if (audience.checkedIn === false) parts.push('not checked in');
+  return parts.length ? parts.join(' · ') : 'All attendees';
+}
+
+// Announcements go to people, not tickets: a buyer holding several tickets is counted once
+function countRecipients(tickets: AudienceTicket[], audience: AnnouncementAudience): number {
+  const people = new Set<string>();
+  tickets.forEach((t, i) => {
+    if (matchesAudience(t, audience)) people.add(t.user?._id || t.email?.toLowerCase() || `ticket-${i}`);
+  });
+  return people.size;
+}
+
+export default function AnnouncementsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title: eventTitle } = useLocalSearchParams<{ eventId: string; title?: string }>();
+
+  const [tickets, setTickets] = useState<AudienceTicket[]>([]);
+  const [tiers, setTiers] = useState<TicketTier[]>([]);
+  const [history, setHistory] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statuses, setStatuses] = useState<AnnouncementTicketStatus[]>([]);
+  const [tierIds, setTierIds] = useState<string[]>([]);
+  const [checkIn, setCheckIn] = useState<CheckInFilter>('any');
+  const [title, setTitle] = useState('');
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchData = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const [eventRes, ticketsRes, announcementsRes] = await Promise.all([
+        eventsAPI.getEventById(String(eventId)),
+        eventsAPI.getTicketsByEventId(String(eventId)),
+        announcementsAPI.getEventAnnouncements(String(eventId)),
+      ]);
+      // Tickets reference tiers by id, so only saved tiers can be matched
+      if (eventRes.success) setTiers((eventRes.event.ticketTiers ?? []).filter((t) => t._id || t.id));
+      if (ticketsRes.success) setTickets(ticketsRes.tickets || []);
+      if (announcementsRes.success) {
+        setHistory(
+          [...(announcementsRes.announcements || [])].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          )
+        );
+      }
+    } catch (err: any) {
+      console.error('Error loading announcements:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load attendees');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchData();
+    setRefreshing(false);
+  };
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const audience: AnnouncementAudience = {
+    ...(statuses.length ? { statuses } : {}),
+    ...(tierIds.length ? { tierIds } : {}),
+    ...(checkIn !== 'any' ? { checkedIn: checkIn === 'yes' } : {}),
+  };
+  const recipientCount = countRecipients(tickets, audience);
+  const canSend = !!title.trim() && !!message.trim() && recipientCount > 0 && !sending;
+
+  const handleSend = async () => {
+    if (!eventId || !canSend) return;
+    try {
+      setSending(true);
+      const response = await announcementsAPI.sendAnnouncement(String(eventId), {
+        title: title.trim(),
+        message: message.trim(),
+        audience,
+      });
+      if (response.success) {
+        setHistory((prev) => [response.announcement, ...prev]);
+        setTitle('');
+        setMessage('');
+        setSuccessMessage(
+          `Sent to ${response.announcement.recipientCount} attendee${response.announcement.recipientCount !== 1 ? 's' : ''}.`
+        );
+      }
+    } catch (err: any) {
+      console.error('Error sending announcement:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to send announcement');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full border ${active ? 'bg-primary border-primary' : 'bg-white border-gray-200'}`;
+  const chipTextClass = (active: boolean) => `text-xs font-semibold ${active ? 'text-white' : 'text-gray-700'}`;
+
+  return (
+    <KeyboardAvoidingView className="flex-1 bg-white" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Message Attendees</Text>
+          {eventTitle ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{eventTitle}</Text>
+          ) : null}
+        </View>
+        <View className="w-8" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          <Text className="text-gray-900 text-sm font-semibold mb-2">Ticket status</Text>
+          <View className="flex-row flex-wrap gap-1.5 mb-3">
+            <TouchableOpacity className={chipClass(statuses.length === 0)} onPress={() => setStatuses([])}>
+              <Text className={chipTextClass(statuses.length === 0)}>Any</Text>
+            </TouchableOpacity>
+            {STATUS_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                className={chipClass(statuses.includes(option.key))}
+                onPress={() => setStatuses((prev) => toggle(prev, option.key))}
+              >
+                <Text className={chipTextClass(statuses.includes(option.key))}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {tiers.length > 0 && (
+            <>
+              <Text className="text-gray-900 text-sm font-semibold mb-2">Tier</Text>
+              <View className="flex-row flex-wrap gap-1.5 mb-3">
+                <TouchableOpacity className={chipClass(tierIds.length === 0)} onPress={() => setTierIds([])}>
+                  <Text className={chipTextClass(tierIds.length === 0)}>Any</Text>
+                </TouchableOpacity>
+                {tiers.map((tier) => {
+                  const tierId = getTierId(tier);
+                  const active = tierIds.includes(tierId);
+                  return (
+                    <TouchableOpacity
+                      key={tierId}
+                      className={chipClass(active)}
+                      onPress={() => setTierIds((prev) => toggle(prev, tierId))}
+                    >
+                      <Text className={chipTextClass(active)}>{tier.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text className="text-gray-900 text-sm font-semibold mb-2">Check-in</Text>
+          <View className="flex-row flex-wrap gap-1.5 mb-4">
+            {CHECK_IN_OPTIONS.map((option) => (
+              <TouchableOpacity key={option.key} className={chipClass(checkIn === option.key)} onPress={() => setCheckIn(option.key)}>
+                <Text className={chipTextClass(checkIn === option.key)}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-900 text-sm mb-2"
+            placeholder="Title, e.g. Venue changed"
+            placeholderTextColor="#9CA3AF"
+            value={title}
+            onChangeText={setTitle}
+            maxLength={TITLE_MAX}
+            editable={!sending}
+          />
+          <TextInput
+            className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-900 text-sm min-h-[120px]"
+            placeholder="Message"
+            placeholderTextColor="#9CA3AF"
+            value={message}
+            onChangeText={setMessage}
+            multiline
+            textAlignVertical="top"
+            maxLength={MESSAGE_MAX}
+            editable={!sending}
+          />
+          <Text className="text-gray-400 text-[10px] text-right mt-1">
+            {message.length}/{MESSAGE_MAX}
+          </Text>
+
+          <TouchableOpacity
+            className={`mt-3 py-3 rounded-xl items-center flex-row justify-center ${canSend ? 'bg-primary' : 'bg-gray-300'}`}
+            onPress={handleSend}
+            disabled={!canSend}
+          >
+            {sending ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <>
+                <MaterialIcons name="campaign" size={18} color="#FFFFFF" />
+                <Text className="text-white text-sm font-semibold ml-2">
+                  Send to {recipientCount} attendee{recipientCount !== 1 ? 's' : ''}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          <Text className="text-gray-900 text-sm font-semibold mt-6 mb-2">Sent</Text>
+          {history.length === 0 ? (
+            <Text className="text-gray-500 text-xs">No announcements sent yet.</Text>
+          ) : (
+            history.map((announcement) => (
+              <View key={announcement._id} className="bg-gray-50 border border-gray-200 rounded-xl p-3 mb-2">
+                <Text className="text-gray-900 text-sm font-semibold">{announcement.title}</Text>
+                <Text className="text-gray-700 text-xs mt-1">{announcement.message}</Text>
+                <Text className="text-gray-500 text-[10px] mt-2">
+                  {new Date(announcement.createdAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}{' '}
+                  · {describeAudience(announcement.audience, tiers)} · {announcement.recipientCount} recipient
+                  {announcement.recipientCount !== 1 ? 's' : ''}
+                </Text>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={!!successMessage}
+        onClose={() => setSuccessMessage('')}
+        title="Announcement Sent"
+        message={successMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setSuccessMessage('')}
+        variant="success"
+      />
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </KeyboardAvoidingView>
+  );
+}
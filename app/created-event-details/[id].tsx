@@ -14,10 +14,14 @@ import {
   Platform,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAppStore } from '@/store/useAppStore';
-import { eventsAPI, type Event } from '@/lib/api/events';
-import { ticketsAPI } from '@/lib/api/tickets';
+import { eventsAPI, type Event, type EventOccurrence } from '@/lib/api/events';
+import { ticketsAPI, type RegistrationAnswers, type TicketTierSummary } from '@/lib/api/tickets';
+import { waitlistAPI, type WaitlistEntry } from '@/lib/api/waitlist';
+import { promoCodesAPI, type PromoCode } from '@/lib/api/promoCodes';
+import { formatPromoDiscount, formatPromoRedemptions } from '@/lib/utils/promoCodeUtils';
 import { CACHE_KEYS, getCached, setCached } from '@/lib/cache';
 import { BackButton } from '@/components/BackButton';
 import { EventDetailsSkeleton } from '@/components/EventDetailsSkeleton';
@@ -34,9 +38,39 @@ import AnimatedReanimated, {
 } from 'react-native-reanimated';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
 import { QRScanner } from '@/components/QRScanner';
+import { MarkdownText } from '@/components/MarkdownText';
+import { TicketSnapshot, type TicketSnapshotHandle } from '@/components/TicketSnapshot';
+import { getTicketReceipt, shareTicketsPdfInBatches, type TicketPdfPage } from '@/lib/utils/ticketPdf';
 import { Modal } from '@/components/Modal';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { paymentsAPI, type Payment } from '@/lib/api/payments';
+import {
+  parseGuestCsv,
+  shareAttendees,
+  type AttendeeExportFormat,
+  type GuestCsvParseResult,
+} from '@/lib/utils/attendeeList';
+import { formatDateTimeRange, formatRecurrence, getTicketSession } from '@/lib/utils/recurrenceUtils';
+import { formatAnswer } from '@/lib/utils/registrationQuestionUtils';
+import { formatSalesDate } from '@/lib/utils/salesWindowUtils';
+import {
+  createPostponeFormData,
+  postponeToApi,
+  validatePostpone,
+  validateStatusReason,
+  type PostponeFormData,
+} from '@/lib/utils/eventStatusUtils';
+import {
+  duplicateEventAsDraft,
+  eventToFormData,
+  saveEventTemplate,
+} from '@/lib/utils/eventDraftUtils';
+import { EVENT_ROLE_LABELS, getEventRole, hasEventPermission, type EventPermission } from '@/lib/utils/eventRoles';
 
 type TicketStatus = 'all' | 'pending_payment' | 'payment_in_review' | 'confirmed' | 'used' | 'cancelled';
+/** Ticket status tabs plus the waitlist (not tickets, rendered separately) */
+type ListTab = TicketStatus | 'waitlist';
 
 interface Ticket {
   id: string;
@@ -49,9 +83,20 @@ interface Ticket {
   username: string;
   email: string;
   phone: string;
+  tier?: TicketTierSummary | null;
+  /** Session the ticket is for, on recurring events */
+  occurrence?: Pick<EventOccurrence, '_id' | 'date' | 'time' | 'endDate' | 'endTime' | 'location' | 'status'> | null;
   status: string;
   accessKey?: string;
+  /** Signed QR payload; printed instead of the bare accessKey when present */
+  signedQr?: string;
   qrCodeUrl?: string;
+  /** Payment used for the receipt in PDF exports */
+  paymentId?: string | null;
+  paymentStatus?: Payment['status'] | null;
+  scannedAt?: string | null;
+  /** Answers to the event's registration questions, keyed by question id */
+  answers?: RegistrationAnswers | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -67,7 +112,13 @@ export default function CreatedEventDetailsScreen() {
   const [loading, setLoading] = useState(true);
   const [loadingTickets, setLoadingTickets] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<TicketStatus>('all');
+  const [activeTab, setActiveTab] = useState<ListTab>('all');
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  /** Payments waiting for review; fetched for every role with 'payments' (finance can't list tickets) */
+  const [pendingPaymentsCount, setPendingPaymentsCount] = useState(0);
+  /** Whether /events/my lists this event (null until checked); only needed when the event has no creator or myRole */
+  const [listedAsMine, setListedAsMine] = useState<boolean | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [updateModalOpen, setUpdateModalOpen] = useState(false);
   const [ticketNumber, setTicketNumber] = useState('');
@@ -82,6 +133,21 @@ export default function CreatedEventDetailsScreen() {
   const [detailsExpanded, setDetailsExpanded] = useState(true);
   const [showImageViewer, setShowImageViewer] = useState(false);
   const [sBackgroundFetching, setIsBackgroundFetching] = useState(false);
+  const ticketSnapshotRef = useRef<TicketSnapshotHandle>(null);
+  const [pdfProgress, setPdfProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<AttendeeExportFormat | null>(null);
+  const [guestImport, setGuestImport] = useState<GuestCsvParseResult | null>(null);
+  const [importingGuests, setImportingGuests] = useState(false);
+  /** Template name being entered; null when the sheet is closed */
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  /** Cancel / postpone sheet */
+  const [statusAction, setStatusAction] = useState<'cancel' | 'postpone' | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [postponeForm, setPostponeForm] = useState<PostponeFormData>(createPostponeFormData);
+  const [postponePicker, setPostponePicker] = useState<'date' | 'time' | null>(null);
+  const [statusActionError, setStatusActionError] = useState<string | null>(null);
+  const [changingStatus, setChangingStatus] = useState(false);
   const loadingLineProgress = useSharedValue(0);
 
   // Get event ID helper
@@ -195,20 +261,92 @@ export default function CreatedEventDetailsScreen() {
     }
   };
 
+  // Fetch waitlist (waiting + promoted entries, in queue order)
+  const fetchWaitlist = async () => {
+    const eventId = getEventId();
+    if (!eventId) return;
+    try {
+      const response = await waitlistAPI.getEventWaitlist(String(eventId));
+      if (response.success && response.entries) {
+        setWaitlist(response.entries);
+      }
+    } catch (err: any) {
+      console.error('Error fetching waitlist:', err);
+    }
+  };
+
+  // Fetch promo codes for redemption counts
+  const fetchPromoCodes = async () => {
+    const eventId = getEventId();
+    if (!eventId) return;
+    try {
+      const response = await promoCodesAPI.getEventPromoCodes(String(eventId));
+      if (response.success && response.promoCodes) {
+        setPromoCodes(response.promoCodes);
+      }
+    } catch (err: any) {
+      console.error('Error fetching promo codes:', err);
+    }
+  };
+
+  const fetchPendingPayments = async () => {
+    const eventId = getEventId();
+    if (!eventId) return;
+    try {
+      const response = await paymentsAPI.getEventPayments(String(eventId), 'pending');
+      if (response.success) setPendingPaymentsCount(response.payments?.length ?? 0);
+    } catch (err: any) {
+      console.error('Error fetching pending payments:', err);
+    }
+  };
+
   // Initial load
   useEffect(() => {
     fetchEvent();
   }, [id]);
 
+  // Events can come back without a populated createdBy or myRole; /events/my only lists the user's own
+  const needsOwnerCheck = !!event && !event.myRole && !event.createdBy;
+  const role = getEventRole(event, user?._id) ?? (needsOwnerCheck && listedAsMine ? 'owner' : null);
+
+  useEffect(() => {
+    if (!needsOwnerCheck) return;
+    let cancelled = false;
+    const eventId = getEventId();
+    eventsAPI
+      .getMyEvents()
+      .then((response) => {
+        if (cancelled) return;
+        setListedAsMine(!!response.events?.some((e: any) => (e._id || e.id) === eventId));
+      })
+      .catch((err) => {
+        console.error('Error checking event ownership:', err);
+        if (!cancelled) setListedAsMine(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, needsOwnerCheck]);
+
+  // Keyed on the role, not the event object: the cached and network copies of the event (and every
+  // refresh) would otherwise load the lists again; onRefresh reloads them itself
   useEffect(() => {
-    if (event) {
+    if (hasEventPermission(role, 'view_attendees')) {
       fetchTickets();
+      fetchWaitlist();
+      fetchPromoCodes();
     }
-  }, [event, id]);
+    if (hasEventPermission(role, 'payments')) fetchPendingPayments();
+  }, [id, role]);
 
   // Refresh both event and tickets
   const onRefresh = async () => {
-    await Promise.all([fetchEvent(true), fetchTickets(true)]);
+    const canViewAttendees = hasEventPermission(role, 'view_attendees');
+    await Promise.all([
+      fetchEvent(true),
+      ...(canViewAttendees ? [fetchTickets(true), fetchWaitlist(), fetchPromoCodes()] : []),
+      ...(hasEventPermission(role, 'payments') ? [fetchPendingPayments()] : []),
+    ]);
   };
 
   // Handle ticket status update by ticket #
@@ -239,12 +377,21 @@ export default function CreatedEventDetailsScreen() {
         setSelectedStatus(null);
         setUpdateError(null);
         
-        // Refresh tickets to show updated status
-        fetchTickets();
+        // Refresh tickets to show updated status (cancelling may promote someone from the waitlist);
+        // door staff can check tickets in but can't list them
+        if (hasEventPermission(role, 'view_attendees')) {
+          fetchTickets();
+          fetchWaitlist();
+        }
+
+        const promoted = response.promotedWaitlistEntry;
+        const promotedMessage = promoted
+          ? ` ${promoted.user.fullName} was promoted from the waitlist and has until ${new Date(promoted.claimExpiresAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} to claim the spot.`
+          : '';
         
         // Show success message after modal is closed
         setTimeout(() => {
-          setSuccessModalMessage(response.message || 'Ticket status updated successfully');
+          setSuccessModalMessage((response.message || 'Ticket status updated successfully') + promotedMessage);
           setShowSuccessModal(true);
         }, 300);
       }
@@ -284,12 +431,221 @@ export default function CreatedEventDetailsScreen() {
 
   // Filter tickets by status
   const getFilteredTickets = () => {
+    if (activeTab === 'waitlist') {
+      return [];
+    }
     if (activeTab === 'all') {
       return tickets;
     }
     return tickets.filter((ticket) => ticket.status === activeTab);
   };
 
+  // PDFs with every ticket in the current tab, split into batches for large events (ticket snapshot + receipt for paid tickets)
+  const handleExportTicketsPdf = async () => {
+    if (!event || pdfProgress) return;
+    if (Platform.OS === 'web') {
+      setErrorModalMessage('PDF export is not available on web. Use the app on your phone.');
+      setShowErrorModal(true);
+      return;
+    }
+    const toExport = getFilteredTickets();
+    const snapshot = ticketSnapshotRef.current;
+    if (toExport.length === 0 || !snapshot) return;
+
+    try {
+      setPdfProgress({ done: 0, total: toExport.length });
+      await shareTicketsPdfInBatches(
+        toExport,
+        async (ticket): Promise<TicketPdfPage> => {
+          const session = getTicketSession({ event, occurrence: ticket.occurrence });
+          const imageDataUri = await snapshot.capture({
+            theme: event.ticketTheme,
+            event: { ...event, date: session.date, time: session.time, location: session.location ?? undefined },
+            username: ticket.username,
+            email: ticket.email,
+            status: ticket.status,
+            accessKey: ticket.accessKey,
+            signedQr: ticket.signedQr,
+            createdAt: ticket.createdAt,
+            tier: ticket.tier,
+          });
+          const receipt = await getTicketReceipt(ticket, { currency: ticket.tier?.currency });
+          return {
+            imageDataUri,
+            holder: ticket.user?.fullName || ticket.username,
+            accessKey: ticket.accessKey,
+            tierName: ticket.tier?.name,
+            receipt,
+          };
+        },
+        `${event.title} – Tickets`,
+        (done) => setPdfProgress({ done, total: toExport.length })
+      );
+    } catch (err: any) {
+      if (err?.message?.includes('cancel')) return;
+      console.error('Error exporting tickets PDF:', err);
+      setErrorModalMessage(err?.message || 'Failed to export tickets');
+      setShowErrorModal(true);
+    } finally {
+      setPdfProgress(null);
+    }
+  };
+
+  // Attendee spreadsheet for the current tab
+  const handleExportAttendees = async (format: AttendeeExportFormat) => {
+    if (!event || exportingFormat) return;
+    const toExport = getFilteredTickets();
+    if (toExport.length === 0) return;
+    try {
+      setExportingFormat(format);
+      const tabLabel = activeTab === 'all' ? 'all' : tabs.find((t) => t.key === activeTab)?.label ?? activeTab;
+      await shareAttendees(toExport, format, `${event.title}-attendees-${tabLabel}`, event.registrationQuestions);
+    } catch (err: any) {
+      console.error('Error exporting attendees:', err);
+      setErrorModalMessage(err?.message || 'Failed to export attendees');
+      setShowErrorModal(true);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Pick a guest-list CSV and show a preview before creating comp tickets
+  const handlePickGuestCsv = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+      const parsed = parseGuestCsv(await new File(result.assets[0].uri).text());
+      if (parsed.guests.length === 0) {
+        setErrorModalMessage(
+          parsed.errors.length > 0
+            ? `No guests to import. ${parsed.errors[0].message}${parsed.errors[0].row ? ` (row ${parsed.errors[0].row})` : ''}.`
+            : 'No guests found in this file.'
+        );
+        setShowErrorModal(true);
+        return;
+      }
+      setGuestImport(parsed);
+    } catch (err: any) {
+      console.error('Error reading guest list:', err);
+      setErrorModalMessage(err?.message || 'Could not read the file');
+      setShowErrorModal(true);
+    }
+  };
+
+  const handleConfirmGuestImport = async () => {
+    const eventId = getEventId();
+    if (!guestImport || !eventId) return;
+    try {
+      setImportingGuests(true);
+      const response = await eventsAPI.importGuestTickets(String(eventId), guestImport.guests);
+      if (response.success) {
+        setGuestImport(null);
+        await fetchTickets(true);
+        const skipped = response.skipped?.length ?? 0;
+        setSuccessModalMessage(
+          `${response.created} guest ticket${response.created !== 1 ? 's' : ''} created.` +
+            (skipped > 0 ? ` ${skipped} skipped: ${response.skipped.slice(0, 3).map((s) => s.reason).join('; ')}` : '')
+        );
+        setShowSuccessModal(true);
+      }
+    } catch (err: any) {
+      console.error('Error importing guests:', err);
+      setErrorModalMessage(err.response?.data?.message || err.message || 'Failed to import guests');
+      setShowErrorModal(true);
+    } finally {
+      setImportingGuests(false);
+    }
+  };
+
+  // Duplicate goes through the create flow's working draft, with dates cleared (the previous draft stays in Drafts)
+  const handleDuplicatePress = async () => {
+    if (!event) return;
+    try {
+      await duplicateEventAsDraft(event);
+      router.push({ pathname: '/create/create-event', params: { draft: String(Date.now()) } });
+    } catch (err: any) {
+      setErrorModalMessage(err?.message || 'Could not duplicate the event');
+      setShowErrorModal(true);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = templateName?.trim();
+    if (!event || !name) return;
+    try {
+      setSavingTemplate(true);
+      await saveEventTemplate(name, eventToFormData(event));
+      setTemplateName(null);
+      setSuccessModalMessage(`Template "${name}" saved. Pick it when creating your next event.`);
+      setShowSuccessModal(true);
+    } catch (err: any) {
+      setErrorModalMessage(err?.message || 'Could not save the template');
+      setShowErrorModal(true);
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const openStatusAction = (action: 'cancel' | 'postpone') => {
+    setCancelReason('');
+    setPostponeForm(createPostponeFormData());
+    setPostponePicker(null);
+    setStatusActionError(null);
+    setStatusAction(action);
+  };
+
+  const handlePostponeDatePicked = (mode: 'date' | 'time', selected: Date) => {
+    const next = postponeForm.newDate ? new Date(postponeForm.newDate) : new Date(selected);
+    if (mode === 'date' || Platform.OS === 'ios') {
+      next.setFullYear(selected.getFullYear(), selected.getMonth(), selected.getDate());
+    }
+    if (mode === 'time' || Platform.OS === 'ios') {
+      next.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    }
+    setPostponeForm((f) => ({ ...f, newDate: next }));
+    setStatusActionError(null);
+  };
+
+  // Cancel / postpone: the backend updates every ticket, refunds and notifies holders
+  const handleConfirmStatusAction = async () => {
+    const eventId = getEventId();
+    if (!eventId || !statusAction) return;
+    const validationError =
+      statusAction === 'cancel' ? validateStatusReason(cancelReason) : validatePostpone(postponeForm);
+    if (validationError) {
+      setStatusActionError(validationError);
+      return;
+    }
+    try {
+      setChangingStatus(true);
+      const response =
+        statusAction === 'cancel'
+          ? await eventsAPI.cancelEvent(String(eventId), { reason: cancelReason.trim() })
+          : await eventsAPI.postponeEvent(String(eventId), postponeToApi(postponeForm));
+      if (response.success) {
+        setStatusAction(null);
+        await Promise.all([fetchEvent(true), fetchTickets(true)]);
+        const refunds =
+          response.refundsIssued > 0
+            ? ` ${response.refundsIssued} paid ticket${response.refundsIssued !== 1 ? 's were' : ' was'} refunded.`
+            : '';
+        setSuccessModalMessage(
+          `${statusAction === 'cancel' ? 'Event cancelled' : 'Event postponed'}. ` +
+            `${response.notified} ticket holder${response.notified !== 1 ? 's were' : ' was'} notified.${refunds}`
+        );
+        setShowSuccessModal(true);
+      }
+    } catch (err: any) {
+      console.error('Error changing event status:', err);
+      setStatusActionError(err.response?.data?.message || err.message || 'Failed to update the event');
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
   // Get status info for styling
   const getStatusInfo = (status: string) => {
     switch (status) {
@@ -357,18 +713,20 @@ export default function CreatedEventDetailsScreen() {
   };
 
   // Get count for each status
-  const getStatusCount = (status: TicketStatus) => {
+  const getStatusCount = (status: ListTab) => {
     if (status === 'all') return tickets.length;
+    if (status === 'waitlist') return waitlist.length;
     return tickets.filter((ticket) => ticket.status === status).length;
   };
 
-  const tabs: { key: TicketStatus; label: string }[] = [
+  const tabs: { key: ListTab; label: string }[] = [
     { key: 'all', label: 'All' },
     { key: 'pending_payment', label: 'Pending' },
     { key: 'payment_in_review', label: 'In Review' },
     { key: 'confirmed', label: 'Submitted' },
     { key: 'used', label: 'Used' },
     { key: 'cancelled', label: 'Cancelled' },
+    { key: 'waitlist', label: 'Waitlist' },
   ];
 
   if (loading && !event) {
@@ -388,7 +746,32 @@ export default function CreatedEventDetailsScreen() {
     );
   }
 
+  const can = (permission: EventPermission) => hasEventPermission(role, permission);
+
+  if (!role && needsOwnerCheck && listedAsMine === null) {
+    return <EventDetailsSkeleton />;
+  }
+
+  if (!role) {
+    return (
+      <View className="flex-1 bg-white">
+        <View className="flex-1 items-center justify-center p-10">
+          <MaterialIcons name="lock-outline" size={40} color="#9CA3AF" />
+          <Text className="text-gray-700 text-sm mt-3 mb-6 text-center">
+            You don&apos;t have access to manage this event.
+          </Text>
+          <ButtonPrimary onPress={() => router.back()}>
+            Go Back
+          </ButtonPrimary>
+        </View>
+      </View>
+    );
+  }
+
   const filteredTickets = getFilteredTickets();
+  const registrationQuestions = event.registrationQuestions ?? [];
+  // Roles without attendee access don't load the ticket list
+  const soldCount = can('view_attendees') ? tickets.length : event.ticketsSold ?? 0;
 
   return (
     <View className="flex-1 bg-white">
@@ -408,17 +791,19 @@ export default function CreatedEventDetailsScreen() {
         }}
       >
         <BackButton variant="dark" onPress={() => router.back()} />
-        <TouchableOpacity
-          className="bg-primary w-7 h-7 rounded-full items-center justify-center"
-          onPress={() => {
-            const eventId = getEventId();
-            if (eventId) {
-              router.push(`/edit-event/${eventId}`);
-            }
-          }}
-        >
-          <MaterialIcons name="edit" size={16} color="#FFFFFF" />
-        </TouchableOpacity>
+        {can('edit') && (
+          <TouchableOpacity
+            className="bg-primary w-7 h-7 rounded-full items-center justify-center"
+            onPress={() => {
+              const eventId = getEventId();
+              if (eventId) {
+                router.push(`/edit-event/${eventId}`);
+              }
+            }}
+          >
+            <MaterialIcons name="edit" size={16} color="#FFFFFF" />
+          </TouchableOpacity>
+        )}
       </View>
       <ScrollView
         className="flex-1"
@@ -477,13 +862,24 @@ export default function CreatedEventDetailsScreen() {
                   variant={
                     event.status === 'approved'
                       ? 'success'
-                      : event.status === 'pending'
+                      : event.status === 'pending' || event.status === 'postponed'
                         ? 'warning'
-                        : 'neutral'
+                        : event.status === 'cancelled'
+                          ? 'error'
+                          : 'neutral'
                   }
                 >
-                  {event.status === 'approved' ? 'Approved' : event.status === 'pending' ? 'Pending' : 'Draft'}
+                  {event.status === 'approved'
+                    ? 'Approved'
+                    : event.status === 'pending'
+                      ? 'Pending'
+                      : event.status === 'cancelled'
+                        ? 'Cancelled'
+                        : event.status === 'postponed'
+                          ? 'Postponed'
+                          : 'Draft'}
                 </Label>
+                {role !== 'owner' && <Label variant="neutral">{EVENT_ROLE_LABELS[role]}</Label>}
                 {/* <TouchableOpacity
                   className="bg-primary py-1 px-2 rounded-lg flex-row items-center"
                   onPress={() => {
@@ -520,15 +916,35 @@ export default function CreatedEventDetailsScreen() {
                   <View className="flex-1">
                     <Text className="text-gray-900 text-xs font-semibold mb-0.5">Event Date & Time</Text>
                     <Text className="text-gray-700 text-xs">
-                      {new Date(event.date).toLocaleDateString('en-US', {
-                        weekday: 'short',
-                        month: 'short',
-                        day: 'numeric',
-                      })}, {event.time}
+                      {formatDateTimeRange(event.date, event.time, event.endDate, event.endTime)}
                     </Text>
+                    {event.recurrence ? (
+                      <Text className="text-gray-500 text-[10px] mt-0.5">
+                        {formatRecurrence(event.recurrence, event.occurrences?.length)}
+                      </Text>
+                    ) : null}
                   </View>
                 </View>
 
+                {/* Publishing & sales window (optional) */}
+                {event.publishAt || event.salesOpenAt || event.salesCloseAt ? (
+                  <View className="flex-row mb-2 items-start">
+                    <MaterialIcons name="schedule" size={16} color="#6B7280" style={{ marginRight: 8, marginTop: 1 }} />
+                    <View className="flex-1">
+                      <Text className="text-gray-900 text-xs font-semibold mb-0.5">Publishing & Registration</Text>
+                      {event.publishAt ? (
+                        <Text className="text-gray-700 text-xs">Publishes {formatSalesDate(event.publishAt)}</Text>
+                      ) : null}
+                      {event.salesOpenAt ? (
+                        <Text className="text-gray-700 text-xs">Registration opens {formatSalesDate(event.salesOpenAt)}</Text>
+                      ) : null}
+                      {event.salesCloseAt ? (
+                        <Text className="text-gray-700 text-xs">Registration closes {formatSalesDate(event.salesCloseAt)}</Text>
+                      ) : null}
+                    </View>
+                  </View>
+                ) : null}
+
                 {/* Location (optional) */}
                 {event.location ? (
                   <View className="flex-row mb-2 items-start">
@@ -544,7 +960,7 @@ export default function CreatedEventDetailsScreen() {
                 {event.description ? (
                   <View className="mb-2">
                     <Text className="text-gray-900 text-xs font-semibold mb-0.5">Description</Text>
-                    <Text className="text-gray-700 text-xs leading-5">{event.description}</Text>
+                    <MarkdownText source={event.description} size="xs" />
                   </View>
                 ) : null}
 
@@ -582,7 +998,7 @@ export default function CreatedEventDetailsScreen() {
                   <View className="flex-1">
                     <Text className="text-gray-900 text-xs font-semibold mb-0.5">Total Tickets</Text>
                     <Text className="text-gray-700 text-xs">
-                      {tickets.length} ticket{tickets.length !== 1 ? 's' : ''} sold
+                      {soldCount} ticket{soldCount !== 1 ? 's' : ''} sold
                     </Text>
                   </View>
                 </View>
@@ -590,23 +1006,25 @@ export default function CreatedEventDetailsScreen() {
             )}
 
             {/* Event Ticket Theme - Compact */}
-            <TouchableOpacity
-              className="flex-row border items-center py-2 px-3 rounded-lg bg-gray-50 border border-gray-200 mb-3"
-              activeOpacity={1}
-              onPress={() => {
-                const evId = getEventId();
-                if (evId) router.push(`/event-ticket-theme/${evId}`);
-              }}
-            >
-              <MaterialIcons name="palette" size={16} color="#DC2626" style={{ marginRight: 8 }} />
-              <View className="flex-1">
-                <Text className="text-gray-900 text-xs font-semibold">Event Ticket</Text>
-                <Text className="text-gray-600 text-[10px]">
-                  Customize colors & look
-                </Text>
-              </View>
-              <MaterialIcons name="chevron-right" size={18} color="#9CA3AF" />
-            </TouchableOpacity>
+            {can('edit') && (
+              <TouchableOpacity
+                className="flex-row border items-center py-2 px-3 rounded-lg bg-gray-50 border border-gray-200 mb-3"
+                activeOpacity={1}
+                onPress={() => {
+                  const evId = getEventId();
+                  if (evId) router.push(`/event-ticket-theme/${evId}`);
+                }}
+              >
+                <MaterialIcons name="palette" size={16} color="#DC2626" style={{ marginRight: 8 }} />
+                <View className="flex-1">
+                  <Text className="text-gray-900 text-xs font-semibold">Event Ticket</Text>
+                  <Text className="text-gray-600 text-[10px]">
+                    Customize colors & look
+                  </Text>
+                </View>
+                <MaterialIcons name="chevron-right" size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            )}
 
             {/* Organized by (host) - show current user / event creator */}
             {(user || (event as any)?.createdBy) && (
@@ -635,161 +1053,712 @@ export default function CreatedEventDetailsScreen() {
           </View>
 
           {/* Tabs Section - Compact */}
-          <View className="px-2 pt-2 pb-2 bg-white">
-            <ScrollView
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              contentContainerStyle={{ gap: 6 }}
-            >
-              {tabs.map((tab) => {
-                const count = getStatusCount(tab.key);
-                const isActive = activeTab === tab.key;
-                return (
-                  <TouchableOpacity
-                    activeOpacity={1}
-                    key={tab.key}
-                    className={`py-1.5 px-3 rounded-lg flex-row items-center gap-1.5 ${isActive ? 'bg-primary' : 'bg-gray-100'
-                      }`}
-                    onPress={() => setActiveTab(tab.key)}
-                  >
-                    <Text className={`text-[10px] font-semibold ${isActive ? 'text-white' : 'text-gray-600'}`}>
-                      {tab.label}
-                    </Text>
-                    <View className={`px-1.5 py-0.5 rounded-full ${isActive ? 'bg-white/20' : 'bg-[#374151]'}`}>
-                      <Text className={`text-[9px] font-bold ${isActive ? 'text-white' : 'text-white'}`}>
-                        {count}
+          {can('view_attendees') && (
+            <View className="px-2 pt-2 pb-2 bg-white">
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={{ gap: 6 }}
+              >
+                {tabs.map((tab) => {
+                  const count = getStatusCount(tab.key);
+                  const isActive = activeTab === tab.key;
+                  return (
+                    <TouchableOpacity
+                      activeOpacity={1}
+                      key={tab.key}
+                      className={`py-1.5 px-3 rounded-lg flex-row items-center gap-1.5 ${isActive ? 'bg-primary' : 'bg-gray-100'
+                        }`}
+                      onPress={() => setActiveTab(tab.key)}
+                    >
+                      <Text className={`text-[10px] font-semibold ${isActive ? 'text-white' : 'text-gray-600'}`}>
+                        {tab.label}
                       </Text>
-                    </View>
-                  </TouchableOpacity>
-                );
-              })}
-            </ScrollView>
-          </View>
+                      <View className={`px-1.5 py-0.5 rounded-full ${isActive ? 'bg-white/20' : 'bg-[#374151]'}`}>
+                        <Text className={`text-[9px] font-bold ${isActive ? 'text-white' : 'text-white'}`}>
+                          {count}
+                        </Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          )}
         </View>
 
         {/* Update Ticket Status Section - Compact */}
         <View className="px-2 mt-2 mb-1">
-          <TouchableOpacity
-            className="bg-primary py-2.5 px-3 rounded-lg flex-row items-center justify-center"
-            onPress={() => setUpdateModalOpen(true)}
-          >
-            <MaterialIcons name="edit" size={14} color="#FFFFFF" style={{ marginRight: 6 }} />
-            <Text className="text-white text-xs font-semibold">Update Ticket Status by Ticket #</Text>
-          </TouchableOpacity>
-        </View>
-
-        {/* Tickets List - Compact */}
-        <View className="px-2 mt-1">
-          {loadingTickets ? (
-            <View className="py-6 items-center">
-              <ActivityIndicator size="small" color="#DC2626" />
-              <Text className="text-gray-700 text-xs mt-2">Loading tickets...</Text>
+          {can('scan') && (
+            <TouchableOpacity
+              className="bg-primary py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() => setUpdateModalOpen(true)}
+            >
+              <MaterialIcons name="edit" size={14} color="#FFFFFF" style={{ marginRight: 6 }} />
+              <Text className="text-white text-xs font-semibold">Update Ticket Status by Ticket #</Text>
+            </TouchableOpacity>
+          )}
+          {can('scan') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-gray-900 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/door-scan/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title },
+                })
+              }
+            >
+              <MaterialIcons name="qr-code-scanner" size={14} color="#FFFFFF" style={{ marginRight: 6 }} />
+              <Text className="text-white text-xs font-semibold">Door Scanning Mode (works offline)</Text>
+            </TouchableOpacity>
+          )}
+          {can('message') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/announcements/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title },
+                })
+              }
+            >
+              <MaterialIcons name="campaign" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Message Attendees</Text>
+            </TouchableOpacity>
+          )}
+          {can('analytics') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/event-analytics/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title, gender: event.gender ?? 'all' },
+                })
+              }
+            >
+              <MaterialIcons name="insights" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Analytics</Text>
+            </TouchableOpacity>
+          )}
+          {can('payments') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/payment-review/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title },
+                })
+              }
+            >
+              <MaterialIcons name="fact-check" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Review Payments</Text>
+              {pendingPaymentsCount > 0 && (
+                <View className="ml-1.5 bg-[#3B82F6] rounded-full px-1.5 py-0.5">
+                  <Text className="text-white text-[10px] font-bold">{pendingPaymentsCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          )}
+          {can('payments') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/refund-requests/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title },
+                })
+              }
+            >
+              <MaterialIcons name="undo" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Refund Requests</Text>
+            </TouchableOpacity>
+          )}
+          {can('view_attendees') && activeTab !== 'waitlist' && filteredTickets.length > 0 && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={handleExportTicketsPdf}
+              disabled={!!pdfProgress}
+            >
+              {pdfProgress ? (
+                <>
+                  <ActivityIndicator size="small" color="#6B7280" style={{ marginRight: 6 }} />
+                  <Text className="text-gray-900 text-xs font-semibold">
+                    Exporting {pdfProgress.done}/{pdfProgress.total}...
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <MaterialIcons name="picture-as-pdf" size={14} color="#111827" style={{ marginRight: 6 }} />
+                  <Text className="text-gray-900 text-xs font-semibold">
+                    Export {activeTab === 'all' ? 'All' : tabs.find((t) => t.key === activeTab)?.label} Tickets as PDF ({filteredTickets.length})
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+          {can('view_attendees') && activeTab !== 'waitlist' && filteredTickets.length > 0 && (
+            <View className="flex-row gap-1.5 mt-1.5">
+              {(['csv', 'xlsx'] as AttendeeExportFormat[]).map((format) => (
+                <TouchableOpacity
+                  key={format}
+                  className="flex-1 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+                  onPress={() => handleExportAttendees(format)}
+                  disabled={!!exportingFormat}
+                >
+                  {exportingFormat === format ? (
+                    <ActivityIndicator size="small" color="#6B7280" style={{ marginRight: 6 }} />
+                  ) : (
+                    <MaterialIcons
+                      name={format === 'csv' ? 'description' : 'grid-on'}
+                      size={14}
+                      color="#111827"
+                      style={{ marginRight: 6 }}
+                    />
+                  )}
+                  <Text className="text-gray-900 text-xs font-semibold">
+                    Attendees {format === 'csv' ? 'CSV' : 'Excel'} ({filteredTickets.length})
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
-          ) : filteredTickets.length === 0 ? (
-            <View className="py-6 items-center">
-              <MaterialIcons name="confirmation-number" size={36} color="#6B7280" />
-              <Text className="text-[#6B7280] text-xs mt-2">
-                {activeTab === 'all' ? 'No tickets found' : `No ${tabs.find(t => t.key === activeTab)?.label.toLowerCase()} tickets`}
+          )}
+          {can('edit') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={handlePickGuestCsv}
+            >
+              <MaterialIcons name="group-add" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Import Guest List (CSV)</Text>
+            </TouchableOpacity>
+          )}
+          {can('edit') && (event.occurrences?.length ?? 0) > 0 && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/event-sessions/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title },
+                })
+              }
+            >
+              <MaterialIcons name="event-repeat" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Sessions ({event.occurrences?.length})</Text>
+            </TouchableOpacity>
+          )}
+          {can('edit') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={handleDuplicatePress}
+            >
+              <MaterialIcons name="content-copy" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Duplicate Event</Text>
+            </TouchableOpacity>
+          )}
+          {can('edit') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() => setTemplateName(event.title)}
+            >
+              <MaterialIcons name="bookmark-border" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Save as Template</Text>
+            </TouchableOpacity>
+          )}
+          {can('manage_team') && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() =>
+                router.push({
+                  pathname: '/event-team/[eventId]',
+                  params: { eventId: String(getEventId()), title: event.title },
+                })
+              }
+            >
+              <MaterialIcons name="group" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">Team & Door Staff</Text>
+            </TouchableOpacity>
+          )}
+          {can('cancel') && event.status !== 'cancelled' && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-gray-200 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() => openStatusAction('postpone')}
+            >
+              <MaterialIcons name="update" size={14} color="#111827" style={{ marginRight: 6 }} />
+              <Text className="text-gray-900 text-xs font-semibold">
+                {event.status === 'postponed' ? 'Reschedule Event' : 'Postpone Event'}
               </Text>
+            </TouchableOpacity>
+          )}
+          {can('cancel') && event.status !== 'cancelled' && (
+            <TouchableOpacity
+              className="mt-1.5 bg-white border border-[#EF4444]/50 py-2.5 px-3 rounded-lg flex-row items-center justify-center"
+              onPress={() => openStatusAction('cancel')}
+            >
+              <MaterialIcons name="event-busy" size={14} color="#EF4444" style={{ marginRight: 6 }} />
+              <Text className="text-[#EF4444] text-xs font-semibold">Cancel Event</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Promo Code Redemptions */}
+        {promoCodes.length > 0 && (
+          <View className="px-2 mt-2">
+            <View className="bg-gray-50 border border-gray-200 rounded-lg p-2.5">
+              <View className="flex-row items-center mb-1.5">
+                <MaterialIcons name="local-offer" size={14} color="#6B7280" style={{ marginRight: 6 }} />
+                <Text className="text-gray-900 text-xs font-bold">Promo codes</Text>
+              </View>
+              {promoCodes.map((code) => (
+                <View key={code._id} className="flex-row items-center justify-between py-0.5">
+                  <Text className={`text-[10px] font-mono ${code.active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {code.code}
+                  </Text>
+                  <Text className="text-gray-600 text-[10px]">
+                    {formatPromoDiscount(code.discountType, code.discountValue, event.ticketTiers?.[0]?.currency)} · {formatPromoRedemptions(code)}
+                  </Text>
+                </View>
+              ))}
             </View>
-          ) : (
-            <View>
-              {filteredTickets.map((ticket) => {
-                const statusInfo = getStatusInfo(ticket.status);
-                const ticketId = ticket.id || ticket.user?._id || 'unknown';
-                const displayName = ticket.user?.fullName || ticket.username || 'Unknown User';
-                const displayEmail = ticket.user?.email || ticket.email || 'No email';
-                const displayPhone = ticket.phone || 'No phone';
-
-                return (
-                  <View
-                    key={ticketId}
-                    className={`${statusInfo.bgColor} ${statusInfo.borderColor} rounded-lg p-2.5 mb-2 border`}
-                  >
-                    <View className="flex-row items-start justify-between mb-2">
-                      <View className="flex-row items-center flex-1 min-w-0">
-                        <MaterialIcons
-                          name={statusInfo.icon as any}
-                          size={16}
-                          color={statusInfo.iconColor}
-                          style={{ marginRight: 6 }}
-                        />
-                        <Text className="text-gray-900 text-xs font-bold flex-1" numberOfLines={1}>
-                          {displayName}
-                        </Text>
-                      </View>
-                      <Label
-                        variant={
-                          ticket.status === 'confirmed'
-                            ? 'success'
-                            : ticket.status === 'pending_payment'
-                              ? 'warning'
-                              : ticket.status === 'payment_in_review'
-                                ? 'info'
-                                : ticket.status === 'used'
-                                  ? 'neutral'
-                                  : ticket.status === 'cancelled'
-                                    ? 'error'
-                                    : 'neutral'
-                        }
-                        className="ml-1"
-                      >
-                        {statusInfo.label}
-                      </Label>
-                    </View>
+          </View>
+        )}
 
-                    {/* Ticket Details */}
-                    <View>
-                      {ticket.accessKey && (
+        {/* Tickets List - Compact */}
+        {can('view_attendees') && (
+          <View className="px-2 mt-1">
+            {activeTab === 'waitlist' ? (
+              waitlist.length === 0 ? (
+                <View className="py-6 items-center">
+                  <MaterialIcons name="hourglass-empty" size={36} color="#6B7280" />
+                  <Text className="text-[#6B7280] text-xs mt-2">No one on the waitlist</Text>
+                </View>
+              ) : (
+                <View>
+                  {waitlist.map((entry) => {
+                    const isPromoted = entry.status === 'promoted';
+                    return (
+                      <View
+                        key={entry._id}
+                        className={`rounded-lg p-2.5 mb-2 border ${isPromoted ? 'bg-[#10B981]/20 border-[#10B981]/50' : 'bg-gray-50 border-gray-200'}`}
+                      >
+                        <View className="flex-row items-center justify-between mb-1">
+                          <View className="flex-row items-center flex-1 min-w-0">
+                            <Text className="text-gray-900 text-xs font-bold mr-1.5">
+                              {entry.position != null ? `#${entry.position}` : '—'}
+                            </Text>
+                            <Text className="text-gray-900 text-xs font-bold flex-1" numberOfLines={1}>
+                              {entry.user.fullName}
+                            </Text>
+                          </View>
+                          <Label variant={isPromoted ? 'success' : 'warning'} className="ml-1">
+                            {isPromoted ? 'Promoted' : 'Waiting'}
+                          </Label>
+                        </View>
                         <View className="flex-row items-center mb-1">
-                          <MaterialIcons name="confirmation-number" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
-                          <Text className="text-gray-700 text-[9px] font-mono flex-1" numberOfLines={1}>
-                            {ticket.accessKey}
+                          <MaterialIcons name="email" size={12} color="#6B7280" style={{ marginRight: 6 }} />
+                          <Text className="text-gray-700 text-[10px] flex-1" numberOfLines={1}>
+                            {entry.user.email}
                           </Text>
                         </View>
-                      )}
-                      <View className="flex-row items-center mb-1">
-                        <MaterialIcons name="email" size={12} color="#6B7280" style={{ marginRight: 6 }} />
-                        <Text className="text-gray-700 text-[10px] flex-1" numberOfLines={1}>
-                          {displayEmail}
-                        </Text>
-                      </View>
-                      <View className="flex-row items-center mb-1">
-                        <MaterialIcons name="phone" size={12} color="#6B7280" style={{ marginRight: 6 }} />
-                        <Text className="text-gray-700 text-[10px]">
-                          {displayPhone}
-                        </Text>
-                      </View>
-                      {ticket.createdAt && (
                         <View className="flex-row items-center">
-                          <MaterialIcons name="calendar-today" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
+                          <MaterialIcons name="schedule" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
                           <Text className="text-gray-600 text-[9px]">
-                            {new Date(ticket.createdAt).toLocaleDateString('en-US', {
-                              month: 'short',
-                              day: 'numeric',
-                              year: 'numeric',
-                              hour: '2-digit',
-                              minute: '2-digit'
-                            })}
+                            {isPromoted && entry.claimExpiresAt
+                              ? `Claim by ${new Date(entry.claimExpiresAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+                              : `Joined ${new Date(entry.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`}
                           </Text>
                         </View>
-                      )}
-                      {ticket.user?.username && (
-                        <View className="flex-row items-center mt-1">
-                          <MaterialIcons name="person" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
-                          <Text className="text-gray-600 text-[9px]">
-                            @{ticket.user.username}
+                      </View>
+                    );
+                  })}
+                </View>
+              )
+            ) : loadingTickets ? (
+              <View className="py-6 items-center">
+                <ActivityIndicator size="small" color="#DC2626" />
+                <Text className="text-gray-700 text-xs mt-2">Loading tickets...</Text>
+              </View>
+            ) : filteredTickets.length === 0 ? (
+              <View className="py-6 items-center">
+                <MaterialIcons name="confirmation-number" size={36} color="#6B7280" />
+                <Text className="text-[#6B7280] text-xs mt-2">
+                  {activeTab === 'all' ? 'No tickets found' : `No ${tabs.find(t => t.key === activeTab)?.label.toLowerCase()} tickets`}
+                </Text>
+              </View>
+            ) : (
+              <View>
+                {filteredTickets.map((ticket) => {
+                  const statusInfo = getStatusInfo(ticket.status);
+                  const ticketId = ticket.id || ticket.user?._id || 'unknown';
+                  const displayName = ticket.user?.fullName || ticket.username || 'Unknown User';
+                  const displayEmail = ticket.user?.email || ticket.email || 'No email';
+                  const displayPhone = ticket.phone || 'No phone';
+
+                  return (
+                    <View
+                      key={ticketId}
+                      className={`${statusInfo.bgColor} ${statusInfo.borderColor} rounded-lg p-2.5 mb-2 border`}
+                    >
+                      <View className="flex-row items-start justify-between mb-2">
+                        <View className="flex-row items-center flex-1 min-w-0">
+                          <MaterialIcons
+                            name={statusInfo.icon as any}
+                            size={16}
+                            color={statusInfo.iconColor}
+                            style={{ marginRight: 6 }}
+                          />
+                          <Text className="text-gray-900 text-xs font-bold flex-1" numberOfLines={1}>
+                            {displayName}
+                          </Text>
+                        </View>
+                        <Label
+                          variant={
+                            ticket.status === 'confirmed'
+                              ? 'success'
+                              : ticket.status === 'pending_payment'
+                                ? 'warning'
+                                : ticket.status === 'payment_in_review'
+                                  ? 'info'
+                                  : ticket.status === 'used'
+                                    ? 'neutral'
+                                    : ticket.status === 'cancelled'
+                                      ? 'error'
+                                      : 'neutral'
+                          }
+                          className="ml-1"
+                        >
+                          {statusInfo.label}
+                        </Label>
+                      </View>
+
+                      {/* Ticket Details */}
+                      <View>
+                        {ticket.accessKey && (
+                          <View className="flex-row items-center mb-1">
+                            <MaterialIcons name="confirmation-number" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
+                            <Text className="text-gray-700 text-[9px] font-mono flex-1" numberOfLines={1}>
+                              {ticket.accessKey}
+                            </Text>
+                          </View>
+                        )}
+                        <View className="flex-row items-center mb-1">
+                          <MaterialIcons name="email" size={12} color="#6B7280" style={{ marginRight: 6 }} />
+                          <Text className="text-gray-700 text-[10px] flex-1" numberOfLines={1}>
+                            {displayEmail}
+                          </Text>
+                        </View>
+                        <View className="flex-row items-center mb-1">
+                          <MaterialIcons name="phone" size={12} color="#6B7280" style={{ marginRight: 6 }} />
+                          <Text className="text-gray-700 text-[10px]">
+                            {displayPhone}
                           </Text>
                         </View>
-                      )}
+                        {ticket.createdAt && (
+                          <View className="flex-row items-center">
+                            <MaterialIcons name="calendar-today" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
+                            <Text className="text-gray-600 text-[9px]">
+                              {new Date(ticket.createdAt).toLocaleDateString('en-US', {
+                                month: 'short',
+                                day: 'numeric',
+                                year: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit'
+                              })}
+                            </Text>
+                          </View>
+                        )}
+                        {ticket.tier?.name && (
+                          <View className="flex-row items-center mt-1">
+                            <MaterialIcons name="local-activity" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
+                            <Text className="text-gray-600 text-[9px]">{ticket.tier.name}</Text>
+                          </View>
+                        )}
+                        {ticket.user?.username && (
+                          <View className="flex-row items-center mt-1">
+                            <MaterialIcons name="person" size={12} color="#9CA3AF" style={{ marginRight: 6 }} />
+                            <Text className="text-gray-600 text-[9px]">
+                              @{ticket.user.username}
+                            </Text>
+                          </View>
+                        )}
+                        {registrationQuestions.some((q) => formatAnswer(ticket.answers?.[q.id])) && (
+                          <View className="mt-1.5 pt-1.5 border-t border-black/5">
+                            {registrationQuestions.map((q) => {
+                              const answer = formatAnswer(ticket.answers?.[q.id]);
+                              return answer ? (
+                                <Text key={q.id} className="text-gray-700 text-[9px] mb-0.5">
+                                  <Text className="text-gray-500">{q.label}: </Text>
+                                  {answer}
+                                </Text>
+                              ) : null;
+                            })}
+                          </View>
+                        )}
+                      </View>
                     </View>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      <TicketSnapshot ref={ticketSnapshotRef} />
+
+      {/* Guest list import preview */}
+      <RNModal
+        visible={!!guestImport}
+        transparent
+        animationType="fade"
+        onRequestClose={() => !importingGuests && setGuestImport(null)}
+      >
+        <Pressable
+          className="flex-1 bg-black/70 justify-center items-center p-3"
+          onPress={() => !importingGuests && setGuestImport(null)}
+        >
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">Import Guests</Text>
+            <Text className="text-gray-600 text-xs text-center mb-3">
+              {guestImport?.guests.length} confirmed comp ticket{guestImport?.guests.length !== 1 ? 's' : ''} will be
+              created. Guests get their tickets by email.
+            </Text>
+            <ScrollView style={{ maxHeight: 220 }} className="mb-2">
+              {guestImport?.guests.slice(0, 50).map((guest) => (
+                <View key={guest.email} className="flex-row justify-between py-1 border-b border-gray-100">
+                  <Text className="text-gray-900 text-xs flex-1 mr-2" numberOfLines={1}>{guest.fullName}</Text>
+                  <Text className="text-gray-500 text-[10px]" numberOfLines={1}>
+                    {guest.email}
+                    {guest.tier ? ` · ${guest.tier}` : ''}
+                  </Text>
+                </View>
+              ))}
+              {guestImport && guestImport.guests.length > 50 && (
+                <Text className="text-gray-500 text-[10px] mt-1">+{guestImport.guests.length - 50} more</Text>
+              )}
+            </ScrollView>
+            {guestImport && guestImport.errors.length > 0 && (
+              <View className="bg-[#F59E0B]/10 rounded-lg p-2 mb-2">
+                <Text className="text-[#F59E0B] text-[10px] font-semibold mb-0.5">
+                  {guestImport.errors.length} row{guestImport.errors.length !== 1 ? 's' : ''} will be skipped
+                </Text>
+                {guestImport.errors.slice(0, 5).map((err) => (
+                  <Text key={`${err.row}-${err.message}`} className="text-gray-700 text-[10px]">
+                    Row {err.row}: {err.message}
+                  </Text>
+                ))}
+              </View>
+            )}
+            <View className="flex-row gap-2">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={() => setGuestImport(null)}
+                disabled={importingGuests}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-primary"
+                onPress={handleConfirmGuestImport}
+                disabled={importingGuests}
+              >
+                {importingGuests ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Import</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      {/* Save as template */}
+      <RNModal
+        visible={templateName !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => !savingTemplate && setTemplateName(null)}
+      >
+        <Pressable
+          className="flex-1 bg-black/70 justify-center items-center p-3"
+          onPress={() => !savingTemplate && setTemplateName(null)}
+        >
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">Save as Template</Text>
+            <Text className="text-gray-600 text-xs text-center mb-3">
+              Keeps details, image, pricing and ticket design. Start new events from it in Create Event.
+            </Text>
+            <TextInput
+              className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2.5 text-gray-900 text-sm mb-3"
+              placeholder="Template name"
+              placeholderTextColor="#9CA3AF"
+              value={templateName ?? ''}
+              onChangeText={setTemplateName}
+              maxLength={60}
+              autoFocus
+            />
+            <View className="flex-row gap-2">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={() => setTemplateName(null)}
+                disabled={savingTemplate}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className={`flex-1 py-2 rounded-lg items-center ${templateName?.trim() ? 'bg-primary' : 'bg-gray-300'}`}
+                onPress={handleSaveTemplate}
+                disabled={savingTemplate || !templateName?.trim()}
+              >
+                {savingTemplate ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      {/* Cancel / postpone event */}
+      <RNModal
+        visible={statusAction !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => !changingStatus && setStatusAction(null)}
+      >
+        <Pressable
+          className="flex-1 bg-black/70 justify-center items-center p-3"
+          onPress={() => !changingStatus && setStatusAction(null)}
+        >
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">
+              {statusAction === 'cancel' ? 'Cancel Event' : 'Postpone Event'}
+            </Text>
+            <Text className="text-gray-600 text-xs leading-5 text-center mb-3">
+              {statusAction === 'cancel'
+                ? `All ${soldCount} ticket${soldCount !== 1 ? 's' : ''} will be cancelled and paid tickets refunded in full. Every ticket holder is notified. This can't be undone.`
+                : 'Tickets stay valid for the new date. Every ticket holder is notified.'}
+            </Text>
+
+            <TextInput
+              className="bg-gray-50 text-gray-900 text-xs px-3 py-2 rounded-lg mb-3 border border-gray-200 min-h-[64px]"
+              placeholder="Reason (shown to attendees)"
+              placeholderTextColor="#9CA3AF"
+              value={statusAction === 'cancel' ? cancelReason : postponeForm.reason}
+              onChangeText={(v) => {
+                if (statusAction === 'cancel') setCancelReason(v);
+                else setPostponeForm((f) => ({ ...f, reason: v }));
+                setStatusActionError(null);
+              }}
+              multiline
+              textAlignVertical="top"
+              maxLength={300}
+              editable={!changingStatus}
+            />
+
+            {statusAction === 'postpone' && (
+              <>
+                <Text className="text-gray-700 text-xs font-medium mb-1">New date & time</Text>
+                <TouchableOpacity
+                  className="bg-gray-50 rounded-lg py-2 px-3 flex-row items-center gap-2 border border-gray-200 mb-2"
+                  onPress={() => setPostponePicker('date')}
+                  disabled={changingStatus}
+                >
+                  <MaterialIcons name="event" size={16} color="#9CA3AF" />
+                  <Text className={`text-xs flex-1 ${postponeForm.newDate ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+                    {postponeForm.newDate ? formatSalesDate(postponeForm.newDate.toISOString()) : 'To be announced'}
+                  </Text>
+                  {postponeForm.newDate ? (
+                    <TouchableOpacity onPress={() => setPostponeForm((f) => ({ ...f, newDate: null }))}>
+                      <MaterialIcons name="close" size={16} color="#9CA3AF" />
+                    </TouchableOpacity>
+                  ) : null}
+                </TouchableOpacity>
+                {postponePicker && (
+                  <View className="mb-2">
+                    {Platform.OS === 'ios' && (
+                      <View className="flex-row justify-end mb-2">
+                        <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setPostponePicker(null)}>
+                          <Text className="text-white text-sm font-semibold">Done</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                    <DateTimePicker
+                      value={postponeForm.newDate ?? new Date()}
+                      mode={Platform.OS === 'ios' ? 'datetime' : postponePicker}
+                      display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                      minimumDate={new Date()}
+                      onChange={(pickerEvent, selectedDate) => {
+                        if (Platform.OS === 'android') {
+                          const mode = postponePicker;
+                          setPostponePicker(pickerEvent.type === 'set' && mode === 'date' ? 'time' : null);
+                          if (pickerEvent.type !== 'set') return;
+                          if (selectedDate) handlePostponeDatePicked(mode, selectedDate);
+                          return;
+                        }
+                        if (selectedDate) handlePostponeDatePicked('date', selectedDate);
+                      }}
+                    />
                   </View>
-                );
-              })}
+                )}
+                <TouchableOpacity
+                  className="flex-row items-start mb-3"
+                  onPress={() => setPostponeForm((f) => ({ ...f, refundsOffered: !f.refundsOffered }))}
+                  disabled={changingStatus}
+                >
+                  <MaterialIcons
+                    name={postponeForm.refundsOffered ? 'check-box' : 'check-box-outline-blank'}
+                    size={18}
+                    color={postponeForm.refundsOffered ? '#DC2626' : '#9CA3AF'}
+                  />
+                  <Text className="text-gray-900 text-xs ml-2 flex-1">
+                    Let ticket holders who can&apos;t make the new date request a full refund
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {statusActionError ? (
+              <Text className="text-[#EF4444] text-xs mb-2 px-1">{statusActionError}</Text>
+            ) : null}
+
+            <View className="flex-row gap-2">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={() => setStatusAction(null)}
+                disabled={changingStatus}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">
+                  {statusAction === 'cancel' ? 'Keep Event' : 'Back'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className={`flex-1 py-2 rounded-lg items-center ${statusAction === 'cancel' ? 'bg-[#EF4444]' : 'bg-primary'}`}
+                onPress={handleConfirmStatusAction}
+                disabled={changingStatus}
+              >
+                {changingStatus ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">
+                    {statusAction === 'cancel' ? 'Cancel Event' : 'Postpone'}
+                  </Text>
+                )}
+              </TouchableOpacity>
             </View>
-          )}
-        </View>
-      </ScrollView>
+          </Pressable>
+        </Pressable>
+      </RNModal>
 
       <Modal
         visible={showSuccessModal}
@@ -1004,6 +1973,7 @@ export default function CreatedEventDetailsScreen() {
       <QRScanner
         visible={qrScannerOpen}
         onClose={() => setQrScannerOpen(false)}
+        verification={{ eventId: String(getEventId()), publicKey: event.qrPublicKey }}
         onScan={(data) => {
           console.log('QR Code scanned:', data);
           setTicketNumber(data);
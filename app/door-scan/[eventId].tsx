@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { QRScanner } from '@/components/QRScanner';
+import {
+  dismissConflicts,
+  downloadAttendees,
+  getDoorCounts,
+  loadAttendees,
+  loadCheckInQueue,
+  recordCheckIn,
+  syncCheckIns,
+  validateScan,
+  type AttendeeSnapshot,
+  type QueuedCheckIn,
+  type ScanResult,
+} from '@/lib/doorScan';
+
+/** Retry pending check-ins this often while the screen is open */
+const AUTO_SYNC_INTERVAL_MS = 20000;
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export default function DoorScanScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title } = useLocalSearchParams<{ eventId: string; title?: string }>();
+
+  const [snapshot, setSnapshot] = useState<AttendeeSnapshot | null>(null);
+  const [queue, setQueue] = useState<QueuedCheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState<boolean | null>(null);
+  const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [manualKey, setManualKey] = useState('');
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
+
+  // Latest state for the auto-sync interval and scan handler
+  const queueRef = useRef<QueuedCheckIn[]>([]);
+  const snapshotRef = useRef<AttendeeSnapshot | null>(null);
+  const syncingRef = useRef(false);
+  queueRef.current = queue;
+  snapshotRef.current = snapshot;
+
+  const refreshAttendees = useCallback(async () => {
+    if (!eventId) return false;
+    try {
+      setDownloading(true);
+      const fresh = await downloadAttendees(String(eventId));
+      setSnapshot(fresh);
+      setIsOnline(true);
+      return true;
+    } catch (err: any) {
+      console.error('Error downloading attendees:', err);
+      if (!err?.response) setIsOnline(false);
+      return false;
+    } finally {
+      setDownloading(false);
+    }
+  }, [eventId]);
+
+  const runSync = useCallback(async () => {
+    if (!eventId || syncingRef.current) return;
+    const hasPending = queueRef.current.some((c) => c.syncState === 'pending');
+    if (!hasPending) {
+      // Nothing to push: still pull other devices' check-ins
+      await refreshAttendees();
+      return;
+    }
+    try {
+      syncingRef.current = true;
+      setSyncing(true);
+      const result = await syncCheckIns(String(eventId), queueRef.current);
+      setQueue(result.queue);
+      setIsOnline(!result.offline);
+      if (!result.offline) {
+        setLastSyncAt(new Date().toISOString());
+        await refreshAttendees();
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [eventId, refreshAttendees]);
+
+  // Load offline data first, then try to refresh from the server
+  useEffect(() => {
+    const init = async () => {
+      if (!eventId) return;
+      const [storedSnapshot, storedQueue] = await Promise.all([
+        loadAttendees(String(eventId)),
+        loadCheckInQueue(String(eventId)),
+      ]);
+      setSnapshot(storedSnapshot);
+      setQueue(storedQueue);
+      queueRef.current = storedQueue;
+      setLoading(false);
+      await runSync();
+    };
+    init();
+  }, [eventId, runSync]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      runSync();
+    }, AUTO_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [runSync]);
+
+  const handleScan = async (data: string) => {
+    if (!eventId || !snapshotRef.current) return;
+    const result = validateScan(snapshotRef.current, queueRef.current, data);
+    setLastResult(result);
+    if (result.ok) {
+      const next = await recordCheckIn(String(eventId), result.attendee, queueRef.current);
+      queueRef.current = next;
+      setQueue(next);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      runSync();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+    }
+  };
+
+  const handleManualCheckIn = () => {
+    if (!manualKey.trim()) return;
+    handleScan(manualKey);
+    setManualKey('');
+  };
+
+  const handleDismissConflicts = async () => {
+    if (!eventId) return;
+    const next = await dismissConflicts(String(eventId), queueRef.current);
+    setQueue(next);
+  };
+
+  const counts = getDoorCounts(snapshot, queue);
+  const conflicts = queue.filter((c) => c.syncState === 'conflict' && !c.dismissed);
+  const progress = counts.confirmed > 0 ? Math.min(1, counts.checkedIn / counts.confirmed) : 0;
+
+  if (loading) {
+    return (
+      <View className="flex-1 bg-white items-center justify-center">
+        <ActivityIndicator size="large" color="#DC2626" />
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Door Scanning</Text>
+          {title ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{title}</Text>
+          ) : null}
+        </View>
+        <View className="flex-row items-center">
+          <View className={`w-2 h-2 rounded-full mr-1 ${isOnline ? 'bg-[#10B981]' : isOnline === false ? 'bg-[#EF4444]' : 'bg-gray-300'}`} />
+          <Text className="text-gray-600 text-[10px]">{isOnline ? 'Online' : isOnline === false ? 'Offline' : '…'}</Text>
+        </View>
+      </View>
+
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}>
+        {!snapshot ? (
+          <View className="items-center py-10">
+            <MaterialIcons name="cloud-download" size={40} color="#9CA3AF" />
+            <Text className="text-gray-700 text-sm mt-3 text-center">
+              Download the attendee list while you have a connection. Scanning then works without internet.
+            </Text>
+            <TouchableOpacity
+              className="bg-primary py-2.5 px-5 rounded-lg mt-4"
+              onPress={refreshAttendees}
+              disabled={downloading}
+            >
+              {downloading ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text className="text-white text-sm font-semibold">Download attendees</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {/* Live counts */}
+            <View className="bg-gray-50 border border-gray-200 rounded-xl p-4 mb-3">
+              <Text className="text-gray-500 text-xs font-medium">Checked in</Text>
+              <Text className="text-gray-900 text-3xl font-bold mt-1">
+                {counts.checkedIn}
+                <Text className="text-gray-400 text-lg font-semibold"> / {counts.confirmed}</Text>
+              </Text>
+              <View className="h-1.5 bg-gray-200 rounded-full mt-2 overflow-hidden">
+                <View className="h-full bg-[#10B981]" style={{ width: `${progress * 100}%` }} />
+              </View>
+              <View className="flex-row items-center justify-between mt-2">
+                <Text className="text-gray-500 text-[10px]">
+                  List from {formatClock(snapshot.downloadedAt)}
+                  {lastSyncAt ? ` · synced ${formatClock(lastSyncAt)}` : ''}
+                </Text>
+                <TouchableOpacity className="flex-row items-center" onPress={runSync} disabled={syncing || downloading}>
+                  {syncing || downloading ? (
+                    <ActivityIndicator size="small" color="#6B7280" />
+                  ) : (
+                    <>
+                      <MaterialIcons name="sync" size={14} color="#6B7280" />
+                      <Text className="text-gray-600 text-[10px] ml-1">
+                        {counts.pending > 0 ? `Sync ${counts.pending}` : 'Refresh'}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Scan result */}
+            {lastResult && (
+              <View
+                className={`rounded-xl p-4 mb-3 border ${lastResult.ok ? 'bg-[#10B981]/10 border-[#10B981]/50' : 'bg-[#EF4444]/10 border-[#EF4444]/50'}`}
+              >
+                <View className="flex-row items-center">
+                  <MaterialIcons
+                    name={lastResult.ok ? 'check-circle' : 'block'}
+                    size={28}
+                    color={lastResult.ok ? '#10B981' : '#EF4444'}
+                  />
+                  <View className="flex-1 ml-3">
+                    <Text className={`text-base font-bold ${lastResult.ok ? 'text-[#10B981]' : 'text-[#EF4444]'}`}>
+                      {lastResult.ok ? 'Valid — let in' : 'Rejected'}
+                    </Text>
+                    {lastResult.attendee ? (
+                      <Text className="text-gray-900 text-sm">
+                        {lastResult.attendee.name}
+                        {lastResult.attendee.tierName ? ` · ${lastResult.attendee.tierName}` : ''}
+                      </Text>
+                    ) : null}
+                    {!lastResult.ok ? <Text className="text-gray-700 text-xs mt-0.5">{lastResult.reason}</Text> : null}
+                  </View>
+                </View>
+              </View>
+            )}
+
+            <TouchableOpacity
+              className="bg-primary py-3.5 rounded-xl flex-row items-center justify-center mb-3"
+              onPress={() => setScannerOpen(true)}
+            >
+              <MaterialIcons name="qr-code-scanner" size={20} color="#FFFFFF" />
+              <Text className="text-white text-sm font-semibold ml-2">Scan ticket</Text>
+            </TouchableOpacity>
+
+            <View className="flex-row items-center gap-2 mb-4">
+              <TextInput
+                className="flex-1 bg-gray-50 text-gray-900 text-xs px-3 py-2.5 rounded-lg border border-gray-200 font-mono"
+                placeholder="Or enter ticket #"
+                placeholderTextColor="#9CA3AF"
+                value={manualKey}
+                onChangeText={setManualKey}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleManualCheckIn}
+              />
+              <TouchableOpacity
+                className={`px-4 py-2.5 rounded-lg ${manualKey.trim() ? 'bg-gray-900' : 'bg-gray-200'}`}
+                onPress={handleManualCheckIn}
+                disabled={!manualKey.trim()}
+              >
+                <Text className="text-white text-xs font-semibold">Check in</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Conflicts - rejected by the server after the guest was let in offline */}
+            {conflicts.length > 0 && (
+              <View className="bg-[#F59E0B]/10 border border-[#F59E0B]/50 rounded-xl p-3 mb-4">
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-gray-900 text-xs font-bold">Sync conflicts ({conflicts.length})</Text>
+                  <TouchableOpacity onPress={handleDismissConflicts}>
+                    <Text className="text-gray-600 text-[10px] font-semibold">Dismiss</Text>
+                  </TouchableOpacity>
+                </View>
+                {conflicts.map((c) => (
+                  <View key={c.accessKey} className="mb-1.5">
+                    <Text className="text-gray-900 text-xs">
+                      {c.name} · scanned here {formatClock(c.scannedAt)}
+                    </Text>
+                    <Text className="text-gray-600 text-[10px]">{c.conflictReason}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Recent check-ins on this device */}
+            {queue.length > 0 && (
+              <View>
+                <Text className="text-gray-900 text-xs font-bold mb-2">This device</Text>
+                {queue.slice(0, 30).map((c) => (
+                  <View key={c.accessKey} className="flex-row items-center py-1.5 border-b border-gray-100">
+                    <MaterialIcons
+                      name={c.syncState === 'synced' ? 'cloud-done' : c.syncState === 'conflict' ? 'warning' : 'cloud-queue'}
+                      size={14}
+                      color={c.syncState === 'synced' ? '#10B981' : c.syncState === 'conflict' ? '#F59E0B' : '#9CA3AF'}
+                    />
+                    <Text className="text-gray-900 text-xs flex-1 ml-2" numberOfLines={1}>{c.name}</Text>
+                    <Text className="text-gray-500 text-[10px]">{formatClock(c.scannedAt)}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <QRScanner
+        visible={scannerOpen}
+        onClose={() => setScannerOpen(false)}
+        verification={eventId ? { eventId: String(eventId), publicKey: snapshot?.qrPublicKey } : undefined}
+        onScan={(data) => {
+          setScannerOpen(false);
+          handleScan(data);
+        }}
+      />
+    </View>
+  );
+}
@@ -17,18 +17,62 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAppStore } from '@/store/useAppStore';
 import { formatApiError } from '@/lib/utils/errorUtils';
+import {
+  createTierFormData,
+  summarizeTiers,
+  tiersFromEvent,
+  tiersToApi,
+  validateTiers,
+  type TierFormData,
+} from '@/lib/utils/ticketTierUtils';
 import { authAPI } from '@/lib/api/auth';
 import { eventsAPI, type Event } from '@/lib/api/events';
 import { Modal } from '@/components/Modal';
 import { BackButton } from '@/components/BackButton';
+import { AgendaEditor } from '@/components/AgendaEditor';
+import { DescriptionEditor } from '@/components/DescriptionEditor';
 import { EventDetailsSkeleton } from '@/components/EventDetailsSkeleton';
+import { PromoCodesManager } from '@/components/PromoCodesManager';
+import { TicketTiersEditor } from '@/components/TicketTiersEditor';
+import { RefundPolicyEditor } from '@/components/RefundPolicyEditor';
+import { RegistrationQuestionsEditor } from '@/components/RegistrationQuestionsEditor';
+import { SalesWindowEditor } from '@/components/SalesWindowEditor';
+import { SpeakersEditor } from '@/components/SpeakersEditor';
 import { ButtonPrimary } from '@/components/ui/ButtonPrimary';
 import { DataInput } from '@/components/ui/DataInput';
+import {
+  createRefundPolicyFormData,
+  refundPolicyToApi,
+  validateRefundPolicy,
+  type RefundPolicyFormData,
+} from '@/lib/utils/refundUtils';
 import { DataSelection } from '@/components/ui/DataSelection';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import * as ImagePicker from 'expo-image-picker';
 import { getEventImageUrl } from '@/lib/utils/imageUtils';
+import { formatRecurrence } from '@/lib/utils/recurrenceUtils';
+import {
+  questionsFromEvent,
+  questionsToApi,
+  validateQuestions,
+  type QuestionFormData,
+} from '@/lib/utils/registrationQuestionUtils';
+import {
+  agendaFromEvent,
+  agendaToApi,
+  speakersFromEvent,
+  speakersToApi,
+  validateAgenda,
+  validateSpeakers,
+  type AgendaItemFormData,
+  type SpeakerFormData,
+} from '@/lib/utils/eventProgramUtils';
+import {
+  createSalesWindowFormData,
+  validateSalesWindow,
+  type SalesWindowFormData,
+} from '@/lib/utils/salesWindowUtils';
 
 interface EventFormData {
   eventName: string;
@@ -38,13 +82,17 @@ interface EventFormData {
   category: string;
   genderSelection: string;
   description: string;
+  agenda: AgendaItemFormData[];
+  speakers: SpeakerFormData[];
   imageUri: string | null;
   imageUrl: string | null;
   imagePath: string | null;
   eventType: 'paid' | 'free';
-  ticketPrice: string;
-  totalTickets: string;
+  tiers: TierFormData[];
   currency: string;
+  refundPolicy: RefundPolicyFormData;
+  questions: QuestionFormData[];
+  salesWindow: SalesWindowFormData;
 }
 
 const GENDER_OPTIONS = ['All', 'Male', 'Female'] as const;
@@ -114,6 +162,12 @@ export default function EditEventScreen() {
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [errors, setErrors] = useState<Partial<Record<keyof EventFormData, string>>>({});
+  const [tierErrors, setTierErrors] = useState<Record<string, string>>({});
+  const [refundPolicyError, setRefundPolicyError] = useState<string | null>(null);
+  const [questionErrors, setQuestionErrors] = useState<Record<string, string>>({});
+  const [agendaErrors, setAgendaErrors] = useState<Record<string, string>>({});
+  const [speakerErrors, setSpeakerErrors] = useState<Record<string, string>>({});
+  const [salesWindowError, setSalesWindowError] = useState<string | null>(null);
 
   const [formData, setFormData] = useState<EventFormData>({
     eventName: '',
@@ -123,13 +177,17 @@ export default function EditEventScreen() {
     category: 'Other',
     genderSelection: 'All',
     description: '',
+    agenda: [],
+    speakers: [],
     imageUri: null,
     imageUrl: null,
     imagePath: null,
     eventType: 'free',
-    ticketPrice: '',
-    totalTickets: '100',
+    tiers: [createTierFormData()],
     currency: 'PKR',
+    refundPolicy: createRefundPolicyFormData(),
+    questions: [],
+    salesWindow: createSalesWindowFormData(),
   });
 
   const eventId = Array.isArray(id) ? id[0] : id;
@@ -163,8 +221,8 @@ export default function EditEventScreen() {
           const e = response.event;
           setEvent(e);
           const price = e.price?.price;
-          const isFree = price === 'free' || price === null || price === undefined;
-          const ticketPriceNum = typeof price === 'number' ? price : e.ticketPrice ?? 0;
+          const hasTiers = Array.isArray(e.ticketTiers) && e.ticketTiers.length > 0;
+          const isFree = !hasTiers && (price === 'free' || price === null || price === undefined);
           const genderCap = e.gender ? e.gender.charAt(0).toUpperCase() + e.gender.slice(1) : 'All';
           const dateStr = e.date;
           const eventDate = dateStr ? new Date(dateStr) : null;
@@ -185,13 +243,17 @@ export default function EditEventScreen() {
             category: categoryForDisplay(e.category),
             genderSelection: genderCap,
             description: e.description || '',
+            agenda: agendaFromEvent(e),
+            speakers: speakersFromEvent(e),
             imageUri: displayImageUrl || null,
             imageUrl: displayImageUrl || null,
             imagePath,
             eventType: isFree ? 'free' : 'paid',
-            ticketPrice: ticketPriceNum > 0 ? String(ticketPriceNum) : '',
-            totalTickets: String(e.totalTickets ?? 100),
-            currency: 'PKR',
+            tiers: tiersFromEvent(e),
+            currency: e.ticketTiers?.[0]?.currency || 'PKR',
+            refundPolicy: createRefundPolicyFormData(e.refundPolicy),
+            questions: questionsFromEvent(e.registrationQuestions),
+            salesWindow: createSalesWindowFormData(e),
           });
         } else {
           setErrorMessage('Event not found');
@@ -210,6 +272,36 @@ export default function EditEventScreen() {
     if (errors[field]) setErrors((prev) => ({ ...prev, [field]: undefined }));
   };
 
+  const handleRefundPolicyChange = (refundPolicy: RefundPolicyFormData) => {
+    setFormData((prev) => ({ ...prev, refundPolicy }));
+    if (refundPolicyError) setRefundPolicyError(null);
+  };
+
+  const handleSalesWindowChange = (salesWindow: SalesWindowFormData) => {
+    setFormData((prev) => ({ ...prev, salesWindow }));
+    if (salesWindowError) setSalesWindowError(null);
+  };
+
+  const handleQuestionsChange = (questions: QuestionFormData[]) => {
+    setFormData((prev) => ({ ...prev, questions }));
+    if (Object.keys(questionErrors).length > 0) setQuestionErrors({});
+  };
+
+  const handleAgendaChange = (agenda: AgendaItemFormData[]) => {
+    setFormData((prev) => ({ ...prev, agenda }));
+    if (Object.keys(agendaErrors).length > 0) setAgendaErrors({});
+  };
+
+  const handleSpeakersChange = (update: (speakers: SpeakerFormData[]) => SpeakerFormData[]) => {
+    setFormData((prev) => ({ ...prev, speakers: update(prev.speakers) }));
+    if (Object.keys(speakerErrors).length > 0) setSpeakerErrors({});
+  };
+
+  const handleTiersChange = (tiers: TierFormData[]) => {
+    setFormData((prev) => ({ ...prev, tiers }));
+    if (Object.keys(tierErrors).length > 0) setTierErrors({});
+  };
+
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -265,16 +357,23 @@ export default function EditEventScreen() {
     if (!formData.eventTime?.trim()) nextErrors.eventTime = 'Start time is required';
     if (!formData.genderSelection?.trim()) nextErrors.genderSelection = 'Gender is required';
     if (formData.description.trim().length < 10) nextErrors.description = 'Description must be at least 10 characters';
+    const nextAgendaErrors = validateAgenda(formData.agenda);
+    const nextSpeakerErrors = validateSpeakers(formData.speakers);
+    setAgendaErrors(nextAgendaErrors);
+    setSpeakerErrors(nextSpeakerErrors);
     setErrors((prev) => ({ ...prev, ...nextErrors }));
-    return Object.keys(nextErrors).length === 0;
+    return (
+      Object.keys(nextErrors).length === 0 &&
+      Object.keys(nextAgendaErrors).length === 0 &&
+      Object.keys(nextSpeakerErrors).length === 0
+    );
   };
 
   const step2Valid =
     formData.eventType === 'free' ||
     (formData.eventType === 'paid' &&
-      formData.ticketPrice.trim() !== '' &&
-      !Number.isNaN(Number(formData.ticketPrice)) &&
-      Number(formData.ticketPrice) >= 0);
+      formData.tiers.length > 0 &&
+      formData.tiers.every((t) => t.price.trim() !== ''));
 
   const handleNext = () => {
     if (!validateStep1()) return;
@@ -283,18 +382,30 @@ export default function EditEventScreen() {
 
   const handleSubmit = async () => {
     if (formData.eventType === 'paid') {
-      const parsed = Number(formData.ticketPrice);
-      if (formData.ticketPrice.trim() === '' || Number.isNaN(parsed) || parsed < 0) {
-        setErrors((prev) => ({ ...prev, ticketPrice: 'Cost per ticket is required' }));
+      const nextTierErrors = validateTiers(formData.tiers);
+      if (Object.keys(nextTierErrors).length > 0) {
+        setTierErrors(nextTierErrors);
         return;
       }
-      const tickets = parseInt(formData.totalTickets, 10);
-      if (Number.isNaN(tickets) || tickets < 1) {
-        setErrors((prev) => ({ ...prev, totalTickets: 'Enter a valid number of tickets' }));
+      const nextRefundPolicyError = validateRefundPolicy(formData.refundPolicy, formData.eventDate);
+      if (nextRefundPolicyError) {
+        setRefundPolicyError(nextRefundPolicyError);
         return;
       }
     }
+    const nextSalesWindowError = validateSalesWindow(formData.salesWindow);
+    if (nextSalesWindowError) {
+      setSalesWindowError(nextSalesWindowError);
+      return;
+    }
+    const nextQuestionErrors = validateQuestions(formData.questions);
+    if (Object.keys(nextQuestionErrors).length > 0) {
+      setQuestionErrors(nextQuestionErrors);
+      return;
+    }
     setErrors({});
+    setTierErrors({});
+    setQuestionErrors({});
 
     if (!eventId) {
       setErrorMessage('Event ID is missing');
@@ -329,8 +440,8 @@ export default function EditEventScreen() {
       const [hours, minutes] = formData.eventTime.split(':');
       const timeStr = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
 
-      const totalTickets =
-        formData.eventType === 'free' ? undefined : parseInt(formData.totalTickets, 10) || 100;
+      const ticketTiers = formData.eventType === 'free' ? [] : tiersToApi(formData.tiers, formData.currency);
+      const { ticketPrice, totalTickets } = summarizeTiers(ticketTiers);
 
       const updateData: Parameters<typeof eventsAPI.updateEvent>[1] = {
         title: formData.eventName.trim(),
@@ -338,8 +449,14 @@ export default function EditEventScreen() {
         time: timeStr,
         location: formData.address.trim() || undefined,
         description: formData.description.trim() || undefined,
-        totalTickets,
-        ticketPrice: formData.eventType === 'free' ? 0 : Number(formData.ticketPrice),
+        agenda: agendaToApi(formData.agenda),
+        speakers: speakersToApi(formData.speakers),
+        totalTickets: formData.eventType === 'free' ? undefined : totalTickets,
+        ticketPrice,
+        ticketTiers,
+        refundPolicy: formData.eventType === 'free' ? undefined : refundPolicyToApi(formData.refundPolicy),
+        registrationQuestions: questionsToApi(formData.questions),
+        ...formData.salesWindow,
         email: user?.email || '',
         phone: user?.phone || undefined,
         gender: genderToApi(formData.genderSelection),
@@ -512,6 +629,28 @@ export default function EditEventScreen() {
               </View>
             </View>
 
+            {/* Recurring events: the date above is the first session; the rest are managed per session */}
+            {event?.recurrence ? (
+              <TouchableOpacity
+                className="flex-row items-center bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 mb-3"
+                onPress={() =>
+                  router.push({
+                    pathname: '/event-sessions/[eventId]',
+                    params: { eventId: String(eventId), title: event.title },
+                  })
+                }
+              >
+                <MaterialIcons name="event-repeat" size={18} color="#DC2626" style={{ marginRight: 8 }} />
+                <View className="flex-1">
+                  <Text className="text-gray-900 text-xs font-semibold">
+                    {formatRecurrence(event.recurrence, event.occurrences?.length)}
+                  </Text>
+                  <Text className="text-gray-500 text-[10px]">Edit or cancel single sessions</Text>
+                </View>
+                <MaterialIcons name="chevron-right" size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            ) : null}
+
             {showDatePicker && (
               <View className="mb-4">
                 {Platform.OS === 'ios' && (
@@ -594,17 +733,18 @@ export default function EditEventScreen() {
               className="mb-3"
             />
 
-            <DataInput
+            <DescriptionEditor
               label="Description (min 10 characters)"
-              placeholder="description"
               value={formData.description}
-              onChangeText={(v) => handleInputChange('description', v)}
-              multiline
-              textAlignVertical="top"
+              onChange={(v) => handleInputChange('description', v)}
               error={errors.description}
               className="mb-6"
             />
 
+            <AgendaEditor items={formData.agenda} onChange={handleAgendaChange} errors={agendaErrors} />
+
+            <SpeakersEditor speakers={formData.speakers} onChange={handleSpeakersChange} errors={speakerErrors} />
+
             <ButtonPrimary
               size="lg"
               onPress={handleNext}
@@ -630,15 +770,6 @@ export default function EditEventScreen() {
 
             {formData.eventType === 'paid' && (
               <>
-                <DataInput
-                  label="Cost Per Ticket"
-                  placeholder="e.g. 600"
-                  value={formData.ticketPrice}
-                  onChangeText={(v) => handleInputChange('ticketPrice', v)}
-                  error={errors.ticketPrice}
-                  keyboardType="numeric"
-                  className="mb-3"
-                />
                 <DataSelection
                   label="Select Currency"
                   value={formData.currency}
@@ -651,18 +782,40 @@ export default function EditEventScreen() {
                   getLabel={(v) => CURRENCY_OPTIONS.find((c) => c.code === v)?.label ?? v}
                   className="mb-4"
                 />
-                <DataInput
-                  label="Total Tickets"
-                  placeholder="e.g. 100"
-                  value={formData.totalTickets}
-                  onChangeText={(v) => handleInputChange('totalTickets', v)}
-                  error={errors.totalTickets}
-                  keyboardType="numeric"
-                  className="mb-4"
+                <TicketTiersEditor
+                  tiers={formData.tiers}
+                  onChange={handleTiersChange}
+                  errors={tierErrors}
+                  currency={formData.currency}
+                />
+                <RefundPolicyEditor
+                  value={formData.refundPolicy}
+                  onChange={handleRefundPolicyChange}
+                  error={refundPolicyError ?? undefined}
+                  eventDate={formData.eventDate}
                 />
+                {id && (
+                  <PromoCodesManager
+                    eventId={String(id)}
+                    tiers={event?.ticketTiers ?? []}
+                    currency={formData.currency}
+                  />
+                )}
               </>
             )}
 
+            <SalesWindowEditor
+              value={formData.salesWindow}
+              onChange={handleSalesWindowChange}
+              error={salesWindowError ?? undefined}
+            />
+
+            <RegistrationQuestionsEditor
+              questions={formData.questions}
+              onChange={handleQuestionsChange}
+              errors={questionErrors}
+            />
+
             <ButtonPrimary
               size="lg"
               onPress={handleSubmit}
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { BarList, ColumnChart, DonutChart } from '@/components/AnalyticsCharts';
+import { eventsAPI, type EventAnalytics } from '@/lib/api/events';
+import { formatPaymentAmount, formatPaymentMethod } from '@/lib/utils/paymentUtils';
+import {
+  buildAnalyticsCsv,
+  formatDayLabel,
+  formatHourLabel,
+  percentOf,
+} from '@/lib/utils/eventAnalytics';
+import { shareCsv } from '@/lib/utils/csvUtils';
+
+type SalesMetric = 'tickets' | 'revenue';
+
+const GENDER_TARGET_LABELS: Record<string, string> = {
+  male: 'This event targets men',
+  female: 'This event targets women',
+  all: 'This event is open to everyone',
+};
+
+function Section({ title, children, right }: { title: string; children: React.ReactNode; right?: React.ReactNode }) {
+  return (
+    <View className="bg-white border border-gray-200 rounded-xl p-3 mb-3">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-gray-900 text-sm font-semibold">{title}</Text>
+        {right}
+      </View>
+      {children}
+    </View>
+  );
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <View className="flex-1 bg-gray-50 border border-gray-200 rounded-xl p-3">
+      <Text className="text-gray-500 text-[10px]">{label}</Text>
+      <Text className="text-gray-900 text-base font-bold mt-0.5" numberOfLines={1}>{value}</Text>
+    </View>
+  );
+}
+
+export default function EventAnalyticsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title, gender } = useLocalSearchParams<{ eventId: string; title?: string; gender?: string }>();
+
+  const [analytics, setAnalytics] = useState<EventAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [salesMetric, setSalesMetric] = useState<SalesMetric>('tickets');
+  const [exporting, setExporting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const response = await eventsAPI.getEventAnalytics(String(eventId));
+      if (response.success) setAnalytics(response.analytics);
+    } catch (err: any) {
+      console.error('Error fetching analytics:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchAnalytics();
+    setRefreshing(false);
+  };
+
+  const handleExport = async () => {
+    if (!analytics) return;
+    try {
+      setExporting(true);
+      const eventTitle = title || 'Event';
+      await shareCsv(`${eventTitle}-analytics`, buildAnalyticsCsv(analytics, eventTitle), 'Export analytics');
+    } catch (err: any) {
+      console.error('Error exporting analytics:', err);
+      setErrorMessage(err.message || 'Could not export analytics');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const money = (amount: number) => formatPaymentAmount(amount, analytics?.currency);
+  const totalRevenue = analytics?.revenueByMethod.reduce((sum, m) => sum + m.revenue, 0) ?? 0;
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Analytics</Text>
+          {title ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{title}</Text>
+          ) : null}
+        </View>
+        <TouchableOpacity className="w-8 items-end" onPress={handleExport} disabled={!analytics || exporting}>
+          {exporting ? (
+            <ActivityIndicator size="small" color="#6B7280" />
+          ) : (
+            <MaterialIcons name="ios-share" size={22} color={analytics ? '#111827' : '#D1D5DB'} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : !analytics ? (
+        <View className="flex-1 items-center justify-center px-6">
+          <MaterialIcons name="insights" size={40} color="#9CA3AF" />
+          <Text className="text-gray-700 text-sm mt-3 text-center">No analytics available yet.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          <View className="flex-row gap-2 mb-2">
+            <StatTile label="Revenue" value={money(totalRevenue)} />
+            <StatTile label="Registrations" value={String(analytics.funnel.registrations)} />
+          </View>
+          <View className="flex-row gap-2 mb-3">
+            <StatTile
+              label="Check-in rate"
+              value={`${percentOf(analytics.checkIns.checkedIn, analytics.checkIns.eligible)}%`}
+            />
+            <StatTile
+              label="Views → registrations"
+              value={`${percentOf(analytics.funnel.registrations, analytics.funnel.views)}%`}
+            />
+          </View>
+
+          <Section
+            title="Sales over time"
+            right={
+              <View className="flex-row bg-gray-100 rounded-lg p-0.5">
+                {(['tickets', 'revenue'] as SalesMetric[]).map((metric) => (
+                  <TouchableOpacity
+                    key={metric}
+                    className={`px-2 py-1 rounded-md ${salesMetric === metric ? 'bg-white' : ''}`}
+                    onPress={() => setSalesMetric(metric)}
+                  >
+                    <Text className={`text-[10px] font-semibold ${salesMetric === metric ? 'text-gray-900' : 'text-gray-500'}`}>
+                      {metric === 'tickets' ? 'Tickets' : 'Revenue'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            }
+          >
+            {analytics.salesByDay.length === 0 ? (
+              <Text className="text-gray-500 text-xs">No registrations yet.</Text>
+            ) : (
+              <ColumnChart
+                data={analytics.salesByDay.map((d) => ({
+                  label: formatDayLabel(d.date),
+                  value: salesMetric === 'tickets' ? d.tickets : d.revenue,
+                }))}
+                formatValue={salesMetric === 'tickets' ? String : money}
+              />
+            )}
+          </Section>
+
+          {analytics.revenueByTier.length > 0 && (
+            <Section title="Revenue by tier">
+              <BarList
+                data={[...analytics.revenueByTier]
+                  .sort((a, b) => b.revenue - a.revenue)
+                  .map((t) => ({ label: t.name, value: t.revenue, detail: `${t.tickets} tickets` }))}
+                formatValue={money}
+              />
+            </Section>
+          )}
+
+          {analytics.revenueByMethod.length > 0 && (
+            <Section title="Revenue by payment method">
+              <BarList
+                data={[...analytics.revenueByMethod]
+                  .sort((a, b) => b.revenue - a.revenue)
+                  .map((m) => ({ label: formatPaymentMethod(m.method), value: m.revenue, detail: `${m.payments} payments` }))}
+                color="#3B82F6"
+                formatValue={money}
+              />
+            </Section>
+          )}
+
+          <Section title="Conversion">
+            <BarList
+              data={[
+                { label: 'Views', value: analytics.funnel.views },
+                {
+                  label: 'Likes',
+                  value: analytics.funnel.likes,
+                  detail: `${percentOf(analytics.funnel.likes, analytics.funnel.views)}%`,
+                },
+                {
+                  label: 'Registrations',
+                  value: analytics.funnel.registrations,
+                  detail: `${percentOf(analytics.funnel.registrations, analytics.funnel.views)}%`,
+                },
+                {
+                  label: 'Confirmed',
+                  value: analytics.funnel.confirmed,
+                  detail: `${percentOf(analytics.funnel.confirmed, analytics.funnel.registrations)}% of registrations`,
+                },
+              ]}
+              color="#F59E0B"
+            />
+          </Section>
+
+          <Section title="Check-ins">
+            <Text className="text-gray-700 text-xs mb-3">
+              {analytics.checkIns.checkedIn} of {analytics.checkIns.eligible} attendees checked in (
+              {percentOf(analytics.checkIns.checkedIn, analytics.checkIns.eligible)}%)
+            </Text>
+            {analytics.checkIns.byHour.length > 0 ? (
+              <ColumnChart
+                data={analytics.checkIns.byHour.map((h) => ({ label: formatHourLabel(h.hour), value: h.count }))}
+                color="#10B981"
+                height={100}
+              />
+            ) : (
+              <Text className="text-gray-500 text-xs">No scans yet.</Text>
+            )}
+          </Section>
+
+          <Section title="Gender">
+            {gender && GENDER_TARGET_LABELS[gender] ? (
+              <Text className="text-gray-500 text-[10px] mb-2">{GENDER_TARGET_LABELS[gender]}</Text>
+            ) : null}
+            <DonutChart
+              data={[
+                { label: 'Male', value: analytics.genderSplit.male, color: '#3B82F6' },
+                { label: 'Female', value: analytics.genderSplit.female, color: '#EC4899' },
+                { label: 'Other', value: analytics.genderSplit.other, color: '#F59E0B' },
+                { label: 'Not specified', value: analytics.genderSplit.unknown, color: '#D1D5DB' },
+              ]}
+              centerLabel={String(
+                analytics.genderSplit.male +
+                  analytics.genderSplit.female +
+                  analytics.genderSplit.other +
+                  analytics.genderSplit.unknown
+              )}
+            />
+          </Section>
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </View>
+  );
+}
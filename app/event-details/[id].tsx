@@ -3,9 +3,24 @@ import { EventDetailsSkeleton } from '@/components/EventDetailsSkeleton';
 import { Modal } from '@/components/Modal';
 import { authAPI } from '@/lib/api/auth';
 import { eventsAPI, type Event } from '@/lib/api/events';
-import { ticketsAPI, type GetMyTicketsResponse } from '@/lib/api/tickets';
+import { ticketsAPI, type GetMyTicketsResponse, type OrderGuest, type RegistrationAnswers } from '@/lib/api/tickets';
+import { waitlistAPI, type WaitlistEntry } from '@/lib/api/waitlist';
+import { announcementsAPI, type Announcement } from '@/lib/api/announcements';
+import { promoCodesAPI } from '@/lib/api/promoCodes';
 import { CACHE_KEYS, getCached, setCached } from '@/lib/cache';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import { formatTierPrice, getTierAvailability, getTierId, isEventSoldOut } from '@/lib/utils/ticketTierUtils';
+import { formatPromoDiscount, normalizePromoCode } from '@/lib/utils/promoCodeUtils';
+import { formatRefundPolicy } from '@/lib/utils/refundUtils';
+import { buildIcs, eventToIcsEvent, shareIcs } from '@/lib/utils/calendarUtils';
+import { formatDateTimeRange, formatRecurrence, getUpcomingOccurrences } from '@/lib/utils/recurrenceUtils';
+import { answersToApi, createEmptyAnswers, validateAnswers } from '@/lib/utils/registrationQuestionUtils';
+import { RegistrationQuestionsForm } from '@/components/RegistrationQuestionsForm';
+import { formatCountdown, formatSalesDate, getSalesStatus } from '@/lib/utils/salesWindowUtils';
+import { getEffectiveRefundPolicy, getEventStatusBanner, isRegistrationSuspended } from '@/lib/utils/eventStatusUtils';
+import { EventStatusBanner } from '@/components/EventStatusBanner';
+import { AgendaList, SpeakerList } from '@/components/EventProgram';
+import { MarkdownText } from '@/components/MarkdownText';
 import { useAppStore } from '@/store/useAppStore';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -35,10 +50,14 @@ import AnimatedReanimated, {
 } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+/** Max tickets a single user can book in one group order */
+const MAX_TICKETS_PER_ORDER = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 export default function EventDetailsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { id, returnTo } = useLocalSearchParams<{ id: string; returnTo?: string }>();
+  const { id, returnTo, section } = useLocalSearchParams<{ id: string; returnTo?: string; section?: string }>();
   const handleBack = () => {
     if (returnTo === 'notifications') {
       router.replace('/(tabs)/notifications');
@@ -70,11 +89,42 @@ export default function EventDetailsScreen() {
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [errorModalMessage, setErrorModalMessage] = useState('');
   const [showInvalidPhoneModal, setShowInvalidPhoneModal] = useState(false);
+  const [showTierModal, setShowTierModal] = useState(false);
+  const [selectedTierId, setSelectedTierId] = useState<string | null>(null);
+  // The tier picker is shared by registration and joining the waitlist of a sold-out event
+  const [tierPickerFor, setTierPickerFor] = useState<'register' | 'waitlist'>('register');
+  const [selectedOccurrenceId, setSelectedOccurrenceId] = useState<string | null>(null);
+  const [ticketQuantity, setTicketQuantity] = useState(1);
+  const [guests, setGuests] = useState<{ name: string; email: string; answers: RegistrationAnswers }[]>([]);
+  const [guestErrors, setGuestErrors] = useState<string[]>([]);
+  /** Registration question errors per guest, keyed by question id */
+  const [guestAnswerErrors, setGuestAnswerErrors] = useState<Record<string, string>[]>([]);
+  const [showGuestsModal, setShowGuestsModal] = useState(false);
+  const [pendingPhone, setPendingPhone] = useState('');
+  const [answers, setAnswers] = useState<RegistrationAnswers>({});
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
+  const [showQuestionsModal, setShowQuestionsModal] = useState(false);
+  /** Ticks while a "Registration opens in..." countdown is shown */
+  const [now, setNow] = useState(() => new Date());
+  const [salesReminderSet, setSalesReminderSet] = useState(false);
+  const [settingReminder, setSettingReminder] = useState(false);
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [soldOutOnServer, setSoldOutOnServer] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<{ code: string; label: string } | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  /** Latest promo check; results of older checks (quantity tapped again) are ignored */
+  const promoCheckRef = useRef(0);
   const [userTicketId, setUserTicketId] = useState<string | null>(null);
   const [userTickets, setUserTickets] = useState<any[]>([]);
   const [loadingTickets, setLoadingTickets] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
   const [ticketsSectionY, setTicketsSectionY] = useState<number>(0);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [showAllAnnouncements, setShowAllAnnouncements] = useState(false);
+  const [announcementsY, setAnnouncementsY] = useState<number>(0);
   const [showImageViewer, setShowImageViewer] = useState(false);
   const [sBackgroundFetching, setIsBackgroundFetching] = useState(false);
   const loadingLineProgress = useSharedValue(0);
@@ -216,6 +266,65 @@ export default function EventDetailsScreen() {
     fetchUserTickets();
   }, [event, user, id]);
 
+  // Organizer announcements - backend only returns the ones this user received
+  useEffect(() => {
+    const fetchAnnouncements = async () => {
+      if (!user || !id) return;
+      try {
+        const response = await announcementsAPI.getEventAnnouncements(id);
+        if (response.success) {
+          setAnnouncements(
+            [...(response.announcements || [])].sort(
+              (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+            )
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching announcements:', error);
+      }
+    };
+
+    fetchAnnouncements();
+  }, [user, id]);
+
+  // Opened from an announcement notification: bring the feed into view
+  useEffect(() => {
+    if (section === 'announcements' && announcementsY > 0) {
+      scrollViewRef.current?.scrollTo({ y: announcementsY - 20, animated: true });
+    }
+  }, [section, announcementsY]);
+
+  useEffect(() => {
+    setSalesReminderSet(!!event?.salesReminderSet);
+  }, [event?.salesReminderSet]);
+
+  // Countdown to sales opening; stops once registration is open
+  useEffect(() => {
+    const opensAt = event?.salesOpenAt ? new Date(event.salesOpenAt).getTime() : 0;
+    if (opensAt <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(new Date());
+      if (Date.now() >= opensAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [event?.salesOpenAt]);
+
+  // Waitlist entry only matters once the event is sold out
+  useEffect(() => {
+    const fetchWaitlistEntry = async () => {
+      if (!event || !user || !id || isRegistered) return;
+      if (!isEventSoldOut(event) && !soldOutOnServer) return;
+      try {
+        const response = await waitlistAPI.getMyEntry(id);
+        if (response.success) setWaitlistEntry(response.entry);
+      } catch (error) {
+        console.error('Error fetching waitlist entry:', error);
+      }
+    };
+
+    fetchWaitlistEntry();
+  }, [event, user, id, isRegistered, soldOutOnServer]);
+
   // Animate heart: scale up for like, scale down for unlike, then restore
   const animateLike = useCallback((liked: boolean) => {
     const toValue = liked ? 1.25 : 0.85;
@@ -300,6 +409,13 @@ export default function EventDetailsScreen() {
     );
   }
 
+  const registrationQuestions = event.registrationQuestions ?? [];
+
+  // Recurring events: attendees register for one session (defaults to the next one)
+  const upcomingOccurrences = getUpcomingOccurrences(event);
+  const selectedOccurrence =
+    upcomingOccurrences.find((o) => o._id === selectedOccurrenceId) ?? upcomingOccurrences[0] ?? null;
+
   const handleRegister = async () => {
     const isAuthenticated = useAppStore.getState().isAuthenticated;
     if (!isAuthenticated) {
@@ -309,7 +425,26 @@ export default function EventDetailsScreen() {
     }
     if (!user || !event) return;
 
-    const eventId = event._id || (event as any).id;
+    // Tiered events: pick a tier first, then continue in handleTierSelect
+    if (event.ticketTiers && event.ticketTiers.length > 0) {
+      setTierPickerFor('register');
+      setShowTierModal(true);
+      return;
+    }
+
+    await continueRegistration(null);
+  };
+
+  const handleTierSelect = async (tierId: string) => {
+    setSelectedTierId(tierId);
+    setShowTierModal(false);
+    // Codes can be limited to tiers: confirm the discount for this tier before registering
+    if (appliedPromo && !(await checkPromo(appliedPromo.code, tierId, ticketQuantity))) return;
+    await continueRegistration(tierId);
+  };
+
+  const continueRegistration = async (tierId: string | null) => {
+    if (!user || !event) return;
 
     // Check if user has phone number
     if (!user.phone || user.phone.trim() === '') {
@@ -317,10 +452,42 @@ export default function EventDetailsScreen() {
       return;
     }
 
-    await createTicket(eventId, user.phone);
+    proceedWithPhone(user.phone, tierId);
+  };
+
+  // Registration questions first (if any); then single tickets go straight to creation
+  // and group bookings collect guest details
+  const proceedWithPhone = (phone: string, tierId: string | null, answered = false) => {
+    if (!event) return;
+    const eventId = event._id || (event as any).id;
+    if (!answered && registrationQuestions.length > 0) {
+      setPendingPhone(phone);
+      setSelectedTierId(tierId);
+      setShowPhoneModal(false);
+      setAnswers((prev) => ({ ...createEmptyAnswers(registrationQuestions), ...prev }));
+      setAnswerErrors({});
+      setShowQuestionsModal(true);
+      return;
+    }
+    if (ticketQuantity > 1) {
+      setPendingPhone(phone);
+      setSelectedTierId(tierId);
+      setShowPhoneModal(false);
+      setGuests((prev) =>
+        Array.from(
+          { length: ticketQuantity - 1 },
+          (_, i) => prev[i] ?? { name: '', email: '', answers: createEmptyAnswers(registrationQuestions) }
+        )
+      );
+      setGuestErrors([]);
+      setGuestAnswerErrors([]);
+      setShowGuestsModal(true);
+      return;
+    }
+    createTicket(eventId, phone, tierId, []);
   };
 
-  const createTicket = async (eventId: string, phone: string) => {
+  const createTicket = async (eventId: string, phone: string, tierId: string | null, orderGuests: OrderGuest[]) => {
     if (!user || !event) return;
 
     try {
@@ -331,11 +498,19 @@ export default function EventDetailsScreen() {
         username: user.username || user.fullName,
         email: user.email,
         phone: phone.trim(),
+        ...(tierId ? { tierId } : {}),
+        ...(selectedOccurrence ? { occurrenceId: selectedOccurrence._id } : {}),
+        ...(appliedPromo ? { promoCode: appliedPromo.code } : {}),
+        ...(registrationQuestions.length > 0 ? { answers: answersToApi(registrationQuestions, answers) } : {}),
       };
 
-      const response = await ticketsAPI.createTicket(ticketData);
+      // Group booking: one order, one ticket per attendee (buyer first)
+      const createdTicket =
+        orderGuests.length > 0
+          ? (await ticketsAPI.createOrder({ ...ticketData, guests: orderGuests })).order?.tickets?.[0]
+          : (await ticketsAPI.createTicket(ticketData)).ticket;
 
-      if (response.success && response.ticket) {
+      if (createdTicket) {
         // Refresh user profile to update joinedEvents
         try {
           const profileResponse = await authAPI.getProfile();
@@ -361,25 +536,45 @@ export default function EventDetailsScreen() {
           console.error('Failed to refresh tickets:', ticketsError);
         }
 
-        setUserTicketId(response.ticket.id);
+        setUserTicketId(createdTicket.id);
         setIsRegistered(true);
 
-        const isFreeEvent =
-          (event as any)?.price?.price === 'free' ||
-          (event as any)?.price?.currency === null ||
-          !event?.ticketPrice ||
-          event.ticketPrice <= 0 ||
-          response.ticket.status === 'confirmed';
+        const isFreeEvent = createdTicket.tier
+          ? createdTicket.tier.price <= 0 || createdTicket.status === 'confirmed'
+          : (event as any)?.price?.price === 'free' ||
+            (event as any)?.price?.currency === null ||
+            !event?.ticketPrice ||
+            event.ticketPrice <= 0 ||
+            createdTicket.status === 'confirmed';
 
+        const count = orderGuests.length + 1;
         setModalMessage(
-          isFreeEvent
-            ? 'Your free ticket is confirmed! You can view your QR code in the ticket screen.'
-            : 'Ticket created successfully! Please submit payment to confirm your ticket.'
+          count > 1
+            ? isFreeEvent
+              ? `Your ${count} free tickets are confirmed! Each guest has their own QR code in the ticket screen.`
+              : `${count} tickets created! Submit one payment from your ticket to confirm the whole order.`
+            : isFreeEvent
+              ? 'Your free ticket is confirmed! You can view your QR code in the ticket screen.'
+              : createdTicket.pricing && createdTicket.pricing.discountAmount > 0
+                ? `Ticket created with code ${createdTicket.pricing.promoCode ?? appliedPromo?.code}! Please submit payment of ${formatTierPrice(createdTicket.pricing.amountDue, createdTicket.pricing.currency)} to confirm your ticket.`
+                : 'Ticket created successfully! Please submit payment to confirm your ticket.'
         );
         setShowModal(true);
+        setShowGuestsModal(false);
+        setShowQuestionsModal(false);
+        setAnswers({});
+        setTicketQuantity(1);
+        setGuests([]);
+        setSelectedTierId(null);
+        setAppliedPromo(null);
+        setPromoInput('');
       }
     } catch (error: any) {
       console.error('Error creating ticket:', error);
+      // Capacity reached between loading the event and registering: switch to the waitlist UI
+      if (error.response?.data?.code === 'SOLD_OUT') {
+        setSoldOutOnServer(true);
+      }
       const errorMessage = error.response?.data?.message || error.message || 'Failed to create ticket';
       setErrorModalMessage(errorMessage);
       setShowErrorModal(true);
@@ -387,6 +582,174 @@ export default function EventDetailsScreen() {
       setCreatingTicket(false);
       setShowPhoneModal(false);
       setPhoneInput('');
+      if (orderGuests.length === 0) setSelectedTierId(null);
+    }
+  };
+
+  // Check the code for the chosen tier and quantity (codes can be limited to a tier or a minimum quantity)
+  const checkPromo = async (code: string, tierId: string | null, quantity: number): Promise<boolean> => {
+    if (!event) return false;
+    const check = ++promoCheckRef.current;
+    try {
+      setApplyingPromo(true);
+      setPromoError(null);
+      const response = await promoCodesAPI.validatePromoCode(event._id || (event as any).id, {
+        code,
+        quantity,
+        ...(tierId ? { tierId } : {}),
+      });
+      if (check !== promoCheckRef.current) return false;
+      if (response.valid && response.discountType && response.discountValue != null) {
+        setAppliedPromo({
+          code,
+          label: formatPromoDiscount(response.discountType, response.discountValue, response.currency),
+        });
+        return true;
+      }
+      setAppliedPromo(null);
+      setPromoError(response.message || 'This code is not valid');
+      return false;
+    } catch (error: any) {
+      if (check !== promoCheckRef.current) return false;
+      setAppliedPromo(null);
+      setPromoError(error.response?.data?.message || error.message || 'Could not check this code');
+      return false;
+    } finally {
+      if (check === promoCheckRef.current) setApplyingPromo(false);
+    }
+  };
+
+  // Check the code up front so the user sees the discount before registering
+  const handleApplyPromo = async () => {
+    const code = normalizePromoCode(promoInput);
+    if (!code) return;
+    await checkPromo(code, selectedTierId, ticketQuantity);
+  };
+
+  const handleQuantityChange = (quantity: number) => {
+    setTicketQuantity(quantity);
+    if (appliedPromo) checkPromo(appliedPromo.code, selectedTierId, quantity);
+  };
+
+  const handleJoinWaitlist = async () => {
+    const isAuthenticated = useAppStore.getState().isAuthenticated;
+    if (!isAuthenticated) {
+      setLoginModalMessage('Please login to join the waitlist.');
+      setShowLoginModal(true);
+      return;
+    }
+    if (!event) return;
+
+    // Tiered events: wait for a specific tier (picked when there's more than one)
+    const tiers = event.ticketTiers || [];
+    if (tiers.length > 1) {
+      setTierPickerFor('waitlist');
+      setShowTierModal(true);
+      return;
+    }
+    await joinWaitlist(tiers.length === 1 ? getTierId(tiers[0]) : null);
+  };
+
+  const joinWaitlist = async (tierId: string | null) => {
+    if (!event) return;
+    setShowTierModal(false);
+
+    try {
+      setJoiningWaitlist(true);
+      const response = await waitlistAPI.join(event._id || (event as any).id, tierId);
+      if (response.success && response.entry) {
+        setWaitlistEntry(response.entry);
+        setModalMessage(
+          response.entry.position
+            ? `You're #${response.entry.position} on the waitlist. We'll notify you if a spot opens up.`
+            : "You're on the waitlist. We'll notify you if a spot opens up."
+        );
+        setShowModal(true);
+      }
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error);
+      setErrorModalMessage(error.response?.data?.message || error.message || 'Failed to join waitlist');
+      setShowErrorModal(true);
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async () => {
+    if (!event) return;
+    try {
+      setJoiningWaitlist(true);
+      await waitlistAPI.leave(event._id || (event as any).id);
+      setWaitlistEntry(null);
+    } catch (error: any) {
+      console.error('Error leaving waitlist:', error);
+      setErrorModalMessage(error.response?.data?.message || error.message || 'Failed to leave waitlist');
+      setShowErrorModal(true);
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!event) return;
+    if (Platform.OS === 'web') {
+      setErrorModalMessage('Calendar export is not available on web. Use the app on your phone.');
+      setShowErrorModal(true);
+      return;
+    }
+    try {
+      // Recurring events: the session picked above, not the series' first date
+      const icsEvent = eventToIcsEvent({ ...event, _id: event._id || (event as any).id }, selectedOccurrence);
+      await shareIcs(event.title || 'event', buildIcs([icsEvent]));
+    } catch (error: any) {
+      if (error?.message?.includes('cancel')) return;
+      console.error('Error exporting to calendar:', error);
+      setErrorModalMessage(error.message || 'Failed to export to calendar');
+      setShowErrorModal(true);
+    }
+  };
+
+  // Sold out: register only while holding a promoted waitlist spot (single ticket)
+  const isSoldOut = isEventSoldOut(event) || soldOutOnServer;
+  const hasClaimWindow =
+    waitlistEntry?.status === 'promoted' &&
+    !!waitlistEntry.claimExpiresAt &&
+    new Date(waitlistEntry.claimExpiresAt) > new Date();
+  // Outside the organizer's sales window nobody can register (or join the waitlist)
+  const salesStatus = getSalesStatus(event, now);
+  const statusBanner = getEventStatusBanner(event);
+  const registrationSuspended = isRegistrationSuspended(event);
+  const salesPaused = registrationSuspended || salesStatus === 'upcoming' || salesStatus === 'closed';
+  const showWaitlist = isSoldOut && !hasClaimWindow && !salesPaused;
+  const isPaidEvent = event.ticketTiers && event.ticketTiers.length > 0
+    ? event.ticketTiers.some((t) => t.price > 0)
+    : !(event.price?.price === 'free' || event.price?.currency === null || !event.ticketPrice || event.ticketPrice <= 0);
+
+  const handleToggleSalesReminder = async () => {
+    const isAuthenticated = useAppStore.getState().isAuthenticated;
+    if (!isAuthenticated) {
+      setLoginModalMessage('Please login to get notified when registration opens.');
+      setShowLoginModal(true);
+      return;
+    }
+    const eventId = event._id || (event as any).id;
+    try {
+      setSettingReminder(true);
+      if (salesReminderSet) {
+        await eventsAPI.removeSalesReminder(eventId);
+        setSalesReminderSet(false);
+      } else {
+        await eventsAPI.setSalesReminder(eventId);
+        setSalesReminderSet(true);
+        setModalMessage("We'll notify you when registration opens.");
+        setShowModal(true);
+      }
+    } catch (error: any) {
+      console.error('Error updating sales reminder:', error);
+      setErrorModalMessage(error.response?.data?.message || error.message || 'Failed to update reminder');
+      setShowErrorModal(true);
+    } finally {
+      setSettingReminder(false);
     }
   };
 
@@ -395,9 +758,46 @@ export default function EventDetailsScreen() {
       setShowInvalidPhoneModal(true);
       return;
     }
+    proceedWithPhone(phoneInput, selectedTierId);
+  };
+
+  const handleQuestionsSubmit = () => {
+    const nextErrors = validateAnswers(registrationQuestions, answers);
+    setAnswerErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+    setShowQuestionsModal(false);
+    proceedWithPhone(pendingPhone, selectedTierId, true);
+  };
+
+  const handleGuestsSubmit = () => {
     if (!event) return;
+    const nextErrors = guests.map((g) => {
+      if (!g.name.trim()) return 'Name is required';
+      if (!EMAIL_PATTERN.test(g.email.trim())) return 'Enter a valid email';
+      return '';
+    });
+    // Every attendee answers the organizer's questions (e.g. consent), not only the buyer
+    const nextAnswerErrors = guests.map((g) => validateAnswers(registrationQuestions, g.answers));
+    setGuestErrors(nextErrors);
+    setGuestAnswerErrors(nextAnswerErrors);
+    if (nextErrors.some(Boolean) || nextAnswerErrors.some((e) => Object.keys(e).length > 0)) return;
     const eventId = event._id || (event as any).id;
-    createTicket(eventId, phoneInput);
+    createTicket(
+      eventId,
+      pendingPhone,
+      selectedTierId,
+      guests.map((g) => ({
+        name: g.name.trim(),
+        email: g.email.trim(),
+        ...(registrationQuestions.length > 0 ? { answers: answersToApi(registrationQuestions, g.answers) } : {}),
+      }))
+    );
+  };
+
+  // Cancelling the group booking drops the picked tier so the next purchase starts from the tier picker
+  const closeGuestsModal = () => {
+    setShowGuestsModal(false);
+    setSelectedTierId(null);
   };
 
   const handleViewTicket = () => {
@@ -508,24 +908,68 @@ export default function EventDetailsScreen() {
             </TouchableOpacity>
           </View>
 
+          {statusBanner && <EventStatusBanner banner={statusBanner} className="mb-4" />}
+
           {/* Event Date & Time */}
           <View className="flex-row mb-3 items-start">
             <MaterialIcons name="calendar-today" size={18} color="#6B7280" style={{ marginRight: 10, marginTop: 2 }} />
             <View className="flex-1 min-w-0">
               <Text className="text-gray-500 text-xs font-medium mb-0.5">Date & time</Text>
               <Text className="text-gray-900 text-sm">
-                {formatDate(event.date)}, {formatTime(event.time)}
+                {selectedOccurrence
+                  ? formatDateTimeRange(
+                      selectedOccurrence.date,
+                      selectedOccurrence.time,
+                      selectedOccurrence.endDate,
+                      selectedOccurrence.endTime
+                    )
+                  : event.endDate || event.endTime
+                    ? formatDateTimeRange(event.date, event.time, event.endDate, event.endTime)
+                    : `${formatDate(event.date)}, ${formatTime(event.time)}`}
               </Text>
+              {event.recurrence ? (
+                <Text className="text-gray-500 text-xs mt-0.5">
+                  {formatRecurrence(event.recurrence, event.occurrences?.length)}
+                </Text>
+              ) : null}
+              <TouchableOpacity className="mt-1 self-start flex-row items-center" onPress={handleAddToCalendar}>
+                <MaterialIcons name="event" size={14} color="#DC2626" style={{ marginRight: 4 }} />
+                <Text className="text-primary text-xs font-semibold">Add to calendar</Text>
+              </TouchableOpacity>
             </View>
           </View>
 
+          {/* Session picker - recurring events */}
+          {!isRegistered && upcomingOccurrences.length > 1 && (
+            <View className="mb-3">
+              <Text className="text-gray-500 text-xs font-medium mb-1.5">Choose a date</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 6 }}>
+                {upcomingOccurrences.map((occurrence) => {
+                  const active = occurrence._id === selectedOccurrence?._id;
+                  return (
+                    <TouchableOpacity
+                      key={occurrence._id}
+                      className={`px-3 py-1.5 rounded-lg border ${active ? 'bg-primary border-primary' : 'bg-white border-gray-200'}`}
+                      onPress={() => setSelectedOccurrenceId(occurrence._id)}
+                    >
+                      <Text className={`text-xs font-semibold ${active ? 'text-white' : 'text-gray-900'}`}>
+                        {formatDate(occurrence.date)}
+                      </Text>
+                      <Text className={`text-[10px] ${active ? 'text-white/80' : 'text-gray-500'}`}>{occurrence.time}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          )}
+
           {/* Location (optional) */}
-          {event.location ? (
+          {(selectedOccurrence?.location || event.location) ? (
             <View className="flex-row mb-3 items-start">
               <MaterialIcons name="location-on" size={18} color="#6B7280" style={{ marginRight: 10, marginTop: 2 }} />
               <View className="flex-1 min-w-0">
                 <Text className="text-gray-500 text-xs font-medium mb-0.5">Location</Text>
-                <Text className="text-gray-900 text-sm">{event.location}</Text>
+                <Text className="text-gray-900 text-sm">{selectedOccurrence?.location || event.location}</Text>
               </View>
             </View>
           ) : null}
@@ -546,25 +990,215 @@ export default function EventDetailsScreen() {
             <MaterialIcons name="confirmation-number" size={18} color="#6B7280" style={{ marginRight: 10, marginTop: 2 }} />
             <View className="flex-1 min-w-0">
               <Text className="text-gray-500 text-xs font-medium mb-0.5">Ticket price</Text>
-              <Text className="text-gray-900 text-sm">
-                {event.price?.price === 'free' || event.price?.currency === null
-                  ? 'Free'
-                  : event.price?.currency
-                    ? `${event.price.currency} ${Number(event.price.price).toLocaleString()}`
-                    : event.ticketPrice
-                      ? `PKR ${event.ticketPrice.toLocaleString()}`
-                      : 'Free'}
-              </Text>
+              {event.ticketTiers && event.ticketTiers.length > 0 ? (
+                <View>
+                  {event.ticketTiers.map((tier) => {
+                    const availability = getTierAvailability(tier);
+                    return (
+                      <View key={getTierId(tier)} className="flex-row items-center justify-between mb-1">
+                        <Text className="text-gray-900 text-sm flex-1" numberOfLines={1}>
+                          {tier.name}
+                        </Text>
+                        <Text className={`text-sm ${availability.onSale ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {availability.onSale ? formatTierPrice(tier.price, tier.currency) : availability.reason}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              ) : (
+                <Text className="text-gray-900 text-sm">
+                  {event.price?.price === 'free' || event.price?.currency === null
+                    ? 'Free'
+                    : event.price?.currency
+                      ? `${event.price.currency} ${Number(event.price.price).toLocaleString()}`
+                      : event.ticketPrice
+                        ? `PKR ${event.ticketPrice.toLocaleString()}`
+                        : 'Free'}
+                </Text>
+              )}
               {event.totalTickets != null && event.totalTickets > 0 && (
                 <Text className="text-gray-500 text-xs mt-1">
                   {event.totalTickets} tickets available
                 </Text>
               )}
+              {isPaidEvent && (
+                <Text className="text-gray-500 text-xs mt-1">{formatRefundPolicy(getEffectiveRefundPolicy(event))}</Text>
+              )}
+              {event.salesCloseAt && !salesPaused && (
+                <Text className="text-gray-500 text-xs mt-1">Registration closes {formatSalesDate(event.salesCloseAt)}</Text>
+              )}
             </View>
           </View>
 
+          {/* Promoted from waitlist - spot held until claim window ends */}
+          {!isRegistered && hasClaimWindow && (
+            <View className="flex-row items-center bg-[#10B981]/10 border border-[#10B981]/40 rounded-lg px-3 py-2 mb-3">
+              <MaterialIcons name="celebration" size={16} color="#10B981" style={{ marginRight: 8 }} />
+              <Text className="text-gray-900 text-xs flex-1">
+                A spot opened up for you! Register before{' '}
+                {new Date(waitlistEntry!.claimExpiresAt!).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}{' '}
+                to claim it.
+              </Text>
+            </View>
+          )}
+
+          {/* Sales window - not open yet */}
+          {!isRegistered && !registrationSuspended && salesStatus === 'upcoming' && event.salesOpenAt && (
+            <View className="bg-gray-50 border border-gray-200 rounded-xl p-3 mt-1">
+              <View className="flex-row items-center">
+                <MaterialIcons name="schedule" size={18} color="#3B82F6" style={{ marginRight: 8 }} />
+                <Text className="text-gray-900 text-sm font-semibold flex-1">
+                  Sales open in {formatCountdown(new Date(event.salesOpenAt).getTime() - now.getTime())}
+                </Text>
+              </View>
+              <Text className="text-gray-500 text-xs mt-1">{formatSalesDate(event.salesOpenAt)}</Text>
+              <TouchableOpacity
+                className={`mt-3 py-2.5 rounded-lg flex-row items-center justify-center ${salesReminderSet ? 'bg-white border border-gray-200' : 'bg-gray-900'}`}
+                onPress={handleToggleSalesReminder}
+                disabled={settingReminder}
+              >
+                {settingReminder ? (
+                  <ActivityIndicator size="small" color={salesReminderSet ? '#111827' : '#FFFFFF'} />
+                ) : (
+                  <>
+                    <MaterialIcons
+                      name={salesReminderSet ? 'notifications-active' : 'notifications-none'}
+                      size={16}
+                      color={salesReminderSet ? '#111827' : '#FFFFFF'}
+                      style={{ marginRight: 6 }}
+                    />
+                    <Text className={`text-xs font-semibold ${salesReminderSet ? 'text-gray-900' : 'text-white'}`}>
+                      {salesReminderSet ? "You'll be notified · Undo" : 'Notify me'}
+                    </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Sales window - closed */}
+          {!isRegistered && !registrationSuspended && salesStatus === 'closed' && (
+            <View className="flex-row items-center bg-gray-50 border border-gray-200 rounded-xl p-3 mt-1">
+              <MaterialIcons name="lock-clock" size={18} color="#6B7280" style={{ marginRight: 8 }} />
+              <Text className="text-gray-900 text-sm font-semibold flex-1">Registration closed</Text>
+            </View>
+          )}
+
+          {/* Waitlist - event sold out */}
+          {!isRegistered && showWaitlist && (
+            waitlistEntry && waitlistEntry.status === 'waiting' ? (
+              <View className="bg-gray-50 border border-gray-200 rounded-xl p-3 mt-1">
+                <View className="flex-row items-center">
+                  <MaterialIcons name="hourglass-top" size={18} color="#F59E0B" style={{ marginRight: 8 }} />
+                  <Text className="text-gray-900 text-sm font-semibold flex-1">
+                    {waitlistEntry.position ? `You're #${waitlistEntry.position} on the waitlist` : "You're on the waitlist"}
+                  </Text>
+                </View>
+                <Text className="text-gray-500 text-xs mt-1">
+                  We&apos;ll notify you if a ticket is cancelled. You&apos;ll have a limited time to claim it.
+                </Text>
+                <TouchableOpacity className="mt-2 self-start" onPress={handleLeaveWaitlist} disabled={joiningWaitlist}>
+                  <Text className="text-[#EF4444] text-xs font-semibold">Leave waitlist</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View className="mt-1">
+                {waitlistEntry?.status === 'promoted' || waitlistEntry?.status === 'expired' ? (
+                  <Text className="text-gray-500 text-xs mb-2 text-center">
+                    Your claim window has ended. You can rejoin the waitlist.
+                  </Text>
+                ) : null}
+                <TouchableOpacity
+                  className="py-3 rounded-xl items-center bg-gray-900"
+                  onPress={handleJoinWaitlist}
+                  disabled={joiningWaitlist}
+                >
+                  {joiningWaitlist ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Text className="text-white text-sm font-semibold">Sold out · Join waitlist</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )
+          )}
+
+          {/* Quantity - book for friends in one order */}
+          {!isRegistered && !isSoldOut && !salesPaused && (
+            <View className="flex-row items-center justify-between mb-3">
+              <Text className="text-gray-500 text-xs font-medium">Tickets</Text>
+              <View className="flex-row items-center bg-gray-100 rounded-lg">
+                <TouchableOpacity
+                  className="px-3 py-1.5"
+                  onPress={() => handleQuantityChange(Math.max(1, ticketQuantity - 1))}
+                  disabled={ticketQuantity <= 1}
+                >
+                  <MaterialIcons name="remove" size={18} color={ticketQuantity <= 1 ? '#D1D5DB' : '#111827'} />
+                </TouchableOpacity>
+                <Text className="text-gray-900 text-sm font-semibold w-6 text-center">{ticketQuantity}</Text>
+                <TouchableOpacity
+                  className="px-3 py-1.5"
+                  onPress={() => handleQuantityChange(Math.min(MAX_TICKETS_PER_ORDER, ticketQuantity + 1))}
+                  disabled={ticketQuantity >= MAX_TICKETS_PER_ORDER}
+                >
+                  <MaterialIcons name="add" size={18} color={ticketQuantity >= MAX_TICKETS_PER_ORDER ? '#D1D5DB' : '#111827'} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {/* Promo code - paid events only; discount is applied by the backend on registration */}
+          {!isRegistered && !showWaitlist && !salesPaused && isPaidEvent && (
+            <View className="mb-3">
+              {appliedPromo ? (
+                <View className="flex-row items-center bg-[#10B981]/10 border border-[#10B981]/40 rounded-lg px-3 py-2">
+                  <MaterialIcons name="local-offer" size={16} color="#10B981" style={{ marginRight: 8 }} />
+                  <Text className="text-gray-900 text-xs flex-1">
+                    <Text className="font-bold">{appliedPromo.code}</Text> · {appliedPromo.label}
+                  </Text>
+                  <TouchableOpacity onPress={() => { setAppliedPromo(null); setPromoInput(''); }}>
+                    <MaterialIcons name="close" size={16} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View className="flex-row items-center gap-2">
+                  <TextInput
+                    className="flex-1 bg-gray-50 text-gray-900 text-xs px-3 py-2 rounded-lg border border-gray-200"
+                    placeholder="Promo code"
+                    placeholderTextColor="#9CA3AF"
+                    value={promoInput}
+                    onChangeText={(v) => {
+                      setPromoInput(v.toUpperCase());
+                      setPromoError(null);
+                    }}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                  <TouchableOpacity
+                    className={`px-3 py-2 rounded-lg ${promoInput.trim() ? 'bg-gray-900' : 'bg-gray-200'}`}
+                    onPress={handleApplyPromo}
+                    disabled={!promoInput.trim() || applyingPromo}
+                  >
+                    {applyingPromo ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text className="text-white text-xs font-semibold">Apply</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+              {promoError ? <Text className="text-[#EF4444] text-[10px] mt-1">{promoError}</Text> : null}
+            </View>
+          )}
+
           {/* Register / Get More Tickets Button */}
-          {!isRegistered && (
+          {!isRegistered && !showWaitlist && !salesPaused && (
             <TouchableOpacity
               className="py-3 rounded-xl items-center mt-1 bg-primary"
               onPress={handleRegister}
@@ -574,7 +1208,7 @@ export default function EventDetailsScreen() {
                 <ActivityIndicator size="small" color="#FFFFFF" />
               ) : (
                 <Text className="text-white text-sm font-semibold">
-                  Register now
+                  {ticketQuantity > 1 ? `Register ${ticketQuantity} tickets` : 'Register now'}
                 </Text>
               )}
             </TouchableOpacity>
@@ -585,12 +1219,62 @@ export default function EventDetailsScreen() {
         {event.description ? (
           <View className="px-4 py-4 border-t border-gray-100 bg-white">
             <Text className="text-gray-900 text-base font-bold mb-2">About this event</Text>
-            <Text className="text-gray-700 text-sm leading-6">
-              {event.description}
+            <MarkdownText source={event.description} />
+          </View>
+        ) : null}
+
+        {/* Agenda */}
+        {event.agenda && event.agenda.length > 0 ? (
+          <View className="px-4 py-4 border-t border-gray-100 bg-white">
+            <Text className="text-gray-900 text-base font-bold mb-3">Agenda</Text>
+            <AgendaList agenda={event.agenda} />
+          </View>
+        ) : null}
+
+        {/* Speakers / performers */}
+        {event.speakers && event.speakers.length > 0 ? (
+          <View className="px-4 py-4 border-t border-gray-100 bg-white">
+            <Text className="text-gray-900 text-base font-bold mb-3">
+              {event.speakers.length === 1 ? 'Speaker' : 'Speakers'}
             </Text>
+            <SpeakerList speakers={event.speakers} />
           </View>
         ) : null}
 
+        {/* Announcements from the organizer */}
+        {announcements.length > 0 && (
+          <View
+            className="px-4 py-4 border-t border-gray-100 bg-white"
+            onLayout={(e) => setAnnouncementsY(e.nativeEvent.layout.y)}
+          >
+            <Text className="text-gray-900 text-base font-bold mb-3">Announcements</Text>
+            {(showAllAnnouncements ? announcements : announcements.slice(0, 3)).map((announcement) => (
+              <View key={announcement._id} className="flex-row mb-3">
+                <MaterialIcons name="campaign" size={18} color="#DC2626" style={{ marginRight: 10, marginTop: 1 }} />
+                <View className="flex-1">
+                  <Text className="text-gray-900 text-sm font-semibold">{announcement.title}</Text>
+                  <Text className="text-gray-700 text-sm leading-5 mt-0.5">{announcement.message}</Text>
+                  <Text className="text-gray-400 text-xs mt-1">
+                    {new Date(announcement.createdAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </Text>
+                </View>
+              </View>
+            ))}
+            {announcements.length > 3 && (
+              <TouchableOpacity onPress={() => setShowAllAnnouncements((v) => !v)}>
+                <Text className="text-primary text-sm font-semibold">
+                  {showAllAnnouncements ? 'Show less' : `Show all (${announcements.length})`}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Contact Information */}
         {(event.email || event.phone) && (
           <View className="px-4 py-4 border-t border-gray-100 bg-white">
@@ -772,6 +1456,11 @@ export default function EventDetailsScreen() {
                           <Text className="text-gray-900 text-sm font-bold" numberOfLines={1}>
                             Ticket #{ticketId.slice(-8).toUpperCase()}
                           </Text>
+                          {ticket.tier?.name ? (
+                            <View className="bg-gray-900/10 px-1.5 py-0.5 rounded ml-2">
+                              <Text className="text-gray-700 text-[10px] font-semibold">{ticket.tier.name}</Text>
+                            </View>
+                          ) : null}
                         </View>
                         <View className={`${statusInfo.badgeColor} px-2 py-1 rounded-full ml-2`}>
                           <Text className="text-white text-[10px] font-bold uppercase">
@@ -921,6 +1610,202 @@ export default function EventDetailsScreen() {
         </Pressable>
       </RNModal>
 
+      {/* Registration Questions Modal - organizer's custom form */}
+      <RNModal
+        visible={showQuestionsModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowQuestionsModal(false)}
+      >
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={() => setShowQuestionsModal(false)}>
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px] max-h-[80%]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1.5 text-center">A few questions</Text>
+            <Text className="text-gray-600 text-xs leading-5 mb-3 text-center">
+              The organizer asks every attendee. Fields marked * are required.
+            </Text>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <RegistrationQuestionsForm
+                questions={registrationQuestions}
+                answers={answers}
+                onChange={(next) => {
+                  setAnswers(next);
+                  if (Object.keys(answerErrors).length > 0) setAnswerErrors({});
+                }}
+                errors={answerErrors}
+              />
+            </ScrollView>
+            <View className="flex-row gap-2 mt-1">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={() => setShowQuestionsModal(false)}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-primary"
+                onPress={handleQuestionsSubmit}
+                disabled={creatingTicket}
+              >
+                {creatingTicket ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Continue</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      {/* Guest Details Modal - group booking */}
+      <RNModal
+        visible={showGuestsModal}
+        transparent
+        animationType="fade"
+        onRequestClose={closeGuestsModal}
+      >
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={closeGuestsModal}>
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px] max-h-[80%]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1.5 text-center">Guest Details</Text>
+            <Text className="text-gray-600 text-xs leading-5 mb-3 text-center">
+              {registrationQuestions.length > 0
+                ? "Ticket 1 is yours. Each guest gets their own ticket and QR code, and answers the organizer's questions."
+                : 'Ticket 1 is yours. Each guest gets their own ticket and QR code.'}
+            </Text>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              {guests.map((guest, index) => (
+                <View key={index} className="mb-3">
+                  <Text className="text-gray-900 text-xs font-semibold mb-1">Guest {index + 1} (ticket {index + 2})</Text>
+                  <TextInput
+                    className="bg-gray-50 text-gray-900 text-xs px-3 py-2 rounded-lg mb-2 border border-gray-200"
+                    placeholder="Full name"
+                    placeholderTextColor="#9CA3AF"
+                    value={guest.name}
+                    onChangeText={(v) => setGuests((prev) => prev.map((g, i) => (i === index ? { ...g, name: v } : g)))}
+                  />
+                  <TextInput
+                    className="bg-gray-50 text-gray-900 text-xs px-3 py-2 rounded-lg border border-gray-200"
+                    placeholder="Email"
+                    placeholderTextColor="#9CA3AF"
+                    value={guest.email}
+                    onChangeText={(v) => setGuests((prev) => prev.map((g, i) => (i === index ? { ...g, email: v } : g)))}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                  />
+                  {guestErrors[index] ? (
+                    <Text className="text-[#EF4444] text-[10px] mt-1">{guestErrors[index]}</Text>
+                  ) : null}
+                  {registrationQuestions.length > 0 && (
+                    <View className="mt-2">
+                      <RegistrationQuestionsForm
+                        questions={registrationQuestions}
+                        answers={guest.answers}
+                        onChange={(next) => {
+                          setGuests((prev) => prev.map((g, i) => (i === index ? { ...g, answers: next } : g)));
+                          if (guestAnswerErrors[index] && Object.keys(guestAnswerErrors[index]).length > 0) {
+                            setGuestAnswerErrors((prev) => prev.map((e, i) => (i === index ? {} : e)));
+                          }
+                        }}
+                        errors={guestAnswerErrors[index]}
+                      />
+                    </View>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+            <View className="flex-row gap-2 mt-1">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={closeGuestsModal}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-primary"
+                onPress={handleGuestsSubmit}
+                disabled={creatingTicket}
+              >
+                {creatingTicket ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Create {guests.length + 1} tickets</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      {/* Ticket Tier Picker */}
+      <RNModal
+        visible={showTierModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowTierModal(false)}
+      >
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={() => setShowTierModal(false)}>
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1.5 text-center">
+              {tierPickerFor === 'waitlist' ? 'Join the waitlist' : 'Choose a ticket'}
+            </Text>
+            <Text className="text-gray-600 text-xs leading-5 mb-3 text-center">
+              {tierPickerFor === 'waitlist'
+                ? 'Select the ticket tier you want if a spot opens up'
+                : 'Select the ticket tier you want to register for'}
+            </Text>
+            {(event.ticketTiers || []).map((tier) => {
+              const availability = getTierAvailability(tier);
+              const selectable = tierPickerFor === 'waitlist' ? !joiningWaitlist : availability.onSale && !creatingTicket;
+              return (
+                <TouchableOpacity
+                  key={getTierId(tier)}
+                  className={`border rounded-lg p-3 mb-2 ${selectable ? 'border-gray-200 bg-gray-50' : 'border-gray-100 bg-gray-100 opacity-60'}`}
+                  disabled={!selectable}
+                  onPress={() =>
+                    tierPickerFor === 'waitlist' ? joinWaitlist(getTierId(tier)) : handleTierSelect(getTierId(tier))
+                  }
+                  activeOpacity={0.7}
+                >
+                  <View className="flex-row items-center justify-between">
+                    <Text className="text-gray-900 text-sm font-semibold flex-1 mr-2" numberOfLines={1}>
+                      {tier.name}
+                    </Text>
+                    <Text className="text-gray-900 text-sm font-bold">
+                      {formatTierPrice(tier.price, tier.currency)}
+                    </Text>
+                  </View>
+                  {tier.description ? (
+                    <Text className="text-gray-600 text-xs mt-1" numberOfLines={2}>{tier.description}</Text>
+                  ) : null}
+                  <Text className={`text-[10px] mt-1 ${availability.onSale ? 'text-gray-500' : 'text-[#EF4444]'}`}>
+                    {availability.onSale
+                      ? availability.remaining != null
+                        ? `${availability.remaining} left`
+                        : 'Available'
+                      : availability.reason}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              className="py-2 rounded-lg items-center bg-gray-100 border border-gray-200 mt-1"
+              onPress={() => setShowTierModal(false)}
+            >
+              <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
       {/* Event Image Full View */}
       <RNModal
         visible={showImageViewer}
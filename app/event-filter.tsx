@@ -5,6 +5,8 @@ import { eventsAPI } from '@/lib/api/events';
 import type { Event } from '@/lib/api/events';
 import { CACHE_KEYS, getCached, setCached } from '@/lib/cache';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import { getEventDateKeys, getNextEventDate } from '@/lib/utils/recurrenceUtils';
+import { getSalesStatus, isEventPublished } from '@/lib/utils/salesWindowUtils';
 import { useAppStore } from '@/store/useAppStore';
 import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -86,8 +88,8 @@ function isWeekend(d: Date): boolean {
   return d.getDay() === 0 || d.getDay() === 6;
 }
 
-function eventMatchesDateFilter(event: { date: string }, filter: DateFilter): boolean {
-  const parts = event.date.split('-').map(Number);
+function dateMatchesFilter(date: string, filter: DateFilter): boolean {
+  const parts = date.split('-').map(Number);
   const eventDate = new Date(parts[0], (parts[1] || 1) - 1, parts[2] || 1);
   eventDate.setHours(0, 0, 0, 0);
   const today = new Date();
@@ -126,6 +128,11 @@ function eventMatchesDateFilter(event: { date: string }, filter: DateFilter): bo
   return true;
 }
 
+/** Recurring and multi-day events match when any of their days does */
+function eventMatchesDateFilter(event: { date: string; dateKeys?: string[] }, filter: DateFilter): boolean {
+  return (event.dateKeys ?? [event.date]).some((date) => dateMatchesFilter(date, filter));
+}
+
 function getEventPrice(apiEvent: Event): number {
   if (apiEvent.price?.price === 'free' || apiEvent.price?.currency === null) return 0;
   if (typeof apiEvent.price?.price === 'number') return apiEvent.price.price;
@@ -139,7 +146,8 @@ const convertEvent = (apiEvent: Event) => {
     id: apiEvent._id,
     title: apiEvent.title,
     description: apiEvent.description ?? '',
-    date: apiEvent.date,
+    date: getNextEventDate(apiEvent),
+    dateKeys: getEventDateKeys(apiEvent),
     time: apiEvent.time,
     venue: location,
     city: location.split(',')[0] || location,
@@ -158,6 +166,9 @@ const convertEvent = (apiEvent: Event) => {
       avatarUrl: getProfileImageUrl({ profileImageUrl: user.profileImageUrl }) || undefined,
     })),
     joinedCount: apiEvent.joinedCount ?? (apiEvent.joinedUsers?.length ?? 0),
+    salesStatus: getSalesStatus(apiEvent),
+    salesOpenAt: apiEvent.salesOpenAt ?? null,
+    salesCloseAt: apiEvent.salesCloseAt ?? null,
   };
 };
 
@@ -211,7 +222,7 @@ export default function EventFilterScreen() {
       }
       const response = await eventsAPI.getApprovedEvents();
       if (response.success && response.events) {
-        const converted = response.events.map(convertEvent);
+        const converted = response.events.filter((e) => isEventPublished(e)).map(convertEvent);
         await setCached(CACHE_KEYS.EVENTS_APPROVED, converted);
         setEvents(converted);
       }
@@ -0,0 +1,377 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  Platform,
+  Modal as RNModal,
+  Pressable,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { eventsAPI, type Event, type EventOccurrence } from '@/lib/api/events';
+import { formatDateTimeRange, formatRecurrence, parseDateKey, toDateKey } from '@/lib/utils/recurrenceUtils';
+
+interface SessionDraft {
+  occurrence: EventOccurrence;
+  date: Date;
+  time: string;
+  location: string;
+}
+
+function formatTime(date: Date): string {
+  return date.toTimeString().slice(0, 5);
+}
+
+export default function EventSessionsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title } = useLocalSearchParams<{ eventId: string; title?: string }>();
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [draft, setDraft] = useState<SessionDraft | null>(null);
+  const [picker, setPicker] = useState<'date' | 'time' | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchEvent = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const response = await eventsAPI.getEventById(String(eventId));
+      if (response.success) setEvent(response.event);
+    } catch (err: any) {
+      console.error('Error fetching sessions:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchEvent();
+  }, [fetchEvent]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchEvent();
+    setRefreshing(false);
+  };
+
+  const occurrences = event?.occurrences ?? [];
+  const todayKey = toDateKey(new Date());
+
+  const openSession = (occurrence: EventOccurrence) => {
+    setDraft({
+      occurrence,
+      date: parseDateKey(occurrence.date) ?? new Date(),
+      time: occurrence.time,
+      location: occurrence.location ?? '',
+    });
+    setPicker(null);
+  };
+
+  const closeSession = () => {
+    if (saving) return;
+    setDraft(null);
+    setPicker(null);
+    setConfirmCancel(false);
+  };
+
+  const replaceOccurrence = (updated: EventOccurrence) => {
+    setEvent((prev) =>
+      prev
+        ? {
+            ...prev,
+            occurrences: (prev.occurrences ?? [])
+              .map((o) => (o._id === updated._id ? updated : o))
+              .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)),
+          }
+        : prev
+    );
+  };
+
+  const handleSave = async () => {
+    if (!eventId || !draft) return;
+    try {
+      setSaving(true);
+      const response = await eventsAPI.updateOccurrence(String(eventId), draft.occurrence._id, {
+        date: toDateKey(draft.date),
+        time: draft.time,
+        location: draft.location.trim() || null,
+      });
+      if (response.success) {
+        replaceOccurrence(response.occurrence);
+        setDraft(null);
+        setSuccessMessage('Session updated. Ticket holders for this session were notified.');
+      }
+    } catch (err: any) {
+      console.error('Error updating session:', err);
+      setDraft(null);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to update session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetStatus = async (status: EventOccurrence['status']) => {
+    if (!eventId || !draft) return;
+    try {
+      setSaving(true);
+      const response = await eventsAPI.updateOccurrence(String(eventId), draft.occurrence._id, { status });
+      if (response.success) {
+        replaceOccurrence(response.occurrence);
+        setDraft(null);
+        setSuccessMessage(
+          status === 'cancelled'
+            ? 'Session cancelled. Ticket holders for this session were notified.'
+            : 'Session restored.'
+        );
+      }
+    } catch (err: any) {
+      console.error('Error updating session status:', err);
+      setDraft(null);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to update session');
+    } finally {
+      setSaving(false);
+      setConfirmCancel(false);
+    }
+  };
+
+  const pickerValue = (() => {
+    if (!draft) return new Date();
+    if (picker === 'date') return draft.date;
+    const [h, m] = draft.time.split(':').map(Number);
+    const d = new Date(draft.date);
+    d.setHours(isNaN(h) ? 18 : h, isNaN(m) ? 0 : m, 0, 0);
+    return d;
+  })();
+
+  const inputRow = 'bg-gray-50 rounded-lg py-2 px-3 flex-row items-center gap-2 border border-gray-200';
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Sessions</Text>
+          {title ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{title}</Text>
+          ) : null}
+        </View>
+        <View className="w-8" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : occurrences.length === 0 ? (
+        <View className="flex-1 items-center justify-center px-6">
+          <MaterialIcons name="event-repeat" size={40} color="#9CA3AF" />
+          <Text className="text-gray-700 text-sm mt-3 text-center">This event doesn&apos;t repeat.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          {event?.recurrence ? (
+            <Text className="text-gray-500 text-xs mb-3">{formatRecurrence(event.recurrence, occurrences.length)}</Text>
+          ) : null}
+          {occurrences.map((occurrence) => {
+            const cancelled = occurrence.status === 'cancelled';
+            const past = (occurrence.endDate || occurrence.date).slice(0, 10) < todayKey;
+            return (
+              <TouchableOpacity
+                key={occurrence._id}
+                className={`flex-row items-center border border-gray-200 rounded-xl p-3 mb-2 ${past ? 'bg-gray-50' : 'bg-white'}`}
+                onPress={() => openSession(occurrence)}
+                disabled={past}
+              >
+                <View className="flex-1">
+                  <Text
+                    className={`text-sm font-semibold ${cancelled ? 'text-gray-400 line-through' : 'text-gray-900'}`}
+                  >
+                    {formatDateTimeRange(occurrence.date, occurrence.time, occurrence.endDate, occurrence.endTime)}
+                  </Text>
+                  <Text className="text-gray-500 text-[10px] mt-0.5" numberOfLines={1}>
+                    {occurrence.ticketsSold ?? 0} ticket{occurrence.ticketsSold === 1 ? '' : 's'}
+                    {occurrence.location ? ` · ${occurrence.location}` : ''}
+                  </Text>
+                </View>
+                {cancelled ? (
+                  <View className="bg-[#EF4444]/10 rounded-full px-2 py-0.5 mr-1">
+                    <Text className="text-[#EF4444] text-[10px] font-semibold">Cancelled</Text>
+                  </View>
+                ) : past ? (
+                  <View className="bg-gray-200 rounded-full px-2 py-0.5 mr-1">
+                    <Text className="text-gray-600 text-[10px] font-semibold">Ended</Text>
+                  </View>
+                ) : null}
+                {!past && <MaterialIcons name="chevron-right" size={18} color="#9CA3AF" />}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <RNModal visible={!!draft} transparent animationType="fade" onRequestClose={closeSession}>
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={closeSession}>
+          <Pressable className="bg-white rounded-2xl w-full max-w-[400px] p-4" onPress={(e) => e.stopPropagation()}>
+            <View className="w-8 h-0.5 rounded-full bg-gray-300 self-center mb-3" />
+            <Text className="text-gray-900 text-base font-bold mb-3 text-center">
+              {confirmCancel ? 'Cancel this session?' : 'Edit Session'}
+            </Text>
+            {draft && confirmCancel && (
+              <>
+                <Text className="text-gray-600 text-xs text-center mb-3">
+                  {draft.occurrence.ticketsSold ?? 0} ticket holder{draft.occurrence.ticketsSold === 1 ? '' : 's'} will be
+                  notified. Other sessions are not affected.
+                </Text>
+                <View className="flex-row gap-2">
+                  <TouchableOpacity
+                    className="flex-1 py-2.5 rounded-lg items-center border border-gray-200"
+                    onPress={() => setConfirmCancel(false)}
+                    disabled={saving}
+                  >
+                    <Text className="text-gray-900 text-xs font-semibold">Keep</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    className="flex-1 py-2.5 rounded-lg items-center bg-[#EF4444]"
+                    onPress={() => handleSetStatus('cancelled')}
+                    disabled={saving}
+                  >
+                    {saving ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text className="text-white text-xs font-semibold">Cancel Session</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+            {draft && !confirmCancel && (
+              <>
+                <View className="flex-row gap-2 mb-2">
+                  <TouchableOpacity className={`${inputRow} flex-1`} onPress={() => setPicker('date')}>
+                    <MaterialIcons name="event" size={16} color="#9CA3AF" />
+                    <Text className="text-gray-900 text-sm">
+                      {draft.date.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity className={`${inputRow} flex-1`} onPress={() => setPicker('time')}>
+                    <MaterialIcons name="schedule" size={16} color="#9CA3AF" />
+                    <Text className="text-gray-900 text-sm">{draft.time}</Text>
+                  </TouchableOpacity>
+                </View>
+                {picker && (
+                  <View className="mb-2">
+                    {Platform.OS === 'ios' && (
+                      <View className="flex-row justify-end mb-2">
+                        <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setPicker(null)}>
+                          <Text className="text-white text-sm font-semibold">Done</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                    <DateTimePicker
+                      value={pickerValue}
+                      mode={picker}
+                      minimumDate={picker === 'date' ? new Date() : undefined}
+                      display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                      onChange={(e, selected) => {
+                        const mode = picker;
+                        if (Platform.OS === 'android') {
+                          setPicker(null);
+                          if (e.type !== 'set') return;
+                        }
+                        if (!selected) return;
+                        setDraft((prev) =>
+                          prev ? (mode === 'date' ? { ...prev, date: selected } : { ...prev, time: formatTime(selected) }) : prev
+                        );
+                      }}
+                    />
+                  </View>
+                )}
+                <TextInput
+                  className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-900 text-sm"
+                  placeholder={event?.location ? `Location (default: ${event.location})` : 'Location (optional)'}
+                  placeholderTextColor="#9CA3AF"
+                  value={draft.location}
+                  onChangeText={(location) => setDraft((prev) => (prev ? { ...prev, location } : prev))}
+                  editable={!saving}
+                />
+                <View className="flex-row gap-2 mt-3">
+                  {draft.occurrence.status === 'cancelled' ? (
+                    <TouchableOpacity
+                      className="flex-1 py-2.5 rounded-lg items-center border border-gray-200"
+                      onPress={() => handleSetStatus('scheduled')}
+                      disabled={saving}
+                    >
+                      <Text className="text-gray-900 text-xs font-semibold">Restore</Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <TouchableOpacity
+                      className="flex-1 py-2.5 rounded-lg items-center border border-[#EF4444]"
+                      onPress={() => setConfirmCancel(true)}
+                      disabled={saving}
+                    >
+                      <Text className="text-[#EF4444] text-xs font-semibold">Cancel Session</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    className="flex-1 py-2.5 rounded-lg items-center bg-primary"
+                    onPress={handleSave}
+                    disabled={saving}
+                  >
+                    {saving ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text className="text-white text-xs font-semibold">Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      <Modal
+        visible={!!successMessage}
+        onClose={() => setSuccessMessage('')}
+        title="Done"
+        message={successMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setSuccessMessage('')}
+        variant="success"
+      />
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </View>
+  );
+}
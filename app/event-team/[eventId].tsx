@@ -0,0 +1,312 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  KeyboardAvoidingView,
+  Platform,
+  Modal as RNModal,
+  Pressable,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { eventTeamAPI, type EventTeamMember, type EventTeamRole } from '@/lib/api/eventTeam';
+import { EVENT_ROLE_DESCRIPTIONS, EVENT_ROLE_LABELS, EVENT_TEAM_ROLES } from '@/lib/utils/eventRoles';
+import { getProfileImageUrl } from '@/lib/utils/imageUtils';
+
+export default function EventTeamScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title } = useLocalSearchParams<{ eventId: string; title?: string }>();
+
+  const [members, setMembers] = useState<EventTeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [username, setUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<EventTeamRole>('scanner');
+  const [inviting, setInviting] = useState(false);
+  const [selectedMember, setSelectedMember] = useState<EventTeamMember | null>(null);
+  const [savingMember, setSavingMember] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchTeam = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const response = await eventTeamAPI.getTeam(String(eventId));
+      if (response.success) setMembers(response.members || []);
+    } catch (err: any) {
+      console.error('Error fetching event team:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load team');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchTeam();
+    setRefreshing(false);
+  };
+
+  const normalizedUsername = username.trim().replace(/^@/, '').toLowerCase();
+  const canInvite = !!normalizedUsername && !inviting;
+
+  const handleInvite = async () => {
+    if (!eventId || !canInvite) return;
+    if (members.some((m) => m.user.username?.toLowerCase() === normalizedUsername)) {
+      setErrorMessage(`@${normalizedUsername} is already on the team.`);
+      return;
+    }
+    try {
+      setInviting(true);
+      const response = await eventTeamAPI.inviteMember(String(eventId), {
+        username: normalizedUsername,
+        role: inviteRole,
+      });
+      if (response.success) {
+        setMembers((prev) => [...prev, response.member]);
+        setUsername('');
+        setSuccessMessage(
+          `${response.member.user.fullName} was added as ${EVENT_ROLE_LABELS[response.member.role].toLowerCase()}.`
+        );
+      }
+    } catch (err: any) {
+      console.error('Error inviting team member:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to invite user');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const closeMember = () => {
+    if (savingMember) return;
+    setSelectedMember(null);
+  };
+
+  const handleChangeRole = async (role: EventTeamRole) => {
+    if (!eventId || !selectedMember || role === selectedMember.role) return;
+    try {
+      setSavingMember(true);
+      const response = await eventTeamAPI.updateMemberRole(String(eventId), selectedMember._id, role);
+      if (response.success) {
+        setMembers((prev) => prev.map((m) => (m._id === response.member._id ? response.member : m)));
+        setSelectedMember(response.member);
+      }
+    } catch (err: any) {
+      console.error('Error updating team member:', err);
+      setSelectedMember(null);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to change role');
+    } finally {
+      setSavingMember(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!eventId || !selectedMember) return;
+    const member = selectedMember;
+    try {
+      setSavingMember(true);
+      const response = await eventTeamAPI.removeMember(String(eventId), member._id);
+      if (response.success) {
+        setMembers((prev) => prev.filter((m) => m._id !== member._id));
+        setSelectedMember(null);
+        setSuccessMessage(`${member.user.fullName} was removed from the team.`);
+      }
+    } catch (err: any) {
+      console.error('Error removing team member:', err);
+      setSelectedMember(null);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to remove member');
+    } finally {
+      setSavingMember(false);
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full border ${active ? 'bg-primary border-primary' : 'bg-white border-gray-200'}`;
+  const chipTextClass = (active: boolean) => `text-xs font-semibold ${active ? 'text-white' : 'text-gray-700'}`;
+
+  return (
+    <KeyboardAvoidingView className="flex-1 bg-white" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Event Team</Text>
+          {title ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{title}</Text>
+          ) : null}
+        </View>
+        <View className="w-8" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          <Text className="text-gray-900 text-sm font-semibold mb-2">Invite by username</Text>
+          <View className="flex-row items-center bg-gray-50 border border-gray-200 rounded-lg px-3 mb-3">
+            <Text className="text-gray-500 text-sm">@</Text>
+            <TextInput
+              className="flex-1 py-2 pl-1 text-gray-900 text-sm"
+              placeholder="username"
+              placeholderTextColor="#9CA3AF"
+              value={username}
+              onChangeText={setUsername}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!inviting}
+              returnKeyType="send"
+              onSubmitEditing={handleInvite}
+            />
+          </View>
+          <View className="flex-row flex-wrap gap-1.5 mb-1.5">
+            {EVENT_TEAM_ROLES.map((role) => (
+              <TouchableOpacity key={role} className={chipClass(inviteRole === role)} onPress={() => setInviteRole(role)}>
+                <Text className={chipTextClass(inviteRole === role)}>{EVENT_ROLE_LABELS[role]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text className="text-gray-500 text-[10px] mb-3">{EVENT_ROLE_DESCRIPTIONS[inviteRole]}</Text>
+          <TouchableOpacity
+            className={`py-3 rounded-xl items-center flex-row justify-center ${canInvite ? 'bg-primary' : 'bg-gray-300'}`}
+            onPress={handleInvite}
+            disabled={!canInvite}
+          >
+            {inviting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <>
+                <MaterialIcons name="person-add" size={18} color="#FFFFFF" />
+                <Text className="text-white text-sm font-semibold ml-2">Add to team</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          <Text className="text-gray-900 text-sm font-semibold mt-6 mb-2">Members ({members.length})</Text>
+          {members.length === 0 ? (
+            <Text className="text-gray-500 text-xs">
+              No team members yet. Add door staff so they can scan tickets from their own phone.
+            </Text>
+          ) : (
+            members.map((member) => {
+              const avatarUrl = getProfileImageUrl(member.user as any);
+              return (
+                <TouchableOpacity
+                  key={member._id}
+                  className="flex-row items-center bg-gray-50 border border-gray-200 rounded-xl p-3 mb-2"
+                  onPress={() => setSelectedMember(member)}
+                >
+                  <View className="w-9 h-9 rounded-full bg-primary overflow-hidden mr-3 items-center justify-center">
+                    {avatarUrl ? (
+                      <Image source={{ uri: avatarUrl }} className="w-full h-full" resizeMode="cover" />
+                    ) : (
+                      <Text className="text-white text-sm font-bold">
+                        {(member.user.fullName || '?').charAt(0).toUpperCase()}
+                      </Text>
+                    )}
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-gray-900 text-sm font-semibold" numberOfLines={1}>{member.user.fullName}</Text>
+                    {member.user.username ? (
+                      <Text className="text-gray-500 text-[10px]">@{member.user.username}</Text>
+                    ) : null}
+                  </View>
+                  <View className="bg-white border border-gray-200 rounded-full px-2 py-0.5 mr-1">
+                    <Text className="text-gray-700 text-[10px] font-semibold">{EVENT_ROLE_LABELS[member.role]}</Text>
+                  </View>
+                  <MaterialIcons name="chevron-right" size={18} color="#9CA3AF" />
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+
+      <RNModal visible={!!selectedMember} transparent animationType="fade" onRequestClose={closeMember}>
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={closeMember}>
+          <Pressable className="bg-white rounded-2xl w-full max-w-[400px] p-4" onPress={(e) => e.stopPropagation()}>
+            <View className="w-8 h-0.5 rounded-full bg-gray-300 self-center mb-3" />
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">{selectedMember?.user.fullName}</Text>
+            <Text className="text-gray-600 text-xs text-center mb-3">Role on this event</Text>
+            {EVENT_TEAM_ROLES.map((role) => {
+              const active = selectedMember?.role === role;
+              return (
+                <TouchableOpacity
+                  key={role}
+                  className={`flex-row items-center p-3 rounded-lg border mb-1.5 ${active ? 'border-primary bg-primary/5' : 'border-gray-200'}`}
+                  onPress={() => handleChangeRole(role)}
+                  disabled={savingMember}
+                >
+                  <View className="flex-1">
+                    <Text className="text-gray-900 text-xs font-semibold">{EVENT_ROLE_LABELS[role]}</Text>
+                    <Text className="text-gray-500 text-[10px]">{EVENT_ROLE_DESCRIPTIONS[role]}</Text>
+                  </View>
+                  {active && <MaterialIcons name="check" size={16} color="#DC2626" />}
+                </TouchableOpacity>
+              );
+            })}
+            <View className="flex-row gap-2 mt-3">
+              <TouchableOpacity className="flex-1 py-2.5 rounded-lg items-center border border-gray-200" onPress={closeMember}>
+                <Text className="text-gray-900 text-xs font-semibold">Done</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 py-2.5 rounded-lg items-center bg-[#EF4444]"
+                onPress={handleRemove}
+                disabled={savingMember}
+              >
+                {savingMember ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Remove</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      <Modal
+        visible={!!successMessage}
+        onClose={() => setSuccessMessage('')}
+        title="Team Updated"
+        message={successMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setSuccessMessage('')}
+        variant="success"
+      />
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </KeyboardAvoidingView>
+  );
+}
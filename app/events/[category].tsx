@@ -5,6 +5,7 @@ import { eventsAPI } from '@/lib/api/events';
 import type { Event } from '@/lib/api/events';
 import { CACHE_KEYS, getCached, setCached } from '@/lib/cache';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import { getSalesStatus, isEventPublished } from '@/lib/utils/salesWindowUtils';
 import { useAppStore } from '@/store/useAppStore';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
@@ -64,6 +65,9 @@ function convertEvent(apiEvent: Event): AppEvent {
       avatarUrl: getProfileImageUrl({ profileImageUrl: user.profileImageUrl }) || undefined,
     })),
     joinedCount: apiEvent.joinedCount ?? (apiEvent.joinedUsers?.length ?? 0),
+    salesStatus: getSalesStatus(apiEvent),
+    salesOpenAt: apiEvent.salesOpenAt ?? null,
+    salesCloseAt: apiEvent.salesCloseAt ?? null,
   };
 }
 
@@ -89,7 +93,7 @@ export default function EventsByCategoryScreen() {
       }
       const response = await eventsAPI.getApprovedEvents();
       if (response.success && response.events) {
-        const converted = response.events.map(convertEvent);
+        const converted = response.events.filter((e) => isEventPublished(e)).map(convertEvent);
         await setCached(CACHE_KEYS.EVENTS_APPROVED, converted);
         setEvents(converted);
       }
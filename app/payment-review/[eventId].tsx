@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  Modal as RNModal,
+  Pressable,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { paymentsAPI, type EventPayment } from '@/lib/api/payments';
+import { resolvePaymentScreenshotUrl } from '@/lib/utils/imageUtils';
+import { formatPaymentAmount, formatPaymentMethod } from '@/lib/utils/paymentUtils';
+
+const QUICK_REJECT_REASONS = [
+  'Amount does not match',
+  'Screenshot is unreadable',
+  'Payment not received',
+  'Wrong account',
+];
+
+function formatSubmitted(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function PaymentReviewScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title } = useLocalSearchParams<{ eventId: string; title?: string }>();
+
+  const [payments, setPayments] = useState<EventPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [viewerUrl, setViewerUrl] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<EventPayment | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchPayments = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const response = await paymentsAPI.getEventPayments(String(eventId), 'pending');
+      if (response.success) {
+        // Oldest first: buyers who have waited longest get reviewed first
+        setPayments(
+          [...(response.payments || [])].sort(
+            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+          )
+        );
+      }
+    } catch (err: any) {
+      console.error('Error fetching payments:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchPayments();
+    setRefreshing(false);
+  };
+
+  const handleApprove = async (payment: EventPayment) => {
+    setReviewingId(payment.id);
+    try {
+      const response = await paymentsAPI.approvePayment(payment.id);
+      if (response.success) {
+        setPayments((prev) => prev.filter((p) => p.id !== payment.id));
+        setSuccessMessage(`Payment from ${payment.user.fullName} approved. Their ticket is confirmed.`);
+      }
+    } catch (err: any) {
+      console.error('Error approving payment:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to approve payment');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const closeRejectModal = () => {
+    setRejecting(null);
+    setRejectReason('');
+  };
+
+  const handleReject = async () => {
+    const payment = rejecting;
+    const reason = rejectReason.trim();
+    if (!payment || !reason) return;
+    setReviewingId(payment.id);
+    try {
+      const response = await paymentsAPI.rejectPayment(payment.id, reason);
+      if (response.success) {
+        setPayments((prev) => prev.filter((p) => p.id !== payment.id));
+        closeRejectModal();
+        setSuccessMessage(`Payment from ${payment.user.fullName} rejected. They can upload a new screenshot.`);
+      }
+    } catch (err: any) {
+      console.error('Error rejecting payment:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to reject payment');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Review Payments</Text>
+          {title ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{title}</Text>
+          ) : null}
+        </View>
+        <View className="w-8" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          {payments.length === 0 ? (
+            <View className="items-center py-10">
+              <MaterialIcons name="verified" size={40} color="#10B981" />
+              <Text className="text-gray-700 text-sm mt-3 text-center">No payments waiting for review.</Text>
+            </View>
+          ) : (
+            <>
+              <Text className="text-gray-500 text-xs mb-2">
+                {payments.length} payment{payments.length !== 1 ? 's' : ''} waiting · oldest first
+              </Text>
+              {payments.map((payment) => {
+                const screenshotUrl = resolvePaymentScreenshotUrl(payment.screenshotUrlFull || payment.screenshotUrl);
+                const isBusy = reviewingId === payment.id;
+                const tierNames = Array.from(new Set(payment.tickets.map((t) => t.tier?.name).filter(Boolean)));
+                return (
+                  <View key={payment.id} className="bg-gray-50 border border-gray-200 rounded-xl p-3 mb-3">
+                    <View className="flex-row">
+                      {screenshotUrl ? (
+                        <TouchableOpacity onPress={() => setViewerUrl(screenshotUrl)}>
+                          <Image source={{ uri: screenshotUrl }} className="w-20 h-28 rounded-lg bg-gray-200" resizeMode="cover" />
+                          <View className="absolute bottom-1 right-1 bg-black/60 rounded p-0.5">
+                            <MaterialIcons name="zoom-in" size={14} color="#FFFFFF" />
+                          </View>
+                        </TouchableOpacity>
+                      ) : (
+                        <View className="w-20 h-28 rounded-lg bg-gray-200 items-center justify-center">
+                          <MaterialIcons name="image-not-supported" size={20} color="#9CA3AF" />
+                        </View>
+                      )}
+                      <View className="flex-1 ml-3 min-w-0">
+                        <Text className="text-gray-900 text-sm font-bold" numberOfLines={1}>{payment.user.fullName}</Text>
+                        <Text className="text-gray-600 text-[10px]" numberOfLines={1}>{payment.user.email}</Text>
+                        <Text className="text-gray-900 text-lg font-bold mt-1">
+                          {formatPaymentAmount(payment.amount, payment.currency)}
+                        </Text>
+                        {payment.discountAmount && payment.discountAmount > 0 ? (
+                          <Text className="text-gray-500 text-[10px]">
+                            after {payment.promoCode ? `${payment.promoCode} ` : ''}discount of {payment.discountAmount.toLocaleString()}
+                          </Text>
+                        ) : null}
+                        <Text className="text-gray-700 text-xs mt-1">
+                          {formatPaymentMethod(payment.method)} · {payment.tickets.length} ticket
+                          {payment.tickets.length !== 1 ? 's' : ''}
+                          {tierNames.length > 0 ? ` · ${tierNames.join(', ')}` : ''}
+                        </Text>
+                        <Text className="text-gray-500 text-[10px] mt-0.5">Submitted {formatSubmitted(payment.createdAt)}</Text>
+                      </View>
+                    </View>
+                    <View className="flex-row gap-2 mt-3">
+                      <TouchableOpacity
+                        className="flex-1 py-2.5 rounded-lg items-center border border-[#EF4444]"
+                        onPress={() => setRejecting(payment)}
+                        disabled={isBusy}
+                      >
+                        <Text className="text-[#EF4444] text-xs font-semibold">Reject</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        className="flex-1 py-2.5 rounded-lg items-center bg-[#10B981]"
+                        onPress={() => handleApprove(payment)}
+                        disabled={isBusy}
+                      >
+                        {isBusy && !rejecting ? (
+                          <ActivityIndicator size="small" color="#FFFFFF" />
+                        ) : (
+                          <Text className="text-white text-xs font-semibold">Approve</Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      {/* Screenshot viewer */}
+      <RNModal visible={!!viewerUrl} transparent animationType="fade" onRequestClose={() => setViewerUrl(null)}>
+        <Pressable className="flex-1 bg-black/90 justify-center items-center" onPress={() => setViewerUrl(null)}>
+          {viewerUrl ? <Image source={{ uri: viewerUrl }} style={{ width: '100%', height: '85%' }} resizeMode="contain" /> : null}
+        </Pressable>
+      </RNModal>
+
+      {/* Reject with reason */}
+      <RNModal visible={!!rejecting} transparent animationType="fade" onRequestClose={closeRejectModal}>
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={closeRejectModal}>
+          <Pressable className="bg-white rounded-2xl w-full max-w-[400px] p-4" onPress={(e) => e.stopPropagation()}>
+            <View className="w-8 h-0.5 rounded-full bg-gray-300 self-center mb-3" />
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">Reject Payment</Text>
+            <Text className="text-gray-600 text-xs text-center mb-3">
+              {rejecting?.user.fullName} will be notified with this reason and can upload a new screenshot.
+            </Text>
+            <View className="flex-row flex-wrap gap-1.5 mb-2">
+              {QUICK_REJECT_REASONS.map((reason) => (
+                <TouchableOpacity
+                  key={reason}
+                  className={`px-2 py-1 rounded-full border ${rejectReason === reason ? 'bg-primary border-primary' : 'border-gray-200'}`}
+                  onPress={() => setRejectReason(reason)}
+                >
+                  <Text className={`text-[10px] ${rejectReason === reason ? 'text-white' : 'text-gray-700'}`}>{reason}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-900 text-sm min-h-[72px]"
+              placeholder="Reason (shown to the buyer)"
+              placeholderTextColor="#9CA3AF"
+              value={rejectReason}
+              onChangeText={setRejectReason}
+              multiline
+              textAlignVertical="top"
+              maxLength={300}
+            />
+            <View className="flex-row gap-2 mt-3">
+              <TouchableOpacity className="flex-1 py-2.5 rounded-lg items-center border border-gray-200" onPress={closeRejectModal}>
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className={`flex-1 py-2.5 rounded-lg items-center ${rejectReason.trim() ? 'bg-[#EF4444]' : 'bg-gray-300'}`}
+                onPress={handleReject}
+                disabled={!rejectReason.trim() || !!reviewingId}
+              >
+                {reviewingId ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Reject</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      <Modal
+        visible={!!successMessage}
+        onClose={() => setSuccessMessage('')}
+        title="Done"
+        message={successMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setSuccessMessage('')}
+        variant="success"
+      />
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </View>
+  );
+}
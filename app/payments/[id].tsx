@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  Modal as RNModal,
+  Pressable,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { paymentsAPI, type Payment } from '@/lib/api/payments';
+import { resolvePaymentScreenshotUrl } from '@/lib/utils/imageUtils';
+import {
+  formatPaymentAmount,
+  formatPaymentMethod,
+  PAYMENT_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+} from '@/lib/utils/paymentUtils';
+import { paymentToReceipt, shareReceiptPdf } from '@/lib/utils/ticketPdf';
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function PaymentDetailScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchPayment = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await paymentsAPI.getPaymentById(String(id));
+      if (response.success) setPayment(response.payment);
+    } catch (err: any) {
+      console.error('Error fetching payment:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load payment');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchPayment();
+  }, [fetchPayment]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchPayment();
+    setRefreshing(false);
+  };
+
+  const handleShareReceipt = async () => {
+    if (!payment) return;
+    try {
+      setSharing(true);
+      await shareReceiptPdf(paymentToReceipt(payment), payment.event?.title || 'Event');
+    } catch (err: any) {
+      console.error('Error sharing receipt:', err);
+      setErrorMessage(err.message || 'Could not create the receipt');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const screenshotUrl = payment ? resolvePaymentScreenshotUrl(payment.screenshotUrlFull || payment.screenshotUrl) : null;
+  const currency = payment?.currency || 'PKR';
+
+  const rows: [string, string][] = payment
+    ? [
+        ['Method', formatPaymentMethod(payment.method)],
+        ['Submitted', formatDateTime(payment.createdAt)],
+        ...(payment.reviewedAt ? [['Reviewed', formatDateTime(payment.reviewedAt)] as [string, string]] : []),
+        ...(payment.discountAmount && payment.discountAmount > 0
+          ? [
+              [
+                payment.promoCode ? `Discount (${payment.promoCode})` : 'Discount',
+                `- ${formatPaymentAmount(payment.discountAmount, currency)}`,
+              ] as [string, string],
+            ]
+          : []),
+        ...(payment.ticketIds && payment.ticketIds.length > 1
+          ? [['Tickets', String(payment.ticketIds.length)] as [string, string]]
+          : []),
+        ...(payment.status === 'refunded' && payment.refundedAmount
+          ? [['Refunded', formatPaymentAmount(payment.refundedAmount, currency)] as [string, string]]
+          : []),
+        ['Receipt #', payment.id],
+      ]
+    : [];
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <Text className="text-gray-900 text-base font-bold">Payment</Text>
+        <View className="w-8" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : !payment ? (
+        <View className="flex-1 items-center justify-center px-6">
+          <MaterialIcons name="receipt-long" size={40} color="#9CA3AF" />
+          <Text className="text-gray-700 text-sm mt-3 text-center">Payment not found.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          <View className="items-center py-4">
+            <Text className="text-gray-500 text-xs" numberOfLines={1}>{payment.event?.title || 'Event'}</Text>
+            <Text className="text-gray-900 text-3xl font-bold mt-1">{formatPaymentAmount(payment.amount, currency)}</Text>
+            <Text className="text-xs font-semibold mt-1" style={{ color: PAYMENT_STATUS_COLORS[payment.status] }}>
+              {PAYMENT_STATUS_LABELS[payment.status] || payment.status}
+            </Text>
+          </View>
+
+          {payment.status === 'rejected' && payment.rejectionReason ? (
+            <View className="bg-[#EF4444]/10 border border-[#EF4444]/30 rounded-xl p-3 mb-3">
+              <Text className="text-[#EF4444] text-xs font-semibold mb-0.5">Rejected by organizer</Text>
+              <Text className="text-gray-700 text-xs">{payment.rejectionReason}</Text>
+            </View>
+          ) : null}
+
+          <View className="bg-gray-50 border border-gray-200 rounded-xl px-3 mb-3">
+            {rows.map(([label, value], i) => (
+              <View
+                key={label}
+                className={`flex-row justify-between py-2.5 ${i < rows.length - 1 ? 'border-b border-gray-200' : ''}`}
+              >
+                <Text className="text-gray-500 text-xs">{label}</Text>
+                <Text className="text-gray-900 text-xs font-semibold flex-shrink ml-3 text-right" numberOfLines={1}>
+                  {value}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <Text className="text-gray-900 text-sm font-semibold mb-2">Payment screenshot</Text>
+          {screenshotUrl ? (
+            <TouchableOpacity onPress={() => setViewerOpen(true)} activeOpacity={0.8}>
+              <Image source={{ uri: screenshotUrl }} className="w-full h-72 rounded-xl bg-gray-100" resizeMode="contain" />
+            </TouchableOpacity>
+          ) : (
+            <View className="w-full h-32 rounded-xl bg-gray-100 items-center justify-center">
+              <MaterialIcons name="image-not-supported" size={24} color="#9CA3AF" />
+            </View>
+          )}
+
+          <TouchableOpacity
+            className="mt-4 bg-primary py-3 rounded-xl items-center flex-row justify-center"
+            onPress={handleShareReceipt}
+            disabled={sharing}
+          >
+            {sharing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <>
+                <MaterialIcons name="ios-share" size={18} color="#FFFFFF" />
+                <Text className="text-white text-sm font-semibold ml-2">Share Receipt (PDF)</Text>
+              </>
+            )}
+          </TouchableOpacity>
+          {payment.ticketId ? (
+            <TouchableOpacity
+              className="mt-2 py-3 rounded-xl items-center border border-gray-200"
+              onPress={() => router.push(`/ticket/${payment.ticketId}`)}
+            >
+              <Text className="text-gray-900 text-sm font-semibold">View Ticket</Text>
+            </TouchableOpacity>
+          ) : null}
+        </ScrollView>
+      )}
+
+      <RNModal visible={viewerOpen} transparent animationType="fade" onRequestClose={() => setViewerOpen(false)}>
+        <Pressable className="flex-1 bg-black/90 justify-center items-center" onPress={() => setViewerOpen(false)}>
+          {screenshotUrl ? <Image source={{ uri: screenshotUrl }} style={{ width: '100%', height: '85%' }} resizeMode="contain" /> : null}
+        </Pressable>
+      </RNModal>
+
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </View>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+import { View, Text, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { completeCheckout } from '@/lib/utils/paymentGateway';
+
+// Web: hand the redirect back to the window that opened checkout
+WebBrowser.maybeCompleteAuthSession();
+
+/**
+ * Redirect target of the hosted checkout page (see getCheckoutReturnUrl).
+ * Usually openAuthSessionAsync picks the redirect up itself; this screen covers the cases where
+ * the deep link opens the app directly (app restarted mid-checkout, web).
+ */
+export default function PaymentCallback() {
+  const router = useRouter();
+  const { sessionId, status, ticketId } = useLocalSearchParams<{
+    sessionId?: string;
+    status?: string;
+    ticketId?: string;
+  }>();
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const goToTicket = (id?: string) => {
+      if (id) router.replace(`/ticket/${id}`);
+      else router.replace('/(tabs)');
+    };
+
+    const handleCallback = async () => {
+      console.log('💳 Payment callback received:', { sessionId, status, ticketId });
+
+      if (!sessionId || status === 'cancelled') {
+        goToTicket(ticketId);
+        return;
+      }
+
+      try {
+        const response = await completeCheckout(String(sessionId));
+        goToTicket(response.ticketId || ticketId);
+      } catch (err) {
+        console.error('❌ Error confirming checkout:', err);
+        goToTicket(ticketId);
+      }
+    };
+
+    handleCallback();
+  }, [sessionId, status, ticketId, router]);
+
+  return (
+    <View className="flex-1 items-center justify-center bg-white">
+      <ActivityIndicator size="large" color="#DC2626" />
+      <Text className="text-gray-900 text-lg font-semibold mt-4">Confirming payment...</Text>
+      <Text className="text-gray-500 text-sm mt-2">Please wait while we confirm your ticket</Text>
+    </View>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator, RefreshControl } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { paymentsAPI, type Payment } from '@/lib/api/payments';
+import {
+  formatPaymentAmount,
+  formatPaymentMethod,
+  PAYMENT_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+} from '@/lib/utils/paymentUtils';
+
+type StatusFilter = 'all' | Payment['status'];
+
+const STATUS_FILTERS: { key: StatusFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'pending', label: 'Pending' },
+  { key: 'approved', label: 'Approved' },
+  { key: 'rejected', label: 'Rejected' },
+  { key: 'refunded', label: 'Refunded' },
+];
+
+function formatSubmitted(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function PaymentsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [yearFilter, setYearFilter] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const response = await paymentsAPI.getMyPayments();
+      if (response.success) {
+        setPayments(
+          [...(response.payments || [])].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          )
+        );
+      }
+    } catch (err: any) {
+      console.error('Error fetching payments:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchPayments();
+    setRefreshing(false);
+  };
+
+  const years = useMemo(
+    () => Array.from(new Set(payments.map((p) => new Date(p.createdAt).getFullYear()))).sort((a, b) => b - a),
+    [payments]
+  );
+
+  const filtered = payments.filter(
+    (p) =>
+      (statusFilter === 'all' || p.status === statusFilter) &&
+      (yearFilter == null || new Date(p.createdAt).getFullYear() === yearFilter)
+  );
+
+  // Totals per currency, counting only money that actually went through
+  const totals = filtered.reduce<Record<string, number>>((acc, p) => {
+    if (p.status !== 'approved' && p.status !== 'refunded') return acc;
+    const currency = p.currency || 'PKR';
+    acc[currency] = (acc[currency] || 0) + p.amount - (p.status === 'refunded' ? p.refundedAmount || 0 : 0);
+    return acc;
+  }, {});
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full border ${active ? 'bg-primary border-primary' : 'bg-white border-gray-200'}`;
+  const chipTextClass = (active: boolean) => `text-xs font-semibold ${active ? 'text-white' : 'text-gray-700'}`;
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <Text className="text-gray-900 text-base font-bold">Payments</Text>
+        <View className="w-8" />
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 6 }}>
+            {STATUS_FILTERS.map((f) => (
+              <TouchableOpacity key={f.key} className={chipClass(statusFilter === f.key)} onPress={() => setStatusFilter(f.key)}>
+                <Text className={chipTextClass(statusFilter === f.key)}>{f.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          {years.length > 1 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 6 }} className="mt-2">
+              <TouchableOpacity className={chipClass(yearFilter == null)} onPress={() => setYearFilter(null)}>
+                <Text className={chipTextClass(yearFilter == null)}>All years</Text>
+              </TouchableOpacity>
+              {years.map((year) => (
+                <TouchableOpacity key={year} className={chipClass(yearFilter === year)} onPress={() => setYearFilter(year)}>
+                  <Text className={chipTextClass(yearFilter === year)}>{year}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {Object.keys(totals).length > 0 && (
+            <Text className="text-gray-500 text-xs mt-3">
+              Total paid:{' '}
+              <Text className="text-gray-900 font-semibold">
+                {Object.entries(totals)
+                  .map(([currency, amount]) => formatPaymentAmount(amount, currency))
+                  .join(' · ')}
+              </Text>
+            </Text>
+          )}
+
+          {filtered.length === 0 ? (
+            <View className="items-center py-10">
+              <MaterialIcons name="receipt-long" size={40} color="#9CA3AF" />
+              <Text className="text-gray-700 text-sm mt-3 text-center">
+                {payments.length === 0 ? 'No payments yet.' : 'No payments match these filters.'}
+              </Text>
+            </View>
+          ) : (
+            <View className="mt-3">
+              {filtered.map((payment) => (
+                <TouchableOpacity
+                  key={payment.id}
+                  className="bg-gray-50 border border-gray-200 rounded-xl p-3 mb-2 flex-row items-center"
+                  onPress={() => router.push({ pathname: '/payments/[id]', params: { id: payment.id } })}
+                  activeOpacity={0.7}
+                >
+                  <View className="flex-1 min-w-0 mr-2">
+                    <Text className="text-gray-900 text-sm font-bold" numberOfLines={1}>
+                      {payment.event?.title || 'Event'}
+                    </Text>
+                    <Text className="text-gray-500 text-[10px] mt-0.5">
+                      {formatPaymentMethod(payment.method)} · {formatSubmitted(payment.createdAt)}
+                      {payment.ticketIds && payment.ticketIds.length > 1 ? ` · ${payment.ticketIds.length} tickets` : ''}
+                    </Text>
+                  </View>
+                  <View className="items-end">
+                    <Text className="text-gray-900 text-sm font-semibold">
+                      {formatPaymentAmount(payment.amount, payment.currency)}
+                    </Text>
+                    <Text className="text-[10px] font-semibold mt-0.5" style={{ color: PAYMENT_STATUS_COLORS[payment.status] }}>
+                      {PAYMENT_STATUS_LABELS[payment.status] || payment.status}
+                    </Text>
+                  </View>
+                  <MaterialIcons name="chevron-right" size={20} color="#9CA3AF" style={{ marginLeft: 4 }} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </View>
+  );
+}
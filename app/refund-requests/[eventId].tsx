@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  Modal as RNModal,
+  Pressable,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { BackButton } from '@/components/BackButton';
+import { Modal } from '@/components/Modal';
+import { refundsAPI, type RefundRequest, type RefundRequestStatus } from '@/lib/api/refunds';
+import { formatPaymentAmount } from '@/lib/utils/paymentUtils';
+
+type RefundTab = 'pending' | 'resolved';
+
+type Decision = { request: RefundRequest; action: 'approve' | 'reject' };
+
+function formatSubmitted(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+const STATUS_COLORS: Record<RefundRequestStatus, string> = {
+  pending: '#F59E0B',
+  approved: '#10B981',
+  rejected: '#EF4444',
+};
+
+export default function RefundRequestsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { eventId, title } = useLocalSearchParams<{ eventId: string; title?: string }>();
+
+  const [requests, setRequests] = useState<RefundRequest[]>([]);
+  const [tab, setTab] = useState<RefundTab>('pending');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const response = await refundsAPI.getEventRefundRequests(String(eventId));
+      if (response.success) {
+        setRequests(
+          [...(response.requests || [])].sort(
+            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+          )
+        );
+      }
+    } catch (err: any) {
+      console.error('Error fetching refund requests:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to load refund requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchRequests();
+    setRefreshing(false);
+  };
+
+  const closeDecision = () => {
+    if (submitting) return;
+    setDecision(null);
+    setNote('');
+  };
+
+  const handleDecision = async () => {
+    if (!decision) return;
+    const { request, action } = decision;
+    const trimmed = note.trim();
+    if (action === 'reject' && !trimmed) return;
+    setSubmitting(true);
+    try {
+      const response =
+        action === 'approve'
+          ? await refundsAPI.approveRefundRequest(request._id, trimmed || undefined)
+          : await refundsAPI.rejectRefundRequest(request._id, trimmed);
+      if (response.success) {
+        setRequests((prev) => prev.map((r) => (r._id === request._id ? { ...r, ...response.request } : r)));
+        setDecision(null);
+        setNote('');
+        setSuccessMessage(
+          action === 'approve'
+            ? `${request.user.fullName}'s ticket was cancelled${
+                request.refundAmount > 0 ? ` and ${formatPaymentAmount(request.refundAmount, request.currency)} marked as refunded` : ''
+              }.`
+            : `${request.user.fullName}'s request was declined. Their ticket stays valid.`
+        );
+      }
+    } catch (err: any) {
+      console.error('Error reviewing refund request:', err);
+      setErrorMessage(err.response?.data?.message || err.message || 'Failed to update refund request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const pendingCount = requests.filter((r) => r.status === 'pending').length;
+  const visible = requests.filter((r) => (tab === 'pending' ? r.status === 'pending' : r.status !== 'pending'));
+
+  return (
+    <View className="flex-1 bg-white">
+      <View
+        className="flex-row items-center justify-between px-3 pb-3 bg-white border-b border-gray-100"
+        style={{ paddingTop: insets.top + 8 }}
+      >
+        <BackButton onPress={() => router.back()} />
+        <View className="flex-1 items-center px-2">
+          <Text className="text-gray-900 text-base font-bold">Refund Requests</Text>
+          {title ? (
+            <Text className="text-gray-500 text-[10px]" numberOfLines={1}>{title}</Text>
+          ) : null}
+        </View>
+        <View className="w-8" />
+      </View>
+
+      <View className="flex-row mx-3 mt-3 bg-gray-100 rounded-lg p-1">
+        {(['pending', 'resolved'] as RefundTab[]).map((t) => (
+          <TouchableOpacity
+            key={t}
+            className={`flex-1 py-1.5 rounded-md items-center ${tab === t ? 'bg-white' : ''}`}
+            onPress={() => setTab(t)}
+          >
+            <Text className={`text-xs font-semibold ${tab === t ? 'text-gray-900' : 'text-gray-500'}`}>
+              {t === 'pending' ? `Pending (${pendingCount})` : 'Resolved'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#DC2626" />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 12, paddingBottom: insets.bottom + 24 }}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" colors={["#DC2626"]} />
+          }
+        >
+          {visible.length === 0 ? (
+            <View className="items-center py-10">
+              <MaterialIcons name="inbox" size={40} color="#9CA3AF" />
+              <Text className="text-gray-700 text-sm mt-3 text-center">
+                {tab === 'pending' ? 'No refund requests waiting.' : 'No resolved requests yet.'}
+              </Text>
+            </View>
+          ) : (
+            visible.map((request) => (
+              <View key={request._id} className="bg-gray-50 border border-gray-200 rounded-xl p-3 mb-3">
+                <View className="flex-row items-start justify-between">
+                  <View className="flex-1 min-w-0 mr-2">
+                    <Text className="text-gray-900 text-sm font-bold" numberOfLines={1}>{request.user.fullName}</Text>
+                    <Text className="text-gray-600 text-[10px]" numberOfLines={1}>
+                      {request.user.email}
+                      {request.ticket.tier?.name ? ` · ${request.ticket.tier.name}` : ''}
+                    </Text>
+                  </View>
+                  <Text className="text-[10px] font-semibold capitalize" style={{ color: STATUS_COLORS[request.status] }}>
+                    {request.status}
+                  </Text>
+                </View>
+                <View className="flex-row gap-4 mt-2">
+                  <View>
+                    <Text className="text-gray-500 text-[10px]">Paid</Text>
+                    <Text className="text-gray-900 text-xs font-semibold">
+                      {request.amountPaid > 0 ? formatPaymentAmount(request.amountPaid, request.currency) : 'Free'}
+                    </Text>
+                  </View>
+                  {request.amountPaid > 0 && (
+                    <View>
+                      <Text className="text-gray-500 text-[10px]">Refund per policy</Text>
+                      <Text className="text-gray-900 text-xs font-semibold">
+                        {formatPaymentAmount(request.refundAmount, request.currency)}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+                <Text className="text-gray-700 text-xs mt-2">&ldquo;{request.reason}&rdquo;</Text>
+                {request.organizerNote ? (
+                  <Text className="text-gray-500 text-[10px] mt-1">Your note: {request.organizerNote}</Text>
+                ) : null}
+                <Text className="text-gray-500 text-[10px] mt-1">
+                  Requested {formatSubmitted(request.createdAt)}
+                  {request.reviewedAt ? ` · Reviewed ${formatSubmitted(request.reviewedAt)}` : ''}
+                </Text>
+                {request.status === 'pending' && (
+                  <View className="flex-row gap-2 mt-3">
+                    <TouchableOpacity
+                      className="flex-1 py-2.5 rounded-lg items-center border border-[#EF4444]"
+                      onPress={() => setDecision({ request, action: 'reject' })}
+                    >
+                      <Text className="text-[#EF4444] text-xs font-semibold">Decline</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      className="flex-1 py-2.5 rounded-lg items-center bg-[#10B981]"
+                      onPress={() => setDecision({ request, action: 'approve' })}
+                    >
+                      <Text className="text-white text-xs font-semibold">Approve</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      {/* Approve / decline with note */}
+      <RNModal visible={!!decision} transparent animationType="fade" onRequestClose={closeDecision}>
+        <Pressable className="flex-1 bg-black/70 justify-center items-center p-3" onPress={closeDecision}>
+          <Pressable className="bg-white rounded-2xl w-full max-w-[400px] p-4" onPress={(e) => e.stopPropagation()}>
+            <View className="w-8 h-0.5 rounded-full bg-gray-300 self-center mb-3" />
+            <Text className="text-gray-900 text-base font-bold mb-1 text-center">
+              {decision?.action === 'approve' ? 'Approve Refund' : 'Decline Refund'}
+            </Text>
+            <Text className="text-gray-600 text-xs text-center mb-3">
+              {decision?.action === 'approve'
+                ? `The ticket will be cancelled and its spot released.${
+                    decision.request.refundAmount > 0
+                      ? ` Send ${formatPaymentAmount(decision.request.refundAmount, decision.request.currency)} back to the attendee.`
+                      : ''
+                  }`
+                : `${decision?.request.user.fullName} will be notified with this note. Their ticket stays valid.`}
+            </Text>
+            <TextInput
+              className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-900 text-sm min-h-[72px]"
+              placeholder={decision?.action === 'approve' ? 'Note to attendee (optional)' : 'Reason (shown to the attendee)'}
+              placeholderTextColor="#9CA3AF"
+              value={note}
+              onChangeText={setNote}
+              multiline
+              textAlignVertical="top"
+              maxLength={300}
+              editable={!submitting}
+            />
+            <View className="flex-row gap-2 mt-3">
+              <TouchableOpacity className="flex-1 py-2.5 rounded-lg items-center border border-gray-200" onPress={closeDecision}>
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              {(() => {
+                const canSubmit = decision?.action === 'approve' || !!note.trim();
+                const color = decision?.action === 'approve' ? 'bg-[#10B981]' : 'bg-[#EF4444]';
+                return (
+                  <TouchableOpacity
+                    className={`flex-1 py-2.5 rounded-lg items-center ${canSubmit ? color : 'bg-gray-300'}`}
+                    onPress={handleDecision}
+                    disabled={!canSubmit || submitting}
+                  >
+                    {submitting ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text className="text-white text-xs font-semibold">
+                        {decision?.action === 'approve' ? 'Approve' : 'Decline'}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })()}
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      <Modal
+        visible={!!successMessage}
+        onClose={() => setSuccessMessage('')}
+        title="Done"
+        message={successMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setSuccessMessage('')}
+        variant="success"
+      />
+      <Modal
+        visible={!!errorMessage}
+        onClose={() => setErrorMessage('')}
+        title="Error"
+        message={errorMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setErrorMessage('')}
+        variant="error"
+      />
+    </View>
+  );
+}
@@ -20,8 +20,11 @@ import { DataSelection } from '@/components/ui/DataSelection';
 import { Icon } from '@/components/ui/Icon';
 import { useAppStore } from '@/store/useAppStore';
 import { authAPI } from '@/lib/api/auth';
+import { ticketsAPI } from '@/lib/api/tickets';
+import { buildMyTicketsIcs, shareIcs, toWebcalUrl } from '@/lib/utils/calendarUtils';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
 
 // Token storage keys (must match client.ts)
 const ACCESS_TOKEN_KEY = 'accessToken';
@@ -34,11 +37,11 @@ export default function SettingsScreen() {
   const user = useAppStore((state) => state.user);
   const setUser = useAppStore((state) => state.setUser);
   const logout = useAppStore((state) => state.logout);
-  const [expandedSection, setExpandedSection] = useState<'profile' | 'security' | 'liked' | 'followers' | null>(
+  const [expandedSection, setExpandedSection] = useState<'profile' | 'security' | 'liked' | 'followers' | 'calendar' | null>(
     open === 'profile' ? 'profile' : open === 'liked' ? 'liked' : null
   );
 
-  const toggleSection = useCallback((section: 'profile' | 'security' | 'liked' | 'followers' | null) => {
+  const toggleSection = useCallback((section: 'profile' | 'security' | 'liked' | 'followers' | 'calendar' | null) => {
     setExpandedSection((prev) => (prev === section ? null : section));
   }, []);
   
@@ -77,6 +80,10 @@ export default function SettingsScreen() {
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successModalMessage, setSuccessModalMessage] = useState('');
   const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [showErrorModal, setShowErrorModal] = useState(false);
+  const [errorModalMessage, setErrorModalMessage] = useState('');
+  const [loadingCalendarFeed, setLoadingCalendarFeed] = useState(false);
+  const [exportingCalendar, setExportingCalendar] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
@@ -241,6 +248,51 @@ export default function SettingsScreen() {
     }
   };
 
+  // Calendar apps keep a webcal:// subscription in sync with newly joined / cancelled events
+  const handleSubscribeCalendar = async () => {
+    setLoadingCalendarFeed(true);
+    try {
+      const res = await ticketsAPI.getCalendarFeed();
+      if (!res.feedUrl) throw new Error('Calendar feed is not available right now.');
+      await Linking.openURL(toWebcalUrl(res.feedUrl));
+    } catch (error: any) {
+      console.error('Calendar feed error:', error);
+      setErrorModalMessage(
+        error.response?.data?.message || error.message || 'Could not open your calendar app.'
+      );
+      setShowErrorModal(true);
+    } finally {
+      setLoadingCalendarFeed(false);
+    }
+  };
+
+  // One-off .ics snapshot of every joined event
+  const handleExportCalendar = async () => {
+    if (Platform.OS === 'web') {
+      setErrorModalMessage('Calendar export is not available on web. Use the app on your phone.');
+      setShowErrorModal(true);
+      return;
+    }
+    setExportingCalendar(true);
+    try {
+      const res = await ticketsAPI.getMyTickets();
+      const tickets = res.tickets || [];
+      if (tickets.length === 0) {
+        setErrorModalMessage("You haven't joined any events yet.");
+        setShowErrorModal(true);
+        return;
+      }
+      await shareIcs('my-events', buildMyTicketsIcs(tickets));
+    } catch (error: any) {
+      if (error?.message?.includes('cancel')) return;
+      console.error('Calendar export error:', error);
+      setErrorModalMessage(error.response?.data?.message || error.message || 'Failed to export events.');
+      setShowErrorModal(true);
+    } finally {
+      setExportingCalendar(false);
+    }
+  };
+
   const handleLogout = () => {
     setShowLogoutModal(true);
   };
@@ -593,6 +645,64 @@ export default function SettingsScreen() {
               </View>
             </View>
           </CollapsibleSection>
+
+          {/* Calendar */}
+          <TouchableOpacity
+            className="flex-row items-center justify-between py-4 border-b border-gray-200"
+            onPress={() => toggleSection('calendar')}
+            activeOpacity={0.7}
+          >
+            <View className="flex-row items-center">
+              <MaterialIcons name="event" size={22} color="#111827" style={{ marginRight: 12 }} />
+              <Text className="text-gray-900 text-base font-medium">Calendar</Text>
+            </View>
+            <MaterialIcons
+              name={expandedSection === 'calendar' ? 'expand-less' : 'expand-more'}
+              size={24}
+              color="#6B7280"
+            />
+          </TouchableOpacity>
+
+          <CollapsibleSection expanded={expandedSection === 'calendar'}>
+            <View className="pb-6 pt-2">
+              <Text className="text-gray-600 text-sm mb-3">
+                Subscribe to keep every event you join in your calendar automatically, or export a one-time copy.
+              </Text>
+              <ButtonPrimary
+                loading={loadingCalendarFeed}
+                disabled={loadingCalendarFeed}
+                onPress={handleSubscribeCalendar}
+                size="lg"
+              >
+                Subscribe in Calendar
+              </ButtonPrimary>
+              <TouchableOpacity
+                className="mt-3 py-3 rounded-lg border border-gray-200 items-center"
+                onPress={handleExportCalendar}
+                disabled={exportingCalendar}
+                activeOpacity={0.7}
+              >
+                {exportingCalendar ? (
+                  <ActivityIndicator size="small" color="#6B7280" />
+                ) : (
+                  <Text className="text-gray-900 text-base font-semibold">Export joined events (.ics)</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </CollapsibleSection>
+
+          {/* Payments */}
+          <TouchableOpacity
+            className="flex-row items-center justify-between py-4 border-b border-gray-200"
+            onPress={() => router.push('/payments')}
+            activeOpacity={0.7}
+          >
+            <View className="flex-row items-center">
+              <MaterialIcons name="receipt-long" size={22} color="#111827" style={{ marginRight: 12 }} />
+              <Text className="text-gray-900 text-base font-medium">Payments</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#6B7280" />
+          </TouchableOpacity>
         </View>
 
         {/* Logout */}
@@ -626,6 +736,15 @@ export default function SettingsScreen() {
         onPrimaryPress={() => setShowSuccessModal(false)}
         variant="success"
       />
+      <Modal
+        visible={showErrorModal}
+        onClose={() => setShowErrorModal(false)}
+        title="Error"
+        message={errorModalMessage}
+        primaryButtonText="OK"
+        onPrimaryPress={() => setShowErrorModal(false)}
+        variant="error"
+      />
       <Modal
         visible={showLogoutModal}
         onClose={() => setShowLogoutModal(false)}
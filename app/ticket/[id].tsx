@@ -9,11 +9,14 @@ import {
   Alert,
   RefreshControl,
   Platform,
+  Modal as RNModal,
+  Pressable,
+  TextInput,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAppStore } from '@/store/useAppStore';
-import { ticketsAPI, type Ticket } from '@/lib/api/tickets';
+import { ticketsAPI, type GetMyTicketsResponse, type Ticket } from '@/lib/api/tickets';
 import { paymentsAPI } from '@/lib/api/payments';
 import * as ImagePicker from 'expo-image-picker';
 import { captureRef } from 'react-native-view-shot';
@@ -22,10 +25,22 @@ import * as Sharing from 'expo-sharing';
 import { BackButton } from '@/components/BackButton';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { API_BASE_URL } from '@/lib/config';
-import { CACHE_KEYS, getCached, setCached } from '@/lib/cache';
+import { CACHE_KEYS, getCached, removeCached, setCached } from '@/lib/cache';
 import * as Linking from 'expo-linking';
-import { getEventImageUrl } from '@/lib/utils/imageUtils';
+import { getEventImageUrl, resolvePaymentScreenshotUrl } from '@/lib/utils/imageUtils';
 import { TicketPreview } from '@/components/TicketPreview';
+import { buildIcs, shareIcs, ticketToIcsEvent } from '@/lib/utils/calendarUtils';
+import { addTicketToWallet, getWalletPlatform } from '@/lib/utils/walletPass';
+import { getTicketReceipt, shareTicketsPdf } from '@/lib/utils/ticketPdf';
+import { refundsAPI } from '@/lib/api/refunds';
+import { formatRefundPolicy, getRefundEstimate } from '@/lib/utils/refundUtils';
+import { getTicketSession } from '@/lib/utils/recurrenceUtils';
+import { getEffectiveRefundPolicy, getEventStatusBanner } from '@/lib/utils/eventStatusUtils';
+import { EventStatusBanner } from '@/components/EventStatusBanner';
+import { formatPaymentAmount } from '@/lib/utils/paymentUtils';
+import { getPaymentMethodOptions, MANUAL_PAYMENT_METHODS, startCheckout } from '@/lib/utils/paymentGateway';
+
+const PAYMENT_METHOD_OPTIONS = getPaymentMethodOptions();
 
 export default function TicketScreen() {
   const router = useRouter();
@@ -42,6 +57,7 @@ export default function TicketScreen() {
   const [screenshotUri, setScreenshotUri] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<string>('bank_transfer');
   const [uploadingPayment, setUploadingPayment] = useState(false);
+  const [checkingOut, setCheckingOut] = useState(false);
 
   // QR code loading states
   const [qrImageLoaded, setQrImageLoaded] = useState(false);
@@ -51,6 +67,17 @@ export default function TicketScreen() {
   const ticketCardRef = useRef<View>(null);
   const [downloadingTicket, setDownloadingTicket] = useState(false);
   const [sharingTicket, setSharingTicket] = useState(false);
+  const [exportingCalendar, setExportingCalendar] = useState(false);
+  const [addingToWallet, setAddingToWallet] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+
+  // Transfer states
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [transferRecipient, setTransferRecipient] = useState('');
+  const [transferring, setTransferring] = useState(false);
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  const [refundReason, setRefundReason] = useState('');
+  const [requestingRefund, setRequestingRefund] = useState(false);
 
   // Helper function to get full payment screenshot URL (same logic as profile image)
   const getPaymentScreenshotUrl = () => {
@@ -60,39 +87,7 @@ export default function TicketScreen() {
     }
 
     // Otherwise, use the payment screenshot URL from ticket
-    if (!ticket?.paymentScreenshotUrl) return null;
-
-    const paymentScreenshotUrl = ticket.paymentScreenshotUrl;
-
-    // If backend returned a localhost URL (old data), rewrite it to use the current API base URL
-    if (
-      paymentScreenshotUrl.includes('localhost') ||
-      paymentScreenshotUrl.includes('127.0.0.1')
-    ) {
-      // Strip `/api` from API_BASE_URL and keep only the path part from the original URL
-      const baseUrl = API_BASE_URL.replace('/api', '');
-      try {
-        const url = new URL(paymentScreenshotUrl);
-        const path = url.pathname || '';
-        return `${baseUrl}${path}`;
-      } catch {
-        // Fallback: if URL parsing fails, try to find `/uploads` in the string
-        const uploadsIndex = paymentScreenshotUrl.indexOf('/uploads');
-        if (uploadsIndex !== -1) {
-          const path = paymentScreenshotUrl.substring(uploadsIndex);
-          return `${baseUrl}${path}`;
-        }
-      }
-    }
-
-    // If it's already a full URL, return it as is
-    if (paymentScreenshotUrl.startsWith('http')) {
-      return paymentScreenshotUrl;
-    }
-
-    // Otherwise, construct from relative path and API_BASE_URL
-    const baseUrl = API_BASE_URL.replace('/api', '');
-    return `${baseUrl}${paymentScreenshotUrl}`;
+    return resolvePaymentScreenshotUrl(ticket?.paymentScreenshotUrl);
   };
 
   // Helper for full QR code URL (for confirmed tickets)
@@ -231,11 +226,13 @@ export default function TicketScreen() {
     try {
       setUploadingPayment(true);
 
-      // Amount is derived from ticket.event.ticketPrice on backend (source of truth)
+      // Amount is derived from ticket.event.ticketPrice on backend (source of truth);
+      // for group orders one payment covers every ticket in the order
       const response = await paymentsAPI.submitPayment(
         ticket.id,
         paymentMethod,
-        screenshotUri
+        screenshotUri,
+        ticket.order?._id
       );
 
       if (response.success) {
@@ -274,6 +271,36 @@ export default function TicketScreen() {
     }
   };
 
+  // Online checkout (card / wallet); on success the backend has already confirmed the ticket(s)
+  const handleCheckout = async () => {
+    const option = PAYMENT_METHOD_OPTIONS.find((o) => o.key === paymentMethod);
+    if (!ticket || !option || option.kind !== 'online') return;
+    try {
+      setCheckingOut(true);
+      const result = await startCheckout(option, { ticketId: ticket.id, orderId: ticket.order?._id });
+      if (result.status === 'cancelled') return;
+      await refreshTicket();
+      if (result.status === 'succeeded') {
+        Alert.alert('Payment Complete', result.message || 'Your ticket is confirmed. See you there!');
+      } else if (result.status === 'pending') {
+        Alert.alert(
+          'Payment Processing',
+          result.message || "Your payment is being processed. We'll notify you once your ticket is confirmed."
+        );
+      } else {
+        Alert.alert('Payment Failed', result.message || 'Your payment did not go through. Please try again.');
+      }
+    } catch (error: any) {
+      console.error('❌ Checkout error:', error);
+      Alert.alert(
+        'Payment Failed',
+        error.response?.data?.message || error.message || 'Could not start checkout. Please try again.'
+      );
+    } finally {
+      setCheckingOut(false);
+    }
+  };
+
   // Small helper: wait one frame so layout/gradients/QR are fully committed before snapshotting
   const waitForNextFrame = () =>
     new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
@@ -382,6 +409,179 @@ export default function TicketScreen() {
     }
   };
 
+  // Printable PDF: themed ticket snapshot + payment receipt (paid tickets only)
+  const handleExportPdf = async (options: { isFree: boolean; currency: string }) => {
+    if (!ticket) return;
+    if (Platform.OS === 'web') {
+      Alert.alert('Not available', 'PDF export is not available on web. Use the app on your phone.');
+      return;
+    }
+    const view = ticketCardRef.current;
+    if (!view) return;
+    try {
+      setExportingPdf(true);
+      await waitForNextFrame();
+      const imageDataUri = await captureRef(view, {
+        format: 'jpg',
+        quality: 0.95,
+        result: 'data-uri',
+        width: 800,
+      });
+      const receipt = options.isFree
+        ? null
+        : await getTicketReceipt(ticket, { currency: options.currency, searchMyPayments: true });
+      await shareTicketsPdf(
+        [
+          {
+            imageDataUri,
+            holder: ticket.user?.fullName || ticket.username,
+            accessKey: ticket.accessKey,
+            tierName: ticket.tier?.name,
+            receipt,
+          },
+        ],
+        `${ticket.event?.title || 'Ticket'} – Ticket`
+      );
+    } catch (err: any) {
+      if (err?.message && !err.message.includes('cancel')) {
+        console.error('PDF export error:', err);
+        Alert.alert('Error', err?.message || 'Could not export PDF.');
+      }
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  const handleAddToWallet = async () => {
+    if (!ticket) return;
+    if (Platform.OS === 'web') {
+      Alert.alert('Not available', 'Wallet passes are not available on web. Use the app on your phone.');
+      return;
+    }
+    try {
+      setAddingToWallet(true);
+      await addTicketToWallet(ticket);
+    } catch (err: any) {
+      if (err?.message && !err.message.includes('cancel')) {
+        console.error('Wallet pass error:', err);
+        Alert.alert('Error', err.response?.data?.message || err.message || 'Could not add ticket to wallet.');
+      }
+    } finally {
+      setAddingToWallet(false);
+    }
+  };
+
+  // .ics with a 1h reminder; the entry links back to this ticket
+  const handleAddToCalendar = async () => {
+    if (!ticket) return;
+    if (Platform.OS === 'web') {
+      Alert.alert('Not available', 'Calendar export is not available on web. Use the app on your phone.');
+      return;
+    }
+    try {
+      setExportingCalendar(true);
+      await shareIcs(ticket.event.title || 'ticket', buildIcs([ticketToIcsEvent(ticket)]));
+    } catch (err: any) {
+      if (err?.message && !err.message.includes('cancel')) {
+        console.error('Calendar export error:', err);
+        Alert.alert('Error', err?.message || 'Could not export to calendar.');
+      }
+    } finally {
+      setExportingCalendar(false);
+    }
+  };
+
+  // Paid tickets go to the organizer for review; free tickets are cancelled right away by the backend
+  const handleRequestRefund = async () => {
+    if (!ticket) return;
+    const reason = refundReason.trim();
+    if (!reason) {
+      Alert.alert('Reason Required', 'Let the organizer know why you want to cancel.');
+      return;
+    }
+    try {
+      setRequestingRefund(true);
+      const response = await refundsAPI.requestRefund(ticket.id, reason);
+      if (response.success) {
+        setShowRefundModal(false);
+        setRefundReason('');
+        const updated: Ticket = {
+          ...ticket,
+          refundRequest: response.request,
+          status: (response.ticket?.status as Ticket['status']) ?? ticket.status,
+        };
+        setTicket(updated);
+        await setCached(CACHE_KEYS.TICKET_BY_ID(ticket.id), updated);
+        Alert.alert(
+          response.request.status === 'approved' ? 'Ticket Cancelled' : 'Refund Requested',
+          response.message ||
+            (response.request.status === 'approved'
+              ? 'Your ticket has been cancelled.'
+              : "The organizer will review your request. We'll notify you when it's decided.")
+        );
+      }
+    } catch (err: any) {
+      console.error('Error requesting refund:', err);
+      Alert.alert(
+        'Request Failed',
+        err.response?.data?.message || err.message || 'Could not send your request. Please try again.'
+      );
+    } finally {
+      setRequestingRefund(false);
+    }
+  };
+
+  // Hand the ticket to another user; the old QR / access key stops working on the backend
+  const handleTransferTicket = async () => {
+    if (!ticket) return;
+    const recipient = transferRecipient.trim().replace(/^@/, '');
+    if (!recipient) {
+      Alert.alert('Recipient Required', 'Enter the username or email of the person receiving this ticket.');
+      return;
+    }
+    if (
+      recipient.toLowerCase() === user?.email?.toLowerCase() ||
+      recipient.toLowerCase() === user?.username?.toLowerCase()
+    ) {
+      Alert.alert('Invalid Recipient', 'You already own this ticket.');
+      return;
+    }
+
+    try {
+      setTransferring(true);
+      const response = await ticketsAPI.transferTicket(ticket.id, { recipient });
+      if (response.success) {
+        setShowTransferModal(false);
+        setTransferRecipient('');
+
+        // Ticket no longer belongs to this user: drop stale caches
+        await removeCached(CACHE_KEYS.TICKET_BY_ID(ticket.id));
+        try {
+          const ticketsResponse = await ticketsAPI.getMyTickets();
+          if (ticketsResponse.success) {
+            await setCached<GetMyTicketsResponse>(CACHE_KEYS.TICKETS_MY, ticketsResponse);
+          }
+        } catch (ticketsError) {
+          console.error('Failed to refresh tickets:', ticketsError);
+        }
+
+        Alert.alert(
+          'Ticket Transferred',
+          response.message || `Your ticket has been sent to ${recipient}.`,
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+      }
+    } catch (err: any) {
+      console.error('Error transferring ticket:', err);
+      Alert.alert(
+        'Transfer Failed',
+        err.response?.data?.message || err.message || 'Could not transfer ticket. Please try again.'
+      );
+    } finally {
+      setTransferring(false);
+    }
+  };
+
   // Show full-screen loader only when loading and no cached ticket to display in background
   if (loading && !ticket) {
     return (
@@ -427,11 +627,12 @@ export default function TicketScreen() {
   }
 
   // Determine if this ticket is for a free event
-  const isFreeEvent =
-    (ticket as any)?.event?.price?.price === 'free' ||
-    (ticket as any)?.event?.price?.currency === null ||
-    !ticket.event?.ticketPrice ||
-    ticket.event.ticketPrice <= 0;
+  const isFreeEvent = ticket.tier
+    ? ticket.tier.price <= 0
+    : (ticket as any)?.event?.price?.price === 'free' ||
+      (ticket as any)?.event?.price?.currency === null ||
+      !ticket.event?.ticketPrice ||
+      ticket.event.ticketPrice <= 0;
 
   // For free events, treat pending states as confirmed on the client so QR + access key are visible
   const effectiveStatus =
@@ -440,6 +641,54 @@ export default function TicketScreen() {
       ? 'confirmed'
       : ticket.status;
 
+  const isOwner = !ticket.user?._id || ticket.user._id === user._id;
+  const canTransfer = isOwner && ticket.status === 'confirmed';
+  const transferHistory = ticket.transferHistory ?? [];
+
+  // Amount to send: whole order for group bookings, otherwise this ticket after any promo discount
+  const isGroupOrder = !!ticket.order && ticket.order.quantity > 1;
+  const amountDue = isGroupOrder
+    ? ticket.order!.totalAmount
+    : ticket.pricing?.amountDue ?? ticket.tier?.price ?? ticket.event?.ticketPrice ?? 0;
+  const amountCurrency = ticket.order?.currency || ticket.pricing?.currency || ticket.tier?.currency || 'PKR';
+
+  // Refunds are per ticket, even inside a group order
+  const refundRequest = ticket.refundRequest ?? null;
+  const ticketAmountPaid = isFreeEvent ? 0 : ticket.pricing?.amountDue ?? ticket.tier?.price ?? ticket.event?.ticketPrice ?? 0;
+  // Postponed events may offer full refunds regardless of the policy
+  const refundPolicy = getEffectiveRefundPolicy(ticket.event);
+  const session = getTicketSession(ticket);
+  const refundEstimate = getRefundEstimate(refundPolicy, {
+    amountPaid: ticketAmountPaid,
+    eventDate: session.date,
+    eventTime: session.time,
+  });
+  const canRequestRefund = isOwner && ticket.status === 'confirmed' && refundRequest?.status !== 'pending';
+  const statusBanner = getEventStatusBanner(ticket.event);
+  const paymentPhone = ticket.event?.createdBy?.phone || ticket.event?.phone || ticket.organizer?.phone;
+  const isOnlineMethod = PAYMENT_METHOD_OPTIONS.find((o) => o.key === paymentMethod)?.kind === 'online';
+
+  const sendPaymentPanel = (
+    <View className="mt-3">
+      {paymentPhone ? (
+        <Text className="text-gray-900 text-xs mb-1">
+          Send payment to: {paymentPhone}
+        </Text>
+      ) : null}
+      {amountDue > 0 && (
+        <Text className="text-gray-900 text-xs mb-1">
+          Amount: <Text className="font-semibold">{amountCurrency} {amountDue.toLocaleString()}</Text>
+          {!isGroupOrder && ticket.pricing && ticket.pricing.discountAmount > 0 ? (
+            <Text className="text-gray-500">
+              {' '}(was {amountCurrency} {ticket.pricing.originalAmount.toLocaleString()}
+              {ticket.pricing.promoCode ? `, code ${ticket.pricing.promoCode}` : ''})
+            </Text>
+          ) : null}
+        </Text>
+      )}
+    </View>
+  );
+
   return (
     <View className="flex-1 bg-white">
       {/* Fixed header - back button stays on top when scrolling */}
@@ -471,17 +720,25 @@ export default function TicketScreen() {
           />
         }
       >
+      {statusBanner && <EventStatusBanner banner={statusBanner} className="mx-3 mb-3" />}
+
       {/* Ticket Card - uses event ticket theme (ref for capture) */}
       <View ref={ticketCardRef} className="mx-[20px] mb-3" collapsable={false}>
         <TicketPreview
           theme={ticket.event?.ticketTheme}
-          event={ticket.event}
+          event={
+            ticket.event
+              ? { ...ticket.event, date: session.date, time: session.time, location: session.location ?? undefined }
+              : ticket.event
+          }
           preview={false}
           username={ticket.username}
           email={ticket.email}
           status={effectiveStatus}
           accessKey={ticket.accessKey}
+          signedQr={ticket.signedQr}
           createdAt={ticket.createdAt}
+          tier={ticket.tier}
         />
       </View>
 
@@ -509,41 +766,26 @@ export default function TicketScreen() {
             <View className="mb-4">
               <Text className="text-gray-900 text-xs mb-2">Payment Method</Text>
               <View className="flex-row gap-2">
-                {['bank_transfer', 'easypaisa', 'jazzcash', 'other'].map((method) => (
+                {MANUAL_PAYMENT_METHODS.map((option) => (
                   <TouchableOpacity
-                    key={method}
-                    onPress={() => setPaymentMethod(method)}
-                    className={`px-3 py-2 rounded-lg border ${paymentMethod === method
+                    key={option.key}
+                    onPress={() => setPaymentMethod(option.key)}
+                    className={`px-3 py-2 rounded-lg border ${paymentMethod === option.key
                       ? 'bg-primary border-primary'
                       : 'bg-gray-100 border-gray-200'
                       }`}
                   >
                     <Text
-                      className={`text-xs font-semibold ${paymentMethod === method ? 'text-white' : 'text-[#9CA3AF]'
+                      className={`text-xs font-semibold ${paymentMethod === option.key ? 'text-white' : 'text-[#9CA3AF]'
                         }`}
                     >
-                      {method === 'bank_transfer'
-                        ? 'Bank'
-                        : method === 'easypaisa'
-                          ? 'EasyPaisa'
-                          : method === 'jazzcash'
-                            ? 'JazzCash'
-                            : 'Other'}
+                      {option.label}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
-              {/* Event Creator Phone Number */}
-              {(() => {
-                const phoneNumber = ticket.event?.createdBy?.phone || ticket.event?.phone || ticket.organizer?.phone;
-                return phoneNumber ? (
-                  <View className="mt-3">
-                    <Text className="text-gray-900 text-xs mb-1">
-                      Send payment to: {phoneNumber}
-                    </Text>
-                  </View>
-                ) : null;
-              })()}
+              {/* Event Creator Phone Number + amount due */}
+              {sendPaymentPanel}
             </View>
 
             {/* Screenshot Display/Update */}
@@ -630,129 +872,229 @@ export default function TicketScreen() {
               Payment Pending
             </Text>
             <Text className="text-gay-900 text-sm text-center mb-4">
-              Please upload a screenshot of your payment to confirm your ticket.
+              {ticket.order && ticket.order.quantity > 1
+                ? `Please upload a screenshot of your payment to confirm all ${ticket.order.quantity} tickets in this order.`
+                : 'Please upload a screenshot of your payment to confirm your ticket.'}
             </Text>
 
+            {/* Previous submission rejected by the organizer */}
+            {ticket.paymentRejectionReason ? (
+              <View className="flex-row items-start bg-red-50 rounded-lg px-3 py-2 mb-4 border border-red-200">
+                <MaterialIcons name="error-outline" size={16} color="#EF4444" style={{ marginRight: 6, marginTop: 1 }} />
+                <Text className="text-gray-900 text-xs flex-1">
+                  Your last payment was rejected: {ticket.paymentRejectionReason}
+                </Text>
+              </View>
+            ) : null}
+
+            {/* Group order total */}
+            {ticket.order && ticket.order.quantity > 1 && (
+              <View className="flex-row items-center justify-between bg-gray-50 rounded-lg px-3 py-2 mb-4 border border-gray-200">
+                <Text className="text-gray-900 text-xs">{ticket.order.quantity} tickets</Text>
+                <Text className="text-gray-900 text-sm font-semibold">
+                  {ticket.order.currency || ticket.tier?.currency || 'PKR'} {ticket.order.totalAmount.toLocaleString()}
+                </Text>
+              </View>
+            )}
+
             {/* Payment Method Selection */}
             <View className="mb-4">
               <Text className="text-gray-900 text-xs mb-2">Payment Method</Text>
-              <View className="flex-row gap-2">
-                {['bank_transfer', 'easypaisa', 'jazzcash', 'other'].map((method) => (
+              <View className="flex-row flex-wrap gap-2">
+                {PAYMENT_METHOD_OPTIONS.map((option) => (
                   <TouchableOpacity
                     activeOpacity={1}
-                    key={method}
-                    onPress={() => setPaymentMethod(method)}
-                    className={`px-3 py-2 rounded-lg border ${paymentMethod === method
+                    key={option.key}
+                    onPress={() => setPaymentMethod(option.key)}
+                    className={`px-3 py-2 rounded-lg border flex-row items-center ${paymentMethod === option.key
                       ? 'bg-primary border-primary'
                       : 'bg-gray-100 border-gray-200'
                       }`}
                   >
+                    {option.kind === 'online' && (
+                      <MaterialIcons
+                        name={option.method === 'wallet' ? 'account-balance-wallet' : 'credit-card'}
+                        size={14}
+                        color={paymentMethod === option.key ? '#FFFFFF' : '#9CA3AF'}
+                        style={{ marginRight: 4 }}
+                      />
+                    )}
                     <Text
-                      className={`text-xs font-semibold ${paymentMethod === method ? 'text-white' : 'text-[#9CA3AF]'
+                      className={`text-xs font-semibold ${paymentMethod === option.key ? 'text-white' : 'text-[#9CA3AF]'
                         }`}
                     >
-                      {method === 'bank_transfer'
-                        ? 'Bank'
-                        : method === 'easypaisa'
-                          ? 'EasyPaisa'
-                          : method === 'jazzcash'
-                            ? 'JazzCash'
-                            : 'Other'}
+                      {option.label}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
-              {/* Event Creator Phone Number */}
-              {(() => {
-                const phoneNumber = ticket.event?.createdBy?.phone || ticket.event?.phone || ticket.organizer?.phone;
-                return phoneNumber ? (
-                  <View className="mt-3">
-                    <Text className="text-gray-900 text-xs mb-1">
-                      Send payment to: {phoneNumber}
-                    </Text>
-                  </View>
-                ) : null;
-              })()}
+              {/* Event Creator Phone Number + amount due (manual methods only) */}
+              {isOnlineMethod ? null : sendPaymentPanel}
             </View>
 
-            {/* Screenshot Selection */}
-            <View className="mb-4">
-              <Text className="text-gray-900 text-xs mb-2">Payment Screenshot</Text>
-              {screenshotUri ? (
-                <View className="relative">
-                  <Image
-                    source={{ uri: screenshotUri }}
-                    className="w-full h-[200px] rounded-xl"
-                    resizeMode="cover"
-                  />
-                  <TouchableOpacity
-                    onPress={() => setScreenshotUri(null)}
-                    className="absolute top-2 right-2 bg-[#EF4444] p-2 rounded-full"
-                  >
-                    <MaterialIcons name="close" size={20} color="#FFFFFF" />
-                  </TouchableOpacity>
+            {isOnlineMethod ? (
+              <TouchableOpacity
+                onPress={handleCheckout}
+                disabled={checkingOut}
+                activeOpacity={0.7}
+                className={`py-4 rounded-xl items-center ${checkingOut ? 'bg-[#374151]' : 'bg-primary'}`}
+              >
+                {checkingOut ? (
+                  <View className="flex-row items-center">
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                    <Text className="text-white text-base font-semibold ml-2">Processing...</Text>
+                  </View>
+                ) : (
+                  <Text className="text-white text-base font-semibold">
+                    Pay {formatPaymentAmount(amountDue, amountCurrency)}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ) : (
+              <>
+                {/* Screenshot Selection */}
+                <View className="mb-4">
+                  <Text className="text-gray-900 text-xs mb-2">Payment Screenshot</Text>
+                  {screenshotUri ? (
+                    <View className="relative">
+                      <Image
+                        source={{ uri: screenshotUri }}
+                        className="w-full h-[200px] rounded-xl"
+                        resizeMode="cover"
+                      />
+                      <TouchableOpacity
+                        onPress={() => setScreenshotUri(null)}
+                        className="absolute top-2 right-2 bg-[#EF4444] p-2 rounded-full"
+                      >
+                        <MaterialIcons name="close" size={20} color="#FFFFFF" />
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <TouchableOpacity
+                      onPress={pickScreenshot}
+                      className="border-2 border-dashed border-[#374151] rounded-xl p-8 items-center justify-center bg-[#0F0F0F]"
+                    >
+                      <MaterialIcons name="add-photo-alternate" size={48} color="#E5E7EB" />
+                      <Text className="text-gray-200 text-sm mt-2 text-center">
+                        Tap to select payment screenshot
+                      </Text>
+                      <View className="mt-2 w-full items-start px-4">
+                        <Text className="text-gray-300 text-xs">• JPEG, PNG, GIF, or WebP</Text>
+                        <Text className="text-gray-300 text-xs">• Max 5MB</Text>
+                      </View>
+                    </TouchableOpacity>
+                  )}
                 </View>
-              ) : (
+
+                {/* Submit Button */}
                 <TouchableOpacity
-                  onPress={pickScreenshot}
-                  className="border-2 border-dashed border-[#374151] rounded-xl p-8 items-center justify-center bg-[#0F0F0F]"
+                  onPress={() => {
+                    console.log('🔵 TouchableOpacity onPress triggered');
+                    console.log('🔵 Button state check:', {
+                      hasScreenshot: !!screenshotUri,
+                      isUploading: uploadingPayment,
+                      disabled: !screenshotUri || uploadingPayment,
+                    });
+                    if (!screenshotUri) {
+                      Alert.alert('Screenshot Required', 'Please select a payment screenshot first.');
+                      return;
+                    }
+                    if (uploadingPayment) {
+                      console.log('⚠️ Already uploading, ignoring click');
+                      return;
+                    }
+                    handleSubmitPayment();
+                  }}
+                  disabled={uploadingPayment}
+                  activeOpacity={0.7}
+                  style={{
+                    opacity: !screenshotUri || uploadingPayment ? 0.5 : 1,
+                  }}
+                  className={`py-4 rounded-xl items-center ${!screenshotUri || uploadingPayment
+                    ? 'bg-[#374151]'
+                    : 'bg-primary'
+                    }`}
                 >
-                  <MaterialIcons name="add-photo-alternate" size={48} color="#E5E7EB" />
-                  <Text className="text-gray-200 text-sm mt-2 text-center">
-                    Tap to select payment screenshot
-                  </Text>
-                  <View className="mt-2 w-full items-start px-4">
-                    <Text className="text-gray-300 text-xs">• JPEG, PNG, GIF, or WebP</Text>
-                    <Text className="text-gray-300 text-xs">• Max 5MB</Text>
-                  </View>
+                  {uploadingPayment ? (
+                    <View className="flex-row items-center">
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                      <Text className="text-white text-base font-semibold ml-2">
+                        Submitting...
+                      </Text>
+                    </View>
+                  ) : (
+                    <Text className="text-white text-base font-semibold">
+                      Submit Payment
+                    </Text>
+                  )}
                 </TouchableOpacity>
-              )}
-            </View>
+              </>
+            )}
+          </View>
+        )}
+        </View>
+      )}
 
-            {/* Submit Button */}
-            <TouchableOpacity
-              onPress={() => {
-                console.log('🔵 TouchableOpacity onPress triggered');
-                console.log('🔵 Button state check:', {
-                  hasScreenshot: !!screenshotUri,
-                  isUploading: uploadingPayment,
-                  disabled: !screenshotUri || uploadingPayment,
-                });
-                if (!screenshotUri) {
-                  Alert.alert('Screenshot Required', 'Please select a payment screenshot first.');
-                  return;
-                }
-                if (uploadingPayment) {
-                  console.log('⚠️ Already uploading, ignoring click');
-                  return;
-                }
-                handleSubmitPayment();
-              }}
-              disabled={uploadingPayment}
-              activeOpacity={0.7}
-              style={{
-                opacity: !screenshotUri || uploadingPayment ? 0.5 : 1,
-              }}
-              className={`py-4 rounded-xl items-center ${!screenshotUri || uploadingPayment
-                ? 'bg-[#374151]'
-                : 'bg-primary'
-                }`}
+      {/* Refund / cancellation request status */}
+      {refundRequest && (
+        <View className="mx-3 mb-6 bg-white rounded-2xl p-5 border border-gray-200">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-gray-900 text-sm font-semibold">
+              {isFreeEvent ? 'Cancellation' : 'Refund Request'}
+            </Text>
+            <Text
+              className={`text-xs font-semibold ${
+                refundRequest.status === 'approved'
+                  ? 'text-[#10B981]'
+                  : refundRequest.status === 'rejected'
+                    ? 'text-[#EF4444]'
+                    : 'text-[#F59E0B]'
+              }`}
             >
-              {uploadingPayment ? (
-                <View className="flex-row items-center">
-                  <ActivityIndicator size="small" color="#FFFFFF" />
-                  <Text className="text-white text-base font-semibold ml-2">
-                    Submitting...
-                  </Text>
-                </View>
-              ) : (
-                <Text className="text-white text-base font-semibold">
-                  Submit Payment
-                </Text>
-              )}
-            </TouchableOpacity>
+              {refundRequest.status === 'approved' ? 'Approved' : refundRequest.status === 'rejected' ? 'Declined' : 'Pending review'}
+            </Text>
           </View>
-        )}
+          {refundRequest.refundAmount > 0 && (
+            <Text className="text-gray-900 text-xs mb-1">
+              {refundRequest.status === 'approved' ? 'Refunded' : 'Refund amount'}:{' '}
+              {formatPaymentAmount(refundRequest.refundAmount, refundRequest.currency)}
+            </Text>
+          )}
+          <Text className="text-gray-600 text-xs">Your reason: {refundRequest.reason}</Text>
+          {refundRequest.organizerNote ? (
+            <Text className="text-gray-600 text-xs mt-1">Organizer: {refundRequest.organizerNote}</Text>
+          ) : null}
+        </View>
+      )}
+
+      {/* Transfer History */}
+      {transferHistory.length > 0 && (
+        <View className="mx-3 mb-6 bg-white rounded-2xl p-5 border border-gray-200">
+          <Text className="text-gray-900 text-sm font-semibold mb-3">Transfer History</Text>
+          {transferHistory.map((transfer, index) => (
+            <View
+              key={`${transfer.transferredAt}-${index}`}
+              className={`flex-row items-center ${index < transferHistory.length - 1 ? 'mb-3' : ''}`}
+            >
+              <MaterialIcons name="swap-horiz" size={18} color="#6B7280" />
+              <View className="flex-1 ml-2">
+                <Text className="text-gray-900 text-xs">
+                  {transfer.from.username ? `@${transfer.from.username}` : transfer.from.fullName}
+                  {' → '}
+                  {transfer.to.username ? `@${transfer.to.username}` : transfer.to.fullName}
+                </Text>
+                <Text className="text-gray-500 text-[10px] mt-0.5">
+                  {new Date(transfer.transferredAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </Text>
+              </View>
+            </View>
+          ))}
         </View>
       )}
 
@@ -793,7 +1135,196 @@ export default function TicketScreen() {
           </TouchableOpacity>
         </View>
       )}
+      {(effectiveStatus === 'confirmed' || effectiveStatus === 'used') && (
+        <TouchableOpacity
+          className="mx-3 mt-3 py-4 rounded-xl items-center border border-gray-200 flex-row justify-center"
+          onPress={() => handleExportPdf({ isFree: isFreeEvent, currency: amountCurrency })}
+          disabled={exportingPdf}
+        >
+          {exportingPdf ? (
+            <ActivityIndicator size="small" color="#6B7280" />
+          ) : (
+            <>
+              <MaterialIcons name="picture-as-pdf" size={18} color="#111827" />
+              <Text className="text-gray-900 text-base font-semibold ml-2">
+                {isFreeEvent ? 'Export PDF' : 'Export PDF with Receipt'}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+      {ticket.status === 'confirmed' && (
+        <TouchableOpacity
+          className="mx-3 mt-3 py-4 rounded-xl items-center bg-gray-900 flex-row justify-center"
+          onPress={handleAddToWallet}
+          disabled={addingToWallet}
+        >
+          {addingToWallet ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <MaterialIcons name="account-balance-wallet" size={18} color="#FFFFFF" />
+              <Text className="text-white text-base font-semibold ml-2">
+                {getWalletPlatform() === 'apple' ? 'Add to Apple Wallet' : 'Save to Google Wallet'}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+      {(effectiveStatus === 'confirmed' || effectiveStatus === 'pending_payment' || effectiveStatus === 'payment_in_review') && (
+        <TouchableOpacity
+          className="mx-3 mt-3 py-4 rounded-xl items-center border border-gray-200 flex-row justify-center"
+          onPress={handleAddToCalendar}
+          disabled={exportingCalendar}
+        >
+          {exportingCalendar ? (
+            <ActivityIndicator size="small" color="#6B7280" />
+          ) : (
+            <>
+              <MaterialIcons name="event" size={18} color="#111827" />
+              <Text className="text-gray-900 text-base font-semibold ml-2">Add to Calendar</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+      {canTransfer && (
+        <TouchableOpacity
+          className="mx-3 mt-3 py-4 rounded-xl items-center border border-gray-200 flex-row justify-center"
+          onPress={() => setShowTransferModal(true)}
+        >
+          <MaterialIcons name="send" size={18} color="#111827" />
+          <Text className="text-gray-900 text-base font-semibold ml-2">Transfer Ticket</Text>
+        </TouchableOpacity>
+      )}
+      {canRequestRefund &&
+        (refundEstimate.eligible ? (
+          <TouchableOpacity
+            className="mx-3 mt-3 py-4 rounded-xl items-center flex-row justify-center"
+            onPress={() => setShowRefundModal(true)}
+          >
+            <MaterialIcons name="undo" size={18} color="#EF4444" />
+            <Text className="text-[#EF4444] text-base font-semibold ml-2">
+              {isFreeEvent ? 'Cancel Ticket' : 'Request Refund'}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <Text className="mx-3 mt-3 text-gray-500 text-xs text-center">{refundEstimate.reason}</Text>
+        ))}
     </ScrollView>
+
+      {/* Refund / Cancellation Modal */}
+      <RNModal
+        visible={showRefundModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => !requestingRefund && setShowRefundModal(false)}
+      >
+        <Pressable
+          className="flex-1 bg-black/70 justify-center items-center p-3"
+          onPress={() => !requestingRefund && setShowRefundModal(false)}
+        >
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1.5 text-center">
+              {isFreeEvent ? 'Cancel Ticket' : 'Request Refund'}
+            </Text>
+            <Text className="text-gray-600 text-xs leading-5 mb-3 text-center">
+              {isFreeEvent
+                ? 'Your ticket will be cancelled and the spot released to others.'
+                : `${formatRefundPolicy(refundPolicy)}. If approved you get back ${formatPaymentAmount(
+                    refundEstimate.amount,
+                    amountCurrency
+                  )} and your ticket is cancelled.`}
+            </Text>
+            <TextInput
+              className="bg-gray-50 text-gray-900 text-xs px-3 py-2 rounded-lg mb-3 border border-gray-200 min-h-[64px]"
+              placeholder="Reason"
+              placeholderTextColor="#9CA3AF"
+              value={refundReason}
+              onChangeText={setRefundReason}
+              multiline
+              textAlignVertical="top"
+              maxLength={300}
+              editable={!requestingRefund}
+            />
+            <View className="flex-row gap-2">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={() => setShowRefundModal(false)}
+                disabled={requestingRefund}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">Keep Ticket</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-primary"
+                onPress={handleRequestRefund}
+                disabled={requestingRefund}
+              >
+                {requestingRefund ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">{isFreeEvent ? 'Cancel Ticket' : 'Send Request'}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
+
+      {/* Transfer Ticket Modal */}
+      <RNModal
+        visible={showTransferModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => !transferring && setShowTransferModal(false)}
+      >
+        <Pressable
+          className="flex-1 bg-black/70 justify-center items-center p-3"
+          onPress={() => !transferring && setShowTransferModal(false)}
+        >
+          <Pressable className="bg-white rounded-xl border border-gray-200 p-4 w-full max-w-[400px]" onPress={(e) => e.stopPropagation()}>
+            <View className="items-center pt-1 pb-2">
+              <View className="w-8 h-0.5 rounded-full bg-gray-300" />
+            </View>
+            <Text className="text-gray-900 text-base font-bold mb-1.5 text-center">Transfer Ticket</Text>
+            <Text className="text-gray-600 text-xs leading-5 mb-3 text-center">
+              The recipient gets a new QR code. Your current QR code and access key will stop working immediately.
+            </Text>
+            <TextInput
+              className="bg-gray-50 text-gray-900 text-xs px-3 py-2 rounded-lg mb-3 border border-gray-200"
+              placeholder="Username or email"
+              placeholderTextColor="#9CA3AF"
+              value={transferRecipient}
+              onChangeText={setTransferRecipient}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!transferring}
+            />
+            <View className="flex-row gap-2">
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-gray-100 border border-gray-200"
+                onPress={() => setShowTransferModal(false)}
+                disabled={transferring}
+              >
+                <Text className="text-gray-900 text-xs font-semibold">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                className="flex-1 py-2 rounded-lg items-center bg-primary"
+                onPress={handleTransferTicket}
+                disabled={transferring}
+              >
+                {transferring ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text className="text-white text-xs font-semibold">Transfer</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </RNModal>
     </View>
   );
 }
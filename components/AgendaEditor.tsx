@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import { AgendaList } from '@/components/EventProgram';
+import {
+  MAX_AGENDA_ITEMS,
+  agendaToApi,
+  createAgendaItemFormData,
+  type AgendaItemFormData,
+} from '@/lib/utils/eventProgramUtils';
+
+interface AgendaEditorProps {
+  items: AgendaItemFormData[];
+  onChange: (items: AgendaItemFormData[]) => void;
+  /** Errors keyed by item key (from validateAgenda) */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Agenda builder (start / end time, title, details) with a live preview; slots are sorted by time on save.
+ * Used in create and edit event, step 1.
+ */
+export function AgendaEditor({ items, onChange, errors = {} }: AgendaEditorProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
+  const updateItem = (key: string, patch: Partial<AgendaItemFormData>) => {
+    onChange(items.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  };
+
+  const previewItems = agendaToApi(items.filter((item) => item.title.trim() && item.time.trim()));
+
+  return (
+    <View className="mb-4">
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-gray-900 text-sm font-semibold">Agenda</Text>
+        {previewItems.length > 0 && (
+          <TouchableOpacity className="flex-row items-center" onPress={() => setShowPreview((v) => !v)}>
+            <MaterialIcons name={showPreview ? 'visibility-off' : 'visibility'} size={14} color="#DC2626" />
+            <Text className="text-primary text-xs font-semibold ml-1">{showPreview ? 'Hide preview' : 'Preview'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text className="text-gray-500 text-xs mb-2">Optional. Time slots shown on the event page.</Text>
+
+      {showPreview && previewItems.length > 0 && (
+        <View className="border border-gray-200 rounded-xl p-3 mb-3 bg-white">
+          <AgendaList agenda={previewItems} />
+        </View>
+      )}
+
+      {items.map((item, index) => (
+        <View key={item.key} className="border border-gray-200 rounded-xl p-3 mb-3 bg-white">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-gray-700 text-xs font-semibold">Slot {index + 1}</Text>
+            <TouchableOpacity
+              onPress={() => onChange(items.filter((i) => i.key !== item.key))}
+              className="flex-row items-center"
+            >
+              <MaterialIcons name="delete-outline" size={16} color="#EF4444" />
+              <Text className="text-[#EF4444] text-xs ml-1">Remove</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View className="flex-row gap-2 mb-3">
+            <View className="flex-1">
+              <DataInput
+                label="Starts"
+                placeholder="09:30"
+                value={item.time}
+                onChangeText={(v) => updateItem(item.key, { time: v })}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+            <View className="flex-1">
+              <DataInput
+                label="Ends (optional)"
+                placeholder="10:15"
+                value={item.endTime}
+                onChangeText={(v) => updateItem(item.key, { endTime: v })}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+          </View>
+          <DataInput
+            label="Title"
+            placeholder="e.g. Opening keynote"
+            value={item.title}
+            onChangeText={(v) => updateItem(item.key, { title: v })}
+            maxLength={120}
+            className="mb-3"
+          />
+          <DataInput
+            label="Details (optional)"
+            placeholder="Room, host, what to expect..."
+            value={item.description}
+            onChangeText={(v) => updateItem(item.key, { description: v })}
+            maxLength={300}
+            multiline
+            textAlignVertical="top"
+          />
+
+          {errors[item.key] ? <Text className="text-[#EF4444] text-xs mt-2 px-1">{errors[item.key]}</Text> : null}
+        </View>
+      ))}
+
+      {items.length < MAX_AGENDA_ITEMS && (
+        <TouchableOpacity
+          className="flex-row items-center justify-center py-2.5 rounded-xl border border-dashed border-primary"
+          onPress={() => onChange([...items, createAgendaItemFormData()])}
+        >
+          <MaterialIcons name="add" size={18} color="#DC2626" />
+          <Text className="text-primary text-sm font-semibold ml-1">Add time slot</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
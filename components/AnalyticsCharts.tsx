@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { View, Text, type LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, G, Line, Rect } from 'react-native-svg';
+
+// Round numbers to avoid "Invalid number formatting character" on Android Expo Go (see BackgroundPattern)
+const r = (n: number) => Math.round(n * 100) / 100;
+
+const DEFAULT_COLOR = '#DC2626';
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+function useWidth(): [number, (e: LayoutChangeEvent) => void] {
+  const [width, setWidth] = useState(0);
+  return [width, (e) => setWidth(Math.round(e.nativeEvent.layout.width))];
+}
+
+interface ColumnChartProps {
+  data: ChartDatum[];
+  height?: number;
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+/** Vertical bars over time (sales per day, check-ins per hour). Shows first, middle and last labels only. */
+export function ColumnChart({ data, height = 140, color = DEFAULT_COLOR, formatValue = String }: ColumnChartProps) {
+  const [width, onLayout] = useWidth();
+  const max = Math.max(1, ...data.map((d) => d.value));
+  const gap = data.length > 30 ? 1 : 3;
+  const barWidth = data.length > 0 ? Math.max(1, (width - gap * (data.length - 1)) / data.length) : 0;
+  const labelIndexes = new Set([0, Math.floor((data.length - 1) / 2), data.length - 1]);
+
+  return (
+    <View onLayout={onLayout}>
+      <Text className="text-gray-500 text-[10px] mb-1">Peak {formatValue(max)}</Text>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {data.map((d, i) => {
+            const h = r((d.value / max) * (height - 2));
+            return (
+              <Rect
+                key={`${d.label}-${i}`}
+                x={r(i * (barWidth + gap))}
+                y={r(height - h)}
+                width={r(barWidth)}
+                height={h}
+                rx={barWidth > 6 ? 2 : 0}
+                fill={color}
+              />
+            );
+          })}
+          <Line x1={0} y1={height} x2={width} y2={height} stroke="#E5E7EB" strokeWidth={1} />
+        </Svg>
+      )}
+      <View className="flex-row justify-between mt-1">
+        {data
+          .filter((_, i) => labelIndexes.has(i))
+          .map((d, i) => (
+            <Text key={`${d.label}-${i}`} className="text-gray-500 text-[10px]">
+              {d.label}
+            </Text>
+          ))}
+      </View>
+    </View>
+  );
+}
+
+interface BarListProps {
+  data: (ChartDatum & { detail?: string })[];
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+/** Horizontal bars, largest first (revenue by tier / method, funnel steps) */
+export function BarList({ data, color = DEFAULT_COLOR, formatValue = String }: BarListProps) {
+  const [width, onLayout] = useWidth();
+  const max = Math.max(1, ...data.map((d) => d.value));
+
+  return (
+    <View onLayout={onLayout}>
+      {data.map((d, i) => (
+        <View key={`${d.label}-${i}`} className="mb-2">
+          <View className="flex-row justify-between mb-0.5">
+            <Text className="text-gray-900 text-xs flex-1 mr-2" numberOfLines={1}>
+              {d.label}
+              {d.detail ? <Text className="text-gray-500"> · {d.detail}</Text> : null}
+            </Text>
+            <Text className="text-gray-900 text-xs font-semibold">{formatValue(d.value)}</Text>
+          </View>
+          {width > 0 && (
+            <Svg width={width} height={8}>
+              <Rect x={0} y={0} width={width} height={8} rx={4} fill="#F3F4F6" />
+              <Rect x={0} y={0} width={r(Math.max(d.value > 0 ? 8 : 0, (d.value / max) * width))} height={8} rx={4} fill={color} />
+            </Svg>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface DonutChartProps {
+  data: (ChartDatum & { color: string })[];
+  size?: number;
+  /** Shown in the middle of the ring */
+  centerLabel?: string;
+}
+
+/** Share of a whole (gender split). Legend on the right with counts and percentages. */
+export function DonutChart({ data, size = 120, centerLabel }: DonutChartProps) {
+  const total = data.reduce((sum, d) => sum + d.value, 0);
+  const stroke = 16;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  let offset = 0;
+
+  return (
+    <View className="flex-row items-center">
+      <View style={{ width: size, height: size }}>
+        <Svg width={size} height={size}>
+          <G rotation={-90} origin={`${size / 2}, ${size / 2}`}>
+            <Circle cx={size / 2} cy={size / 2} r={radius} stroke="#F3F4F6" strokeWidth={stroke} fill="none" />
+            {total > 0 &&
+              data.map((d) => {
+                const length = (d.value / total) * circumference;
+                const segment = (
+                  <Circle
+                    key={d.label}
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    stroke={d.color}
+                    strokeWidth={stroke}
+                    fill="none"
+                    strokeDasharray={`${r(length)} ${r(circumference - length)}`}
+                    strokeDashoffset={r(-offset)}
+                  />
+                );
+                offset += length;
+                return segment;
+              })}
+          </G>
+        </Svg>
+        {centerLabel ? (
+          <View className="absolute inset-0 items-center justify-center">
+            <Text className="text-gray-900 text-sm font-bold">{centerLabel}</Text>
+          </View>
+        ) : null}
+      </View>
+      <View className="flex-1 ml-4">
+        {data.map((d) => (
+          <View key={d.label} className="flex-row items-center mb-1.5">
+            <View className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: d.color }} />
+            <Text className="text-gray-900 text-xs flex-1">{d.label}</Text>
+            <Text className="text-gray-900 text-xs font-semibold">
+              {d.value}
+              <Text className="text-gray-500 font-normal"> ({total > 0 ? Math.round((d.value / total) * 100) : 0}%)</Text>
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import { MarkdownText } from '@/components/MarkdownText';
+
+interface DescriptionEditorProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  className?: string;
+}
+
+/**
+ * Event description input with Markdown hints and a live preview (rendered like event details).
+ * Used in create and edit event, step 1.
+ */
+export function DescriptionEditor({ label, value, onChange, error, className = '' }: DescriptionEditorProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
+  return (
+    <View className={className}>
+      <DataInput
+        label={label}
+        placeholder="What should attendees know?"
+        value={value}
+        onChangeText={onChange}
+        multiline
+        textAlignVertical="top"
+        error={error}
+      />
+      <View className="flex-row items-center justify-between mt-1 px-1">
+        <Text className="text-gray-500 text-[10px] flex-1 mr-2">
+          **bold** · _italic_ · # heading · - list · [link](https://…)
+        </Text>
+        <TouchableOpacity className="flex-row items-center" onPress={() => setShowPreview((v) => !v)}>
+          <MaterialIcons name={showPreview ? 'visibility-off' : 'visibility'} size={14} color="#DC2626" />
+          <Text className="text-primary text-xs font-semibold ml-1">{showPreview ? 'Hide preview' : 'Preview'}</Text>
+        </TouchableOpacity>
+      </View>
+      {showPreview && (
+        <View className="mt-2 border border-gray-200 rounded-xl p-3 bg-white">
+          {value.trim() ? (
+            <MarkdownText source={value} />
+          ) : (
+            <Text className="text-gray-400 text-xs">Nothing to preview yet</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
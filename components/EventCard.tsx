@@ -1,9 +1,10 @@
-import { Label } from '@/components/ui/Label';
+import { Label, type LabelVariant } from '@/components/ui/Label';
 import { Event } from '@/data/mockData';
 import { getEventImageUrl, getProfileImageUrl, EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import { advanceSalesStatus, formatSalesDate, getNextSalesChange } from '@/lib/utils/salesWindowUtils';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dimensions, Image, Modal, Pressable, ScrollView, Text, TouchableOpacity, View } from 'react-native';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -14,6 +15,27 @@ export interface EventCardProps {
   onPress?: () => void;
   /** Masonry: card height in px (e.g. 175, 200, 225, 250, 300, 325, 350, 375) */
   height?: number;
+  /** Extra pill under the price (e.g. the viewer's team role); defaults to the sales status */
+  badge?: { label: string; variant?: LabelVariant } | null;
+}
+
+type CardBadge = NonNullable<EventCardProps['badge']>;
+
+// Longest delay setTimeout accepts (~24.8 days); later changes are picked up on the next list load
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function getSalesBadge(event: Event, now: Date): CardBadge | null {
+  const status = event.salesStatus && advanceSalesStatus(event.salesStatus, event, now);
+  switch (status) {
+    case 'sold_out':
+      return { label: 'Sold out', variant: 'error' };
+    case 'closed':
+      return { label: 'Registration closed', variant: 'neutral' };
+    case 'upcoming':
+      return { label: event.salesOpenAt ? `Opens ${formatSalesDate(event.salesOpenAt)}` : 'Opens soon', variant: 'info' };
+    default:
+      return null;
+  }
 }
 
 type JoinedUser = {
@@ -27,11 +49,23 @@ type JoinedUser = {
 
 const DEFAULT_CARD_HEIGHT = 220;
 
-export const EventCard: React.FC<EventCardProps> = ({ event, onPress, height: heightProp }) => {
+export const EventCard: React.FC<EventCardProps> = ({ event, onPress, height: heightProp, badge }) => {
   const cardHeight = heightProp ?? DEFAULT_CARD_HEIGHT;
   const isCompact = cardHeight <= 200;
   const router = useRouter();
   const [joinedUsersDropUpVisible, setJoinedUsersDropUpVisible] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // Re-render when sales open or close so the badge doesn't go stale on cached list data
+  const { salesOpenAt, salesCloseAt } = event;
+  useEffect(() => {
+    const next = getNextSalesChange({ salesOpenAt, salesCloseAt }, now);
+    if (!next) return;
+    const delay = next.getTime() - now.getTime() + 1000;
+    if (delay > MAX_TIMER_MS) return;
+    const timer = setTimeout(() => setNow(new Date()), delay);
+    return () => clearTimeout(timer);
+  }, [salesOpenAt, salesCloseAt, now]);
 
   const handlePress = () => {
     if (onPress) {
@@ -63,6 +97,7 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress, height: he
   const joinedCount = event.joinedCount ?? joinedUsers.length ?? 0;
   const visibleJoined = joinedUsers.slice(0, 3);
   const remainingCount = Math.max(joinedCount - visibleJoined.length, 0);
+  const pillBadge = badge ?? getSalesBadge(event, now);
 
   return (
     <TouchableOpacity
@@ -90,6 +125,11 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress, height: he
         <Label variant={isFree ? 'neutral' : 'primary'} small>
           {priceLabel}
         </Label>
+        {pillBadge && (
+          <Label variant={pillBadge.variant ?? 'neutral'} small className="mt-1">
+            {pillBadge.label}
+          </Label>
+        )}
       </View>
 
       {/* Joined users avatars at top-right */}
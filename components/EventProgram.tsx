@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Text, Image, TouchableOpacity } from 'react-native';
+import * as Linking from 'expo-linking';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import type { AgendaItem, EventSpeaker } from '@/lib/api/events';
+import { formatAgendaTime } from '@/lib/utils/eventProgramUtils';
+import { isSafeUrl } from '@/lib/utils/markdownUtils';
+import { resolveImageUrl } from '@/lib/utils/imageUtils';
+
+/** Timeline of agenda slots; used in event details and as the editor preview */
+export function AgendaList({ agenda }: { agenda: AgendaItem[] }) {
+  return (
+    <View>
+      {agenda.map((item, index) => (
+        <View key={item.id} className="flex-row">
+          <View className="w-24">
+            <Text className="text-gray-900 text-xs font-semibold">{formatAgendaTime(item)}</Text>
+          </View>
+          <View className="items-center mr-3">
+            <View className="w-2 h-2 rounded-full bg-primary mt-1" />
+            {index < agenda.length - 1 && <View className="w-px flex-1 bg-gray-200" />}
+          </View>
+          <View className="flex-1 pb-3">
+            <Text className="text-gray-900 text-sm font-medium">{item.title}</Text>
+            {item.description ? <Text className="text-gray-600 text-xs mt-0.5 leading-5">{item.description}</Text> : null}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join('');
+}
+
+/** Speakers / performers with photo, bio and profile link; used in event details and as the editor preview */
+export function SpeakerList({ speakers }: { speakers: EventSpeaker[] }) {
+  return (
+    <View>
+      {speakers.map((speaker) => {
+        const photoUrl = resolveImageUrl(speaker.photo);
+        return (
+          <View key={speaker.id} className="flex-row items-start mb-3">
+            {photoUrl ? (
+              <Image source={{ uri: photoUrl }} className="w-12 h-12 rounded-full bg-gray-200" resizeMode="cover" />
+            ) : (
+              <View className="w-12 h-12 rounded-full bg-gray-100 items-center justify-center">
+                <Text className="text-gray-600 text-sm font-semibold">{initials(speaker.name)}</Text>
+              </View>
+            )}
+            <View className="flex-1 ml-3">
+              <Text className="text-gray-900 text-sm font-semibold">{speaker.name}</Text>
+              {speaker.bio ? <Text className="text-gray-600 text-xs mt-0.5 leading-5">{speaker.bio}</Text> : null}
+              {speaker.link && isSafeUrl(speaker.link) ? (
+                <TouchableOpacity
+                  className="flex-row items-center mt-1"
+                  onPress={() => Linking.openURL(speaker.link!).catch(() => {})}
+                >
+                  <MaterialIcons name="link" size={14} color="#DC2626" />
+                  <Text className="text-primary text-xs font-medium ml-1" numberOfLines={1}>
+                    {speaker.link.replace(/^https?:\/\//i, '').replace(/\/$/, '')}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
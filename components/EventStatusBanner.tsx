@@ -0,0 +1,40 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import type { EventStatusBanner as EventStatusBannerData } from '@/lib/utils/eventStatusUtils';
+
+interface EventStatusBannerProps {
+  banner: EventStatusBannerData;
+  className?: string;
+}
+
+/**
+ * Cancelled / postponed notice from getEventStatusBanner.
+ * Shown above the details in event details and above the ticket card in ticket view.
+ */
+export function EventStatusBanner({ banner, className = '' }: EventStatusBannerProps) {
+  const cancelled = banner.status === 'cancelled';
+  const color = cancelled ? '#EF4444' : '#F59E0B';
+
+  return (
+    <View
+      className={`flex-row items-start rounded-xl p-3 border ${
+        cancelled ? 'bg-red-50 border-red-200' : 'bg-[#F59E0B]/10 border-[#F59E0B]/50'
+      } ${className}`}
+    >
+      <MaterialIcons
+        name={cancelled ? 'event-busy' : 'update'}
+        size={20}
+        color={color}
+        style={{ marginRight: 8, marginTop: 1 }}
+      />
+      <View className="flex-1">
+        <Text className="text-gray-900 text-sm font-bold">{banner.title}</Text>
+        <Text className="text-gray-700 text-xs leading-5 mt-0.5">{banner.message}</Text>
+        {banner.reason ? (
+          <Text className="text-gray-600 text-xs leading-5 mt-1 italic">&ldquo;{banner.reason}&rdquo;</Text>
+        ) : null}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { View, Text } from 'react-native';
+import * as Linking from 'expo-linking';
+import { parseMarkdown, type MarkdownInline } from '@/lib/utils/markdownUtils';
+
+interface MarkdownTextProps {
+  source: string;
+  /** sm: event details, xs: compact organizer view */
+  size?: 'sm' | 'xs';
+}
+
+const BODY: Record<'sm' | 'xs', string> = {
+  sm: 'text-gray-700 text-sm leading-6',
+  xs: 'text-gray-700 text-xs leading-5',
+};
+
+const HEADING: Record<'sm' | 'xs', Record<1 | 2 | 3, string>> = {
+  sm: { 1: 'text-lg', 2: 'text-base', 3: 'text-sm' },
+  xs: { 1: 'text-sm', 2: 'text-sm', 3: 'text-xs' },
+};
+
+function InlineText({ tokens }: { tokens: MarkdownInline[] }) {
+  return (
+    <>
+      {tokens.map((token, i) => {
+        switch (token.type) {
+          case 'bold':
+            return <Text key={i} className="font-bold text-gray-900">{token.text}</Text>;
+          case 'italic':
+            return <Text key={i} className="italic">{token.text}</Text>;
+          case 'code':
+            return <Text key={i} className="font-mono bg-gray-100 text-gray-900">{token.text}</Text>;
+          case 'link':
+            return (
+              <Text key={i} className="text-primary underline" onPress={() => Linking.openURL(token.url).catch(() => {})}>
+                {token.text}
+              </Text>
+            );
+          default:
+            return <Text key={i}>{token.text}</Text>;
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * Event description with the Markdown subset from markdownUtils.
+ * Used in event details, created event details and the create / edit description preview.
+ */
+export function MarkdownText({ source, size = 'sm' }: MarkdownTextProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const body = BODY[size];
+
+  return (
+    <View>
+      {blocks.map((block, index) => {
+        const spacing = index < blocks.length - 1 ? 'mb-2' : '';
+        if (block.type === 'heading') {
+          return (
+            <Text key={index} className={`text-gray-900 font-bold ${HEADING[size][block.level]} ${spacing}`}>
+              <InlineText tokens={block.inline} />
+            </Text>
+          );
+        }
+        if (block.type === 'list') {
+          return (
+            <View key={index} className={spacing}>
+              {block.items.map((item, itemIndex) => (
+                <View key={itemIndex} className="flex-row">
+                  <Text className={`${body} w-5`}>{block.ordered ? `${itemIndex + 1}.` : '•'}</Text>
+                  <Text className={`${body} flex-1`}>
+                    <InlineText tokens={item} />
+                  </Text>
+                </View>
+              ))}
+            </View>
+          );
+        }
+        return (
+          <Text key={index} className={`${body} ${spacing}`}>
+            <InlineText tokens={block.inline} />
+          </Text>
+        );
+      })}
+    </View>
+  );
+}
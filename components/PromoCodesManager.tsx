@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Platform, ActivityIndicator } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import { DataSelection } from '@/components/ui/DataSelection';
+import { ButtonPrimary } from '@/components/ui/ButtonPrimary';
+import { Label } from '@/components/ui/Label';
+import type { TicketTier } from '@/lib/api/events';
+import { promoCodesAPI, type PromoCode, type PromoDiscountType } from '@/lib/api/promoCodes';
+import { formatApiError } from '@/lib/utils/errorUtils';
+import {
+  formatPromoDiscount,
+  formatPromoRedemptions,
+  getPromoCodeState,
+  normalizePromoCode,
+} from '@/lib/utils/promoCodeUtils';
+import { getTierId } from '@/lib/utils/ticketTierUtils';
+
+interface PromoCodesManagerProps {
+  eventId: string;
+  /** Saved tiers (with ids) the code can be restricted to */
+  tiers: TicketTier[];
+  currency: string;
+}
+
+interface PromoFormData {
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: string;
+  maxRedemptions: string;
+  expiresAt: string | null;
+  tierIds: string[];
+}
+
+const EMPTY_FORM: PromoFormData = {
+  code: '',
+  discountType: 'percentage',
+  discountValue: '',
+  maxRedemptions: '',
+  expiresAt: null,
+  tierIds: [],
+};
+
+const STATE_LABELS = {
+  active: { label: 'Active', variant: 'success' },
+  inactive: { label: 'Paused', variant: 'neutral' },
+  expired: { label: 'Expired', variant: 'error' },
+  used_up: { label: 'Used up', variant: 'warning' },
+} as const;
+
+function validatePromoForm(form: PromoFormData): string | null {
+  const code = normalizePromoCode(form.code);
+  const value = Number(form.discountValue);
+  if (code.length < 3) return 'Code must be at least 3 characters';
+  if (!/^[A-Z0-9_-]+$/.test(code)) return 'Use letters, numbers, - or _ only';
+  if (form.discountValue.trim() === '' || Number.isNaN(value) || value <= 0) return 'Enter a valid discount';
+  if (form.discountType === 'percentage' && value > 100) return 'Percentage cannot exceed 100';
+  if (form.maxRedemptions.trim() !== '') {
+    const max = parseInt(form.maxRedemptions, 10);
+    if (Number.isNaN(max) || max < 1) return 'Usage limit must be at least 1';
+  }
+  return null;
+}
+
+/**
+ * Organizer list + form for event promo codes (edit event, step 2).
+ * Codes are saved immediately through promoCodesAPI, independent of "Update Event".
+ */
+export function PromoCodesManager({ eventId, tiers, currency }: PromoCodesManagerProps) {
+  const [codes, setCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PromoFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyCodeId, setBusyCodeId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [showExpiryPicker, setShowExpiryPicker] = useState(false);
+
+  const savedTiers = tiers.filter((t) => t._id || t.id);
+
+  useEffect(() => {
+    const fetchCodes = async () => {
+      try {
+        const response = await promoCodesAPI.getEventPromoCodes(eventId);
+        if (response.success) setCodes(response.promoCodes);
+      } catch (err) {
+        console.error('Error fetching promo codes:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCodes();
+  }, [eventId]);
+
+  const toggleTier = (tierId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      tierIds: prev.tierIds.includes(tierId)
+        ? prev.tierIds.filter((t) => t !== tierId)
+        : [...prev.tierIds, tierId],
+    }));
+  };
+
+  const handleCreate = async () => {
+    const validationError = validatePromoForm(form);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+    try {
+      setSaving(true);
+      setFormError(null);
+      const response = await promoCodesAPI.createPromoCode(eventId, {
+        code: normalizePromoCode(form.code),
+        discountType: form.discountType,
+        discountValue: Number(form.discountValue),
+        maxRedemptions: form.maxRedemptions.trim() ? parseInt(form.maxRedemptions, 10) : null,
+        expiresAt: form.expiresAt,
+        tierIds: form.tierIds,
+      });
+      if (response.success && response.promoCode) {
+        setCodes((prev) => [response.promoCode, ...prev]);
+        setForm(EMPTY_FORM);
+        setShowForm(false);
+      }
+    } catch (err) {
+      setFormError(formatApiError(err, 'Failed to create promo code'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (code: PromoCode) => {
+    try {
+      setBusyCodeId(code._id);
+      setActionError(null);
+      const response = await promoCodesAPI.updatePromoCode(eventId, code._id, { active: !code.active });
+      if (response.success && response.promoCode) {
+        setCodes((prev) => prev.map((c) => (c._id === code._id ? response.promoCode : c)));
+      }
+    } catch (err) {
+      console.error('Error updating promo code:', err);
+      setActionError(formatApiError(err, 'Failed to update promo code'));
+    } finally {
+      setBusyCodeId(null);
+    }
+  };
+
+  const handleDelete = async (code: PromoCode) => {
+    try {
+      setBusyCodeId(code._id);
+      setActionError(null);
+      await promoCodesAPI.deletePromoCode(eventId, code._id);
+      setCodes((prev) => prev.filter((c) => c._id !== code._id));
+    } catch (err) {
+      console.error('Error deleting promo code:', err);
+      setActionError(formatApiError(err, 'Failed to delete promo code'));
+    } finally {
+      setBusyCodeId(null);
+    }
+  };
+
+  const tierNameById = (tierId: string) =>
+    savedTiers.find((t) => getTierId(t) === tierId)?.name ?? 'Removed tier';
+
+  return (
+    <View className="mb-4">
+      <Text className="text-gray-900 text-sm font-semibold mb-2">Promo Codes</Text>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#DC2626" style={{ marginVertical: 12 }} />
+      ) : codes.length === 0 && !showForm ? (
+        <Text className="text-gray-500 text-xs mb-3">No promo codes yet.</Text>
+      ) : (
+        codes.map((code) => {
+          const state = STATE_LABELS[getPromoCodeState(code)];
+          const busy = busyCodeId === code._id;
+          return (
+            <View key={code._id} className="border border-gray-200 rounded-xl p-3 mb-2 bg-white">
+              <View className="flex-row items-center justify-between mb-1">
+                <Text className="text-gray-900 text-sm font-bold font-mono">{code.code}</Text>
+                <Label variant={state.variant}>{state.label}</Label>
+              </View>
+              <Text className="text-gray-700 text-xs">
+                {formatPromoDiscount(code.discountType, code.discountValue, currency)} · {formatPromoRedemptions(code)}
+              </Text>
+              {code.expiresAt ? (
+                <Text className="text-gray-500 text-[10px] mt-0.5">
+                  Expires {new Date(code.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </Text>
+              ) : null}
+              {code.tierIds.length > 0 ? (
+                <Text className="text-gray-500 text-[10px] mt-0.5">
+                  Tiers: {code.tierIds.map(tierNameById).join(', ')}
+                </Text>
+              ) : null}
+              <View className="flex-row gap-4 mt-2">
+                <TouchableOpacity onPress={() => handleToggleActive(code)} disabled={busy}>
+                  <Text className="text-gray-900 text-xs font-semibold">{code.active ? 'Pause' : 'Resume'}</Text>
+                </TouchableOpacity>
+                {code.redemptionCount === 0 && (
+                  <TouchableOpacity onPress={() => handleDelete(code)} disabled={busy}>
+                    <Text className="text-[#EF4444] text-xs font-semibold">Delete</Text>
+                  </TouchableOpacity>
+                )}
+                {busy && <ActivityIndicator size="small" color="#6B7280" />}
+              </View>
+            </View>
+          );
+        })
+      )}
+      {actionError ? <Text className="text-[#EF4444] text-xs mb-2 px-1">{actionError}</Text> : null}
+
+      {showForm ? (
+        <View className="border border-gray-200 rounded-xl p-3 mt-1 bg-white">
+          <DataInput
+            label="Code"
+            placeholder="e.g. EARLYBIRD"
+            value={form.code}
+            onChangeText={(v) => setForm((prev) => ({ ...prev, code: v.toUpperCase() }))}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            className="mb-3"
+          />
+          <View className="flex-row gap-2">
+            <View className="flex-1">
+              <DataSelection<PromoDiscountType>
+                label="Discount"
+                value={form.discountType}
+                onSelect={(v) => setForm((prev) => ({ ...prev, discountType: v }))}
+                options={[
+                  { value: 'percentage', label: 'Percentage' },
+                  { value: 'fixed', label: `Fixed (${currency})` },
+                ]}
+                className="mb-3"
+              />
+            </View>
+            <View className="flex-1">
+              <DataInput
+                label={form.discountType === 'percentage' ? 'Percent' : 'Amount'}
+                placeholder={form.discountType === 'percentage' ? 'e.g. 20' : 'e.g. 500'}
+                value={form.discountValue}
+                onChangeText={(v) => setForm((prev) => ({ ...prev, discountValue: v }))}
+                keyboardType="numeric"
+                className="mb-3"
+              />
+            </View>
+          </View>
+          <View className="flex-row gap-2 mb-3">
+            <View className="flex-1">
+              <DataInput
+                label="Usage limit"
+                placeholder="Unlimited"
+                value={form.maxRedemptions}
+                onChangeText={(v) => setForm((prev) => ({ ...prev, maxRedemptions: v }))}
+                keyboardType="numeric"
+              />
+            </View>
+            <View className="flex-1">
+              <Text className="text-gray-900 text-sm font-semibold mb-2">Expires</Text>
+              <TouchableOpacity
+                className="bg-gray-50 rounded-xl py-2 px-3 flex-row items-center gap-2 border border-gray-200"
+                onPress={() => setShowExpiryPicker(true)}
+              >
+                <MaterialIcons name="event" size={16} color="#9CA3AF" />
+                <Text className={`text-sm flex-1 ${form.expiresAt ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+                  {form.expiresAt
+                    ? new Date(form.expiresAt).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+                    : 'Never'}
+                </Text>
+                {form.expiresAt ? (
+                  <TouchableOpacity onPress={() => setForm((prev) => ({ ...prev, expiresAt: null }))}>
+                    <MaterialIcons name="close" size={16} color="#9CA3AF" />
+                  </TouchableOpacity>
+                ) : null}
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {showExpiryPicker && (
+            <View className="mb-3">
+              {Platform.OS === 'ios' && (
+                <View className="flex-row justify-end gap-2 mb-2">
+                  <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setShowExpiryPicker(false)}>
+                    <Text className="text-white text-sm font-semibold">Done</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              <DateTimePicker
+                value={form.expiresAt ? new Date(form.expiresAt) : new Date()}
+                mode="date"
+                minimumDate={new Date()}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  if (Platform.OS === 'android') {
+                    setShowExpiryPicker(false);
+                    if (event.type !== 'set') return;
+                  }
+                  if (!selectedDate) return;
+                  const d = new Date(selectedDate);
+                  // Valid through the end of the selected day
+                  d.setHours(23, 59, 59, 999);
+                  setForm((prev) => ({ ...prev, expiresAt: d.toISOString() }));
+                }}
+              />
+            </View>
+          )}
+
+          {savedTiers.length > 1 && (
+            <View className="mb-3">
+              <Text className="text-gray-900 text-sm font-semibold mb-2">Applies to</Text>
+              <View className="flex-row flex-wrap gap-2">
+                {savedTiers.map((tier) => {
+                  const tierId = getTierId(tier);
+                  const selected = form.tierIds.includes(tierId);
+                  return (
+                    <TouchableOpacity
+                      key={tierId}
+                      onPress={() => toggleTier(tierId)}
+                      className={`px-3 py-1.5 rounded-lg border ${selected ? 'bg-primary border-primary' : 'bg-gray-100 border-gray-200'}`}
+                    >
+                      <Text className={`text-xs font-semibold ${selected ? 'text-white' : 'text-gray-600'}`}>{tier.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text className="text-gray-500 text-[10px] mt-1">
+                {form.tierIds.length === 0 ? 'All tiers' : 'Only the selected tiers'}
+              </Text>
+            </View>
+          )}
+
+          {formError ? <Text className="text-[#EF4444] text-xs mb-2 px-1">{formError}</Text> : null}
+
+          <View className="flex-row gap-2">
+            <TouchableOpacity
+              className="flex-1 py-2.5 rounded-xl items-center bg-gray-100 border border-gray-200"
+              onPress={() => {
+                setShowForm(false);
+                setForm(EMPTY_FORM);
+                setFormError(null);
+              }}
+            >
+              <Text className="text-gray-900 text-sm font-semibold">Cancel</Text>
+            </TouchableOpacity>
+            <View className="flex-1">
+              <ButtonPrimary onPress={handleCreate} loading={saving} disabled={saving}>
+                Save code
+              </ButtonPrimary>
+            </View>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          className="flex-row items-center justify-center py-2.5 rounded-xl border border-dashed border-primary"
+          onPress={() => setShowForm(true)}
+        >
+          <MaterialIcons name="add" size={18} color="#DC2626" />
+          <Text className="text-primary text-sm font-semibold ml-1">Add promo code</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
@@ -12,17 +12,25 @@ import {
 } from 'react-native';
 import { CameraView, Camera } from 'expo-camera';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { isSignedQr, verifySignedQr, type SignedTicketPayload } from '@/lib/utils/signedQr';
 
 interface QRScannerProps {
   visible: boolean;
   onClose: () => void;
-  onScan: (data: string) => void;
+  /** data is the accessKey; payload is set when a signed QR was verified */
+  onScan: (data: string, payload?: SignedTicketPayload) => void;
+  /**
+   * Verify signed ticket QR codes offline before calling onScan.
+   * Without a publicKey (event created before signing) plain accessKey codes are still accepted.
+   */
+  verification?: { eventId: string; publicKey?: string | null };
 }
 
-export const QRScanner: React.FC<QRScannerProps> = ({ visible, onClose, onScan }) => {
+export const QRScanner: React.FC<QRScannerProps> = ({ visible, onClose, onScan, verification }) => {
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [rejection, setRejection] = useState<{ reason: string; payload?: SignedTicketPayload } | null>(null);
 
   useEffect(() => {
     if (visible) {
@@ -68,7 +76,21 @@ export const QRScanner: React.FC<QRScannerProps> = ({ visible, onClose, onScan }
     if (!scanned) {
       setScanned(true);
       console.log('QR Code scanned:', data);
-      onScan(data);
+
+      if (verification && (verification.publicKey || isSignedQr(data))) {
+        const result = verifySignedQr(data, {
+          publicKey: verification.publicKey ?? '',
+          eventId: verification.eventId,
+        });
+        if (!result.valid) {
+          // Stay open on the rejection screen; nothing is sent to the server
+          setRejection({ reason: result.reason, payload: result.payload });
+          return;
+        }
+        onScan(result.payload.k, result.payload);
+      } else {
+        onScan(data);
+      }
       
       // Auto-close after successful scan
       setTimeout(() => {
@@ -80,9 +102,15 @@ export const QRScanner: React.FC<QRScannerProps> = ({ visible, onClose, onScan }
 
   const handleClose = () => {
     setScanned(false);
+    setRejection(null);
     onClose();
   };
 
+  const handleScanAgain = () => {
+    setRejection(null);
+    setScanned(false);
+  };
+
   if (!visible) return null;
 
   return (
@@ -110,7 +138,29 @@ export const QRScanner: React.FC<QRScannerProps> = ({ visible, onClose, onScan }
         </View>
 
         {/* Camera View */}
-        {loading ? (
+        {rejection ? (
+          <View className="flex-1 items-center justify-center px-8 bg-[#7F1D1D]">
+            <View className="w-20 h-20 rounded-full bg-[#EF4444] items-center justify-center">
+              <MaterialIcons name="gpp-bad" size={44} color="#FFFFFF" />
+            </View>
+            <Text className="text-white text-2xl font-bold mt-5 text-center">Ticket Rejected</Text>
+            <Text className="text-[#FECACA] text-base mt-3 text-center leading-6">{rejection.reason}</Text>
+            {rejection.payload ? (
+              <View className="mt-4 bg-black/30 rounded-xl px-4 py-3 w-full">
+                <Text className="text-[#FECACA] text-xs">Ticket: {rejection.payload.tid}</Text>
+                {rejection.payload.tier ? (
+                  <Text className="text-[#FECACA] text-xs mt-0.5">Tier: {rejection.payload.tier}</Text>
+                ) : null}
+              </View>
+            ) : null}
+            <TouchableOpacity className="bg-white py-3 px-6 rounded-xl mt-8 w-full items-center" onPress={handleScanAgain}>
+              <Text className="text-[#7F1D1D] text-base font-semibold">Scan Again</Text>
+            </TouchableOpacity>
+            <TouchableOpacity className="py-3 px-6 rounded-xl mt-2 w-full items-center" onPress={handleClose}>
+              <Text className="text-white text-base font-semibold">Close</Text>
+            </TouchableOpacity>
+          </View>
+        ) : loading ? (
           <View className="flex-1 items-center justify-center">
             <ActivityIndicator size="large" color="#DC2626" />
             <Text className="text-white text-base mt-4">Requesting camera permission...</Text>
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataSelection } from '@/components/ui/DataSelection';
+import {
+  WEEKDAY_LABELS,
+  parseDateKey,
+  previewOccurrenceDates,
+  toDateKey,
+  type RecurrenceFormData,
+  type RepeatOption,
+} from '@/lib/utils/recurrenceUtils';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceFormData;
+  onChange: (value: RecurrenceFormData) => void;
+  error?: string;
+  /** First session; repeats are generated from it */
+  startDate: Date | null;
+}
+
+const REPEAT_OPTIONS: { value: RepeatOption; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom dates' },
+];
+
+const INTERVAL_OPTIONS = ['1', '2', '3', '4'];
+
+const PREVIEW_LIMIT = 6;
+
+function formatDateForDisplay(key: string): string {
+  const d = parseDateKey(key);
+  return d ? d.toLocaleDateString('en-GB', { weekday: 'short', day: '2-digit', month: 'short' }) : key;
+}
+
+/**
+ * Repeat rule for recurring events (weekly on chosen days, monthly, or hand-picked dates)
+ * with a preview of the generated sessions. Used in create event, step 1, below the dates.
+ */
+export function RecurrenceEditor({ value, onChange, error, startDate }: RecurrenceEditorProps) {
+  const [picker, setPicker] = useState<'until' | 'date' | null>(null);
+
+  const update = (patch: Partial<RecurrenceFormData>) => onChange({ ...value, ...patch });
+  const inputRow = 'bg-gray-50 rounded-xl py-2 px-3 flex-row items-center gap-2 border border-gray-200';
+  const unit = value.repeat === 'weekly' ? 'week' : 'month';
+
+  const preview = startDate ? previewOccurrenceDates(value, startDate) : [];
+  const weekdays = value.weekdays.length > 0 ? value.weekdays : startDate ? [startDate.getDay()] : [];
+
+  const toggleWeekday = (day: number) => {
+    const next = weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day];
+    update({ weekdays: next });
+  };
+
+  const handlePicked = (selectedDate: Date) => {
+    const key = toDateKey(selectedDate);
+    if (picker === 'until') update({ until: key });
+    else if (!value.dates.includes(key)) update({ dates: [...value.dates, key].sort() });
+  };
+
+  return (
+    <View className="mb-3">
+      <DataSelection<RepeatOption>
+        label="Repeats"
+        value={value.repeat}
+        onSelect={(repeat) => update({ repeat })}
+        options={REPEAT_OPTIONS}
+        className="mb-3"
+      />
+
+      {(value.repeat === 'weekly' || value.repeat === 'monthly') && (
+        <>
+          <DataSelection
+            label="Every"
+            value={String(value.interval)}
+            onSelect={(v) => update({ interval: parseInt(v, 10) || 1 })}
+            options={INTERVAL_OPTIONS.map((n) => ({ value: n, label: n === '1' ? `Every ${unit}` : `Every ${n} ${unit}s` }))}
+            className="mb-3"
+          />
+
+          {value.repeat === 'weekly' && (
+            <View className="flex-row justify-between mb-3">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = weekdays.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    className={`w-10 h-10 rounded-full items-center justify-center border ${selected ? 'bg-primary border-primary' : 'bg-white border-gray-200'}`}
+                    onPress={() => toggleWeekday(day)}
+                  >
+                    <Text className={`text-[10px] font-semibold ${selected ? 'text-white' : 'text-gray-700'}`}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          <Text className="text-gray-900 text-sm font-medium mb-1.5">Repeat until</Text>
+          <TouchableOpacity className={`${inputRow} mb-3`} onPress={() => setPicker('until')}>
+            <MaterialIcons name="event-repeat" size={16} color="#9CA3AF" />
+            <Text className={`text-sm flex-1 ${value.until ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+              {value.until ? formatDateForDisplay(value.until) : 'Select last date'}
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {value.repeat === 'custom' && (
+        <>
+          <Text className="text-gray-900 text-sm font-medium mb-1.5">Other dates</Text>
+          <View className="flex-row flex-wrap gap-1.5 mb-2">
+            {value.dates.map((key) => (
+              <View key={key} className="flex-row items-center bg-gray-100 rounded-full pl-3 pr-1.5 py-1">
+                <Text className="text-gray-900 text-xs mr-1">{formatDateForDisplay(key)}</Text>
+                <TouchableOpacity onPress={() => update({ dates: value.dates.filter((d) => d !== key) })}>
+                  <MaterialIcons name="close" size={14} color="#6B7280" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              className="flex-row items-center border border-dashed border-gray-300 rounded-full px-3 py-1"
+              onPress={() => setPicker('date')}
+            >
+              <MaterialIcons name="add" size={14} color="#DC2626" />
+              <Text className="text-primary text-xs font-semibold ml-0.5">Add date</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+
+      {picker && (
+        <View className="mb-3">
+          {Platform.OS === 'ios' && (
+            <View className="flex-row justify-end gap-2 mb-2">
+              <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setPicker(null)}>
+                <Text className="text-white text-sm font-semibold">Done</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          <DateTimePicker
+            value={(picker === 'until' ? parseDateKey(value.until) : null) ?? startDate ?? new Date()}
+            mode="date"
+            minimumDate={startDate ?? new Date()}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={(event, selectedDate) => {
+              if (Platform.OS === 'android') {
+                setPicker(null);
+                if (event.type !== 'set') return;
+              }
+              if (selectedDate) handlePicked(selectedDate);
+            }}
+          />
+        </View>
+      )}
+
+      {value.repeat !== 'none' && preview.length > 1 && (
+        <View className="bg-gray-50 border border-gray-200 rounded-xl p-3">
+          <Text className="text-gray-900 text-xs font-semibold mb-1">{preview.length} sessions</Text>
+          <Text className="text-gray-600 text-[10px]">
+            {preview.slice(0, PREVIEW_LIMIT).map(formatDateForDisplay).join(' · ')}
+            {preview.length > PREVIEW_LIMIT ? ` · +${preview.length - PREVIEW_LIMIT} more` : ''}
+          </Text>
+          <Text className="text-gray-500 text-[10px] mt-1">You can edit or cancel single sessions after posting.</Text>
+        </View>
+      )}
+
+      {error ? <Text className="text-[#EF4444] text-xs mt-2 px-1">{error}</Text> : null}
+    </View>
+  );
+}
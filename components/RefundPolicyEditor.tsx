@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import type { RefundPolicyType } from '@/lib/api/events';
+import type { RefundPolicyFormData } from '@/lib/utils/refundUtils';
+
+interface RefundPolicyEditorProps {
+  value: RefundPolicyFormData;
+  onChange: (value: RefundPolicyFormData) => void;
+  error?: string;
+  /** Latest selectable cutoff */
+  eventDate?: Date | null;
+}
+
+const POLICY_OPTIONS: { value: RefundPolicyType; label: string; description: string }[] = [
+  { value: 'none', label: 'No refunds', description: 'Tickets are final' },
+  { value: 'full', label: 'Full refund', description: 'Attendees get back what they paid' },
+  { value: 'partial', label: 'Partial', description: 'Keep a share of the ticket price' },
+];
+
+function formatDateForDisplay(iso: string | null): string | null {
+  if (!iso) return null;
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return null;
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+/**
+ * Refund policy (none / full / partial + cutoff date) for paid events.
+ * Used in create and edit event, step 2, below the ticket tiers.
+ */
+export function RefundPolicyEditor({ value, onChange, error, eventDate }: RefundPolicyEditorProps) {
+  const [showPicker, setShowPicker] = useState(false);
+
+  const update = (patch: Partial<RefundPolicyFormData>) => onChange({ ...value, ...patch });
+  const inputRow = 'bg-gray-50 rounded-xl py-2 px-3 flex-row items-center gap-2 border border-gray-200';
+
+  return (
+    <View className="mb-4">
+      <Text className="text-gray-900 text-sm font-semibold mb-2">Refund Policy</Text>
+      <View className="flex-row gap-2 mb-3">
+        {POLICY_OPTIONS.map((option) => {
+          const selected = value.type === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              className={`flex-1 rounded-xl border p-2 ${selected ? 'border-primary bg-primary/10' : 'border-gray-200 bg-white'}`}
+              onPress={() => update({ type: option.value })}
+            >
+              <Text className={`text-xs font-semibold ${selected ? 'text-primary' : 'text-gray-900'}`}>{option.label}</Text>
+              <Text className="text-gray-500 text-[10px] mt-0.5">{option.description}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value.type === 'partial' && (
+        <DataInput
+          label="Refund percentage"
+          placeholder="e.g. 50"
+          value={value.partialPercent}
+          onChangeText={(v) => update({ partialPercent: v.replace(/[^0-9]/g, '') })}
+          keyboardType="numeric"
+          className="mb-3"
+        />
+      )}
+
+      {value.type !== 'none' && (
+        <>
+          <Text className="text-gray-900 text-sm font-semibold mb-2">Requests accepted until</Text>
+          <TouchableOpacity className={inputRow} onPress={() => setShowPicker(true)}>
+            <MaterialIcons name="event" size={16} color="#9CA3AF" />
+            <Text className={`text-sm flex-1 ${value.cutoffDate ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+              {formatDateForDisplay(value.cutoffDate) ?? 'Until the event starts'}
+            </Text>
+            {value.cutoffDate ? (
+              <TouchableOpacity onPress={() => update({ cutoffDate: null })}>
+                <MaterialIcons name="close" size={16} color="#9CA3AF" />
+              </TouchableOpacity>
+            ) : null}
+          </TouchableOpacity>
+
+          {showPicker && (
+            <View className="mt-2">
+              {Platform.OS === 'ios' && (
+                <View className="flex-row justify-end gap-2 mb-2">
+                  <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setShowPicker(false)}>
+                    <Text className="text-white text-sm font-semibold">Done</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              <DateTimePicker
+                value={value.cutoffDate ? new Date(value.cutoffDate) : eventDate ?? new Date()}
+                mode="date"
+                minimumDate={new Date()}
+                maximumDate={eventDate ?? undefined}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  if (Platform.OS === 'android') {
+                    setShowPicker(false);
+                    if (event.type !== 'set') return;
+                  }
+                  if (!selectedDate) return;
+                  // Cutoff is inclusive of the whole selected day
+                  const d = new Date(selectedDate);
+                  d.setHours(23, 59, 59, 999);
+                  update({ cutoffDate: d.toISOString() });
+                }}
+              />
+            </View>
+          )}
+        </>
+      )}
+
+      {error ? <Text className="text-[#EF4444] text-xs mt-2 px-1">{error}</Text> : null}
+    </View>
+  );
+}
@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import { DataSelection } from '@/components/ui/DataSelection';
+import type { RegistrationQuestionType } from '@/lib/api/events';
+import {
+  MAX_QUESTIONS,
+  QUESTION_TYPE_OPTIONS,
+  createQuestionFormData,
+  type QuestionFormData,
+} from '@/lib/utils/registrationQuestionUtils';
+
+interface RegistrationQuestionsEditorProps {
+  questions: QuestionFormData[];
+  onChange: (questions: QuestionFormData[]) => void;
+  /** Errors keyed by question key (from validateQuestions) */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Custom registration form builder (question, answer type, choices, required).
+ * Used in edit event, step 2; attendees answer in event details before the ticket is created.
+ */
+export function RegistrationQuestionsEditor({ questions, onChange, errors = {} }: RegistrationQuestionsEditorProps) {
+  const updateQuestion = (key: string, patch: Partial<QuestionFormData>) => {
+    onChange(questions.map((q) => (q.key === key ? { ...q, ...patch } : q)));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <View className="mb-4">
+      <Text className="text-gray-900 text-sm font-semibold mb-1">Registration Questions</Text>
+      <Text className="text-gray-500 text-xs mb-2">
+        Asked for every attendee, guests in group bookings included, after name, email and phone. Answers show in the attendee list and exports.
+      </Text>
+
+      {questions.map((question, index) => (
+        <View key={question.key} className="border border-gray-200 rounded-xl p-3 mb-3 bg-white">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-gray-700 text-xs font-semibold">Question {index + 1}</Text>
+            <View className="flex-row items-center gap-3">
+              {index > 0 && (
+                <TouchableOpacity onPress={() => moveQuestion(index, -1)} hitSlop={6}>
+                  <MaterialIcons name="arrow-upward" size={16} color="#6B7280" />
+                </TouchableOpacity>
+              )}
+              {index < questions.length - 1 && (
+                <TouchableOpacity onPress={() => moveQuestion(index, 1)} hitSlop={6}>
+                  <MaterialIcons name="arrow-downward" size={16} color="#6B7280" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => onChange(questions.filter((q) => q.key !== question.key))}
+                className="flex-row items-center"
+              >
+                <MaterialIcons name="delete-outline" size={16} color="#EF4444" />
+                <Text className="text-[#EF4444] text-xs ml-1">Remove</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <DataInput
+            label="Question"
+            placeholder="e.g. T-shirt size"
+            value={question.label}
+            onChangeText={(v) => updateQuestion(question.key, { label: v })}
+            maxLength={120}
+            className="mb-3"
+          />
+          <DataSelection<RegistrationQuestionType>
+            label="Answer type"
+            value={question.type}
+            onSelect={(type) => updateQuestion(question.key, { type })}
+            options={QUESTION_TYPE_OPTIONS}
+            className="mb-3"
+          />
+          {(question.type === 'select' || question.type === 'multi_select') && (
+            <DataInput
+              label="Choices (comma separated)"
+              placeholder="e.g. S, M, L, XL"
+              value={question.optionsText}
+              onChangeText={(v) => updateQuestion(question.key, { optionsText: v })}
+              className="mb-3"
+            />
+          )}
+
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => updateQuestion(question.key, { required: !question.required })}
+          >
+            <MaterialIcons
+              name={question.required ? 'check-box' : 'check-box-outline-blank'}
+              size={18}
+              color={question.required ? '#DC2626' : '#9CA3AF'}
+            />
+            <Text className="text-gray-900 text-sm ml-2">Required</Text>
+          </TouchableOpacity>
+
+          {errors[question.key] ? (
+            <Text className="text-[#EF4444] text-xs mt-2 px-1">{errors[question.key]}</Text>
+          ) : null}
+        </View>
+      ))}
+
+      {questions.length < MAX_QUESTIONS && (
+        <TouchableOpacity
+          className="flex-row items-center justify-center py-2.5 rounded-xl border border-dashed border-primary"
+          onPress={() => onChange([...questions, createQuestionFormData()])}
+        >
+          <MaterialIcons name="add" size={18} color="#DC2626" />
+          <Text className="text-primary text-sm font-semibold ml-1">Add question</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
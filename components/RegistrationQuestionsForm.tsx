@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import { DataSelection } from '@/components/ui/DataSelection';
+import type { RegistrationQuestion } from '@/lib/api/events';
+import type { RegistrationAnswer, RegistrationAnswers } from '@/lib/api/tickets';
+
+interface RegistrationQuestionsFormProps {
+  questions: RegistrationQuestion[];
+  answers: RegistrationAnswers;
+  onChange: (answers: RegistrationAnswers) => void;
+  /** Errors keyed by question id (from validateAnswers) */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Attendee side of the organizer's registration questions.
+ * Used in event details, between choosing a ticket and creating it.
+ */
+export function RegistrationQuestionsForm({ questions, answers, onChange, errors = {} }: RegistrationQuestionsFormProps) {
+  const setAnswer = (id: string, answer: RegistrationAnswer) => onChange({ ...answers, [id]: answer });
+
+  return (
+    <View>
+      {questions.map((question) => {
+        const label = question.required ? `${question.label} *` : question.label;
+        const error = errors[question.id];
+        const answer = answers[question.id];
+
+        if (question.type === 'text') {
+          return (
+            <View key={question.id} className="mb-3">
+              <DataInput
+                label={label}
+                size="sm"
+                placeholder="Your answer"
+                value={typeof answer === 'string' ? answer : ''}
+                onChangeText={(v) => setAnswer(question.id, v)}
+                error={error}
+              />
+            </View>
+          );
+        }
+
+        if (question.type === 'select') {
+          return (
+            <DataSelection
+              key={question.id}
+              label={label}
+              value={typeof answer === 'string' ? answer : ''}
+              onSelect={(v) => setAnswer(question.id, v)}
+              options={(question.options ?? []).map((o) => ({ value: o, label: o }))}
+              placeholder="Choose one"
+              error={error}
+              className="mb-3"
+            />
+          );
+        }
+
+        if (question.type === 'multi_select') {
+          const selected = Array.isArray(answer) ? answer : [];
+          const toggle = (option: string) =>
+            setAnswer(
+              question.id,
+              selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option]
+            );
+          return (
+            <View key={question.id} className="mb-3">
+              <Text className="text-gray-900 text-sm font-semibold mb-2">{label}</Text>
+              <View className="flex-row flex-wrap gap-1.5">
+                {(question.options ?? []).map((option) => {
+                  const active = selected.includes(option);
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      className={`px-3 py-1.5 rounded-full border ${active ? 'bg-primary border-primary' : 'bg-white border-gray-200'}`}
+                      onPress={() => toggle(option)}
+                    >
+                      <Text className={`text-xs font-medium ${active ? 'text-white' : 'text-gray-900'}`}>{option}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {error ? <Text className="text-[#EF4444] text-xs mt-1 px-1">{error}</Text> : null}
+            </View>
+          );
+        }
+
+        const checked = answer === true;
+        return (
+          <View key={question.id} className="mb-3">
+            <TouchableOpacity className="flex-row items-start" onPress={() => setAnswer(question.id, !checked)}>
+              <MaterialIcons
+                name={checked ? 'check-box' : 'check-box-outline-blank'}
+                size={20}
+                color={checked ? '#DC2626' : error ? '#EF4444' : '#9CA3AF'}
+              />
+              <Text className="text-gray-900 text-sm ml-2 flex-1">{label}</Text>
+            </TouchableOpacity>
+            {error ? <Text className="text-[#EF4444] text-xs mt-1 px-1">{error}</Text> : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
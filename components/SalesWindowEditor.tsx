@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { formatSalesDate, type SalesWindowFormData } from '@/lib/utils/salesWindowUtils';
+
+interface SalesWindowEditorProps {
+  value: SalesWindowFormData;
+  onChange: (value: SalesWindowFormData) => void;
+  error?: string;
+}
+
+type Field = keyof SalesWindowFormData;
+
+const FIELDS: { field: Field; label: string; placeholder: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { field: 'publishAt', label: 'Publish on', placeholder: 'As soon as approved', icon: 'visibility' },
+  { field: 'salesOpenAt', label: 'Registration opens', placeholder: 'When published', icon: 'lock-open' },
+  { field: 'salesCloseAt', label: 'Registration closes', placeholder: 'When the event starts', icon: 'lock-clock' },
+];
+
+/**
+ * Scheduled publishing plus the registration window; each is a date and time, empty = default.
+ * Used in create and edit event, step 2. Android picks the date first, then the time.
+ */
+export function SalesWindowEditor({ value, onChange, error }: SalesWindowEditorProps) {
+  const [picker, setPicker] = useState<{ field: Field; mode: 'date' | 'time' } | null>(null);
+
+  const inputRow = 'bg-gray-50 rounded-xl py-2 px-3 flex-row items-center gap-2 border border-gray-200';
+
+  const pickerValue = (field: Field) => {
+    if (value[field]) return new Date(value[field]!);
+    const d = new Date();
+    d.setHours(10, 0, 0, 0);
+    return d;
+  };
+
+  const handlePicked = (field: Field, mode: 'date' | 'time', selected: Date) => {
+    const next = pickerValue(field);
+    if (mode === 'date' || Platform.OS === 'ios') {
+      next.setFullYear(selected.getFullYear(), selected.getMonth(), selected.getDate());
+    }
+    if (mode === 'time' || Platform.OS === 'ios') {
+      next.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    }
+    onChange({ ...value, [field]: next.toISOString() });
+  };
+
+  return (
+    <View className="mb-4">
+      <Text className="text-gray-900 text-sm font-semibold mb-1">Publishing & Registration</Text>
+      <Text className="text-gray-500 text-xs mb-2">
+        Schedule when the event appears in Explore and when people can register.
+      </Text>
+
+      {FIELDS.map(({ field, label, placeholder, icon }) => (
+        <View key={field} className="mb-2">
+          <Text className="text-gray-700 text-xs font-medium mb-1">{label}</Text>
+          <TouchableOpacity className={inputRow} onPress={() => setPicker({ field, mode: 'date' })}>
+            <MaterialIcons name={icon} size={16} color="#9CA3AF" />
+            <Text className={`text-sm flex-1 ${value[field] ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+              {value[field] ? formatSalesDate(value[field]!) : placeholder}
+            </Text>
+            {value[field] ? (
+              <TouchableOpacity onPress={() => onChange({ ...value, [field]: null })}>
+                <MaterialIcons name="close" size={16} color="#9CA3AF" />
+              </TouchableOpacity>
+            ) : null}
+          </TouchableOpacity>
+
+          {picker?.field === field && (
+            <View className="mt-2">
+              {Platform.OS === 'ios' && (
+                <View className="flex-row justify-end gap-2 mb-2">
+                  <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setPicker(null)}>
+                    <Text className="text-white text-sm font-semibold">Done</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              <DateTimePicker
+                value={pickerValue(field)}
+                mode={Platform.OS === 'ios' ? 'datetime' : picker.mode}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={(event, selectedDate) => {
+                  if (Platform.OS === 'android') {
+                    const mode = picker.mode;
+                    setPicker(event.type === 'set' && mode === 'date' ? { field, mode: 'time' } : null);
+                    if (event.type !== 'set') return;
+                    if (selectedDate) handlePicked(field, mode, selectedDate);
+                    return;
+                  }
+                  if (selectedDate) handlePicked(field, 'date', selectedDate);
+                }}
+              />
+            </View>
+          )}
+        </View>
+      ))}
+
+      {error ? <Text className="text-[#EF4444] text-xs mt-1 px-1">{error}</Text> : null}
+    </View>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import { SpeakerList } from '@/components/EventProgram';
+import { eventsAPI } from '@/lib/api/events';
+import { toImagePath } from '@/lib/utils/eventDraftUtils';
+import { resolveImageUrl } from '@/lib/utils/imageUtils';
+import {
+  MAX_SPEAKERS,
+  createSpeakerFormData,
+  speakersToApi,
+  type SpeakerFormData,
+} from '@/lib/utils/eventProgramUtils';
+
+interface SpeakersEditorProps {
+  speakers: SpeakerFormData[];
+  /**
+   * Receives an updater applied to the latest speakers (setFormData(prev => ...)), so a photo
+   * finishing its upload doesn't undo edits made meanwhile
+   */
+  onChange: (update: (speakers: SpeakerFormData[]) => SpeakerFormData[]) => void;
+  /** Errors keyed by speaker key (from validateSpeakers) */
+  errors?: Record<string, string>;
+}
+
+/**
+ * Speakers / performers (photo, name, bio, profile link) with a live preview.
+ * Photos upload like the event image. Used in create and edit event, step 1.
+ */
+export function SpeakersEditor({ speakers, onChange, errors = {} }: SpeakersEditorProps) {
+  const [showPreview, setShowPreview] = useState(false);
+  const [uploadingKey, setUploadingKey] = useState<string | null>(null);
+  const [photoErrors, setPhotoErrors] = useState<Record<string, string>>({});
+
+  const updateSpeaker = (key: string, patch: Partial<SpeakerFormData>) => {
+    onChange((prev) => prev.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+  };
+
+  const pickPhoto = async (key: string) => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      setPhotoErrors((prev) => ({ ...prev, [key]: 'Allow photo access to add a picture' }));
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets[0]) return;
+    setUploadingKey(key);
+    setPhotoErrors((prev) => ({ ...prev, [key]: '' }));
+    try {
+      const response = await eventsAPI.uploadEventImage(result.assets[0].uri);
+      const photo = response.success && response.imageUrl ? toImagePath(response.imageUrl) : null;
+      if (photo) updateSpeaker(key, { photo });
+      else setPhotoErrors((prev) => ({ ...prev, [key]: 'Photo upload failed' }));
+    } catch {
+      setPhotoErrors((prev) => ({ ...prev, [key]: 'Photo upload failed' }));
+    } finally {
+      setUploadingKey(null);
+    }
+  };
+
+  const previewSpeakers = speakersToApi(speakers.filter((s) => s.name.trim()));
+
+  return (
+    <View className="mb-4">
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-gray-900 text-sm font-semibold">Speakers & Performers</Text>
+        {previewSpeakers.length > 0 && (
+          <TouchableOpacity className="flex-row items-center" onPress={() => setShowPreview((v) => !v)}>
+            <MaterialIcons name={showPreview ? 'visibility-off' : 'visibility'} size={14} color="#DC2626" />
+            <Text className="text-primary text-xs font-semibold ml-1">{showPreview ? 'Hide preview' : 'Preview'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text className="text-gray-500 text-xs mb-2">Optional. Shown on the event page with their photo and bio.</Text>
+
+      {showPreview && previewSpeakers.length > 0 && (
+        <View className="border border-gray-200 rounded-xl p-3 mb-3 bg-white">
+          <SpeakerList speakers={previewSpeakers} />
+        </View>
+      )}
+
+      {speakers.map((speaker, index) => {
+        const photoUrl = resolveImageUrl(speaker.photo);
+        const error = errors[speaker.key] || photoErrors[speaker.key];
+        return (
+          <View key={speaker.key} className="border border-gray-200 rounded-xl p-3 mb-3 bg-white">
+            <View className="flex-row items-center justify-between mb-2">
+              <Text className="text-gray-700 text-xs font-semibold">Speaker {index + 1}</Text>
+              <TouchableOpacity
+                onPress={() => onChange((prev) => prev.filter((s) => s.key !== speaker.key))}
+                className="flex-row items-center"
+              >
+                <MaterialIcons name="delete-outline" size={16} color="#EF4444" />
+                <Text className="text-[#EF4444] text-xs ml-1">Remove</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View className="flex-row items-center mb-3">
+              <TouchableOpacity
+                className="w-14 h-14 rounded-full bg-gray-100 border border-gray-200 items-center justify-center overflow-hidden"
+                onPress={() => pickPhoto(speaker.key)}
+                disabled={uploadingKey !== null}
+              >
+                {uploadingKey === speaker.key ? (
+                  <ActivityIndicator size="small" color="#DC2626" />
+                ) : photoUrl ? (
+                  <Image source={{ uri: photoUrl }} className="w-full h-full" resizeMode="cover" />
+                ) : (
+                  <MaterialIcons name="add-a-photo" size={20} color="#9CA3AF" />
+                )}
+              </TouchableOpacity>
+              <View className="flex-1 ml-3">
+                <DataInput
+                  label="Name"
+                  placeholder="e.g. Ayesha Khan"
+                  value={speaker.name}
+                  onChangeText={(v) => updateSpeaker(speaker.key, { name: v })}
+                  maxLength={80}
+                />
+              </View>
+            </View>
+            {speaker.photo ? (
+              <TouchableOpacity className="mb-2 -mt-1" onPress={() => updateSpeaker(speaker.key, { photo: null })}>
+                <Text className="text-gray-500 text-xs">Remove photo</Text>
+              </TouchableOpacity>
+            ) : null}
+            <DataInput
+              label="Bio (optional)"
+              placeholder="A line or two about them"
+              value={speaker.bio}
+              onChangeText={(v) => updateSpeaker(speaker.key, { bio: v })}
+              maxLength={300}
+              multiline
+              textAlignVertical="top"
+              className="mb-3"
+            />
+            <DataInput
+              label="Profile link (optional)"
+              placeholder="https://"
+              value={speaker.link}
+              onChangeText={(v) => updateSpeaker(speaker.key, { link: v })}
+              autoCapitalize="none"
+              keyboardType="url"
+            />
+
+            {error ? <Text className="text-[#EF4444] text-xs mt-2 px-1">{error}</Text> : null}
+          </View>
+        );
+      })}
+
+      {speakers.length < MAX_SPEAKERS && (
+        <TouchableOpacity
+          className="flex-row items-center justify-center py-2.5 rounded-xl border border-dashed border-primary"
+          onPress={() => onChange((prev) => [...prev, createSpeakerFormData()])}
+        >
+          <MaterialIcons name="add" size={18} color="#DC2626" />
+          <Text className="text-primary text-sm font-semibold ml-1">Add speaker</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
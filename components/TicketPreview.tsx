@@ -7,6 +7,8 @@ import { mergeTicketTheme } from '@/lib/types/ticketTheme';
 import { getEventImageUrl } from '@/lib/utils/imageUtils';
 import { BackgroundPattern } from '@/components/BackgroundPattern';
 
+const QR_SIZE = 180;
+
 interface PreviewEvent {
   title?: string;
   description?: string;
@@ -28,7 +30,11 @@ interface TicketPreviewProps {
   email?: string;
   status?: string;
   accessKey?: string;
+  /** Signed QR payload; encoded in the QR instead of the bare accessKey when present */
+  signedQr?: string;
   createdAt?: string;
+  /** Tier bought (name + price override the event's flat ticketPrice) */
+  tier?: { name: string; price?: number; currency?: string } | null;
 }
 
 function formatDateShort(dateString?: string) {
@@ -97,7 +103,9 @@ export function TicketPreview({
   email = 'hamzaaliabbasi3237@gmail.com',
   status = 'payment_in_review',
   accessKey,
+  signedQr,
   createdAt,
+  tier,
 }: TicketPreviewProps) {
   const t = mergeTicketTheme(theme);
   const ev = event || {};
@@ -108,9 +116,11 @@ export function TicketPreview({
   const location = ev.location || 'F-9 Park, Islamabad, Islamabd';
   const date = ev.date || '2026-02-28';
   const time = ev.time || '18:00';
-  const price = ev.ticketPrice ?? 3000;
+  const price = tier?.price ?? ev.ticketPrice ?? 3000;
+  const currency = tier?.currency || 'PKR';
   const displayStatus = preview ? 'payment_in_review' : status;
   const displayAccessKey = accessKey || (preview ? undefined : accessKey);
+  const showQr = displayStatus === 'confirmed' && !!displayAccessKey;
   const eventImageUrl = getEventImageUrl(ev);
   const bgElement = t.backgroundElement ?? 'none';
 
@@ -211,6 +221,14 @@ export function TicketPreview({
           >
             USER: {username}
           </Text>
+          {tier?.name ? (
+            <Text
+              className="text-[12px] font-bold"
+              style={{ color: t.accentColor }}
+            >
+              TIER: {tier.name.toUpperCase()}
+            </Text>
+          ) : null}
           <Text
             className="text-[12px]"
             style={{ color: t.primaryTextColor }}
@@ -245,7 +263,7 @@ export function TicketPreview({
               className="text-[12px] leading-5"
               style={{ color: t.primaryTextColor }}
             >
-              • Price: {price.toLocaleString()} PKR
+              • Price: {price.toLocaleString()} {currency}
             </Text>
           </View>
           <View className="relative">
@@ -265,14 +283,7 @@ export function TicketPreview({
               </Text>
             </View>
           </View>
-          {displayStatus === 'confirmed' && displayAccessKey ? (
-            <View
-              className="p-1.5 rounded-lg ml-2"
-              style={{ backgroundColor: 'rgba(255,255,255,0.95)' }}
-            >
-              <QRCode value={displayAccessKey} size={56} color="#1F1F1F" backgroundColor="#FFFFFF" />
-            </View>
-          ) : (
+          {!showQr && (
             <View
               className="ml-2 p-2 rounded-lg min-w-[56px] overflow-hidden min-h-[56px] items-center justify-center"
               style={{ backgroundColor: `${t.accentColor}15`, borderWidth: 1, borderColor: `${t.accentColor}40` }}
@@ -287,6 +298,21 @@ export function TicketPreview({
           )}
         </View>
 
+        {/* Full-width QR: signed payloads (~230 chars) need room for door scanners to read them */}
+        {showQr && displayAccessKey ? (
+          <View className="items-center mt-3">
+            <View className="p-2.5 rounded-xl" style={{ backgroundColor: '#FFFFFF' }}>
+              <QRCode
+                value={signedQr || displayAccessKey}
+                size={QR_SIZE}
+                ecl="M"
+                color="#1F1F1F"
+                backgroundColor="#FFFFFF"
+              />
+            </View>
+          </View>
+        ) : null}
+
         <View
           className="h-px my-2.5 border-dashed"
           style={{ borderColor: t.accentColor, borderTopWidth: 2 }}
@@ -0,0 +1,81 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { TicketPreview } from '@/components/TicketPreview';
+
+export type TicketSnapshotData = React.ComponentProps<typeof TicketPreview>;
+
+export interface TicketSnapshotHandle {
+  /** Render the ticket off-screen and return it as a JPEG data URI */
+  capture: (ticket: TicketSnapshotData) => Promise<string>;
+}
+
+const SNAPSHOT_WIDTH = 360;
+
+/**
+ * Off-screen TicketPreview used to snapshot tickets that aren't on screen (bulk PDF export).
+ * Call capture() sequentially; each call re-renders the preview with the next ticket.
+ */
+export const TicketSnapshot = forwardRef<TicketSnapshotHandle>(function TicketSnapshot(_props, ref) {
+  const viewRef = useRef<View>(null);
+  const [data, setData] = useState<TicketSnapshotData | null>(null);
+  const pending = useRef<{ resolve: (uri: string) => void; reject: (e: unknown) => void } | null>(null);
+  const mounted = useRef(true);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      capture: (ticket) =>
+        new Promise<string>((resolve, reject) => {
+          if (!mounted.current) {
+            reject(new Error('Ticket snapshot was unmounted'));
+            return;
+          }
+          pending.current = { resolve, reject };
+          setData({ ...ticket });
+        }),
+    }),
+    []
+  );
+
+  // Settle a capture still waiting when the screen goes away so the export loop doesn't hang
+  useEffect(
+    () => () => {
+      mounted.current = false;
+      pending.current?.reject(new Error('Ticket snapshot was unmounted'));
+      pending.current = null;
+    },
+    []
+  );
+
+  useEffect(() => {
+    const job = pending.current;
+    if (!data || !job) return;
+    pending.current = null;
+    // Two frames: one for layout, one for the gradient / QR svg to paint
+    requestAnimationFrame(() =>
+      requestAnimationFrame(async () => {
+        try {
+          if (!viewRef.current) throw new Error('Ticket snapshot view is not mounted');
+          const uri = await captureRef(viewRef.current, {
+            format: 'jpg',
+            quality: 0.9,
+            result: 'data-uri',
+            width: 800,
+          });
+          job.resolve(uri);
+        } catch (e) {
+          job.reject(e);
+        }
+      })
+    );
+  }, [data]);
+
+  return (
+    <View pointerEvents="none" style={{ position: 'absolute', left: -10000, top: 0, width: SNAPSHOT_WIDTH }}>
+      <View ref={viewRef} collapsable={false}>
+        {data && <TicketPreview {...data} />}
+      </View>
+    </View>
+  );
+});
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { DataInput } from '@/components/ui/DataInput';
+import {
+  DEFAULT_TIER_NAMES,
+  createTierFormData,
+  type TierFormData,
+} from '@/lib/utils/ticketTierUtils';
+
+interface TicketTiersEditorProps {
+  tiers: TierFormData[];
+  onChange: (tiers: TierFormData[]) => void;
+  /** Errors keyed by tier key (from validateTiers) */
+  errors?: Record<string, string>;
+  currency: string;
+}
+
+type DateField = 'salesStart' | 'salesEnd';
+
+function formatDateForDisplay(iso: string | null): string | null {
+  if (!iso) return null;
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return null;
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+/**
+ * Editable list of ticket tiers (name, price, capacity, sales window, description).
+ * Used in create and edit event, step 2, for paid events.
+ */
+export function TicketTiersEditor({ tiers, onChange, errors = {}, currency }: TicketTiersEditorProps) {
+  const [openPicker, setOpenPicker] = useState<{ key: string; field: DateField } | null>(null);
+
+  const updateTier = (key: string, patch: Partial<TierFormData>) => {
+    onChange(tiers.map((t) => (t.key === key ? { ...t, ...patch } : t)));
+  };
+
+  const removeTier = (key: string) => {
+    if (tiers.length <= 1) return;
+    onChange(tiers.filter((t) => t.key !== key));
+  };
+
+  const addTier = () => {
+    const usedNames = new Set(tiers.map((t) => t.name.trim().toLowerCase()));
+    const name = DEFAULT_TIER_NAMES.find((n) => !usedNames.has(n.toLowerCase())) ?? '';
+    onChange([...tiers, createTierFormData({ name })]);
+  };
+
+  const inputRow = 'bg-gray-50 rounded-xl py-2 px-3 flex-row items-center gap-2 border border-gray-200';
+
+  return (
+    <View className="mb-4">
+      <Text className="text-gray-900 text-sm font-semibold mb-2">Ticket Tiers</Text>
+      {tiers.map((tier, index) => {
+        const pickerField = openPicker?.key === tier.key ? openPicker.field : null;
+        return (
+          <View key={tier.key} className="border border-gray-200 rounded-xl p-3 mb-3 bg-white">
+            <View className="flex-row items-center justify-between mb-2">
+              <Text className="text-gray-700 text-xs font-semibold">Tier {index + 1}</Text>
+              {tiers.length > 1 && (
+                <TouchableOpacity onPress={() => removeTier(tier.key)} className="flex-row items-center">
+                  <MaterialIcons name="delete-outline" size={16} color="#EF4444" />
+                  <Text className="text-[#EF4444] text-xs ml-1">Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <DataInput
+              label="Name"
+              placeholder="e.g. VIP"
+              value={tier.name}
+              onChangeText={(v) => updateTier(tier.key, { name: v })}
+              className="mb-3"
+            />
+            <View className="flex-row gap-2">
+              <View className="flex-1">
+                <DataInput
+                  label={`Price (${currency})`}
+                  placeholder="e.g. 600"
+                  value={tier.price}
+                  onChangeText={(v) => updateTier(tier.key, { price: v })}
+                  keyboardType="numeric"
+                  className="mb-3"
+                />
+              </View>
+              <View className="flex-1">
+                <DataInput
+                  label="Capacity"
+                  placeholder="e.g. 100"
+                  value={tier.capacity}
+                  onChangeText={(v) => updateTier(tier.key, { capacity: v })}
+                  keyboardType="numeric"
+                  className="mb-3"
+                />
+              </View>
+            </View>
+
+            <View className="flex-row gap-2 mb-3">
+              {(['salesStart', 'salesEnd'] as const).map((field) => (
+                <View key={field} className="flex-1">
+                  <Text className="text-gray-900 text-sm font-semibold mb-2">
+                    {field === 'salesStart' ? 'Sales start' : 'Sales end'}
+                  </Text>
+                  <TouchableOpacity
+                    className={inputRow}
+                    onPress={() => setOpenPicker({ key: tier.key, field })}
+                  >
+                    <MaterialIcons name="event" size={16} color="#9CA3AF" />
+                    <Text className={`text-sm flex-1 ${tier[field] ? 'text-gray-900' : 'text-[#6B7280]'}`}>
+                      {formatDateForDisplay(tier[field]) ?? 'Any time'}
+                    </Text>
+                    {tier[field] ? (
+                      <TouchableOpacity onPress={() => updateTier(tier.key, { [field]: null })}>
+                        <MaterialIcons name="close" size={16} color="#9CA3AF" />
+                      </TouchableOpacity>
+                    ) : null}
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+
+            {pickerField && (
+              <View className="mb-3">
+                {Platform.OS === 'ios' && (
+                  <View className="flex-row justify-end gap-2 mb-2">
+                    <TouchableOpacity className="bg-primary px-4 py-2 rounded-lg" onPress={() => setOpenPicker(null)}>
+                      <Text className="text-white text-sm font-semibold">Done</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                <DateTimePicker
+                  value={tier[pickerField] ? new Date(tier[pickerField]!) : new Date()}
+                  mode="date"
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={(event, selectedDate) => {
+                    if (Platform.OS === 'android') {
+                      setOpenPicker(null);
+                      if (event.type !== 'set') return;
+                    }
+                    if (!selectedDate) return;
+                    const d = new Date(selectedDate);
+                    // Sales end is inclusive of the whole selected day
+                    if (pickerField === 'salesEnd') d.setHours(23, 59, 59, 999);
+                    else d.setHours(0, 0, 0, 0);
+                    updateTier(tier.key, { [pickerField]: d.toISOString() });
+                  }}
+                />
+              </View>
+            )}
+
+            <DataInput
+              label="Description (optional)"
+              placeholder="What's included"
+              value={tier.description}
+              onChangeText={(v) => updateTier(tier.key, { description: v })}
+              multiline
+              textAlignVertical="top"
+            />
+            {errors[tier.key] ? (
+              <Text className="text-[#EF4444] text-xs mt-2 px-1">{errors[tier.key]}</Text>
+            ) : null}
+          </View>
+        );
+      })}
+
+      <TouchableOpacity
+        className="flex-row items-center justify-center py-2.5 rounded-xl border border-dashed border-primary"
+        onPress={addTier}
+      >
+        <MaterialIcons name="add" size={18} color="#DC2626" />
+        <Text className="text-primary text-sm font-semibold ml-1">Add tier</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
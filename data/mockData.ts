@@ -1,6 +1,7 @@
 // Placeholder data for the event management app
 
 import { EVENT_PLACEHOLDER } from '@/lib/utils/imageUtils';
+import type { SalesStatus } from '@/lib/utils/salesWindowUtils';
 
 export interface User {
   id: string;
@@ -19,6 +20,8 @@ export interface Event {
   description: string;
   fullDescription?: string;
   date: string;
+  /** Every day the event runs on (recurring / multi-day events); defaults to [date] */
+  dateKeys?: string[];
   time: string;
   endTime?: string;
   venue: string;
@@ -41,6 +44,10 @@ export interface Event {
     avatarUrl?: string | null;
   }[];
   joinedCount?: number;
+  /** Registration state for the card badge (sold out, closed, opens later) */
+  salesStatus?: SalesStatus;
+  salesOpenAt?: string | null;
+  salesCloseAt?: string | null;
 }
 
 export interface Ticket {
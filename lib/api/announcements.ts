@@ -0,0 +1,52 @@
+import apiClient from './client';
+
+export type AnnouncementTicketStatus = 'pending_payment' | 'payment_in_review' | 'confirmed' | 'used';
+
+/** Who receives an announcement; empty/omitted fields mean "any" */
+export interface AnnouncementAudience {
+  statuses?: AnnouncementTicketStatus[];
+  tierIds?: string[];
+  /** true: only scanned tickets, false: only not yet scanned */
+  checkedIn?: boolean | null;
+}
+
+export interface Announcement {
+  _id: string;
+  eventId: string;
+  title: string;
+  message: string;
+  audience: AnnouncementAudience;
+  /** Attendees notified when it was sent */
+  recipientCount: number;
+  createdBy?: {
+    _id: string;
+    fullName: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface SendAnnouncementRequest {
+  title: string;
+  message: string;
+  audience: AnnouncementAudience;
+}
+
+// Announcements API functions
+// Organizers broadcast to ticket holders; each recipient gets an `event_announcement` notification.
+// The event page feed only returns announcements the viewer received (everything for the organizer).
+export const announcementsAPI = {
+  // Get announcements for an event
+  getEventAnnouncements: async (eventId: string): Promise<{ success: boolean; announcements: Announcement[] }> => {
+    const response = await apiClient.get(`/events/${eventId}/announcements`);
+    return response.data;
+  },
+
+  // Send an announcement to the event's attendees (organizer only)
+  sendAnnouncement: async (
+    eventId: string,
+    data: SendAnnouncementRequest
+  ): Promise<{ success: boolean; message: string; announcement: Announcement }> => {
+    const response = await apiClient.post(`/events/${eventId}/announcements`, data);
+    return response.data;
+  },
+};
@@ -0,0 +1,56 @@
+import apiClient from './client';
+import type { DraftData } from '@/lib/utils/eventDraftUtils';
+
+/** Unfinished create-event form saved for the current user; any number per organizer */
+export interface EventDraft {
+  _id: string;
+  /** Shown in the profile Drafts list; defaults to the event name */
+  name: string;
+  /** Serialized create form (see serializeDraft); stored as-is by the backend */
+  data: DraftData;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveEventDraftRequest {
+  name: string;
+  data: DraftData;
+}
+
+export interface EventDraftResponse {
+  success: boolean;
+  message?: string;
+  draft: EventDraft;
+}
+
+// Event drafts API functions
+// The create screen autosaves locally and syncs here, so drafts follow the organizer across devices.
+export const eventDraftsAPI = {
+  // Get the current user's drafts, most recently edited first
+  getMyDrafts: async (): Promise<{ success: boolean; drafts: EventDraft[] }> => {
+    const response = await apiClient.get('/event-drafts');
+    return response.data;
+  },
+
+  // Get a single draft (resume from another device)
+  getDraftById: async (draftId: string): Promise<EventDraftResponse> => {
+    const response = await apiClient.get(`/event-drafts/${draftId}`);
+    return response.data;
+  },
+
+  createDraft: async (data: SaveEventDraftRequest): Promise<EventDraftResponse> => {
+    const response = await apiClient.post('/event-drafts', data);
+    return response.data;
+  },
+
+  updateDraft: async (draftId: string, data: SaveEventDraftRequest): Promise<EventDraftResponse> => {
+    const response = await apiClient.put(`/event-drafts/${draftId}`, data);
+    return response.data;
+  },
+
+  // Delete a draft (also called once the event has been created from it)
+  deleteDraft: async (draftId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/event-drafts/${draftId}`);
+    return response.data;
+  },
+};
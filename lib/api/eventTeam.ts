@@ -0,0 +1,76 @@
+import apiClient from './client';
+import type { Event } from './events';
+
+/**
+ * owner        - event creator (createdBy); never stored as a team member
+ * co_organizer - edit the event and view attendees
+ * scanner      - door staff: scan QR codes / update ticket status by ticket #
+ * finance      - review payments and refunds
+ */
+export type EventRole = 'owner' | 'co_organizer' | 'scanner' | 'finance';
+
+export type EventTeamRole = Exclude<EventRole, 'owner'>;
+
+export interface EventTeamMember {
+  _id: string;
+  eventId: string;
+  user: {
+    _id: string;
+    fullName: string;
+    username?: string;
+    profileImageUrl?: string | null;
+  };
+  role: EventTeamRole;
+  invitedBy?: {
+    _id: string;
+    fullName: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface InviteTeamMemberRequest {
+  username: string;
+  role: EventTeamRole;
+}
+
+// Event team API functions
+// Team members see the event in their "Created Events" list with `myRole` set;
+// the backend enforces the same per-role permissions as lib/utils/eventRoles.ts.
+export const eventTeamAPI = {
+  // Get team members of an event (owner only)
+  getTeam: async (eventId: string): Promise<{ success: boolean; members: EventTeamMember[] }> => {
+    const response = await apiClient.get(`/events/${eventId}/team`);
+    return response.data;
+  },
+
+  // Invite a user by username; they get an `event_team_invite` notification
+  inviteMember: async (
+    eventId: string,
+    data: InviteTeamMemberRequest
+  ): Promise<{ success: boolean; message: string; member: EventTeamMember }> => {
+    const response = await apiClient.post(`/events/${eventId}/team`, data);
+    return response.data;
+  },
+
+  // Change a member's role
+  updateMemberRole: async (
+    eventId: string,
+    memberId: string,
+    role: EventTeamRole
+  ): Promise<{ success: boolean; message: string; member: EventTeamMember }> => {
+    const response = await apiClient.put(`/events/${eventId}/team/${memberId}`, { role });
+    return response.data;
+  },
+
+  // Remove a member (owner), or leave the team (the member themselves)
+  removeMember: async (eventId: string, memberId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/events/${eventId}/team/${memberId}`);
+    return response.data;
+  },
+
+  // Events the current user is a team member of (each with myRole)
+  getMyTeamEvents: async (): Promise<{ success: boolean; events: Event[] }> => {
+    const response = await apiClient.get('/events/team/my');
+    return response.data;
+  },
+};
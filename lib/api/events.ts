@@ -2,6 +2,7 @@ import apiClient from './client';
 import { Platform } from 'react-native';
 import { API_BASE_URL } from '../config';
 import { getAccessToken } from './client';
+import type { EventRole } from './eventTeam';
 
 /** Background pattern styles */
 export type BackgroundElement =
@@ -27,12 +28,150 @@ export type EventPrice =
   | { price: number; currency: string }
   | { price: 'free'; currency: null };
 
+/** Ticket tier (General, VIP, Early Bird...) with its own price, capacity and sales window */
+export interface TicketTier {
+  _id?: string;
+  id?: string;
+  name: string;
+  price: number;
+  currency: string;
+  capacity: number;
+  /** ISO date; tier is not on sale before this */
+  salesStart?: string | null;
+  /** ISO date; tier is not on sale after this */
+  salesEnd?: string | null;
+  description?: string;
+  /** Tickets already issued for this tier (returned by backend) */
+  soldCount?: number;
+}
+
+/** Tier payload for create/update; _id present when updating an existing tier */
+export type TicketTierInput = Omit<TicketTier, 'id' | 'soldCount'>;
+
+export type RefundPolicyType = 'full' | 'partial' | 'none';
+
+/** Organizer refund policy; attendees request refunds through refundsAPI */
+export interface RefundPolicy {
+  type: RefundPolicyType;
+  /** Percent of the amount paid returned for 'partial' (1-99) */
+  partialPercent?: number | null;
+  /** ISO; requests after this are refused. Null = until the event starts */
+  cutoffDate?: string | null;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'custom';
+
+/** Repeat rule set when creating the event; the backend expands it into occurrences */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Every N weeks / months (ignored for custom) */
+  interval: number;
+  /** Weekly: days of the week, 0 = Sunday */
+  weekdays?: number[];
+  /** Last possible occurrence date (YYYY-MM-DD), inclusive */
+  until?: string | null;
+  /** Custom: extra session dates (YYYY-MM-DD) besides the event date */
+  dates?: string[];
+}
+
+export type OccurrenceStatus = 'scheduled' | 'cancelled';
+
+/** One session of a recurring event; edited or cancelled individually by the organizer */
+export interface EventOccurrence {
+  _id: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** "HH:mm" */
+  time: string;
+  endDate?: string | null;
+  endTime?: string | null;
+  /** Overrides the event location for this session */
+  location?: string | null;
+  status: OccurrenceStatus;
+  /** Tickets issued for this session, excluding cancelled */
+  ticketsSold?: number;
+}
+
+export interface UpdateOccurrenceRequest {
+  date?: string;
+  time?: string;
+  endDate?: string | null;
+  endTime?: string | null;
+  location?: string | null;
+  /** Cancelling notifies the session's ticket holders */
+  status?: OccurrenceStatus;
+}
+
+export type RegistrationQuestionType = 'text' | 'select' | 'multi_select' | 'checkbox';
+
+/** Extra field attendees fill in when registering (T-shirt size, dietary needs, consent...) */
+export interface RegistrationQuestion {
+  /** Stable id; answers are keyed by it, so it must survive edits to the label */
+  id: string;
+  label: string;
+  type: RegistrationQuestionType;
+  required: boolean;
+  /** select / multi_select choices */
+  options?: string[];
+}
+
+/** Agenda slot on the event page; times are "HH:mm" */
+export interface AgendaItem {
+  id: string;
+  time: string;
+  endTime?: string | null;
+  title: string;
+  description?: string | null;
+}
+
+/** Speaker / performer on the event page */
+export interface EventSpeaker {
+  id: string;
+  name: string;
+  /** Image path or URL, uploaded like the event image */
+  photo?: string | null;
+  bio?: string | null;
+  /** Profile or website (http/https) */
+  link?: string | null;
+}
+
+/**
+ * pending / approved - admin review
+ * cancelled - all tickets cancelled, paid ones refunded in full
+ * postponed - tickets stay valid; date/time hold the new schedule (unchanged while still to be announced)
+ */
+export type EventStatus = 'pending' | 'approved' | 'cancelled' | 'postponed';
+
+/** Why and when the organizer cancelled or postponed; shown as a banner to attendees */
+export interface EventStatusNotice {
+  reason: string;
+  changedAt: string;
+  /** Postponed: schedule before the change */
+  previousDate?: string | null;
+  previousTime?: string | null;
+  /** Postponed without a new date yet */
+  dateToBeAnnounced?: boolean;
+  /** Postponed: paid holders can request a full refund regardless of the refund policy */
+  refundsOffered?: boolean;
+}
+
 export interface Event {
   _id: string;
   title: string;
+  /** Markdown subset (see markdownUtils); older events are plain text, which renders the same */
   description?: string;
+  /** Ordered by time; absent = no agenda section */
+  agenda?: AgendaItem[];
+  speakers?: EventSpeaker[];
   date: string;
   time: string;
+  /** Multi-day events: last day (YYYY-MM-DD) and closing time */
+  endDate?: string | null;
+  endTime?: string | null;
+  /** Absent on one-off events */
+  recurrence?: RecurrenceRule | null;
+  /** Sessions of a recurring event, ascending; the first one matches date/time */
+  occurrences?: EventOccurrence[];
   location?: string;
   image?: string;
   /** Full URL or path for event image (API may return this instead of/in addition to image) */
@@ -42,13 +181,34 @@ export interface Event {
   /** @deprecated Prefer price. Kept for backward compatibility. */
   ticketPrice?: number;
   totalTickets?: number;
+  /** Tickets issued so far, excluding cancelled (returned by backend) */
+  ticketsSold?: number;
   /** Paid { price, currency } or free { price: 'free', currency: null } */
   price?: EventPrice;
+  /** Optional tiers; when present, registration picks one of these instead of the flat price */
+  ticketTiers?: TicketTier[];
   gender?: 'male' | 'female' | 'all';
   category?: string;
   organizerName?: string;
-  status?: 'pending' | 'approved';
+  status?: EventStatus;
+  /** Present once the event has been cancelled or postponed */
+  statusNotice?: EventStatusNotice | null;
   ticketTheme?: TicketTheme;
+  /** Base64 Ed25519 public key; scanners verify signed ticket QR codes offline with it */
+  qrPublicKey?: string;
+  /** Absent on older events: treated as no refunds */
+  refundPolicy?: RefundPolicy | null;
+  /** Custom registration form; empty or absent = name, email and phone only */
+  registrationQuestions?: RegistrationQuestion[];
+  /** ISO; hidden from listings until then (absent = live once approved) */
+  publishAt?: string | null;
+  /** ISO; registration is closed before salesOpenAt and after salesCloseAt */
+  salesOpenAt?: string | null;
+  salesCloseAt?: string | null;
+  /** Current user asked to be notified when sales open */
+  salesReminderSet?: boolean;
+  /** Current user's role on the event (returned for the creator and team members) */
+  myRole?: EventRole | null;
   createdBy?: {
     _id: string;
     id?: string;
@@ -72,6 +232,30 @@ export interface Event {
 
 export type SuggestionReasonType = 'interest' | 'trending' | 'social_proof' | 'curated';
 
+export interface CancelEventRequest {
+  reason: string;
+}
+
+export interface PostponeEventRequest {
+  reason: string;
+  /** YYYY-MM-DD and "HH:mm"; omit both when the new date is still to be announced */
+  date?: string;
+  time?: string;
+  refundsOffered: boolean;
+}
+
+export interface EventStatusChangeResponse {
+  success: boolean;
+  message: string;
+  event: Event;
+  /** Tickets whose status changed (cancelled) or that were re-issued for the new date (postponed) */
+  ticketsUpdated: number;
+  /** Paid tickets refunded as part of a cancellation */
+  refundsIssued: number;
+  /** Ticket holders sent an `event_cancelled` / `event_postponed` notification */
+  notified: number;
+}
+
 export interface SuggestedAccount {
   _id: string;
   id?: string;
@@ -87,10 +271,15 @@ export interface CreateEventRequest {
   title: string;
   date: string;
   time: string;
+  endDate?: string;
+  endTime?: string;
+  recurrence?: RecurrenceRule;
   /** Optional */
   location?: string;
-  /** Optional */
+  /** Optional; Markdown subset */
   description?: string;
+  agenda?: AgendaItem[];
+  speakers?: EventSpeaker[];
   image?: string;
   email: string;
   /** From user; optional for backend compat */
@@ -103,24 +292,42 @@ export interface CreateEventRequest {
   ticketPrice: number;
   /** For paid events; optional for free */
   totalTickets?: number;
+  /** Paid events: one or more tiers. ticketPrice/totalTickets are still sent (lowest price / total capacity) */
+  ticketTiers?: TicketTierInput[];
+  refundPolicy?: RefundPolicy;
+  /** Copied when duplicating an event or creating from a template */
+  ticketTheme?: TicketTheme;
+  publishAt?: string | null;
+  salesOpenAt?: string | null;
+  salesCloseAt?: string | null;
 }
 
 export interface UpdateEventRequest {
   title?: string;
   description?: string;
+  agenda?: AgendaItem[];
+  speakers?: EventSpeaker[];
   date?: string;
   time?: string;
+  endDate?: string | null;
+  endTime?: string | null;
   location?: string;
   image?: string;
   email?: string;
   phone?: string;
   ticketPrice?: number;
   totalTickets?: number;
+  ticketTiers?: TicketTierInput[];
   gender?: 'male' | 'female' | 'all';
   /** Optional; default "other" on backend */
   category?: string;
   organizerName?: string;
   ticketTheme?: TicketTheme;
+  refundPolicy?: RefundPolicy;
+  registrationQuestions?: RegistrationQuestion[];
+  publishAt?: string | null;
+  salesOpenAt?: string | null;
+  salesCloseAt?: string | null;
 }
 
 export interface EventsResponse {
@@ -152,6 +359,51 @@ export interface CreateEventResponse {
   };
 }
 
+/** Aggregates for the organizer analytics dashboard (app/event-analytics/[eventId].tsx) */
+export interface EventAnalytics {
+  currency: string;
+  /** One entry per day with registrations, ascending (YYYY-MM-DD) */
+  salesByDay: { date: string; tickets: number; revenue: number }[];
+  /** Approved payments only; tierId null for events without tiers */
+  revenueByTier: { tierId: string | null; name: string; tickets: number; revenue: number }[];
+  revenueByMethod: { method: string; payments: number; revenue: number }[];
+  funnel: {
+    views: number;
+    likes: number;
+    /** Tickets issued, excluding cancelled */
+    registrations: number;
+    /** confirmed + used */
+    confirmed: number;
+  };
+  checkIns: {
+    /** Tickets that can be scanned (confirmed + used) */
+    eligible: number;
+    checkedIn: number;
+    /** Scans per hour on the event day (ISO hour start), ascending */
+    byHour: { hour: string; count: number }[];
+  };
+  /** From attendee profiles; unknown when the profile has no gender */
+  genderSplit: { male: number; female: number; other: number; unknown: number };
+}
+
+/** One row of a comp / guest-list CSV import */
+export interface GuestImportRow {
+  fullName: string;
+  email: string;
+  phone?: string;
+  /** Tier name; must match one of the event's tiers when given */
+  tier?: string;
+}
+
+export interface ImportGuestsResponse {
+  success: boolean;
+  message: string;
+  /** Confirmed tickets created (no payment required) */
+  created: number;
+  /** Rows the backend refused, e.g. duplicate email or unknown tier (row is 1-based, header excluded) */
+  skipped: { row: number; email?: string; reason: string }[];
+}
+
 // Event API functions
 export const eventsAPI = {
   // Get All Approved Events (Public)
@@ -196,7 +448,40 @@ export const eventsAPI = {
     return response.data;
   },
 
-  // Delete Event
+  // Edit or cancel a single session of a recurring event
+  updateOccurrence: async (
+    eventId: string,
+    occurrenceId: string,
+    data: UpdateOccurrenceRequest
+  ): Promise<{ success: boolean; message: string; occurrence: EventOccurrence }> => {
+    const response = await apiClient.put(`/events/${eventId}/occurrences/${occurrenceId}`, data);
+    return response.data;
+  },
+
+  // "Notify me" before sales open; the backend sends a `sales_open` notification
+  setSalesReminder: async (eventId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.post(`/events/${eventId}/sales-reminder`);
+    return response.data;
+  },
+
+  removeSalesReminder: async (eventId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/events/${eventId}/sales-reminder`);
+    return response.data;
+  },
+
+  // Cancel the event (owner only): cancels every ticket, refunds paid ones in full and notifies holders
+  cancelEvent: async (eventId: string, data: CancelEventRequest): Promise<EventStatusChangeResponse> => {
+    const response = await apiClient.post(`/events/${eventId}/cancel`, data);
+    return response.data;
+  },
+
+  // Postpone the event (owner only): moves it to the new date (or TBA), keeps tickets valid and notifies holders
+  postponeEvent: async (eventId: string, data: PostponeEventRequest): Promise<EventStatusChangeResponse> => {
+    const response = await apiClient.post(`/events/${eventId}/postpone`, data);
+    return response.data;
+  },
+
+  // Delete Event (use cancelEvent once tickets have been issued, so holders are refunded and notified)
   deleteEvent: async (id: string): Promise<{ success: boolean; message: string }> => {
     const response = await apiClient.delete(`/events/${id}`);
     return response.data;
@@ -208,6 +493,18 @@ export const eventsAPI = {
     return response.data;
   },
 
+  // Create confirmed comp tickets from a guest list (organizer only)
+  importGuestTickets: async (eventId: string, guests: GuestImportRow[]): Promise<ImportGuestsResponse> => {
+    const response = await apiClient.post(`/events/${eventId}/tickets/import`, { guests });
+    return response.data;
+  },
+
+  // Get analytics for an event (organizer only)
+  getEventAnalytics: async (eventId: string): Promise<{ success: boolean; analytics: EventAnalytics }> => {
+    const response = await apiClient.get(`/events/${eventId}/analytics`);
+    return response.data;
+  },
+
   // Upload Event Image
   uploadEventImage: async (imageUri: string): Promise<{ success: boolean; message: string; imageUrl: string }> => {
     // Platform detection: Use Platform.OS as the primary check
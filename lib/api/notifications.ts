@@ -2,6 +2,21 @@
 import apiClient from './client';
 import { API_BASE_URL } from '../config';
 
+/** Notification types the app handles specially (others fall back to event / actor routing) */
+export const NOTIFICATION_TYPES = {
+  TICKET_TRANSFERRED_IN: 'ticket_transferred_in',
+  TICKET_TRANSFERRED_OUT: 'ticket_transferred_out',
+  PAYMENT_APPROVED: 'payment_approved',
+  PAYMENT_REJECTED: 'payment_rejected',
+  REFUND_APPROVED: 'refund_approved',
+  REFUND_REJECTED: 'refund_rejected',
+  /** Organizer broadcast; extra.announcementId, body holds the message */
+  EVENT_ANNOUNCEMENT: 'event_announcement',
+  /** Sent to every ticket holder; extra.ticketId is one of the recipient's tickets */
+  EVENT_CANCELLED: 'event_cancelled',
+  EVENT_POSTPONED: 'event_postponed',
+} as const;
+
 export interface NotificationItem {
   _id: string;
   type: string;
@@ -7,7 +7,9 @@ export interface SubmitPaymentRequest {
   ticketId: string;
   method: string;
   screenshotUri: string; // Image URI from expo-image-picker
-  // Note: amount is derived from ticket.event.ticketPrice on backend
+  /** Group order: one payment covers every ticket in the order */
+  orderId?: string;
+  // Note: amount is derived on backend from the ticket price minus any promo discount
 }
 
 export interface SubmitPaymentResponse {
@@ -16,7 +18,10 @@ export interface SubmitPaymentResponse {
   payment: {
     id: string;
     ticketId: string;
+    /** Amount due after promo discount */
     amount: number;
+    discountAmount?: number;
+    promoCode?: string | null;
     method: string;
     status: string;
     screenshotUrl: string;
@@ -32,26 +37,110 @@ export interface SubmitPaymentResponse {
 export interface Payment {
   id: string;
   ticketId: string;
+  /** Set when the payment covers a group order */
+  orderId?: string;
+  ticketIds?: string[];
   eventId: string;
+  /** Populated by /payments/my and /payments/:id for the buyer's payment history */
+  event?: {
+    _id: string;
+    title: string;
+    date?: string;
+    time?: string;
+  } | null;
   userId: string;
+  /** Amount due after promo discount */
   amount: number;
+  currency?: string;
+  discountAmount?: number;
+  promoCode?: string | null;
   method: string;
-  status: 'pending' | 'approved' | 'rejected';
+  /** refunded: an approved refund request returned refundedAmount to the buyer */
+  status: 'pending' | 'approved' | 'rejected' | 'refunded';
   screenshotUrl: string;
+  screenshotUrlFull?: string;
+  refundedAmount?: number | null;
+  refundedAt?: string | null;
+  /** Set when the organizer rejects the payment; shown to the buyer */
+  rejectionReason?: string | null;
+  reviewedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Payment as listed for the event organizer's review queue */
+export interface EventPayment extends Payment {
+  user: {
+    _id: string;
+    fullName: string;
+    username?: string;
+    email: string;
+  };
+  /** Tickets covered by this payment (several for a group order) */
+  tickets: {
+    id: string;
+    username: string;
+    email: string;
+    status: string;
+    tier?: { name: string } | null;
+  }[];
+}
+
+export interface ReviewPaymentResponse {
+  success: boolean;
+  message: string;
+  payment: Payment;
+  /** Tickets after the review: confirmed on approve, back to pending_payment on reject */
+  tickets: { id: string; status: string }[];
+}
+
+/** Online checkout through a payment provider (see lib/utils/paymentGateway.ts) */
+export interface CreateCheckoutSessionRequest {
+  ticketId: string;
+  /** Group order: one checkout covers every ticket in the order */
+  orderId?: string;
+  /** Provider id, e.g. 'gateway' or 'mock' (development only) */
+  provider: string;
+  /** card | wallet */
+  method: string;
+  /** Deep link the provider redirects to when checkout finishes */
+  returnUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  /** Hosted checkout page; null for the mock provider */
+  checkoutUrl: string | null;
+  provider: string;
+  amount: number;
+  currency: string;
+  expiresAt?: string;
+}
+
+export type MockCheckoutOutcome = 'success' | 'failed';
+
+export interface ConfirmCheckoutResponse {
+  success: boolean;
+  message: string;
+  /** succeeded: payment approved and tickets confirmed; pending: provider hasn't settled yet */
+  status: 'succeeded' | 'pending' | 'failed' | 'cancelled';
+  payment?: Payment;
+  ticketId: string;
+  tickets: { id: string; status: string }[];
+}
+
 // Payments API functions
 export const paymentsAPI = {
   // Submit Payment with Screenshot
   // This function handles both Web and React Native FormData correctly
   // DO NOT manually set Content-Type header - axios handles it automatically
-  // Amount is derived from ticket.event.ticketPrice on backend (source of truth)
+  // Amount is derived on backend (ticket price minus promo discount, see ticket.pricing)
+  // Pass orderId to pay for a whole group order in one submission
   submitPayment: async (
     ticketId: string,
     method: string,
-    screenshotUri: string
+    screenshotUri: string,
+    orderId?: string
   ): Promise<SubmitPaymentResponse> => {
     // Validate inputs
     if (!ticketId || typeof ticketId !== 'string' || ticketId.trim() === '') {
@@ -77,6 +166,9 @@ export const paymentsAPI = {
     // Amount is derived from ticket.event.ticketPrice on backend (source of truth)
     formData.append('ticketId', ticketId.trim());
     formData.append('method', (method || 'manual').trim());
+    if (orderId) {
+      formData.append('orderId', orderId.trim());
+    }
     
     // Extract filename and MIME type from URI
     // CRITICAL: React Native URIs can be file:// or content://
@@ -109,6 +201,7 @@ export const paymentsAPI = {
     // Minimal professional log: ticketId and screenshot presence
     console.log('💳 Payment submission:', {
       ticketId,
+      orderId,
       hasScreenshot: !!screenshotUri,
     });
     
@@ -329,4 +422,41 @@ export const paymentsAPI = {
     const response = await apiClient.get(`/payments/${paymentId}`);
     return response.data;
   },
+
+  // Get payments for an event (organizer only); status=pending for the review queue
+  getEventPayments: async (
+    eventId: string,
+    status?: Payment['status']
+  ): Promise<{ success: boolean; payments: EventPayment[] }> => {
+    const response = await apiClient.get(`/events/${eventId}/payments`, { params: status ? { status } : undefined });
+    return response.data;
+  },
+
+  // Approve a payment (organizer only); tickets move to confirmed and the buyer is notified
+  approvePayment: async (paymentId: string): Promise<ReviewPaymentResponse> => {
+    const response = await apiClient.put(`/payments/${paymentId}/approve`);
+    return response.data;
+  },
+
+  // Reject a payment with a reason (organizer only); tickets go back to pending_payment so the buyer can resubmit
+  rejectPayment: async (paymentId: string, reason: string): Promise<ReviewPaymentResponse> => {
+    const response = await apiClient.put(`/payments/${paymentId}/reject`, { reason });
+    return response.data;
+  },
+
+  // Start an online checkout; the ticket stays pending_payment until the session is confirmed
+  createCheckoutSession: async (data: CreateCheckoutSessionRequest): Promise<{ success: boolean; session: CheckoutSession }> => {
+    const response = await apiClient.post('/payments/checkout', data);
+    return response.data;
+  },
+
+  // Confirm a checkout after the provider redirect; backend verifies with the provider and confirms the tickets.
+  // mockOutcome is only accepted for the mock provider (development)
+  confirmCheckoutSession: async (
+    sessionId: string,
+    mockOutcome?: MockCheckoutOutcome
+  ): Promise<ConfirmCheckoutResponse> => {
+    const response = await apiClient.post(`/payments/checkout/${sessionId}/confirm`, mockOutcome ? { mockOutcome } : {});
+    return response.data;
+  },
 };
@@ -0,0 +1,100 @@
+import apiClient from './client';
+
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+export interface PromoCode {
+  _id: string;
+  eventId: string;
+  /** Stored upper-case; matching is case-insensitive */
+  code: string;
+  discountType: PromoDiscountType;
+  /** Percent (1-100) for percentage codes, amount in event currency for fixed codes */
+  discountValue: number;
+  /** null = unlimited */
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  /** ISO date; code stops working after this */
+  expiresAt: string | null;
+  /** Restrict to these tiers; empty = every tier */
+  tierIds: string[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromoCodeInput {
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxRedemptions?: number | null;
+  expiresAt?: string | null;
+  tierIds?: string[];
+  active?: boolean;
+}
+
+export interface PromoCodesResponse {
+  success: boolean;
+  promoCodes: PromoCode[];
+}
+
+export interface PromoCodeResponse {
+  success: boolean;
+  message?: string;
+  promoCode: PromoCode;
+}
+
+export interface ValidatePromoCodeRequest {
+  code: string;
+  tierId?: string | null;
+  quantity?: number;
+}
+
+export interface ValidatePromoCodeResponse {
+  success: boolean;
+  valid: boolean;
+  /** Why the code was rejected (expired, used up, wrong tier...) */
+  message?: string;
+  discountType?: PromoDiscountType;
+  discountValue?: number;
+  /** Per ticket, before discount */
+  originalAmount?: number;
+  /** Per ticket */
+  discountAmount?: number;
+  /** Per ticket, after discount */
+  finalAmount?: number;
+  currency?: string;
+}
+
+// Promo code API functions
+// The discount itself is applied on the backend when the ticket/order is created with `promoCode`
+export const promoCodesAPI = {
+  // Get Promo Codes for an event (Organizer only)
+  getEventPromoCodes: async (eventId: string): Promise<PromoCodesResponse> => {
+    const response = await apiClient.get(`/events/${eventId}/promo-codes`);
+    return response.data;
+  },
+
+  // Create Promo Code (Organizer only)
+  createPromoCode: async (eventId: string, data: PromoCodeInput): Promise<PromoCodeResponse> => {
+    const response = await apiClient.post(`/events/${eventId}/promo-codes`, data);
+    return response.data;
+  },
+
+  // Update Promo Code (Organizer only)
+  updatePromoCode: async (eventId: string, codeId: string, data: Partial<PromoCodeInput>): Promise<PromoCodeResponse> => {
+    const response = await apiClient.put(`/events/${eventId}/promo-codes/${codeId}`, data);
+    return response.data;
+  },
+
+  // Delete Promo Code (Organizer only)
+  deletePromoCode: async (eventId: string, codeId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/events/${eventId}/promo-codes/${codeId}`);
+    return response.data;
+  },
+
+  // Validate Promo Code before registering (returns the discounted price)
+  validatePromoCode: async (eventId: string, data: ValidatePromoCodeRequest): Promise<ValidatePromoCodeResponse> => {
+    const response = await apiClient.post(`/events/${eventId}/promo-codes/validate`, data);
+    return response.data;
+  },
+};
@@ -0,0 +1,89 @@
+import apiClient from './client';
+
+/**
+ * pending  - waiting for the organizer
+ * approved - ticket cancelled; for paid tickets the payment is marked refunded
+ * rejected - ticket stays valid; organizerNote explains why
+ */
+export type RefundRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/** Refund request as embedded on the ticket (latest one) */
+export interface RefundRequestSummary {
+  _id: string;
+  status: RefundRequestStatus;
+  reason: string;
+  /** Amount returned under the event's refund policy (0 for free tickets) */
+  refundAmount: number;
+  currency: string;
+  organizerNote?: string | null;
+  createdAt: string;
+  reviewedAt?: string | null;
+}
+
+export interface RefundRequest extends RefundRequestSummary {
+  eventId: string;
+  ticket: {
+    id: string;
+    username: string;
+    email: string;
+    accessKey?: string;
+    tier?: { name: string } | null;
+  };
+  user: {
+    _id: string;
+    fullName: string;
+    username?: string;
+    email: string;
+  };
+  /** Amount the attendee paid, for comparison with refundAmount */
+  amountPaid: number;
+  paymentId?: string | null;
+}
+
+export interface RequestRefundResponse {
+  success: boolean;
+  message: string;
+  request: RefundRequestSummary;
+  /** Free tickets are cancelled immediately (request comes back approved) */
+  ticket?: { id: string; status: string };
+}
+
+export interface ReviewRefundResponse {
+  success: boolean;
+  message: string;
+  request: RefundRequest;
+}
+
+// Refund / cancellation API functions
+// Attendees request, organizers review. Approval cancels the ticket (frees the spot and promotes the
+// waitlist like updateTicketStatusByKey) and sets the payment to `refunded`; both outcomes notify the attendee.
+export const refundsAPI = {
+  // Request a refund (paid) or cancellation (free) for a confirmed ticket
+  requestRefund: async (ticketId: string, reason: string): Promise<RequestRefundResponse> => {
+    const response = await apiClient.post(`/tickets/${ticketId}/refund-request`, { reason });
+    return response.data;
+  },
+
+  // Get refund requests for an event (organizer only)
+  getEventRefundRequests: async (
+    eventId: string,
+    status?: RefundRequestStatus
+  ): Promise<{ success: boolean; requests: RefundRequest[] }> => {
+    const response = await apiClient.get(`/events/${eventId}/refund-requests`, {
+      params: status ? { status } : undefined,
+    });
+    return response.data;
+  },
+
+  // Approve a refund request (organizer only)
+  approveRefundRequest: async (requestId: string, note?: string): Promise<ReviewRefundResponse> => {
+    const response = await apiClient.put(`/refund-requests/${requestId}/approve`, note ? { note } : {});
+    return response.data;
+  },
+
+  // Reject a refund request with a note shown to the attendee (organizer only)
+  rejectRefundRequest: async (requestId: string, note: string): Promise<ReviewRefundResponse> => {
+    const response = await apiClient.put(`/refund-requests/${requestId}/reject`, { note });
+    return response.data;
+  },
+};
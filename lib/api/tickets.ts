@@ -1,7 +1,54 @@
 import apiClient from './client';
+import type { RefundRequestSummary } from './refunds';
 
 // ==================== TYPE DEFINITIONS ====================
 
+/** Tier snapshot stored on the ticket at purchase time */
+export interface TicketTierSummary {
+  _id: string;
+  name: string;
+  price: number;
+  currency: string;
+}
+
+/** Group order the ticket belongs to (one payment covers every ticket in the order) */
+export interface TicketOrderSummary {
+  _id: string;
+  quantity: number;
+  /** After promo discount */
+  totalAmount: number;
+  currency?: string;
+}
+
+/** Minimal user info recorded on each ticket transfer */
+export interface TicketTransferParty {
+  _id: string;
+  fullName: string;
+  username?: string;
+  email?: string;
+}
+
+/** One hand-over in a ticket's transfer history (oldest first) */
+export interface TicketTransfer {
+  from: TicketTransferParty;
+  to: TicketTransferParty;
+  transferredAt: string;
+}
+
+/** What this ticket costs after any promo code (backend computed) */
+export interface TicketPricing {
+  originalAmount: number;
+  discountAmount: number;
+  /** Amount the buyer must pay for this ticket */
+  amountDue: number;
+  currency: string;
+  promoCode?: string | null;
+}
+
+/** text / select: string, multi_select: string[], checkbox: boolean */
+export type RegistrationAnswer = string | string[] | boolean;
+export type RegistrationAnswers = Record<string, RegistrationAnswer>;
+
 export interface Ticket {
   id: string;
   event: {
@@ -10,11 +57,16 @@ export interface Ticket {
     description: string;
     date: string;
     time: string;
+    endDate?: string | null;
+    endTime?: string | null;
     location: string;
     image?: string;
     ticketPrice: number;
     phone?: string;
     ticketTheme?: import('./events').TicketTheme;
+    refundPolicy?: import('./events').RefundPolicy | null;
+    status?: import('./events').EventStatus;
+    statusNotice?: import('./events').EventStatusNotice | null;
     createdBy?: {
       _id: string;
       fullName: string;
@@ -39,10 +91,33 @@ export interface Ticket {
   username: string;
   email: string;
   phone: string;
+  /** Tier bought, when the event has ticket tiers */
+  tier?: TicketTierSummary | null;
+  /** Session the ticket is for, on recurring events */
+  occurrence?: Pick<
+    import('./events').EventOccurrence,
+    '_id' | 'date' | 'time' | 'endDate' | 'endTime' | 'location' | 'status'
+  > | null;
+  /** Present when bought as part of a group order */
+  order?: TicketOrderSummary | null;
+  /** Price after discounts; absent on tickets created before promo codes */
+  pricing?: TicketPricing | null;
+  /** Previous owners; the accessKey is rotated on every transfer */
+  transferHistory?: TicketTransfer[];
   status: 'pending_payment' | 'payment_in_review' | 'confirmed' | 'used' | 'cancelled';
   accessKey?: string;
+  /** Signed QR payload (see lib/utils/signedQr); rendered instead of the bare accessKey when present */
+  signedQr?: string;
   qrCodeUrl?: string;
   paymentScreenshotUrl?: string;
+  /** Latest payment for this ticket (or its group order); see paymentsAPI.getPaymentById */
+  paymentId?: string | null;
+  /** Organizer's reason when the latest payment was rejected (ticket is back in pending_payment) */
+  paymentRejectionReason?: string | null;
+  /** Latest refund / cancellation request for this ticket, if any */
+  refundRequest?: RefundRequestSummary | null;
+  /** Answers to the event's registration questions, keyed by question id */
+  answers?: RegistrationAnswers | null;
   createdAt: string;
   updatedAt: string;
   scannedAt?: string;
@@ -53,6 +128,14 @@ export interface CreateTicketRequest {
   username: string;
   email: string;
   phone: string;
+  /** Required when the event defines ticket tiers */
+  tierId?: string;
+  /** Session to attend; required when the event has more than one occurrence */
+  occurrenceId?: string;
+  /** Optional discount code; validated again by the backend */
+  promoCode?: string;
+  /** Required when the event has required registration questions (the buyer's on group orders; guests send their own) */
+  answers?: RegistrationAnswers;
 }
 
 export interface CreateTicketResponse {
@@ -64,11 +147,45 @@ export interface CreateTicketResponse {
     username: string;
     email: string;
     phone: string;
+    tier?: TicketTierSummary | null;
+    pricing?: TicketPricing | null;
     status: string;
     createdAt: string;
   };
 }
 
+/** Additional attendee in a group order; each gets their own ticket, accessKey and QR */
+export interface OrderGuest {
+  name: string;
+  email: string;
+  phone?: string;
+  /** Guest's own answers to the registration questions; required like the buyer's */
+  answers?: RegistrationAnswers;
+}
+
+/** Buyer fields are the same as a single ticket; guests are the extra attendees */
+export interface CreateOrderRequest extends CreateTicketRequest {
+  guests: OrderGuest[];
+}
+
+export interface CreateOrderResponse {
+  success: boolean;
+  message: string;
+  order: {
+    id: string;
+    eventId: string;
+    quantity: number;
+    /** After promo discount */
+    totalAmount: number;
+    discountAmount?: number;
+    currency?: string;
+    status: string;
+    /** Buyer's ticket first, then one per guest */
+    tickets: CreateTicketResponse['ticket'][];
+    createdAt: string;
+  };
+}
+
 export interface GetMyTicketsResponse {
   success: boolean;
   count: number;
@@ -133,6 +250,41 @@ export interface UpdateTicketStatusByKeyResponse {
     };
     updatedAt: string;
   };
+  /** Set when cancelling freed a spot and the next waitlisted user was promoted */
+  promotedWaitlistEntry?: {
+    user: { _id: string; fullName: string; username?: string };
+    claimExpiresAt: string;
+  } | null;
+}
+
+export interface TransferTicketRequest {
+  /** Recipient username or email */
+  recipient: string;
+}
+
+export interface TransferTicketResponse {
+  success: boolean;
+  message: string;
+  ticket: Ticket;
+}
+
+export type WalletPlatform = 'apple' | 'google';
+
+export interface CreateWalletPassRequest {
+  platform: WalletPlatform;
+}
+
+export interface WalletPassResponse {
+  success: boolean;
+  message?: string;
+  /** Apple: short-lived signed .pkpass download URL; Google: Save to Google Wallet link */
+  url?: string;
+}
+
+export interface GetCalendarFeedResponse {
+  success: boolean;
+  /** Private https URL serving an .ics of the user's joined events; subscribe via webcal:// */
+  feedUrl: string;
 }
 
 // ==================== TICKET API FUNCTIONS ====================
@@ -149,6 +301,18 @@ export const ticketsAPI = {
     return response.data;
   },
 
+  /**
+   * Create several tickets in one order (buyer + guests)
+   * Requires authentication
+   * Paid orders are settled with a single payment (see paymentsAPI.submitPayment orderId)
+   * @param data - Buyer ticket data plus guest name/email list
+   * @returns Created order with one ticket per attendee
+   */
+  createOrder: async (data: CreateOrderRequest): Promise<CreateOrderResponse> => {
+    const response = await apiClient.post('/tickets/orders', data);
+    return response.data;
+  },
+
   /**
    * Get all tickets for the authenticated user
    * Requires authentication
@@ -187,6 +351,7 @@ export const ticketsAPI = {
    * Requires organizer authentication
    * Only works if ticket status is "confirmed"
    * Can only update to "used" or "cancelled"
+   * Cancelling promotes the next waitlisted user, if any (see promotedWaitlistEntry)
    * @param data - Update ticket status data containing accessKey and status
    * @returns Updated ticket information
    */
@@ -194,5 +359,44 @@ export const ticketsAPI = {
     const response = await apiClient.put('/tickets/update-status-by-key', data);
     return response.data;
   },
-};
 
+  /**
+   * Transfer a confirmed ticket to another user
+   * Requires authentication (ticket owner only)
+   * Backend rotates the accessKey (old QR stops scanning), appends to transferHistory
+   * and notifies both users (ticket_transferred_out / ticket_transferred_in)
+   * @param ticketId - The ticket ID
+   * @param data - Recipient username or email
+   * @returns Ticket as now owned by the recipient
+   */
+  transferTicket: async (ticketId: string, data: TransferTicketRequest): Promise<TransferTicketResponse> => {
+    const response = await apiClient.post(`/tickets/${ticketId}/transfer`, data);
+    return response.data;
+  },
+
+  /**
+   * Get the user's private calendar feed URL
+   * Requires authentication
+   * The feed lists every joined event and stays current as tickets are bought, transferred or cancelled
+   * @returns Feed URL (token-protected, safe to hand to a calendar app)
+   */
+  getCalendarFeed: async (): Promise<GetCalendarFeedResponse> => {
+    const response = await apiClient.get('/tickets/my/calendar-feed');
+    return response.data;
+  },
+
+  /**
+   * Create (or replace) a signed wallet pass for a ticket
+   * Requires authentication (ticket owner only)
+   * Backend builds the pass from its own ticket record (theme, barcode, status), signs it and
+   * registers it for updates; status changes on the backend (e.g. scanned -> used, cancelled)
+   * are pushed to the installed pass by the backend, without the app being opened
+   * @param ticketId - The ticket ID
+   * @param data - Target platform
+   * @returns URL to download (.pkpass) or open (Google Wallet)
+   */
+  createWalletPass: async (ticketId: string, data: CreateWalletPassRequest): Promise<WalletPassResponse> => {
+    const response = await apiClient.post(`/tickets/${ticketId}/wallet-pass`, data);
+    return response.data;
+  },
+};
@@ -0,0 +1,72 @@
+import apiClient from './client';
+
+/**
+ * waiting  - in line, position >= 1
+ * promoted - a spot opened up; user can register until claimExpiresAt
+ * claimed  - user registered with the held spot
+ * expired  - claim window passed; spot moved to the next person
+ */
+export type WaitlistStatus = 'waiting' | 'promoted' | 'claimed' | 'expired';
+
+export interface WaitlistEntry {
+  _id: string;
+  eventId: string;
+  user: {
+    _id: string;
+    fullName: string;
+    username?: string;
+    email: string;
+    profileImageUrl?: string | null;
+  };
+  /** 1-based position among waiting entries (null once promoted) */
+  position: number | null;
+  status: WaitlistStatus;
+  /** Tier the user is waiting for, when the event has ticket tiers */
+  tierId?: string | null;
+  promotedAt?: string | null;
+  /** End of the claim window for promoted entries */
+  claimExpiresAt?: string | null;
+  createdAt: string;
+}
+
+export interface WaitlistEntryResponse {
+  success: boolean;
+  message?: string;
+  /** null when the user is not on the waitlist */
+  entry: WaitlistEntry | null;
+}
+
+export interface EventWaitlistResponse {
+  success: boolean;
+  count: number;
+  entries: WaitlistEntry[];
+}
+
+// Waitlist API functions
+// Promotion happens on the backend when a ticket is cancelled (ticketsAPI.updateTicketStatusByKey);
+// the promoted user gets a `waitlist_promoted` notification with the claim deadline.
+export const waitlistAPI = {
+  // Join Waitlist (event sold out)
+  join: async (eventId: string, tierId?: string | null): Promise<WaitlistEntryResponse> => {
+    const response = await apiClient.post(`/events/${eventId}/waitlist`, tierId ? { tierId } : {});
+    return response.data;
+  },
+
+  // Leave Waitlist
+  leave: async (eventId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/events/${eventId}/waitlist/me`);
+    return response.data;
+  },
+
+  // Get My Waitlist Entry for an event
+  getMyEntry: async (eventId: string): Promise<WaitlistEntryResponse> => {
+    const response = await apiClient.get(`/events/${eventId}/waitlist/me`);
+    return response.data;
+  },
+
+  // Get Event Waitlist (Organizer only)
+  getEventWaitlist: async (eventId: string): Promise<EventWaitlistResponse> => {
+    const response = await apiClient.get(`/events/${eventId}/waitlist`);
+    return response.data;
+  },
+};
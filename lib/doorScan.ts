@@ -0,0 +1,264 @@
+/**
+ * Offline door scanning for organizers.
+ * Attendee list is downloaded once (getTicketsByEventId) and access keys are validated locally.
+ * Check-ins go into a persistent queue and are pushed with updateTicketStatusByKey when online.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { eventsAPI } from '@/lib/api/events';
+import { ticketsAPI } from '@/lib/api/tickets';
+
+const DOOR_SCAN_PREFIX = 'door_scan_';
+
+const DOOR_SCAN_KEYS = {
+  ATTENDEES: (eventId: string) => `${DOOR_SCAN_PREFIX}attendees_${eventId}`,
+  QUEUE: (eventId: string) => `${DOOR_SCAN_PREFIX}queue_${eventId}`,
+} as const;
+
+export interface DoorAttendee {
+  ticketId: string;
+  accessKey: string;
+  name: string;
+  email: string;
+  tierName?: string;
+  status: string;
+  scannedAt?: string | null;
+}
+
+export interface AttendeeSnapshot {
+  eventId: string;
+  /** Event key for verifying signed QR codes offline (absent for events without signing) */
+  qrPublicKey?: string | null;
+  downloadedAt: string;
+  attendees: DoorAttendee[];
+}
+
+/**
+ * pending  - checked in on this device, not yet sent
+ * synced   - backend accepted the check-in
+ * conflict - backend rejected it (already used on another device, cancelled...); guest was still let in locally
+ */
+export type CheckInSyncState = 'pending' | 'synced' | 'conflict';
+
+export interface QueuedCheckIn {
+  ticketId: string;
+  accessKey: string;
+  name: string;
+  /** When this device scanned the ticket */
+  scannedAt: string;
+  syncState: CheckInSyncState;
+  conflictReason?: string;
+  /** Conflict acknowledged by the organizer; hidden from the conflicts panel */
+  dismissed?: boolean;
+  syncedAt?: string;
+}
+
+export type ScanResult =
+  | { ok: true; attendee: DoorAttendee }
+  | { ok: false; reason: string; attendee?: DoorAttendee };
+
+export interface SyncResult {
+  queue: QueuedCheckIn[];
+  /** True when the network dropped mid-sync; remaining items stay pending */
+  offline: boolean;
+  synced: number;
+  conflicts: number;
+}
+
+async function readJson<T>(key: string): Promise<T | null> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJson<T>(key: string, data: T): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(data));
+  } catch (e) {
+    console.warn('Failed to persist door scan data:', key, e);
+  }
+}
+
+function toDoorAttendee(ticket: any): DoorAttendee | null {
+  if (!ticket?.accessKey) return null;
+  return {
+    ticketId: ticket.id || ticket._id,
+    accessKey: String(ticket.accessKey).trim(),
+    name: ticket.user?.fullName || ticket.username || 'Unknown',
+    email: ticket.user?.email || ticket.email || '',
+    tierName: ticket.tier?.name,
+    status: ticket.status,
+    scannedAt: ticket.scannedAt ?? null,
+  };
+}
+
+/** Fetch the attendee list and store it for offline use. Throws when offline. */
+export async function downloadAttendees(eventId: string): Promise<AttendeeSnapshot> {
+  const [response, eventResponse] = await Promise.all([
+    eventsAPI.getTicketsByEventId(eventId),
+    eventsAPI.getEventById(eventId),
+  ]);
+  const attendees = (response.tickets || [])
+    .map(toDoorAttendee)
+    .filter((a): a is DoorAttendee => a !== null);
+  const snapshot: AttendeeSnapshot = {
+    eventId,
+    qrPublicKey: eventResponse.event?.qrPublicKey ?? null,
+    downloadedAt: new Date().toISOString(),
+    attendees,
+  };
+  await writeJson(DOOR_SCAN_KEYS.ATTENDEES(eventId), snapshot);
+  return snapshot;
+}
+
+export function loadAttendees(eventId: string): Promise<AttendeeSnapshot | null> {
+  return readJson<AttendeeSnapshot>(DOOR_SCAN_KEYS.ATTENDEES(eventId));
+}
+
+export async function loadCheckInQueue(eventId: string): Promise<QueuedCheckIn[]> {
+  return (await readJson<QueuedCheckIn[]>(DOOR_SCAN_KEYS.QUEUE(eventId))) ?? [];
+}
+
+function saveCheckInQueue(eventId: string, queue: QueuedCheckIn[]): Promise<void> {
+  return writeJson(DOOR_SCAN_KEYS.QUEUE(eventId), queue);
+}
+
+/**
+ * Hide conflicts from the panel. Entries are kept (not deleted) so validateScan still rejects
+ * these tickets when the attendee snapshot predates the check-ins.
+ */
+export async function dismissConflicts(eventId: string, queue: QueuedCheckIn[]): Promise<QueuedCheckIn[]> {
+  const next = queue.map((c) => (c.syncState === 'conflict' ? { ...c, dismissed: true } : c));
+  await saveCheckInQueue(eventId, next);
+  return next;
+}
+
+function formatScanTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+/** Validate a scanned access key against the downloaded list and this device's check-ins. */
+export function validateScan(
+  snapshot: AttendeeSnapshot,
+  queue: QueuedCheckIn[],
+  rawAccessKey: string
+): ScanResult {
+  const accessKey = rawAccessKey.trim();
+  const attendee = snapshot.attendees.find((a) => a.accessKey === accessKey);
+  if (!attendee) {
+    return { ok: false, reason: 'Unknown ticket. It may have been transferred — refresh the list when online.' };
+  }
+
+  const localCheckIn = queue.find((c) => c.accessKey === accessKey);
+  if (localCheckIn) {
+    return { ok: false, reason: `Already checked in at ${formatScanTime(localCheckIn.scannedAt)}`, attendee };
+  }
+
+  switch (attendee.status) {
+    case 'confirmed':
+      return { ok: true, attendee };
+    case 'used':
+      return {
+        ok: false,
+        reason: attendee.scannedAt
+          ? `Already checked in at ${formatScanTime(attendee.scannedAt)}`
+          : 'Already checked in',
+        attendee,
+      };
+    case 'cancelled':
+      return { ok: false, reason: 'Ticket was cancelled', attendee };
+    case 'pending_payment':
+    case 'payment_in_review':
+      return { ok: false, reason: 'Payment not confirmed', attendee };
+    default:
+      return { ok: false, reason: `Ticket is ${attendee.status}`, attendee };
+  }
+}
+
+/** Record a local check-in; persisted before returning so it survives app restarts. */
+export async function recordCheckIn(
+  eventId: string,
+  attendee: DoorAttendee,
+  queue: QueuedCheckIn[]
+): Promise<QueuedCheckIn[]> {
+  const next: QueuedCheckIn[] = [
+    {
+      ticketId: attendee.ticketId,
+      accessKey: attendee.accessKey,
+      name: attendee.name,
+      scannedAt: new Date().toISOString(),
+      syncState: 'pending',
+    },
+    ...queue,
+  ];
+  await saveCheckInQueue(eventId, next);
+  return next;
+}
+
+/**
+ * Push pending check-ins, oldest first. A rejection from the backend is a conflict
+ * (e.g. the same ticket was scanned on another device first); a missing response means offline.
+ */
+export async function syncCheckIns(eventId: string, queue: QueuedCheckIn[]): Promise<SyncResult> {
+  const next = [...queue];
+  let synced = 0;
+  let conflicts = 0;
+  let offline = false;
+
+  const pendingOldestFirst = next
+    .map((c, index) => ({ c, index }))
+    .filter(({ c }) => c.syncState === 'pending')
+    .reverse();
+
+  for (const { c, index } of pendingOldestFirst) {
+    try {
+      await ticketsAPI.updateTicketStatusByKey({ accessKey: c.accessKey, status: 'used' });
+      next[index] = { ...c, syncState: 'synced', syncedAt: new Date().toISOString() };
+      synced += 1;
+    } catch (err: any) {
+      if (!err?.response) {
+        offline = true;
+        break;
+      }
+      next[index] = {
+        ...c,
+        syncState: 'conflict',
+        conflictReason: err.response.data?.message || 'Rejected by server',
+      };
+      conflicts += 1;
+    }
+  }
+
+  // Keep check-ins recorded while this sync was running
+  const latest = await loadCheckInQueue(eventId);
+  const known = new Set(next.map((c) => c.accessKey));
+  const merged = [...latest.filter((c) => !known.has(c.accessKey)), ...next];
+
+  await saveCheckInQueue(eventId, merged);
+  return { queue: merged, offline, synced, conflicts };
+}
+
+/** Checked-in (server + this device) vs tickets allowed in (confirmed + used). */
+export function getDoorCounts(
+  snapshot: AttendeeSnapshot | null,
+  queue: QueuedCheckIn[]
+): { checkedIn: number; confirmed: number; pending: number } {
+  const pending = queue.filter((c) => c.syncState === 'pending').length;
+  if (!snapshot) return { checkedIn: 0, confirmed: 0, pending };
+  // Snapshot may predate this device's check-ins (synced or not) until it is re-downloaded
+  const localKeys = new Set(queue.map((c) => c.accessKey));
+  let checkedIn = 0;
+  let confirmed = 0;
+  for (const a of snapshot.attendees) {
+    if (a.status === 'used') {
+      checkedIn += 1;
+      confirmed += 1;
+    } else if (a.status === 'confirmed') {
+      confirmed += 1;
+      if (localKeys.has(a.accessKey)) checkedIn += 1;
+    }
+  }
+  return { checkedIn, confirmed, pending };
+}
@@ -0,0 +1,149 @@
+import type { GuestImportRow, RegistrationQuestion } from '@/lib/api/events';
+import type { Payment } from '@/lib/api/payments';
+import type { RegistrationAnswers } from '@/lib/api/tickets';
+import { parseCsv, shareCsv, toCsv, type CsvCell } from '@/lib/utils/csvUtils';
+import { PAYMENT_STATUS_LABELS } from '@/lib/utils/paymentUtils';
+import { shareXlsx } from '@/lib/utils/xlsxUtils';
+import { formatAnswer } from '@/lib/utils/registrationQuestionUtils';
+
+export type AttendeeExportFormat = 'csv' | 'xlsx';
+
+/** Fields of an organizer ticket (getTicketsByEventId) used in attendee exports */
+export interface AttendeeTicket {
+  username: string;
+  email: string;
+  phone: string;
+  status: string;
+  accessKey?: string;
+  createdAt: string;
+  scannedAt?: string | null;
+  paymentStatus?: Payment['status'] | null;
+  tier?: { name: string } | null;
+  user?: { fullName: string; username?: string } | null;
+  answers?: RegistrationAnswers | null;
+}
+
+const TICKET_STATUS_LABELS: Record<string, string> = {
+  pending_payment: 'Pending payment',
+  payment_in_review: 'In review',
+  confirmed: 'Confirmed',
+  used: 'Used',
+  cancelled: 'Cancelled',
+};
+
+const HEADER = [
+  'Name',
+  'Username',
+  'Email',
+  'Phone',
+  'Tier',
+  'Status',
+  'Ticket #',
+  'Registered',
+  'Checked in',
+  'Payment',
+];
+
+function formatTimestamp(iso?: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? '' : d.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** Backend payment status when present, otherwise inferred from the ticket status */
+function getPaymentLabel(ticket: AttendeeTicket): string {
+  if (ticket.paymentStatus) return PAYMENT_STATUS_LABELS[ticket.paymentStatus] || ticket.paymentStatus;
+  if (ticket.status === 'pending_payment') return 'Not submitted';
+  if (ticket.status === 'payment_in_review') return PAYMENT_STATUS_LABELS.pending;
+  return '';
+}
+
+/** One extra column per registration question, after the fixed ones */
+export function attendeesToRows(tickets: AttendeeTicket[], questions: RegistrationQuestion[] = []): CsvCell[][] {
+  return [
+    [...HEADER, ...questions.map((q) => q.label)],
+    ...tickets.map((t) => [
+      t.user?.fullName || t.username,
+      t.user?.username ?? '',
+      t.email,
+      t.phone,
+      t.tier?.name ?? '',
+      TICKET_STATUS_LABELS[t.status] || t.status,
+      t.accessKey ?? '',
+      formatTimestamp(t.createdAt),
+      formatTimestamp(t.scannedAt),
+      getPaymentLabel(t),
+      ...questions.map((q) => formatAnswer(t.answers?.[q.id])),
+    ]),
+  ];
+}
+
+/** CSV for other tools and re-import, XLSX for Excel / Numbers / Google Sheets */
+export async function shareAttendees(
+  tickets: AttendeeTicket[],
+  format: AttendeeExportFormat,
+  filename: string,
+  questions: RegistrationQuestion[] = []
+): Promise<void> {
+  const rows = attendeesToRows(tickets, questions);
+  if (format === 'xlsx') return shareXlsx(filename, rows, 'Export attendees', 'Attendees');
+  return shareCsv(filename, toCsv(rows), 'Export attendees');
+}
+
+export interface GuestCsvParseResult {
+  guests: GuestImportRow[];
+  /** Rows that can't be imported, 1-based excluding the header */
+  errors: { row: number; message: string }[];
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Accepted header names per field (lowercased, spaces/underscores removed)
+const GUEST_COLUMNS: Record<keyof GuestImportRow, string[]> = {
+  fullName: ['name', 'fullname', 'guest', 'guestname'],
+  email: ['email', 'emailaddress', 'mail'],
+  phone: ['phone', 'phonenumber', 'mobile'],
+  tier: ['tier', 'tickettier', 'ticket'],
+};
+
+/**
+ * Guest list CSV with a header row (name, email, optional phone and tier; any order).
+ * Without a recognisable header the columns are read as name, email, phone, tier.
+ */
+export function parseGuestCsv(text: string): GuestCsvParseResult {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { guests: [], errors: [{ row: 0, message: 'The file is empty' }] };
+
+  const normalized = rows[0].map((h) => h.toLowerCase().replace(/[\s_-]+/g, ''));
+  const indexOf = (field: keyof GuestImportRow) => normalized.findIndex((h) => GUEST_COLUMNS[field].includes(h));
+  const hasHeader = indexOf('email') !== -1;
+  const columns = hasHeader
+    ? { fullName: indexOf('fullName'), email: indexOf('email'), phone: indexOf('phone'), tier: indexOf('tier') }
+    : { fullName: 0, email: 1, phone: 2, tier: 3 };
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const guests: GuestImportRow[] = [];
+  const errors: GuestCsvParseResult['errors'] = [];
+  const seen = new Set<string>();
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    const email = cell(row, columns.email).toLowerCase();
+    const fullName = cell(row, columns.fullName) || email.split('@')[0];
+    if (!EMAIL_REGEX.test(email)) {
+      errors.push({ row: rowNumber, message: email ? `Invalid email "${email}"` : 'Missing email' });
+      return;
+    }
+    if (seen.has(email)) {
+      errors.push({ row: rowNumber, message: `Duplicate email "${email}"` });
+      return;
+    }
+    seen.add(email);
+    const phone = cell(row, columns.phone);
+    const tier = cell(row, columns.tier);
+    guests.push({ fullName, email, ...(phone ? { phone } : {}), ...(tier ? { tier } : {}) });
+  });
+
+  return { guests, errors };
+}
@@ -0,0 +1,199 @@
+import { File, Paths } from 'expo-file-system';
+import * as Linking from 'expo-linking';
+import * as Sharing from 'expo-sharing';
+import type { EventOccurrence } from '@/lib/api/events';
+import type { Ticket } from '@/lib/api/tickets';
+import { getTicketSession } from '@/lib/utils/recurrenceUtils';
+
+/** One VEVENT in an .ics file */
+export interface IcsEventInput {
+  /** Stable id so re-imports update instead of duplicating */
+  uid: string;
+  title: string;
+  /** Event date (ISO or YYYY-MM-DD) */
+  date: string;
+  /** "HH:mm"; all-day when missing or unparsable */
+  time?: string | null;
+  /** Last day of multi-day events */
+  endDate?: string | null;
+  /** "HH:mm" end; without endDate / endTime the event lasts durationMinutes */
+  endTime?: string | null;
+  location?: string | null;
+  description?: string | null;
+  /** Deep link back into the app (ticket or event) */
+  url?: string | null;
+  durationMinutes?: number;
+}
+
+interface BuildIcsOptions {
+  calendarName?: string;
+  /** Reminder before start; null for no alarm */
+  alarmMinutesBefore?: number | null;
+}
+
+const DEFAULT_DURATION_MINUTES = 120;
+const DEFAULT_ALARM_MINUTES = 60;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function formatUtc(d: Date): string {
+  return (
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`
+  );
+}
+
+function formatDateOnly(d: Date): string {
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+}
+
+/** RFC 5545 text escaping */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold lines longer than 75 octets (approximated by characters) */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const chunks: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) chunks.push(` ${line.slice(i, i + 74)}`);
+  return chunks.join('\r\n');
+}
+
+/** Local start time from the event's date + "HH:mm" time; null time means all-day. */
+function getEventStart(date: string, time?: string | null): { start: Date; allDay: boolean } | null {
+  // Dates are stored as midnight UTC; read the calendar day from the string so it doesn't shift by timezone
+  const ymd = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const day = ymd ? new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) : new Date(date);
+  if (isNaN(day.getTime())) return null;
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return { start: day, allDay: true };
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Number(match[1]), Number(match[2]));
+  return { start, allDay: false };
+}
+
+export function buildIcs(events: IcsEventInput[], options: BuildIcsOptions = {}): string {
+  const alarm = options.alarmMinutesBefore === undefined ? DEFAULT_ALARM_MINUTES : options.alarmMinutesBefore;
+  const stamp = formatUtc(new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Spectrum Link//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+
+  for (const ev of events) {
+    const parsed = getEventStart(ev.date, ev.time);
+    if (!parsed) continue;
+    lines.push('BEGIN:VEVENT', `UID:${ev.uid}`, `DTSTAMP:${stamp}`);
+    if (parsed.allDay) {
+      const lastDay = ev.endDate ? getEventStart(ev.endDate)?.start : null;
+      const next = new Date(lastDay && lastDay > parsed.start ? lastDay : parsed.start);
+      next.setDate(next.getDate() + 1);
+      lines.push(`DTSTART;VALUE=DATE:${formatDateOnly(parsed.start)}`, `DTEND;VALUE=DATE:${formatDateOnly(next)}`);
+    } else {
+      // A set end date without an end time runs to the end of that day (as in the create form)
+      const scheduledEnd =
+        ev.endDate || ev.endTime ? getEventStart(ev.endDate || ev.date, ev.endTime || '23:59')?.start : null;
+      const end =
+        scheduledEnd && scheduledEnd > parsed.start
+          ? scheduledEnd
+          : new Date(parsed.start.getTime() + (ev.durationMinutes ?? DEFAULT_DURATION_MINUTES) * 60000);
+      lines.push(`DTSTART:${formatUtc(parsed.start)}`, `DTEND:${formatUtc(end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(ev.title)}`);
+    if (ev.location) lines.push(`LOCATION:${escapeText(ev.location)}`);
+    const description = [ev.description, ev.url ? `Open in app: ${ev.url}` : null].filter(Boolean).join('\n\n');
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (ev.url) lines.push(`URL:${ev.url}`);
+    if (alarm != null) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(ev.title)}`,
+        `TRIGGER:-PT${alarm}M`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n');
+}
+
+interface CalendarEventSource {
+  _id: string;
+  title: string;
+  description?: string;
+  date: string;
+  time?: string;
+  endDate?: string | null;
+  endTime?: string | null;
+  location?: string;
+}
+
+/** Calendar entry for an event page (links to event-details); recurring events use the picked session */
+export function eventToIcsEvent(
+  event: CalendarEventSource,
+  occurrence?: Pick<EventOccurrence, '_id' | 'date' | 'time' | 'endDate' | 'endTime' | 'location'> | null
+): IcsEventInput {
+  return {
+    uid: occurrence ? `event-${event._id}-${occurrence._id}@spectrumlink` : `event-${event._id}@spectrumlink`,
+    title: event.title,
+    date: occurrence?.date ?? event.date,
+    time: occurrence ? occurrence.time : event.time,
+    endDate: occurrence ? occurrence.endDate : event.endDate,
+    endTime: occurrence ? occurrence.endTime : event.endTime,
+    location: occurrence?.location || event.location,
+    description: event.description,
+    url: Linking.createURL(`/event-details/${event._id}`),
+  };
+}
+
+/** Calendar entry for a ticket (links to the ticket so the QR is one tap away) */
+export function ticketToIcsEvent(ticket: Ticket): IcsEventInput {
+  const session = getTicketSession(ticket);
+  return {
+    ...eventToIcsEvent(ticket.event),
+    date: session.date,
+    time: session.time,
+    endDate: session.endDate,
+    endTime: session.endTime,
+    location: session.location,
+    uid: `ticket-${ticket.id}@spectrumlink`,
+    description: [ticket.tier?.name ? `Ticket: ${ticket.tier.name}` : null, ticket.event.description]
+      .filter(Boolean)
+      .join('\n\n'),
+    url: Linking.createURL(`/ticket/${ticket.id}`),
+  };
+}
+
+/** One calendar with every joined event (cancelled tickets are left out) */
+export function buildMyTicketsIcs(tickets: Ticket[]): string {
+  const active = tickets.filter((t) => t.status !== 'cancelled' && t.event?._id);
+  return buildIcs(active.map(ticketToIcsEvent), { calendarName: 'My Events' });
+}
+
+/** Write the calendar to the cache dir and open the share sheet (Calendar, Mail, Files...). */
+export async function shareIcs(filename: string, ics: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const safeName = filename.replace(/[^a-z0-9_-]+/gi, '_').slice(0, 60) || 'event';
+  const file = new File(Paths.cache, `${safeName}.ics`);
+  file.create({ overwrite: true });
+  file.write(ics);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Add to calendar',
+  });
+}
+
+/** https feed URL -> webcal:// so calendar apps subscribe instead of downloading once */
+export function toWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://');
+}
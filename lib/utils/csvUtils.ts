@@ -0,0 +1,81 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run text starting with these as a formula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Phone numbers ("+92 300 1234567") and negative numbers start with + / - but can't run anything
+const NUMBER_LIKE = /^[+-]?[\d\s().-]+$/;
+
+function escapeCell(value: CsvCell): string {
+  if (value == null) return '';
+  // Attendee-entered text is neutralised with a leading ' so it opens as plain text
+  const text =
+    typeof value === 'string' && FORMULA_PREFIX.test(value) && !NUMBER_LIKE.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV; CRLF line endings so Excel opens it without an import dialog */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/** Parse CSV text (quoted fields, escaped quotes, CRLF/LF); blank lines are dropped */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+export function safeFilename(name: string, fallback = 'export'): string {
+  return name.replace(/[^a-z0-9_-]+/gi, '_').slice(0, 60) || fallback;
+}
+
+/** Write to the cache directory and open the share sheet */
+export async function shareCsv(filename: string, csv: string, dialogTitle = 'Export'): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const file = new File(Paths.cache, `${safeFilename(filename)}.csv`);
+  file.create({ overwrite: true });
+  // BOM so Excel reads UTF-8 names correctly
+  file.write(`\uFEFF${csv}`);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle,
+  });
+}
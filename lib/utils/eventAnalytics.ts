@@ -0,0 +1,67 @@
+import type { EventAnalytics } from '@/lib/api/events';
+import { toCsv, type CsvCell } from '@/lib/utils/csvUtils';
+import { formatPaymentMethod } from '@/lib/utils/paymentUtils';
+
+/** 0-100, rounded; 0 when there is nothing to divide by */
+export function percentOf(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+/** "Mar 4" from YYYY-MM-DD without a timezone shift */
+export function formatDayLabel(ymd: string): string {
+  const m = ymd.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!m) return ymd;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function formatHourLabel(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric' });
+}
+
+/**
+ * Every section of the dashboard as one CSV, one block per chart separated by a blank row,
+ * so it opens readably in a spreadsheet.
+ */
+export function buildAnalyticsCsv(analytics: EventAnalytics, eventTitle: string): string {
+  const { funnel, checkIns, genderSplit, currency } = analytics;
+  const rows: CsvCell[][] = [
+    ['Event', eventTitle],
+    ['Currency', currency],
+    [],
+    ['Sales by day'],
+    ['Date', 'Tickets', 'Revenue'],
+    ...analytics.salesByDay.map((d) => [d.date, d.tickets, d.revenue]),
+    [],
+    ['Revenue by tier'],
+    ['Tier', 'Tickets', 'Revenue'],
+    ...analytics.revenueByTier.map((t) => [t.name, t.tickets, t.revenue]),
+    [],
+    ['Revenue by method'],
+    ['Method', 'Payments', 'Revenue'],
+    ...analytics.revenueByMethod.map((m) => [formatPaymentMethod(m.method), m.payments, m.revenue]),
+    [],
+    ['Conversion'],
+    ['Step', 'Count', '% of views'],
+    ['Views', funnel.views, 100],
+    ['Likes', funnel.likes, percentOf(funnel.likes, funnel.views)],
+    ['Registrations', funnel.registrations, percentOf(funnel.registrations, funnel.views)],
+    ['Confirmed', funnel.confirmed, percentOf(funnel.confirmed, funnel.views)],
+    [],
+    ['Check-ins'],
+    ['Checked in', checkIns.checkedIn],
+    ['Eligible', checkIns.eligible],
+    ['Rate %', percentOf(checkIns.checkedIn, checkIns.eligible)],
+    ['Hour', 'Scans'],
+    ...checkIns.byHour.map((h) => [h.hour, h.count]),
+    [],
+    ['Gender'],
+    ['Male', genderSplit.male],
+    ['Female', genderSplit.female],
+    ['Other', genderSplit.other],
+    ['Not specified', genderSplit.unknown],
+  ];
+  return toCsv(rows);
+}
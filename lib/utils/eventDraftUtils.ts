@@ -0,0 +1,328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { eventDraftsAPI } from '@/lib/api/eventDrafts';
+import type { Event, TicketTheme } from '@/lib/api/events';
+import { getEventImageUrl } from '@/lib/utils/imageUtils';
+import {
+  agendaFromEvent,
+  createAgendaItemFormData,
+  createSpeakerFormData,
+  speakersFromEvent,
+  type AgendaItemFormData,
+  type SpeakerFormData,
+} from '@/lib/utils/eventProgramUtils';
+import { createRecurrenceFormData, type RecurrenceFormData } from '@/lib/utils/recurrenceUtils';
+import { createRefundPolicyFormData, type RefundPolicyFormData } from '@/lib/utils/refundUtils';
+import { createSalesWindowFormData, type SalesWindowFormData } from '@/lib/utils/salesWindowUtils';
+import { createTierFormData, tiersFromEvent, type TierFormData } from '@/lib/utils/ticketTierUtils';
+
+/** Create event form state; also the shape of local / server drafts and of saved templates */
+export interface EventFormData {
+  // Step 1 - Event Details
+  eventName: string;
+  eventDate: Date | null;
+  eventTime: string; // "HH:mm"
+  /** Multi-day events; null = ends the same day */
+  endDate: Date | null;
+  endTime: string; // "HH:mm" or '' when not set
+  recurrence: RecurrenceFormData;
+  address: string;
+  category: string;
+  genderSelection: string;
+  /** Markdown subset (headings, lists, bold / italic, links) */
+  description: string;
+  agenda: AgendaItemFormData[];
+  speakers: SpeakerFormData[];
+  imageUri: string | null;
+  imageUrl: string | null; // for preview display
+  imagePath: string | null; // relative path for API (e.g. /uploads/events/xxx.jpg)
+  // Step 2 - Payment and Ticket
+  eventType: 'paid' | 'free';
+  /** Paid events: one or more tiers (General, VIP, Early Bird...) */
+  tiers: TierFormData[];
+  currency: string;
+  refundPolicy: RefundPolicyFormData;
+  salesWindow: SalesWindowFormData;
+  /** Copied from a duplicated event or template; the create form has no theme editor */
+  ticketTheme: TicketTheme | null;
+}
+
+/** Working copy of the form being edited in Create Event (synced to a server draft when logged in) */
+export const CREATE_EVENT_DRAFT_KEY = 'ticketly_create_event_draft';
+const EVENT_TEMPLATES_KEY = 'ticketly_event_templates';
+
+export type DraftData = Omit<EventFormData, 'eventDate' | 'endDate'> & {
+  eventDate: string | null;
+  endDate: string | null;
+  step: 1 | 2;
+  /** Local working copy only: server draft it syncs to; absent = not uploaded yet */
+  draftId?: string | null;
+};
+/** Drafts saved before ticket tiers existed carry a flat price and ticket count */
+type LegacyDraftFields = { ticketPrice?: string; totalTickets?: string };
+
+export interface EventTemplate {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** Form without dates; a new date is picked every time the template is used */
+  draft: DraftData;
+}
+
+export function createEventFormData(): EventFormData {
+  return {
+    eventName: '',
+    eventDate: null,
+    eventTime: '18:00',
+    endDate: null,
+    endTime: '',
+    recurrence: createRecurrenceFormData(),
+    address: '',
+    category: 'Other',
+    genderSelection: 'All',
+    description: '',
+    agenda: [],
+    speakers: [],
+    imageUri: null,
+    imageUrl: null,
+    imagePath: null,
+    eventType: 'free',
+    tiers: [createTierFormData()],
+    currency: 'PKR',
+    refundPolicy: createRefundPolicyFormData(),
+    salesWindow: createSalesWindowFormData(),
+    ticketTheme: null,
+  };
+}
+
+export function toImagePath(urlOrPath: string): string | null {
+  if (!urlOrPath) return null;
+  if (urlOrPath.startsWith('/')) return urlOrPath; // Already a path
+  try {
+    return new URL(urlOrPath).pathname || null;
+  } catch {
+    const i = urlOrPath.indexOf('/uploads');
+    return i !== -1 ? urlOrPath.substring(i) : urlOrPath;
+  }
+}
+
+/** "food & drink" -> "Food & Drink" (API stores categories lowercased) */
+function categoryForDisplay(apiCategory?: string): string {
+  if (!apiCategory?.trim()) return 'Other';
+  return apiCategory.trim().replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+export function serializeDraft(formData: EventFormData, step: 1 | 2, draftId?: string | null): DraftData {
+  return {
+    ...formData,
+    eventDate: formData.eventDate ? formData.eventDate.toISOString() : null,
+    endDate: formData.endDate ? formData.endDate.toISOString() : null,
+    step,
+    ...(draftId !== undefined && { draftId }),
+  };
+}
+
+export function deserializeDraft(
+  raw: DraftData & LegacyDraftFields
+): { formData: EventFormData; step: 1 | 2; draftId: string | null } | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const parseDate = (value?: string | null) => {
+    if (!value) return null;
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : d;
+  };
+  const eventDate = parseDate(raw.eventDate);
+  const step = raw.step === 1 || raw.step === 2 ? raw.step : 1;
+  return {
+    formData: {
+      eventName: String(raw.eventName ?? ''),
+      eventDate,
+      eventTime: String(raw.eventTime ?? '18:00'),
+      endDate: parseDate(raw.endDate),
+      endTime: String(raw.endTime ?? ''),
+      recurrence: raw.recurrence && typeof raw.recurrence === 'object'
+        ? { ...createRecurrenceFormData(), ...raw.recurrence }
+        : createRecurrenceFormData(),
+      address: String(raw.address ?? ''),
+      category: String(raw.category ?? 'Other'),
+      genderSelection: String(raw.genderSelection ?? 'All'),
+      description: String(raw.description ?? ''),
+      agenda: Array.isArray(raw.agenda) ? raw.agenda.map((item) => createAgendaItemFormData(item)) : [],
+      speakers: Array.isArray(raw.speakers) ? raw.speakers.map((speaker) => createSpeakerFormData(speaker)) : [],
+      imageUri: raw.imageUri ?? null,
+      imageUrl: raw.imageUrl ?? null,
+      imagePath: raw.imagePath ?? null,
+      eventType: raw.eventType === 'paid' ? 'paid' : 'free',
+      tiers: Array.isArray(raw.tiers) && raw.tiers.length > 0
+        ? raw.tiers.map((t) => createTierFormData(t))
+        : tiersFromEvent({
+            ticketPrice: Number(raw.ticketPrice) || 0,
+            totalTickets: parseInt(String(raw.totalTickets ?? '100'), 10) || 100,
+          }),
+      currency: String(raw.currency ?? 'PKR'),
+      refundPolicy: raw.refundPolicy && typeof raw.refundPolicy === 'object'
+        ? { ...createRefundPolicyFormData(), ...raw.refundPolicy }
+        : createRefundPolicyFormData(),
+      salesWindow: raw.salesWindow && typeof raw.salesWindow === 'object'
+        ? { ...createSalesWindowFormData(), ...raw.salesWindow }
+        : createSalesWindowFormData(),
+      ticketTheme: raw.ticketTheme && typeof raw.ticketTheme === 'object' ? raw.ticketTheme : null,
+    },
+    step,
+    draftId: typeof raw.draftId === 'string' ? raw.draftId : null,
+  };
+}
+
+/** Name shown in the Drafts list */
+export function getDraftName(formData: Pick<EventFormData, 'eventName'>): string {
+  return formData.eventName.trim() || 'Untitled event';
+}
+
+/** Nothing typed yet; such drafts are not uploaded */
+export function isDraftEmpty(formData: EventFormData): boolean {
+  const defaultTier = createTierFormData();
+  const tiersUntouched =
+    formData.tiers.length <= 1 &&
+    formData.tiers.every(
+      (t) =>
+        t.name === defaultTier.name &&
+        t.capacity === defaultTier.capacity &&
+        !t.price.trim() &&
+        !t.description.trim()
+    );
+  return (
+    !formData.eventName.trim() &&
+    !formData.description.trim() &&
+    !formData.address.trim() &&
+    !formData.imageUri &&
+    !formData.eventDate &&
+    formData.agenda.length === 0 &&
+    formData.speakers.length === 0 &&
+    tiersUntouched
+  );
+}
+
+/** Creates or updates the server draft; returns its id. A draft deleted on another device is recreated. */
+export async function syncDraftToServer(
+  formData: EventFormData,
+  step: 1 | 2,
+  draftId: string | null
+): Promise<string> {
+  // imageUri may be a file:// path on this device; other devices can only show the uploaded image
+  const payload = {
+    name: getDraftName(formData),
+    data: serializeDraft({ ...formData, imageUri: formData.imageUrl }, step),
+  };
+  if (draftId) {
+    try {
+      const response = await eventDraftsAPI.updateDraft(draftId, payload);
+      return response.draft._id;
+    } catch (err: any) {
+      if (err?.response?.status !== 404) throw err;
+    }
+  }
+  const response = await eventDraftsAPI.createDraft(payload);
+  return response.draft._id;
+}
+
+/**
+ * Uploads a local working draft that has no server copy yet (drafts saved before server sync,
+ * or edited while logged out) and links it; returns the server id, or null when there is nothing to upload.
+ */
+export async function migrateLocalDraft(): Promise<string | null> {
+  const raw = await AsyncStorage.getItem(CREATE_EVENT_DRAFT_KEY);
+  if (!raw) return null;
+  const restored = deserializeDraft(JSON.parse(raw));
+  if (!restored || restored.draftId || isDraftEmpty(restored.formData)) return restored?.draftId ?? null;
+  const draftId = await syncDraftToServer(restored.formData, restored.step, null);
+  await AsyncStorage.setItem(CREATE_EVENT_DRAFT_KEY, JSON.stringify(serializeDraft(restored.formData, restored.step, draftId)));
+  return draftId;
+}
+
+/**
+ * Create form pre-filled from an existing event. Dates, repeat end, refund cutoff and the
+ * publish / sales window are cleared so the organizer picks new ones; tiers lose their ids so they are created fresh.
+ */
+export function eventToFormData(event: Event): EventFormData {
+  const hasTiers = Array.isArray(event.ticketTiers) && event.ticketTiers.length > 0;
+  const price = event.price?.price;
+  const isFree = !hasTiers && (price === 'free' || price === null || price === undefined) && !event.ticketPrice;
+  const imageUrl = getEventImageUrl(event);
+  const recurrence = createRecurrenceFormData(event.recurrence);
+  return {
+    ...createEventFormData(),
+    eventName: event.title || '',
+    eventTime: event.time || '18:00',
+    endTime: event.endTime || '',
+    recurrence: { ...recurrence, until: null, dates: [] },
+    address: event.location || '',
+    category: categoryForDisplay(event.category),
+    genderSelection: event.gender ? event.gender.charAt(0).toUpperCase() + event.gender.slice(1) : 'All',
+    description: event.description || '',
+    agenda: agendaFromEvent(event),
+    speakers: speakersFromEvent(event),
+    imageUri: imageUrl,
+    imageUrl,
+    imagePath: toImagePath(event.imageUrl || event.image || ''),
+    eventType: isFree ? 'free' : 'paid',
+    tiers: tiersFromEvent(event).map((tier) => ({ ...tier, id: undefined, salesStart: null, salesEnd: null })),
+    currency: event.ticketTiers?.[0]?.currency || 'PKR',
+    refundPolicy: { ...createRefundPolicyFormData(event.refundPolicy), cutoffDate: null },
+    ticketTheme: event.ticketTheme ?? null,
+  };
+}
+
+/** Called after deleting a server draft so the create screen doesn't upload its local copy again */
+export async function forgetLocalDraft(draftId: string): Promise<void> {
+  const raw = await AsyncStorage.getItem(CREATE_EVENT_DRAFT_KEY);
+  if (!raw) return;
+  if (deserializeDraft(JSON.parse(raw))?.draftId === draftId) await AsyncStorage.removeItem(CREATE_EVENT_DRAFT_KEY);
+}
+
+/**
+ * Makes a copy of the event the local working draft (opened by the create screen).
+ * The draft being replaced is uploaded first so it stays in Drafts; throws (nothing replaced) when that fails.
+ */
+export async function duplicateEventAsDraft(event: Event): Promise<void> {
+  // The working copy is only replaced once it is safe in Drafts; offline an unsynced draft would be lost
+  try {
+    await migrateLocalDraft();
+  } catch (err) {
+    console.error('Failed to upload local draft:', err);
+    throw new Error(
+      "Your current draft couldn't be saved to Drafts. Connect to the internet and try again, or finish or discard that draft first."
+    );
+  }
+  const draft = serializeDraft(eventToFormData(event), 1, null);
+  await AsyncStorage.setItem(CREATE_EVENT_DRAFT_KEY, JSON.stringify(draft));
+}
+
+export async function getEventTemplates(): Promise<EventTemplate[]> {
+  try {
+    const raw = await AsyncStorage.getItem(EVENT_TEMPLATES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Saves (or replaces, by name) a template; returns the updated list, newest first */
+export async function saveEventTemplate(name: string, formData: EventFormData): Promise<EventTemplate[]> {
+  const trimmed = name.trim();
+  const template: EventTemplate = {
+    id: `${Date.now()}`,
+    name: trimmed,
+    createdAt: new Date().toISOString(),
+    draft: serializeDraft({ ...formData, eventDate: null, endDate: null }, 1),
+  };
+  const existing = await getEventTemplates();
+  const next = [template, ...existing.filter((t) => t.name.toLowerCase() !== trimmed.toLowerCase())];
+  await AsyncStorage.setItem(EVENT_TEMPLATES_KEY, JSON.stringify(next));
+  return next;
+}
+
+export async function deleteEventTemplate(id: string): Promise<EventTemplate[]> {
+  const next = (await getEventTemplates()).filter((t) => t.id !== id);
+  await AsyncStorage.setItem(EVENT_TEMPLATES_KEY, JSON.stringify(next));
+  return next;
+}
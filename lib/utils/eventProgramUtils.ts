@@ -0,0 +1,125 @@
+import type { AgendaItem, Event, EventSpeaker } from '@/lib/api/events';
+
+/** Agenda slot as edited in create/edit event forms ('' = not set) */
+export interface AgendaItemFormData {
+  /** Stable local key for list rendering; also sent as the id */
+  key: string;
+  time: string;
+  endTime: string;
+  title: string;
+  description: string;
+}
+
+/** Speaker / performer as edited in create/edit event forms */
+export interface SpeakerFormData {
+  key: string;
+  name: string;
+  /** Uploaded image path (null = initials avatar) */
+  photo: string | null;
+  bio: string;
+  link: string;
+}
+
+export const MAX_AGENDA_ITEMS = 30;
+export const MAX_SPEAKERS = 20;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+let programKeyCounter = 0;
+function nextProgramKey(prefix: string): string {
+  programKeyCounter += 1;
+  return `${prefix}_${Date.now()}_${programKeyCounter}`;
+}
+
+export function createAgendaItemFormData(overrides: Partial<AgendaItemFormData> = {}): AgendaItemFormData {
+  return { key: nextProgramKey('a'), time: '', endTime: '', title: '', description: '', ...overrides };
+}
+
+export function createSpeakerFormData(overrides: Partial<SpeakerFormData> = {}): SpeakerFormData {
+  return { key: nextProgramKey('s'), name: '', photo: null, bio: '', link: '', ...overrides };
+}
+
+export function agendaFromEvent(event: Pick<Event, 'agenda'>): AgendaItemFormData[] {
+  return (event.agenda ?? []).map((item) =>
+    createAgendaItemFormData({
+      key: item.id,
+      time: item.time,
+      endTime: item.endTime ?? '',
+      title: item.title,
+      description: item.description ?? '',
+    })
+  );
+}
+
+export function speakersFromEvent(event: Pick<Event, 'speakers'>): SpeakerFormData[] {
+  return (event.speakers ?? []).map((speaker) =>
+    createSpeakerFormData({
+      key: speaker.id,
+      name: speaker.name,
+      photo: speaker.photo ?? null,
+      bio: speaker.bio ?? '',
+      link: speaker.link ?? '',
+    })
+  );
+}
+
+/** Minutes since midnight for "HH:mm" (or "H:mm"); null when malformed */
+function toMinutes(time: string): number | null {
+  if (!TIME_PATTERN.test(time.trim())) return null;
+  const [h, m] = time.trim().split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** Per-slot validation; returns errors keyed by item key (empty object when valid). */
+export function validateAgenda(items: AgendaItemFormData[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const item of items) {
+    const start = toMinutes(item.time);
+    if (!item.title.trim()) errors[item.key] = 'Title is required';
+    else if (start === null) errors[item.key] = 'Start time must be HH:mm (e.g. 09:30)';
+    else if (item.endTime.trim()) {
+      const end = toMinutes(item.endTime);
+      if (end === null) errors[item.key] = 'End time must be HH:mm (e.g. 10:15)';
+      else if (end <= start) errors[item.key] = 'End time must be after the start time';
+    }
+  }
+  return errors;
+}
+
+export function validateSpeakers(speakers: SpeakerFormData[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const speaker of speakers) {
+    if (!speaker.name.trim()) errors[speaker.key] = 'Name is required';
+    else if (speaker.link.trim() && !/^https?:\/\/\S+$/i.test(speaker.link.trim())) errors[speaker.key] = 'Link must start with http:// or https://';
+  }
+  return errors;
+}
+
+/** Sorted by start time ("09:00" sorts before "10:00"; single-digit hours are padded) */
+export function agendaToApi(items: AgendaItemFormData[]): AgendaItem[] {
+  const pad = (time: string) => (time.trim().length === 4 ? `0${time.trim()}` : time.trim());
+  return items
+    .map((item) => ({
+      id: item.key,
+      time: pad(item.time),
+      endTime: item.endTime.trim() ? pad(item.endTime) : null,
+      title: item.title.trim(),
+      description: item.description.trim() || null,
+    }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+export function speakersToApi(speakers: SpeakerFormData[]): EventSpeaker[] {
+  return speakers.map((speaker) => ({
+    id: speaker.key,
+    name: speaker.name.trim(),
+    photo: speaker.photo,
+    bio: speaker.bio.trim() || null,
+    link: speaker.link.trim() || null,
+  }));
+}
+
+/** "09:00 – 10:15" or "09:00" */
+export function formatAgendaTime(item: Pick<AgendaItem, 'time' | 'endTime'>): string {
+  return item.endTime ? `${item.time} – ${item.endTime}` : item.time;
+}
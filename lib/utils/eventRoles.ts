@@ -0,0 +1,52 @@
+import type { Event } from '@/lib/api/events';
+import type { EventRole, EventTeamRole } from '@/lib/api/eventTeam';
+
+export type EventPermission =
+  | 'edit'
+  | 'view_attendees'
+  | 'scan'
+  | 'message'
+  | 'analytics'
+  | 'payments'
+  | 'manage_team'
+  | 'cancel';
+
+export const EVENT_ROLE_LABELS: Record<EventRole, string> = {
+  owner: 'Owner',
+  co_organizer: 'Co-organizer',
+  scanner: 'Door staff',
+  finance: 'Finance',
+};
+
+export const EVENT_ROLE_DESCRIPTIONS: Record<EventTeamRole, string> = {
+  co_organizer: 'Edit the event and manage attendees',
+  scanner: 'Scan tickets at the door',
+  finance: 'Review payments and refunds',
+};
+
+export const EVENT_TEAM_ROLES: EventTeamRole[] = ['co_organizer', 'scanner', 'finance'];
+
+const ROLE_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  // Cancelling / postponing refunds and notifies every holder, so it stays with the owner
+  owner: ['edit', 'view_attendees', 'scan', 'message', 'analytics', 'payments', 'manage_team', 'cancel'],
+  co_organizer: ['edit', 'view_attendees', 'scan', 'message', 'analytics'],
+  scanner: ['scan'],
+  finance: ['payments'],
+};
+
+/**
+ * Backend myRole when present, otherwise owner if the user created the event; null = no access.
+ * An event without a populated creator grants nothing here: callers confirm ownership another way
+ * (the created event screen checks the user's own /events/my list).
+ */
+export function getEventRole(event: Event | null | undefined, userId?: string | null): EventRole | null {
+  if (!event) return null;
+  if (event.myRole) return event.myRole;
+  if (!event.createdBy) return null;
+  const creatorId = event.createdBy._id || event.createdBy.id;
+  return userId && creatorId === userId ? 'owner' : null;
+}
+
+export function hasEventPermission(role: EventRole | null | undefined, permission: EventPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,111 @@
+import type { Event, PostponeEventRequest, RefundPolicy } from '@/lib/api/events';
+import { parseDateKey, toDateKey } from '@/lib/utils/recurrenceUtils';
+
+type StatusFields = Pick<Event, 'status' | 'statusNotice' | 'date' | 'time'>;
+
+/** Postpone sheet in created event details; newDate null = to be announced */
+export interface PostponeFormData {
+  reason: string;
+  newDate: Date | null;
+  refundsOffered: boolean;
+}
+
+export interface EventStatusBanner {
+  status: 'cancelled' | 'postponed';
+  title: string;
+  message: string;
+  /** Organizer's explanation, when given */
+  reason: string | null;
+}
+
+/** "Sat, Nov 7, 18:00" (same shape as formatDateTimeRange's start) */
+function formatSchedule(date: string, time?: string | null): string {
+  const d = parseDateKey(date);
+  const day = d ? d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }) : date;
+  return time ? `${day}, ${time}` : day;
+}
+
+export function isEventCancelled(event?: Pick<Event, 'status'> | null): boolean {
+  return event?.status === 'cancelled';
+}
+
+/** Cancelled, or postponed without a new date: nobody can register until it is rescheduled */
+export function isRegistrationSuspended(event?: Pick<Event, 'status' | 'statusNotice'> | null): boolean {
+  if (!event) return false;
+  return event.status === 'cancelled' || (event.status === 'postponed' && !!event.statusNotice?.dateToBeAnnounced);
+}
+
+/** Banner copy for attendees (event page and ticket); null while the event runs as planned */
+export function getEventStatusBanner(event?: Partial<StatusFields> | null): EventStatusBanner | null {
+  if (!event) return null;
+  const notice = event.statusNotice;
+  const reason = notice?.reason?.trim() || null;
+
+  if (event.status === 'cancelled') {
+    return {
+      status: 'cancelled',
+      title: 'This event has been cancelled',
+      message: 'All tickets were cancelled. Paid tickets are refunded in full.',
+      reason,
+    };
+  }
+
+  if (event.status === 'postponed') {
+    const previous = notice?.previousDate
+      ? ` (was ${formatSchedule(notice.previousDate, notice.previousTime)})`
+      : '';
+    const schedule =
+      notice?.dateToBeAnnounced || !event.date
+        ? `The new date will be announced soon${previous}.`
+        : `Now on ${formatSchedule(event.date, event.time)}${previous}.`;
+    const refunds = notice?.refundsOffered ? ' If you can no longer attend, you can request a full refund.' : '';
+    return {
+      status: 'postponed',
+      title: 'This event has been postponed',
+      message: `${schedule} Your ticket stays valid.${refunds}`,
+      reason,
+    };
+  }
+
+  return null;
+}
+
+/** Postponed events that offer refunds replace the organizer's policy with a full refund */
+export function getEffectiveRefundPolicy(
+  event?: Pick<Event, 'status' | 'statusNotice' | 'refundPolicy'> | null
+): RefundPolicy | null | undefined {
+  if (event?.status === 'postponed' && event.statusNotice?.refundsOffered) {
+    return { type: 'full', partialPercent: null, cutoffDate: null };
+  }
+  return event?.refundPolicy;
+}
+
+export function createPostponeFormData(): PostponeFormData {
+  return { reason: '', newDate: null, refundsOffered: true };
+}
+
+/** Error message or null when valid; attendees see the reason in their notification and banner */
+export function validateStatusReason(reason: string): string | null {
+  const trimmed = reason.trim();
+  if (!trimmed) return 'Please tell attendees why';
+  if (trimmed.length < 5) return 'Reason is too short';
+  return null;
+}
+
+export function validatePostpone(form: PostponeFormData, now: Date = new Date()): string | null {
+  const reasonError = validateStatusReason(form.reason);
+  if (reasonError) return reasonError;
+  if (form.newDate && form.newDate <= now) return 'The new date must be in the future';
+  return null;
+}
+
+export function postponeToApi(form: PostponeFormData): PostponeEventRequest {
+  const base = { reason: form.reason.trim(), refundsOffered: form.refundsOffered };
+  if (!form.newDate) return base;
+  const d = form.newDate;
+  return {
+    ...base,
+    date: toDateKey(d),
+    time: `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`,
+  };
+}
@@ -48,6 +48,16 @@ export function resolveImageUrl(pathOrUrl: string | null | undefined): string |
   return trimmed;
 }
 
+/**
+ * Full URL for a payment screenshot. Unlike event images these are always served by the backend
+ * (/uploads/...), so relative paths get the backend origin rather than the Cloudinary base.
+ */
+export function resolvePaymentScreenshotUrl(pathOrUrl: string | null | undefined): string | null {
+  if (!pathOrUrl) return null;
+  if (pathOrUrl.startsWith('http')) return resolveImageUrl(pathOrUrl);
+  return `${getBackendOrigin()}${pathOrUrl.startsWith('/') ? '' : '/'}${pathOrUrl}`;
+}
+
 /**
  * Full URL for event image. Backend returns relative path; we prepend base.
  */
@@ -0,0 +1,105 @@
+/**
+ * Small Markdown subset for event descriptions: #-### headings, - / 1. lists, **bold**, *italic* / _italic_,
+ * `code` and [links](https://...). Single line breaks are kept, so plain-text descriptions render as before.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; text: string }
+  | { type: 'italic'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; url: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; inline: MarkdownInline[] }
+  | { type: 'paragraph'; inline: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+// Underscore italics need a non-word character before them so snake_case stays plain text;
+// bare URLs don't take trailing punctuation
+const INLINE_PATTERN =
+  /\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|(^|[^\w])_(?!\s)([^_\n]+?)_(?!\w)|`([^`\n]+)`|\[([^\]\n]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s)]*[^\s).,;:!?'"])/g;
+
+/** Only web and mail links are opened; anything else renders as text */
+export function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url.trim());
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const tokens: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const prev = tokens[tokens.length - 1];
+    if (prev?.type === 'text') prev.text += value;
+    else tokens.push({ type: 'text', text: value });
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    // Character before an underscore italic belongs to the preceding text
+    pushText(text.slice(last, index + (match[3]?.length ?? 0)));
+    if (match[1] !== undefined) tokens.push({ type: 'bold', text: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'italic', text: match[2] });
+    else if (match[4] !== undefined) tokens.push({ type: 'italic', text: match[4] });
+    else if (match[5] !== undefined) tokens.push({ type: 'code', text: match[5] });
+    else if (match[6] !== undefined) {
+      if (isSafeUrl(match[7])) tokens.push({ type: 'link', text: match[6], url: match[7] });
+      else pushText(match[6]);
+    } else if (match[8] !== undefined) tokens.push({ type: 'link', text: match[8], url: match[8] });
+    last = index + match[0].length;
+  }
+  pushText(text.slice(last));
+  return tokens;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: MarkdownInline[][] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', inline: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) blocks.push({ type: 'list', ...list });
+    list = null;
+  };
+
+  for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, inline: parseInline(heading[2]) });
+      continue;
+    }
+
+    const bullet = trimmed.match(/^[-*+]\s+(.+)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.+)$/);
+    const item = bullet ?? numbered;
+    if (item) {
+      flushParagraph();
+      const ordered = !bullet;
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push(parseInline(item[1]));
+      continue;
+    }
+
+    flushList();
+    paragraph.push(trimmed);
+  }
+  flushParagraph();
+  flushList();
+  return blocks;
+}
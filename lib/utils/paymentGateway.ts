@@ -0,0 +1,153 @@
+import { Alert } from 'react-native';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { paymentsAPI, type ConfirmCheckoutResponse, type MockCheckoutOutcome } from '@/lib/api/payments';
+import { formatPaymentAmount } from '@/lib/utils/paymentUtils';
+
+/**
+ * Payment methods offered on the ticket screen.
+ * manual: buyer pays outside the app and uploads a screenshot for the organizer to review.
+ * online: a PaymentProvider runs checkout and the backend confirms the ticket straight away.
+ */
+export type PaymentMethodKind = 'manual' | 'online';
+
+export interface PaymentMethodOption {
+  /** Unique picker key (`provider:method` for online methods) */
+  key: string;
+  /** Sent to the backend as payment.method */
+  method: string;
+  label: string;
+  kind: PaymentMethodKind;
+  providerId?: string;
+}
+
+export interface CheckoutRequest {
+  ticketId: string;
+  /** Group order: one checkout covers every ticket in the order */
+  orderId?: string;
+  method: string;
+}
+
+export interface CheckoutResult {
+  status: ConfirmCheckoutResponse['status'];
+  message?: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  methods: { method: string; label: string }[];
+  isEnabled: () => boolean;
+  checkout: (request: CheckoutRequest) => Promise<CheckoutResult>;
+}
+
+export const MANUAL_PAYMENT_METHODS: PaymentMethodOption[] = [
+  { key: 'bank_transfer', method: 'bank_transfer', label: 'Bank', kind: 'manual' },
+  { key: 'easypaisa', method: 'easypaisa', label: 'EasyPaisa', kind: 'manual' },
+  { key: 'jazzcash', method: 'jazzcash', label: 'JazzCash', kind: 'manual' },
+  { key: 'other', method: 'other', label: 'Other', kind: 'manual' },
+];
+
+const CALLBACK_PATH = 'payments/callback';
+
+/** Deep link the provider redirects to; handled by app/payments/callback.tsx when the app isn't waiting on it */
+export function getCheckoutReturnUrl(ticketId: string): string {
+  return Linking.createURL(CALLBACK_PATH, { queryParams: { ticketId } });
+}
+
+/** Ask the backend for the real outcome. Safe to call more than once for the same session. */
+export async function completeCheckout(
+  sessionId: string,
+  mockOutcome?: MockCheckoutOutcome
+): Promise<ConfirmCheckoutResponse> {
+  return paymentsAPI.confirmCheckoutSession(sessionId, mockOutcome);
+}
+
+function toCheckoutResult(response: ConfirmCheckoutResponse): CheckoutResult {
+  return { status: response.status, message: response.message };
+}
+
+// Hosted checkout page (card / wallet) opened in an auth session; the provider redirects back to the app
+const hostedGatewayProvider: PaymentProvider = {
+  id: 'gateway',
+  methods: [
+    { method: 'card', label: 'Card' },
+    { method: 'wallet', label: 'Wallet' },
+  ],
+  isEnabled: () => process.env.EXPO_PUBLIC_PAYMENT_GATEWAY_ENABLED === 'true',
+  checkout: async ({ ticketId, orderId, method }) => {
+    const returnUrl = getCheckoutReturnUrl(ticketId);
+    const { session } = await paymentsAPI.createCheckoutSession({
+      ticketId,
+      orderId,
+      provider: 'gateway',
+      method,
+      returnUrl,
+    });
+    if (!session.checkoutUrl) throw new Error('Checkout page is not available. Please try again.');
+
+    const result = await WebBrowser.openAuthSessionAsync(session.checkoutUrl, returnUrl);
+    if (result.type === 'success') {
+      const { queryParams } = Linking.parse(result.url);
+      if (queryParams?.status === 'cancelled') return { status: 'cancelled' };
+    }
+    // Browser dismissed without a redirect can still mean the charge went through; let the backend decide
+    return toCheckoutResult(await completeCheckout(session.sessionId));
+  },
+};
+
+function promptMockOutcome(amount: number, currency: string): Promise<MockCheckoutOutcome | null> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Test Checkout',
+      `Simulate paying ${formatPaymentAmount(amount, currency)}. No real money is charged.`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: 'Fail', style: 'destructive', onPress: () => resolve('failed') },
+        { text: 'Pay', onPress: () => resolve('success') },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
+
+// Local mock for development: no browser, the outcome is picked in an alert and the backend settles it
+const mockProvider: PaymentProvider = {
+  id: 'mock',
+  methods: [{ method: 'card', label: 'Test card' }],
+  isEnabled: () => __DEV__,
+  checkout: async ({ ticketId, orderId, method }) => {
+    const { session } = await paymentsAPI.createCheckoutSession({
+      ticketId,
+      orderId,
+      provider: 'mock',
+      method,
+      returnUrl: getCheckoutReturnUrl(ticketId),
+    });
+    const outcome = await promptMockOutcome(session.amount, session.currency);
+    if (!outcome) return { status: 'cancelled' };
+    return toCheckoutResult(await completeCheckout(session.sessionId, outcome));
+  },
+};
+
+// New providers go here; the ticket screen picks up their methods automatically
+const PAYMENT_PROVIDERS: PaymentProvider[] = [hostedGatewayProvider, mockProvider];
+
+/** Manual methods first (the screenshot flow stays the default), then online methods of enabled providers */
+export function getPaymentMethodOptions(): PaymentMethodOption[] {
+  const online = PAYMENT_PROVIDERS.filter((p) => p.isEnabled()).flatMap((provider) =>
+    provider.methods.map((m) => ({
+      key: `${provider.id}:${m.method}`,
+      method: m.method,
+      label: m.label,
+      kind: 'online' as const,
+      providerId: provider.id,
+    }))
+  );
+  return [...MANUAL_PAYMENT_METHODS, ...online];
+}
+
+export async function startCheckout(option: PaymentMethodOption, request: Omit<CheckoutRequest, 'method'>): Promise<CheckoutResult> {
+  const provider = PAYMENT_PROVIDERS.find((p) => p.id === option.providerId);
+  if (!provider || !provider.isEnabled()) throw new Error('This payment method is not available');
+  return provider.checkout({ ...request, method: option.method });
+}
@@ -0,0 +1,34 @@
+import type { Payment } from '@/lib/api/payments';
+
+/** Display names for payment.method values (see the method picker in ticket/[id].tsx) */
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Bank transfer',
+  easypaisa: 'EasyPaisa',
+  jazzcash: 'JazzCash',
+  other: 'Other',
+  manual: 'Manual',
+  card: 'Card',
+  wallet: 'Wallet',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<Payment['status'], string> = {
+  pending: 'Pending review',
+  approved: 'Paid',
+  rejected: 'Rejected',
+  refunded: 'Refunded',
+};
+
+export const PAYMENT_STATUS_COLORS: Record<Payment['status'], string> = {
+  pending: '#F59E0B',
+  approved: '#10B981',
+  rejected: '#EF4444',
+  refunded: '#3B82F6',
+};
+
+export function formatPaymentMethod(method: string): string {
+  return PAYMENT_METHOD_LABELS[method] || method;
+}
+
+export function formatPaymentAmount(amount: number, currency = 'PKR'): string {
+  return `${currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
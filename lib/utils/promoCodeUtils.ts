@@ -0,0 +1,32 @@
+import type { PromoCode, PromoDiscountType } from '@/lib/api/promoCodes';
+
+/** "20% off" / "PKR 500 off" */
+export function formatPromoDiscount(
+  discountType: PromoDiscountType,
+  discountValue: number,
+  currency?: string | null
+): string {
+  if (discountType === 'percentage') return `${discountValue}% off`;
+  return `${currency || 'PKR'} ${discountValue.toLocaleString()} off`;
+}
+
+/** "3 / 50 used" or "3 used" when unlimited */
+export function formatPromoRedemptions(code: Pick<PromoCode, 'redemptionCount' | 'maxRedemptions'>): string {
+  return code.maxRedemptions != null
+    ? `${code.redemptionCount} / ${code.maxRedemptions} used`
+    : `${code.redemptionCount} used`;
+}
+
+export type PromoCodeState = 'active' | 'inactive' | 'expired' | 'used_up';
+
+export function getPromoCodeState(code: PromoCode, now: Date = new Date()): PromoCodeState {
+  if (!code.active) return 'inactive';
+  if (code.expiresAt && now > new Date(code.expiresAt)) return 'expired';
+  if (code.maxRedemptions != null && code.redemptionCount >= code.maxRedemptions) return 'used_up';
+  return 'active';
+}
+
+/** Codes are case-insensitive; normalize before sending */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, '');
+}
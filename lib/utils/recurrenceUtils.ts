@@ -0,0 +1,241 @@
+import type { Event, EventOccurrence, RecurrenceFrequency, RecurrenceRule } from '@/lib/api/events';
+
+export type RepeatOption = 'none' | RecurrenceFrequency;
+
+/** Repeat settings as edited in the create event form */
+export interface RecurrenceFormData {
+  repeat: RepeatOption;
+  interval: number;
+  /** Weekly: 0 = Sunday; empty = the start date's weekday */
+  weekdays: number[];
+  /** YYYY-MM-DD or null (required for weekly / monthly) */
+  until: string | null;
+  /** Custom: extra session dates (YYYY-MM-DD) */
+  dates: string[];
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+/** Same limit as the backend; keeps generated sessions manageable */
+export const MAX_OCCURRENCES = 52;
+
+/** Multi-day spans longer than this are only matched on their first days in date filters */
+const MAX_SPAN_DAYS = 31;
+
+/** Local YYYY-MM-DD (toISOString would shift the day in timezones ahead of UTC) */
+export function toDateKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Local midnight for a YYYY-MM-DD (or ISO) date */
+export function parseDateKey(value?: string | null): Date | null {
+  const ymd = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!ymd) return null;
+  return new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]));
+}
+
+function addDays(d: Date, days: number): Date {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+export function createRecurrenceFormData(rule?: RecurrenceRule | null): RecurrenceFormData {
+  return {
+    repeat: rule?.frequency ?? 'none',
+    interval: rule?.interval && rule.interval > 0 ? rule.interval : 1,
+    weekdays: rule?.weekdays ?? [],
+    until: rule?.until ?? null,
+    dates: rule?.dates ?? [],
+  };
+}
+
+/**
+ * Session dates the backend will generate for this form, ascending and capped at
+ * MAX_OCCURRENCES + 1 (so callers can tell the limit was exceeded).
+ */
+export function previewOccurrenceDates(form: RecurrenceFormData, startDate: Date): string[] {
+  const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const startKey = toDateKey(start);
+  if (form.repeat === 'none') return [startKey];
+
+  if (form.repeat === 'custom') {
+    const extra = form.dates.filter((d) => d > startKey);
+    return Array.from(new Set([startKey, ...extra])).sort().slice(0, MAX_OCCURRENCES + 1);
+  }
+
+  const until = parseDateKey(form.until);
+  if (!until || until < start) return [startKey];
+  const interval = Math.max(1, form.interval);
+  const dates: string[] = [];
+
+  if (form.repeat === 'weekly') {
+    const weekdays = form.weekdays.length > 0 ? form.weekdays : [start.getDay()];
+    const firstWeekStart = addDays(start, -start.getDay());
+    for (let d = start; d <= until && dates.length <= MAX_OCCURRENCES; d = addDays(d, 1)) {
+      const week = Math.floor(Math.round((d.getTime() - firstWeekStart.getTime()) / 86400000) / 7);
+      if (week % interval === 0 && weekdays.includes(d.getDay())) dates.push(toDateKey(d));
+    }
+    return dates;
+  }
+
+  // Monthly on the start date's day of month; months without that day are skipped
+  const day = start.getDate();
+  for (let i = 0; dates.length <= MAX_OCCURRENCES; i += interval) {
+    const d = new Date(start.getFullYear(), start.getMonth() + i, day);
+    if (d > until) break;
+    if (d.getDate() === day) dates.push(toDateKey(d));
+  }
+  return dates;
+}
+
+/** Error message or null when valid */
+export function validateRecurrence(form: RecurrenceFormData, startDate?: Date | null): string | null {
+  if (form.repeat === 'none' || !startDate) return null;
+  if (form.repeat === 'custom') {
+    if (form.dates.length === 0) return 'Add at least one more date';
+  } else {
+    const until = parseDateKey(form.until);
+    if (!until) return 'Choose when the event stops repeating';
+    if (until <= startDate) return 'Repeat end must be after the start date';
+  }
+  const count = previewOccurrenceDates(form, startDate).length;
+  if (count > MAX_OCCURRENCES) return `At most ${MAX_OCCURRENCES} sessions per event`;
+  if (count < 2) return 'This repeat setting only produces one session';
+  return null;
+}
+
+export function recurrenceToApi(form: RecurrenceFormData, startDate: Date): RecurrenceRule | undefined {
+  if (form.repeat === 'none') return undefined;
+  if (form.repeat === 'custom') {
+    return { frequency: 'custom', interval: 1, dates: previewOccurrenceDates(form, startDate).slice(1) };
+  }
+  return {
+    frequency: form.repeat,
+    interval: Math.max(1, form.interval),
+    ...(form.repeat === 'weekly'
+      ? { weekdays: form.weekdays.length > 0 ? [...form.weekdays].sort() : [startDate.getDay()] }
+      : {}),
+    until: form.until,
+  };
+}
+
+function formatShortDate(key: string): string {
+  const d = parseDateKey(key);
+  return d ? d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : key;
+}
+
+/** "Every week on Tue, Thu until Dec 15" / "Every 2 months" / "On 4 dates" */
+export function formatRecurrence(rule?: RecurrenceRule | null, occurrenceCount?: number): string | null {
+  if (!rule) return null;
+  if (rule.frequency === 'custom') {
+    const count = occurrenceCount ?? (rule.dates?.length ?? 0) + 1;
+    return `On ${count} dates`;
+  }
+  const unit = rule.frequency === 'weekly' ? 'week' : 'month';
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    text += ` on ${rule.weekdays.map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (rule.until) text += ` until ${formatShortDate(rule.until)}`;
+  return text;
+}
+
+/** When and where one session takes place */
+export interface SessionSchedule {
+  date: string;
+  time: string;
+  endDate?: string | null;
+  endTime?: string | null;
+  location?: string | null;
+}
+
+/**
+ * Schedule of the session a ticket is for: its occurrence on recurring events (falling back to the
+ * event location), otherwise the event's own date and time.
+ */
+export function getTicketSession(ticket: {
+  event?: SessionSchedule | null;
+  occurrence?: SessionSchedule | null;
+}): SessionSchedule {
+  const { event, occurrence } = ticket;
+  if (occurrence) {
+    return {
+      date: occurrence.date,
+      time: occurrence.time,
+      endDate: occurrence.endDate ?? null,
+      endTime: occurrence.endTime ?? null,
+      location: occurrence.location || event?.location || null,
+    };
+  }
+  return {
+    date: event?.date ?? '',
+    time: event?.time ?? '',
+    endDate: event?.endDate ?? null,
+    endTime: event?.endTime ?? null,
+    location: event?.location ?? null,
+  };
+}
+
+/** Scheduled sessions; one-off events are treated as a single session without an _id */
+function getScheduledSessions(
+  event: Pick<Event, 'date' | 'time' | 'endDate' | 'endTime' | 'occurrences'>
+): Pick<EventOccurrence, 'date' | 'time' | 'endDate' | 'endTime'>[] {
+  if (event.occurrences && event.occurrences.length > 0) {
+    return event.occurrences.filter((o) => o.status !== 'cancelled');
+  }
+  return [{ date: event.date, time: event.time, endDate: event.endDate, endTime: event.endTime }];
+}
+
+/** Scheduled occurrences that haven't ended yet (multi-day ones count until their last day) */
+export function getUpcomingOccurrences(
+  event: Pick<Event, 'occurrences'>,
+  now: Date = new Date()
+): EventOccurrence[] {
+  const todayKey = toDateKey(now);
+  return (event.occurrences ?? []).filter(
+    (o) => o.status !== 'cancelled' && (o.endDate || o.date).slice(0, 10) >= todayKey
+  );
+}
+
+/** Every calendar day (YYYY-MM-DD) the event runs on, across all scheduled sessions */
+export function getEventDateKeys(
+  event: Pick<Event, 'date' | 'time' | 'endDate' | 'endTime' | 'occurrences'>
+): string[] {
+  const keys = new Set<string>();
+  for (const session of getScheduledSessions(event)) {
+    const start = parseDateKey(session.date);
+    if (!start) continue;
+    const end = parseDateKey(session.endDate) ?? start;
+    for (let d = start, i = 0; d <= end && i < MAX_SPAN_DAYS; d = addDays(d, 1), i++) {
+      keys.add(toDateKey(d));
+    }
+  }
+  return Array.from(keys).sort();
+}
+
+/** Date shown on cards: the next scheduled session, or the event date once all have passed */
+export function getNextEventDate(
+  event: Pick<Event, 'date' | 'time' | 'endDate' | 'endTime' | 'occurrences'>,
+  now: Date = new Date()
+): string {
+  const upcoming = getUpcomingOccurrences(event, now);
+  return upcoming[0]?.date.slice(0, 10) ?? event.date;
+}
+
+/** "Sat, Nov 7, 18:00" with an optional end: "– 22:00" same day, "– Sun, Nov 8, 02:00" otherwise */
+export function formatDateTimeRange(
+  date: string,
+  time: string,
+  endDate?: string | null,
+  endTime?: string | null
+): string {
+  const format = (key: string) => {
+    const d = parseDateKey(key);
+    return d ? d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }) : key;
+  };
+  const start = `${format(date)}, ${time}`;
+  const sameDay = !endDate || endDate.slice(0, 10) === date.slice(0, 10);
+  if (sameDay) return endTime ? `${start} – ${endTime}` : start;
+  return `${start} – ${format(endDate)}${endTime ? `, ${endTime}` : ''}`;
+}
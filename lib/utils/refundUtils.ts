@@ -0,0 +1,95 @@
+import type { RefundPolicy, RefundPolicyType } from '@/lib/api/events';
+
+/** Refund policy as edited in create/edit event forms (percent kept as a string for TextInput) */
+export interface RefundPolicyFormData {
+  type: RefundPolicyType;
+  partialPercent: string;
+  /** ISO string or null (until the event starts) */
+  cutoffDate: string | null;
+}
+
+export interface RefundEstimate {
+  eligible: boolean;
+  amount: number;
+  /** Why the ticket can't be refunded, when not eligible */
+  reason?: string;
+}
+
+const DEFAULT_PARTIAL_PERCENT = 50;
+
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/** Local start of the event from its YYYY-MM-DD date and "HH:mm" time */
+function getEventStart(date?: string | null, time?: string | null): Date | null {
+  const ymd = date?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!ymd) return null;
+  const hm = time?.match(/^(\d{1,2}):(\d{2})/);
+  return new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]), Number(hm?.[1] ?? 0), Number(hm?.[2] ?? 0));
+}
+
+export function createRefundPolicyFormData(policy?: RefundPolicy | null): RefundPolicyFormData {
+  return {
+    type: policy?.type ?? 'none',
+    partialPercent: String(policy?.partialPercent ?? DEFAULT_PARTIAL_PERCENT),
+    cutoffDate: policy?.cutoffDate ?? null,
+  };
+}
+
+export function refundPolicyToApi(form: RefundPolicyFormData): RefundPolicy {
+  if (form.type === 'none') return { type: 'none', partialPercent: null, cutoffDate: null };
+  return {
+    type: form.type,
+    partialPercent: form.type === 'partial' ? parseInt(form.partialPercent, 10) : null,
+    cutoffDate: form.cutoffDate,
+  };
+}
+
+/** Error message or null when valid */
+export function validateRefundPolicy(form: RefundPolicyFormData, eventDate?: Date | null): string | null {
+  if (form.type === 'partial') {
+    const percent = parseInt(form.partialPercent, 10);
+    if (isNaN(percent) || percent < 1 || percent > 99) return 'Partial refund must be between 1% and 99%';
+  }
+  if (form.type !== 'none' && form.cutoffDate && eventDate) {
+    const lastDay = new Date(eventDate);
+    lastDay.setHours(23, 59, 59, 999);
+    if (new Date(form.cutoffDate) > lastDay) return 'Refund cutoff must be on or before the event date';
+  }
+  return null;
+}
+
+export function formatRefundPolicy(policy?: RefundPolicy | null): string {
+  if (!policy || policy.type === 'none') return 'No refunds';
+  const share = policy.type === 'full' ? 'Full refund' : `${policy.partialPercent ?? DEFAULT_PARTIAL_PERCENT}% refund`;
+  return policy.cutoffDate
+    ? `${share} until ${formatShortDate(policy.cutoffDate)}`
+    : `${share} until the event starts`;
+}
+
+/**
+ * What the attendee would get back if they requested now. The backend recomputes this
+ * on approval; this is only for showing the estimate before submitting.
+ */
+export function getRefundEstimate(
+  policy: RefundPolicy | null | undefined,
+  options: { amountPaid: number; eventDate?: string | null; eventTime?: string | null; now?: Date }
+): RefundEstimate {
+  const now = options.now ?? new Date();
+  const eventStart = getEventStart(options.eventDate, options.eventTime);
+  if (eventStart && now >= eventStart) {
+    return { eligible: false, amount: 0, reason: 'The event has already started' };
+  }
+  // Free tickets can always be cancelled before the event
+  if (options.amountPaid <= 0) return { eligible: true, amount: 0 };
+
+  if (!policy || policy.type === 'none') {
+    return { eligible: false, amount: 0, reason: 'This event does not offer refunds' };
+  }
+  if (policy.cutoffDate && now > new Date(policy.cutoffDate)) {
+    return { eligible: false, amount: 0, reason: `Refunds closed on ${formatShortDate(policy.cutoffDate)}` };
+  }
+  const percent = policy.type === 'full' ? 100 : policy.partialPercent ?? DEFAULT_PARTIAL_PERCENT;
+  return { eligible: true, amount: Math.round((options.amountPaid * percent) / 100) };
+}
@@ -0,0 +1,158 @@
+import * as yup from 'yup';
+import type { RegistrationQuestion, RegistrationQuestionType } from '@/lib/api/events';
+import type { RegistrationAnswer, RegistrationAnswers } from '@/lib/api/tickets';
+
+/** Question as edited in the edit event form (choices kept as one comma-separated string) */
+export interface QuestionFormData {
+  /** Stable local key for list rendering */
+  key: string;
+  /** Sent to the backend; answers are keyed by it */
+  id: string;
+  label: string;
+  type: RegistrationQuestionType;
+  required: boolean;
+  optionsText: string;
+}
+
+export const QUESTION_TYPE_OPTIONS: { value: RegistrationQuestionType; label: string }[] = [
+  { value: 'text', label: 'Short answer' },
+  { value: 'select', label: 'Single choice' },
+  { value: 'multi_select', label: 'Multiple choice' },
+  { value: 'checkbox', label: 'Checkbox (e.g. consent)' },
+];
+
+export const MAX_QUESTIONS = 15;
+const MAX_TEXT_ANSWER = 500;
+
+let questionKeyCounter = 0;
+function nextQuestionKey(): string {
+  questionKeyCounter += 1;
+  return `q_${Date.now()}_${questionKeyCounter}`;
+}
+
+export function createQuestionFormData(overrides: Partial<QuestionFormData> = {}): QuestionFormData {
+  const key = nextQuestionKey();
+  return {
+    key,
+    id: key,
+    label: '',
+    type: 'text',
+    required: false,
+    optionsText: '',
+    ...overrides,
+  };
+}
+
+export function questionsFromEvent(questions?: RegistrationQuestion[] | null): QuestionFormData[] {
+  return (questions ?? []).map((q) =>
+    createQuestionFormData({
+      id: q.id,
+      label: q.label,
+      type: q.type,
+      required: q.required,
+      optionsText: (q.options ?? []).join(', '),
+    })
+  );
+}
+
+function parseOptions(optionsText: string): string[] {
+  return Array.from(new Set(optionsText.split(',').map((o) => o.trim()).filter(Boolean)));
+}
+
+function hasOptions(type: RegistrationQuestionType): boolean {
+  return type === 'select' || type === 'multi_select';
+}
+
+/** Per-question validation; returns errors keyed by question key (empty object when valid). */
+export function validateQuestions(questions: QuestionFormData[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seenLabels = new Set<string>();
+  for (const q of questions) {
+    const label = q.label.trim();
+    if (!label) errors[q.key] = 'Question is required';
+    else if (seenLabels.has(label.toLowerCase())) errors[q.key] = 'Each question must be different';
+    else if (hasOptions(q.type) && parseOptions(q.optionsText).length < 2) errors[q.key] = 'Add at least two choices';
+    seenLabels.add(label.toLowerCase());
+  }
+  return errors;
+}
+
+export function questionsToApi(questions: QuestionFormData[]): RegistrationQuestion[] {
+  return questions.map((q) => ({
+    id: q.id,
+    label: q.label.trim(),
+    type: q.type,
+    required: q.required,
+    ...(hasOptions(q.type) ? { options: parseOptions(q.optionsText) } : {}),
+  }));
+}
+
+export function createEmptyAnswers(questions: RegistrationQuestion[]): RegistrationAnswers {
+  const answers: RegistrationAnswers = {};
+  for (const q of questions) {
+    answers[q.id] = q.type === 'multi_select' ? [] : q.type === 'checkbox' ? false : '';
+  }
+  return answers;
+}
+
+/** yup schema for one attendee's answers; mirrors the backend rules */
+export function buildAnswersSchema(questions: RegistrationQuestion[]) {
+  const shape: Record<string, yup.AnySchema> = {};
+  for (const q of questions) {
+    const options = q.options ?? [];
+    if (q.type === 'checkbox') {
+      shape[q.id] = q.required ? yup.boolean().oneOf([true], `Please confirm: ${q.label}`) : yup.boolean();
+    } else if (q.type === 'multi_select') {
+      const schema = yup.array(yup.string().oneOf(options, 'Choose from the list').required());
+      shape[q.id] = q.required ? schema.min(1, `${q.label} is required`) : schema;
+    } else if (q.type === 'select') {
+      const schema = yup.string().oneOf([...options, ''], 'Choose from the list');
+      shape[q.id] = q.required ? schema.required(`${q.label} is required`) : schema;
+    } else {
+      const schema = yup.string().trim().max(MAX_TEXT_ANSWER, `Keep it under ${MAX_TEXT_ANSWER} characters`);
+      shape[q.id] = q.required ? schema.required(`${q.label} is required`) : schema;
+    }
+  }
+  return yup.object(shape);
+}
+
+/** Errors keyed by question id (empty object when valid) */
+export function validateAnswers(questions: RegistrationQuestion[], answers: RegistrationAnswers): Record<string, string> {
+  try {
+    buildAnswersSchema(questions).validateSync(answers, { abortEarly: false });
+    return {};
+  } catch (err) {
+    if (!(err instanceof yup.ValidationError)) throw err;
+    const errors: Record<string, string> = {};
+    for (const issue of err.inner.length > 0 ? err.inner : [err]) {
+      // Array item paths look like "q_1[0]"
+      const id = issue.path?.split(/[.[]/)[0];
+      if (id && !errors[id]) errors[id] = issue.message;
+    }
+    return errors;
+  }
+}
+
+/** Trimmed answers, without empty optional ones */
+export function answersToApi(questions: RegistrationQuestion[], answers: RegistrationAnswers): RegistrationAnswers {
+  const result: RegistrationAnswers = {};
+  for (const q of questions) {
+    const answer = answers[q.id];
+    if (typeof answer === 'string') {
+      if (answer.trim()) result[q.id] = answer.trim();
+    } else if (Array.isArray(answer)) {
+      if (answer.length > 0) result[q.id] = answer;
+    } else if (answer !== undefined) {
+      result[q.id] = answer;
+    }
+  }
+  return result;
+}
+
+/** Display / export value: "M", "Vegan, Halal", "Yes" (empty string when unanswered) */
+export function formatAnswer(answer?: RegistrationAnswer | null): string {
+  if (answer === undefined || answer === null) return '';
+  if (Array.isArray(answer)) return answer.join(', ');
+  if (typeof answer === 'boolean') return answer ? 'Yes' : 'No';
+  return answer;
+}
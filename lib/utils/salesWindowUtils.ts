@@ -0,0 +1,91 @@
+import type { Event } from '@/lib/api/events';
+import { isEventSoldOut } from '@/lib/utils/ticketTierUtils';
+
+/** Publish date and sales window as edited in create/edit event forms (ISO strings or null, sent to the API as is) */
+export interface SalesWindowFormData {
+  publishAt: string | null;
+  salesOpenAt: string | null;
+  salesCloseAt: string | null;
+}
+
+/** upcoming: before salesOpenAt, closed: after salesCloseAt */
+export type SalesStatus = 'upcoming' | 'open' | 'sold_out' | 'closed';
+
+export function createSalesWindowFormData(
+  event?: Pick<Event, 'publishAt' | 'salesOpenAt' | 'salesCloseAt'> | null
+): SalesWindowFormData {
+  return {
+    publishAt: event?.publishAt ?? null,
+    salesOpenAt: event?.salesOpenAt ?? null,
+    salesCloseAt: event?.salesCloseAt ?? null,
+  };
+}
+
+/** Error message or null when valid. Past dates are allowed when editing a live event. */
+export function validateSalesWindow(form: SalesWindowFormData): string | null {
+  const publish = form.publishAt ? new Date(form.publishAt) : null;
+  const open = form.salesOpenAt ? new Date(form.salesOpenAt) : null;
+  const close = form.salesCloseAt ? new Date(form.salesCloseAt) : null;
+  if (open && close && close <= open) return 'Sales must close after they open';
+  if (publish && close && close <= publish) return 'Sales must close after the event is published';
+  if (publish && open && open < publish) return 'Sales can\'t open before the event is published';
+  return null;
+}
+
+export function isEventPublished(event: Pick<Event, 'publishAt'>, now: Date = new Date()): boolean {
+  return !event.publishAt || new Date(event.publishAt) <= now;
+}
+
+export function getSalesStatus(
+  event: Pick<Event, 'salesOpenAt' | 'salesCloseAt' | 'ticketTiers' | 'totalTickets' | 'ticketsSold'>,
+  now: Date = new Date()
+): SalesStatus {
+  if (event.salesOpenAt && now < new Date(event.salesOpenAt)) return 'upcoming';
+  if (event.salesCloseAt && now > new Date(event.salesCloseAt)) return 'closed';
+  if (isEventSoldOut(event)) return 'sold_out';
+  return 'open';
+}
+
+/**
+ * Brings a status computed earlier (cached list data) up to date: the window can open or
+ * close while the list is on screen. Sold out can't be re-derived without fresh counts.
+ */
+export function advanceSalesStatus(
+  status: SalesStatus,
+  window: Pick<Event, 'salesOpenAt' | 'salesCloseAt'>,
+  now: Date = new Date()
+): SalesStatus {
+  if (window.salesCloseAt && now > new Date(window.salesCloseAt)) return 'closed';
+  if (status === 'upcoming' && !(window.salesOpenAt && now < new Date(window.salesOpenAt))) return 'open';
+  return status;
+}
+
+/** Next time the sales status changes on its own (sales opening or closing), or null */
+export function getNextSalesChange(
+  window: Pick<Event, 'salesOpenAt' | 'salesCloseAt'>,
+  now: Date = new Date()
+): Date | null {
+  const upcoming = [window.salesOpenAt, window.salesCloseAt]
+    .filter((iso): iso is string => !!iso)
+    .map((iso) => new Date(iso))
+    .filter((d) => d > now)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return upcoming[0] ?? null;
+}
+
+/** "2d 4h", "3h 12m", "4m 05s" */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
+
+/** "Nov 3, 10:00" */
+export function formatSalesDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
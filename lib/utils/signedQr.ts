@@ -0,0 +1,120 @@
+import nacl from 'tweetnacl';
+
+/**
+ * Signed ticket QR format (issued by the backend as ticket.signedQr):
+ *   TKT1.<base64url(JSON payload)>.<base64url(Ed25519 signature)>
+ * The signature covers the ASCII string "TKT1.<payload segment>".
+ * Verified offline with the event's public key (event.qrPublicKey, base64).
+ */
+const SIGNED_QR_PREFIX = 'TKT1';
+
+export interface SignedTicketPayload {
+  /** Ticket id */
+  tid: string;
+  /** Event id */
+  eid: string;
+  /** Tier name, when the event has tiers */
+  tier?: string | null;
+  /** Expiry, unix seconds */
+  exp: number;
+  /** Ticket accessKey (ticket #) used by the scan / status APIs */
+  k: string;
+}
+
+export type SignedQrVerification =
+  | { valid: true; payload: SignedTicketPayload }
+  | { valid: false; reason: string; payload?: SignedTicketPayload };
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Decode base64 or base64url (padding optional); returns null on invalid input. */
+function decodeBase64(input: string): Uint8Array | null {
+  const clean = input.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(clean) || clean.length % 4 === 1) return null;
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of clean) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+function asciiBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+  let encoded = '';
+  for (const b of bytes) encoded += `%${b.toString(16).padStart(2, '0')}`;
+  return decodeURIComponent(encoded);
+}
+
+export function isSignedQr(data: string): boolean {
+  return data.trim().startsWith(`${SIGNED_QR_PREFIX}.`);
+}
+
+function parsePayload(segment: string): SignedTicketPayload | null {
+  const bytes = decodeBase64(segment);
+  if (!bytes) return null;
+  try {
+    const json = JSON.parse(utf8Decode(bytes));
+    if (typeof json?.tid !== 'string' || typeof json?.eid !== 'string' || typeof json?.k !== 'string') return null;
+    if (typeof json.exp !== 'number') return null;
+    return json as SignedTicketPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a scanned QR string offline. Checks format, signature, event and expiry, in that order,
+ * so the reason shown at the door is the most fundamental problem.
+ */
+export function verifySignedQr(
+  data: string,
+  options: { publicKey: string; eventId: string; now?: Date }
+): SignedQrVerification {
+  const parts = data.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== SIGNED_QR_PREFIX) {
+    return { valid: false, reason: 'Not a signed ticket QR code. Ask the guest to open their ticket in the app.' };
+  }
+
+  const payload = parsePayload(parts[1]);
+  if (!payload) {
+    return { valid: false, reason: 'QR code is damaged or was modified.' };
+  }
+
+  const publicKey = decodeBase64(options.publicKey);
+  const signature = decodeBase64(parts[2]);
+  if (!publicKey || publicKey.length !== nacl.sign.publicKeyLength) {
+    return { valid: false, reason: 'Event verification key is missing. Refresh the event while online.', payload };
+  }
+  if (!signature || signature.length !== nacl.sign.signatureLength) {
+    return { valid: false, reason: 'Signature is malformed. The QR code may be forged.', payload };
+  }
+
+  const message = asciiBytes(`${parts[0]}.${parts[1]}`);
+  if (!nacl.sign.detached.verify(message, signature, publicKey)) {
+    return { valid: false, reason: 'Signature does not match. The QR code was forged or tampered with.', payload };
+  }
+
+  if (payload.eid !== options.eventId) {
+    return { valid: false, reason: 'This ticket is for a different event.', payload };
+  }
+
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (payload.exp < nowSeconds) {
+    return { valid: false, reason: 'QR code has expired. Ask the guest to refresh their ticket.', payload };
+  }
+
+  return { valid: true, payload };
+}
@@ -0,0 +1,219 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { paymentsAPI, type Payment } from '@/lib/api/payments';
+import { formatPaymentAmount, formatPaymentMethod, PAYMENT_STATUS_LABELS } from '@/lib/utils/paymentUtils';
+
+/**
+ * Printable PDF tickets: each page is a snapshot of the themed TicketPreview (QR included)
+ * followed by an optional payment receipt.
+ */
+export interface TicketReceipt {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  method: string;
+  status: Payment['status'];
+  paidAt: string;
+  discountAmount?: number;
+  promoCode?: string | null;
+  refundedAmount?: number | null;
+}
+
+export interface TicketPdfPage {
+  /** data:image/jpeg;base64,... snapshot of TicketPreview */
+  imageDataUri: string;
+  holder: string;
+  accessKey?: string;
+  tierName?: string;
+  receipt?: TicketReceipt | null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function paymentToReceipt(payment: Payment, fallbackCurrency = 'PKR'): TicketReceipt {
+  return {
+    paymentId: payment.id,
+    amount: payment.amount,
+    currency: payment.currency || fallbackCurrency,
+    method: payment.method,
+    status: payment.status,
+    paidAt: payment.updatedAt || payment.createdAt,
+    discountAmount: payment.discountAmount,
+    promoCode: payment.promoCode,
+    refundedAmount: payment.refundedAmount,
+  };
+}
+
+/**
+ * Receipt for a ticket, or null for free tickets / no payment yet.
+ * Uses ticket.paymentId when present; the buyer can fall back to their own payments list.
+ */
+export async function getTicketReceipt(
+  ticket: { id: string; paymentId?: string | null },
+  options: { currency?: string; searchMyPayments?: boolean } = {}
+): Promise<TicketReceipt | null> {
+  try {
+    if (ticket.paymentId) {
+      const res = await paymentsAPI.getPaymentById(ticket.paymentId);
+      return res.success && res.payment ? paymentToReceipt(res.payment, options.currency) : null;
+    }
+    if (!options.searchMyPayments) return null;
+    const res = await paymentsAPI.getMyPayments();
+    const payment = (res.payments || []).find(
+      (p) => p.ticketId === ticket.id || p.ticketIds?.includes(ticket.id)
+    );
+    return payment ? paymentToReceipt(payment, options.currency) : null;
+  } catch (e) {
+    console.warn('Could not load receipt for ticket', ticket.id, e);
+    return null;
+  }
+}
+
+function renderReceipt(receipt: TicketReceipt): string {
+  const rows: [string, string][] = [
+    ['Receipt #', receipt.paymentId],
+    ['Date', new Date(receipt.paidAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })],
+    ['Method', formatPaymentMethod(receipt.method)],
+    ['Status', PAYMENT_STATUS_LABELS[receipt.status] || receipt.status],
+  ];
+  if (receipt.discountAmount && receipt.discountAmount > 0) {
+    rows.push([
+      receipt.promoCode ? `Discount (${receipt.promoCode})` : 'Discount',
+      `- ${formatPaymentAmount(receipt.discountAmount, receipt.currency)}`,
+    ]);
+  }
+  rows.push(['Amount', formatPaymentAmount(receipt.amount, receipt.currency)]);
+  if (receipt.status === 'refunded' && receipt.refundedAmount) {
+    rows.push(['Refunded', `- ${formatPaymentAmount(receipt.refundedAmount, receipt.currency)}`]);
+  }
+  return `
+    <div class="receipt">
+      <h2>Payment receipt</h2>
+      <table>${rows
+        .map(([k, v], i) => `<tr class="${i === rows.length - 1 ? 'total' : ''}"><td>${escapeHtml(k)}</td><td>${escapeHtml(v)}</td></tr>`)
+        .join('')}</table>
+    </div>`;
+}
+
+const PDF_STYLES = `
+  @page { margin: 24px; }
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #111827; margin: 0; }
+  .page { page-break-after: always; text-align: center; }
+  .page:last-child { page-break-after: auto; }
+  .ticket { width: 360px; max-width: 100%; border-radius: 16px; }
+  .meta { font-size: 11px; color: #6B7280; margin: 8px 0 16px; }
+  .receipt { text-align: left; max-width: 360px; margin: 0 auto; border: 1px solid #E5E7EB; border-radius: 12px; padding: 12px 16px; }
+  .receipt h2 { font-size: 14px; margin: 0 0 8px; }
+  .receipt table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  .receipt td { padding: 4px 0; border-bottom: 1px solid #F3F4F6; }
+  .receipt td:last-child { text-align: right; }
+  .receipt tr.total td { font-weight: 700; border-bottom: none; }
+`;
+
+export function buildTicketsPdfHtml(pages: TicketPdfPage[], title: string): string {
+  const body = pages
+    .map(
+      (page) => `
+    <section class="page">
+      <img class="ticket" src="${page.imageDataUri}" />
+      <p class="meta">${escapeHtml(page.holder)}${page.tierName ? ` · ${escapeHtml(page.tierName)}` : ''}${
+        page.accessKey ? ` · Ticket # ${escapeHtml(page.accessKey)}` : ''
+      }</p>
+      ${page.receipt ? renderReceipt(page.receipt) : ''}
+    </section>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${PDF_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+/** Receipt on its own (payment history), without a ticket snapshot */
+export function buildReceiptPdfHtml(receipt: TicketReceipt, eventTitle: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(eventTitle)}</title>
+<style>${PDF_STYLES}</style>
+</head>
+<body><section class="page"><p class="meta">${escapeHtml(eventTitle)}</p>${renderReceipt(receipt)}</section></body>
+</html>`;
+}
+
+/**
+ * Tickets per PDF in bulk exports. Every snapshot is an inline data URI in the HTML,
+ * so large events are split into several files instead of one huge string.
+ */
+export const TICKETS_PER_PDF = 25;
+
+async function ensureSharingAvailable(): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+}
+
+async function sharePdfFile(uri: string, title: string): Promise<void> {
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: title,
+  });
+}
+
+async function sharePdfHtml(html: string, title: string): Promise<void> {
+  await ensureSharingAvailable();
+  const { uri } = await Print.printToFileAsync({ html });
+  await sharePdfFile(uri, title);
+}
+
+/** Render to PDF and open the share sheet (print, save to Files, email...). */
+export function shareTicketsPdf(pages: TicketPdfPage[], title: string): Promise<void> {
+  return sharePdfHtml(buildTicketsPdfHtml(pages, title), title);
+}
+
+/**
+ * Bulk export: loads TICKETS_PER_PDF pages at a time, prints each batch to its own PDF
+ * (so only one batch of snapshots is in memory) and then shares the files one by one.
+ */
+export async function shareTicketsPdfInBatches<T>(
+  items: T[],
+  loadPage: (item: T) => Promise<TicketPdfPage>,
+  title: string,
+  onProgress?: (done: number) => void
+): Promise<void> {
+  await ensureSharingAvailable();
+  const batchCount = Math.ceil(items.length / TICKETS_PER_PDF);
+  const files: { uri: string; title: string }[] = [];
+  let done = 0;
+  for (let b = 0; b < batchCount; b++) {
+    const pages: TicketPdfPage[] = [];
+    for (const item of items.slice(b * TICKETS_PER_PDF, (b + 1) * TICKETS_PER_PDF)) {
+      pages.push(await loadPage(item));
+      onProgress?.(++done);
+    }
+    const batchTitle = batchCount > 1 ? `${title} (${b + 1} of ${batchCount})` : title;
+    const { uri } = await Print.printToFileAsync({ html: buildTicketsPdfHtml(pages, batchTitle) });
+    files.push({ uri, title: batchTitle });
+  }
+  for (const file of files) {
+    await sharePdfFile(file.uri, file.title);
+  }
+}
+
+export function shareReceiptPdf(receipt: TicketReceipt, eventTitle: string): Promise<void> {
+  return sharePdfHtml(buildReceiptPdfHtml(receipt, eventTitle), `Receipt - ${eventTitle}`);
+}
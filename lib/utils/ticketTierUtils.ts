@@ -0,0 +1,144 @@
+import type { Event, TicketTier, TicketTierInput } from '@/lib/api/events';
+
+/** Tier as edited in create/edit event forms (numbers kept as strings for TextInput) */
+export interface TierFormData {
+  /** Stable local key for list rendering */
+  key: string;
+  /** Backend id when editing an existing tier */
+  id?: string;
+  name: string;
+  price: string;
+  capacity: string;
+  description: string;
+  /** ISO string or null */
+  salesStart: string | null;
+  salesEnd: string | null;
+}
+
+export const DEFAULT_TIER_NAMES = ['General', 'VIP', 'Early Bird'] as const;
+
+let tierKeyCounter = 0;
+function nextTierKey(): string {
+  tierKeyCounter += 1;
+  return `tier_${Date.now()}_${tierKeyCounter}`;
+}
+
+export function createTierFormData(overrides: Partial<TierFormData> = {}): TierFormData {
+  return {
+    key: nextTierKey(),
+    name: 'General',
+    price: '',
+    capacity: '100',
+    description: '',
+    salesStart: null,
+    salesEnd: null,
+    ...overrides,
+  };
+}
+
+/** Build form tiers from an event; falls back to a single "General" tier from ticketPrice/totalTickets. */
+export function tiersFromEvent(event: Pick<Event, 'ticketTiers' | 'ticketPrice' | 'totalTickets' | 'price'>): TierFormData[] {
+  if (Array.isArray(event.ticketTiers) && event.ticketTiers.length > 0) {
+    return event.ticketTiers.map((t) =>
+      createTierFormData({
+        id: t._id || t.id,
+        name: t.name || '',
+        price: t.price != null ? String(t.price) : '',
+        capacity: t.capacity != null ? String(t.capacity) : '',
+        description: t.description || '',
+        salesStart: t.salesStart || null,
+        salesEnd: t.salesEnd || null,
+      })
+    );
+  }
+  const flatPrice = typeof event.price?.price === 'number' ? event.price.price : event.ticketPrice ?? 0;
+  return [
+    createTierFormData({
+      price: flatPrice > 0 ? String(flatPrice) : '',
+      capacity: String(event.totalTickets ?? 100),
+    }),
+  ];
+}
+
+/** Per-tier validation; returns errors keyed by tier key (empty object when valid). */
+export function validateTiers(tiers: TierFormData[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seenNames = new Set<string>();
+  for (const t of tiers) {
+    const name = t.name.trim();
+    const price = Number(t.price);
+    const capacity = parseInt(t.capacity, 10);
+    if (!name) errors[t.key] = 'Tier name is required';
+    else if (seenNames.has(name.toLowerCase())) errors[t.key] = 'Tier names must be unique';
+    else if (t.price.trim() === '' || Number.isNaN(price) || price < 0) errors[t.key] = 'Enter a valid price';
+    else if (Number.isNaN(capacity) || capacity < 1) errors[t.key] = 'Enter a valid capacity';
+    else if (t.salesStart && t.salesEnd && new Date(t.salesStart) >= new Date(t.salesEnd)) {
+      errors[t.key] = 'Sales end must be after sales start';
+    }
+    seenNames.add(name.toLowerCase());
+  }
+  return errors;
+}
+
+export function tiersToApi(tiers: TierFormData[], currency: string): TicketTierInput[] {
+  return tiers.map((t) => ({
+    ...(t.id ? { _id: t.id } : {}),
+    name: t.name.trim(),
+    price: Number(t.price),
+    currency,
+    capacity: parseInt(t.capacity, 10),
+    description: t.description.trim() || undefined,
+    salesStart: t.salesStart,
+    salesEnd: t.salesEnd,
+  }));
+}
+
+/** Legacy flat fields derived from tiers: lowest price and total capacity. */
+export function summarizeTiers(tiers: TicketTierInput[]): { ticketPrice: number; totalTickets: number } {
+  if (tiers.length === 0) return { ticketPrice: 0, totalTickets: 0 };
+  return {
+    ticketPrice: Math.min(...tiers.map((t) => t.price)),
+    totalTickets: tiers.reduce((sum, t) => sum + (t.capacity || 0), 0),
+  };
+}
+
+export function formatTierPrice(price: number, currency?: string | null): string {
+  if (!price || price <= 0) return 'Free';
+  return `${currency || 'PKR'} ${price.toLocaleString()}`;
+}
+
+export type TierAvailability =
+  | { onSale: true; remaining: number | null }
+  | { onSale: false; remaining: number | null; reason: string };
+
+/** Whether a tier can be bought right now, and how many tickets are left. */
+export function getTierAvailability(tier: TicketTier, now: Date = new Date()): TierAvailability {
+  const remaining = tier.capacity > 0 ? Math.max(0, tier.capacity - (tier.soldCount ?? 0)) : null;
+  if (tier.salesStart && now < new Date(tier.salesStart)) {
+    return {
+      onSale: false,
+      remaining,
+      reason: `On sale ${new Date(tier.salesStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+    };
+  }
+  if (tier.salesEnd && now > new Date(tier.salesEnd)) {
+    return { onSale: false, remaining, reason: 'Sales ended' };
+  }
+  if (remaining === 0) {
+    return { onSale: false, remaining, reason: 'Sold out' };
+  }
+  return { onSale: true, remaining };
+}
+
+/** True when no tickets can be issued: every tier is sold out, or the flat capacity is reached. */
+export function isEventSoldOut(event: Pick<Event, 'ticketTiers' | 'totalTickets' | 'ticketsSold'>): boolean {
+  if (Array.isArray(event.ticketTiers) && event.ticketTiers.length > 0) {
+    return event.ticketTiers.every((t) => getTierAvailability(t).remaining === 0);
+  }
+  if (!event.totalTickets || event.totalTickets <= 0) return false;
+  return (event.ticketsSold ?? 0) >= event.totalTickets;
+}
+
+export function getTierId(tier: TicketTier): string {
+  return tier._id || tier.id || tier.name;
+}
@@ -0,0 +1,44 @@
+import { File, Paths } from 'expo-file-system';
+import * as Linking from 'expo-linking';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { ticketsAPI, type Ticket, type WalletPlatform } from '@/lib/api/tickets';
+
+/**
+ * Wallet passes are built and signed by the backend from its own ticket record
+ * (Apple .pkpass needs the pass-type certificate; Google needs the issuer key), so the
+ * barcode and status can't be changed by the client. The backend also pushes status
+ * changes (used, cancelled) to installed passes.
+ */
+export function getWalletPlatform(): WalletPlatform {
+  return Platform.OS === 'ios' ? 'apple' : 'google';
+}
+
+/**
+ * Create (or replace) the wallet pass and hand it to the OS:
+ * Apple - .pkpass via the share sheet ("Add to Apple Wallet"); Google - the Save to Google Wallet link.
+ */
+export async function addTicketToWallet(ticket: Ticket): Promise<void> {
+  const platform = getWalletPlatform();
+  const response = await ticketsAPI.createWalletPass(ticket.id, { platform });
+  if (!response.success || !response.url) {
+    throw new Error(response.message || 'Could not create wallet pass');
+  }
+
+  if (platform === 'google') {
+    await Linking.openURL(response.url);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const file = await File.downloadFileAsync(response.url, new File(Paths.cache, `ticket-${ticket.id}.pkpass`), {
+    idempotent: true,
+  });
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/vnd.apple.pkpass',
+    UTI: 'com.apple.pkpass',
+    dialogTitle: 'Add to Wallet',
+  });
+}